@@ -0,0 +1,25 @@
+// Build-time additions to app.json
+// https://docs.expo.dev/workflow/configuration/#dynamic-configuration
+
+// Call log permissions are restricted on Google Play, only builds with
+// EXPO_PUBLIC_CALL_LOG=true read the call log, others time calls from app state alone
+const CALL_LOG_PERMISSIONS = [
+  "android.permission.READ_CALL_LOG",
+  "android.permission.WRITE_CALL_LOG",
+];
+
+module.exports = ({ config }) => {
+  const callLogEnabled = process.env.EXPO_PUBLIC_CALL_LOG === "true";
+
+  return {
+    ...config,
+    android: {
+      ...config.android,
+      permissions: callLogEnabled
+        ? [...config.android.permissions, "READ_CALL_LOG"]
+        : config.android.permissions,
+      // react-native-call-log declares them in its own manifest
+      blockedPermissions: callLogEnabled ? [] : CALL_LOG_PERMISSIONS,
+    },
+  };
+};
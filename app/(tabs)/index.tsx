@@ -1,8 +1,11 @@
 import LoadingView from "@/components/LoadingView";
-import { clearAuthData } from "@/services/api/auth";
+import PowerDialerSetupModal from "@/components/PowerDialerSetupModal";
+import { useRealtimeEvent } from "@/hooks/useRealtimeEvent";
+import { ApiError } from "@/services/api";
 import {
   fetchCampaignsWithCounts
 } from "@/services/campaignApi";
+import { startPowerDialer } from "@/services/powerDialer";
 import { Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
 import React, {
@@ -34,6 +37,9 @@ interface Campaign {
   lastLeadAssignedDate?: string;
 }
 
+// Leads that still need a first call, matches the server's pending count
+const PENDING_STATUS = "New";
+
 interface PaginationInfo {
   currentPage: number;
   totalPages: number;
@@ -57,6 +63,9 @@ export default function CampaignsTab() {
   >("leadCount");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [showSortModal, setShowSortModal] = useState(false);
+  const [powerDialerCampaign, setPowerDialerCampaign] =
+    useState<Campaign | null>(null);
+  const [startingPowerDialer, setStartingPowerDialer] = useState(false);
   const [searchLoading, setSearchLoading] = useState(false);
   const flatListRef = useRef<FlatList>(null);
   const searchAbortControllerRef = useRef<AbortController | null>(null);
@@ -147,13 +156,12 @@ export default function CampaignsTab() {
         const errorMessage = error?.message || "Failed to load campaigns";
         setError(errorMessage);
 
-        if (errorMessage.includes("Authentication failed")) {
-          Toast.show("Session expired. Please login again.", {
-            duration: Toast.durations.LONG,
-          });
-
-          await clearAuthData();
-        } else if (errorMessage.includes("Network request failed")) {
+        if (error instanceof ApiError && error.isAuthError) {
+          // RootLayout handles the session expired event and shows the login screen
+        } else if (
+          (error instanceof ApiError && error.isNetworkError) ||
+          errorMessage.includes("Network request failed")
+        ) {
           Toast.show(
             "Cannot connect to server. Please check your connection.",
             {
@@ -231,6 +239,53 @@ export default function CampaignsTab() {
     ]
   );
 
+  // Keep campaign counts live while the tab is open
+  const adjustCampaignCounts = useCallback(
+    (
+      tags: { Tag: string }[] | undefined,
+      leadDelta: number,
+      pendingDelta: number
+    ) => {
+      if (!tags?.length || (leadDelta === 0 && pendingDelta === 0)) return;
+      const tagNames = new Set(tags.map((tag) => tag.Tag));
+
+      setCampaigns((prev) =>
+        prev.map((campaign) =>
+          tagNames.has(campaign.Tag)
+            ? {
+                ...campaign,
+                leadCount: Math.max(0, campaign.leadCount + leadDelta),
+                pendingLeadsCount:
+                  campaign.pendingLeadsCount !== undefined
+                    ? Math.max(0, campaign.pendingLeadsCount + pendingDelta)
+                    : undefined,
+                lastLeadAssignedDate:
+                  leadDelta > 0
+                    ? new Date().toISOString()
+                    : campaign.lastLeadAssignedDate,
+              }
+            : campaign
+        )
+      );
+    },
+    []
+  );
+
+  useRealtimeEvent("lead_assigned", ({ lead }) => {
+    const status = lead?.LeadStatus?.Status || PENDING_STATUS;
+    const isPending = status === PENDING_STATUS;
+    adjustCampaignCounts(lead?.tags, 1, isPending ? 1 : 0);
+  });
+
+  useRealtimeEvent(
+    "lead_status_changed",
+    ({ LeadStatus, previousStatus, tags }) => {
+      const wasPending = previousStatus === PENDING_STATUS;
+      const isPending = LeadStatus?.Status === PENDING_STATUS;
+      adjustCampaignCounts(tags, 0, Number(isPending) - Number(wasPending));
+    }
+  );
+
   const handleCampaignPress = useCallback((campaign: Campaign) => {
     // Navigate to dedicated campaign details page
     router.push({
@@ -263,6 +318,38 @@ export default function CampaignsTab() {
     []
   );
 
+  const handleStartPowerDialer = useCallback(
+    async (wrapUpSeconds: number) => {
+      if (!powerDialerCampaign) return;
+
+      setStartingPowerDialer(true);
+      try {
+        const session = await startPowerDialer({
+          campaignId: powerDialerCampaign._id,
+          campaignName: powerDialerCampaign.Tag,
+          wrapUpSeconds,
+        });
+        setPowerDialerCampaign(null);
+        router.push({
+          pathname: `/lead-details/${session.queue[0].id}`,
+          params: {
+            fromCalling: "true",
+            campaignId: session.campaignId,
+            campaignName: session.campaignName,
+            powerDialer: "true",
+          },
+        });
+      } catch (error: any) {
+        Toast.show(error?.message || "Failed to start the power dialer", {
+          duration: Toast.durations.LONG,
+        });
+      } finally {
+        setStartingPowerDialer(false);
+      }
+    },
+    [powerDialerCampaign]
+  );
+
   useEffect(() => {
     loadCampaigns();
 
@@ -397,17 +484,29 @@ export default function CampaignsTab() {
           </View>
         </TouchableOpacity>
 
-        {/* Start Calling button - separate touchable area */}
-        <TouchableOpacity
-          className="w-20 bg-miles-500 flex justify-center items-center"
-          onPress={(event) => handleStartCalling(item, event)}
-          activeOpacity={0.8}
-        >
-          <Ionicons name="call" size={20} color="white" />
-          <Text className="text-white text-xs font-medium mt-1 text-center">
-            Start{"\n"}Calling
-          </Text>
-        </TouchableOpacity>
+        {/* Start Calling and Power Dial buttons - separate touchable areas */}
+        <View className="w-20">
+          <TouchableOpacity
+            className="flex-1 bg-miles-500 flex justify-center items-center py-2"
+            onPress={(event) => handleStartCalling(item, event)}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="call" size={20} color="white" />
+            <Text className="text-white text-xs font-medium mt-1 text-center">
+              Start{"\n"}Calling
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            className="flex-1 bg-miles-700 flex justify-center items-center py-2"
+            onPress={() => setPowerDialerCampaign(item)}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="flash" size={18} color="white" />
+            <Text className="text-white text-xs font-medium mt-1 text-center">
+              Power{"\n"}Dial
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
     </View>
   );
@@ -732,6 +831,17 @@ export default function CampaignsTab() {
           </View>
         </View>
       </Modal>
+
+      <PowerDialerSetupModal
+        visible={!!powerDialerCampaign}
+        campaignName={powerDialerCampaign?.Tag}
+        pendingLeads={powerDialerCampaign?.pendingLeadsCount}
+        starting={startingPowerDialer}
+        onClose={() => {
+          if (!startingPowerDialer) setPowerDialerCampaign(null);
+        }}
+        onStart={handleStartPowerDialer}
+      />
     </View>
   );
 }
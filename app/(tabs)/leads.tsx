@@ -43,8 +43,8 @@ import {
   exportLeads,
   fetchStatusCounts,
   fetchTagOptions,
-  updateLead,
 } from "@/services/api";
+import { patchCachedLead, removeCachedLeads } from "@/services/leadCache";
 import {
   getFlattenedAgents,
   getUsersFromAgents,
@@ -146,7 +146,7 @@ export default function LeadsPage() {
     onHeaderPress: () => setHeaderDropdownOpen(true),
   });
 
-  const userPermissions = useUserPermissions(user);
+  const { can } = useUserPermissions();
 
   // Optimize state updates to prevent flashing between lead sets
   useEffect(() => {
@@ -270,6 +270,8 @@ export default function LeadsPage() {
   }, []);
 
   const handleExport = useCallback(async () => {
+    if (!can("lead.export")) return;
+
     try {
       setIsExporting(true);
 
@@ -290,14 +292,15 @@ export default function LeadsPage() {
     } finally {
       setIsExporting(false);
     }
-  }, [selectedLeads, filters, user, showExportSuccess]);
+  }, [can, selectedLeads, filters, user, showExportSuccess]);
 
   const handleDelete = useCallback(async () => {
-    if (selectedLeads.length === 0) return;
+    if (selectedLeads.length === 0 || !can("lead.delete")) return;
 
     try {
       const leadIds = selectedLeads.map((lead) => lead._id);
       await deleteLeads(leadIds);
+      removeCachedLeads(leadIds);
 
       setLocalLeads((prevLeads) =>
         prevLeads.filter((lead) => !leadIds.includes(lead._id))
@@ -319,9 +322,10 @@ export default function LeadsPage() {
         duration: Toast.durations.LONG,
       });
     }
-  }, [selectedLeads, clearSelection]);
+  }, [can, selectedLeads, clearSelection]);
 
   const handleBulkActions = useCallback(() => {
+    if (!can("lead.bulk_update")) return;
     if (selectedLeads.length === 0) {
       Toast.show("Please select leads for bulk actions", {
         duration: Toast.durations.SHORT,
@@ -330,7 +334,7 @@ export default function LeadsPage() {
     }
 
     setShowBulkModal(true);
-  }, [selectedLeads.length]);
+  }, [can, selectedLeads.length]);
 
   const handleBulkOperationComplete = useCallback(async () => {
     clearSelection();
@@ -418,66 +422,46 @@ export default function LeadsPage() {
   ]);
 
   /**
-   * Handle lead update from LeadCard component
+   * Apply a lead update made by CallStatusUpdateModal to the list
+   * The modal has already sent the change (or queued it), this only patches local state
    */
   const handleLeadUpdate = useCallback(
     async (leadId: string, updates: any) => {
-      try {
-        await updateLead(leadId, updates);
-
-        setLocalLeads((prevLeads) =>
-          prevLeads.map((lead) => {
-            if (lead._id === leadId) {
-              const updatedLead = { ...lead, ...updates };
-
-              // Update lastCalled timestamp if there's a status change or comment
-              if (
-                updates.updateDescription ||
-                (updates.LeadStatus &&
-                  updates.LeadStatus._id !== lead.LeadStatus?._id)
-              ) {
-                updatedLead.lastCalled = Date.now();
-              }
-
-              // If there's an update description, create a new lastComment
-              if (
-                updates.updateDescription &&
-                updates.updateDescription.trim()
-              ) {
-                updatedLead.lastComment = {
-                  Content: updates.updateDescription,
-                  UserId: user.id,
-                  timestamp: Date.now(),
-                  // Add user info if available for display
-                  User: {
-                    username: user.username || user.name || "Current User",
-                  },
-                };
-                // Increment the visible comment count
-                updatedLead.visibleCommentCount =
-                  (lead.visibleCommentCount || 0) + 1;
-              }
-
-              return updatedLead;
-            }
-            return lead;
-          })
-        );
+      const lead = localLeads.find((item) => item._id === leadId);
+      if (!lead) return;
 
-        Toast.show("Lead updated successfully", {
-          duration: Toast.durations.SHORT,
-        });
+      const updatedLead = { ...lead, ...updates };
 
-        // Note: Removed refreshLeads() call to avoid unnecessary network request
-      } catch (error) {
-        console.error("Failed to update lead:", error);
-        Toast.show(`Failed to update lead: ${error.message}`, {
-          duration: Toast.durations.LONG,
-        });
-        throw error;
+      // Update lastCalled timestamp if there's a status change or comment
+      if (
+        updates.updateDescription ||
+        (updates.LeadStatus && updates.LeadStatus._id !== lead.LeadStatus?._id)
+      ) {
+        updatedLead.lastCalled = Date.now();
+      }
+
+      // If there's an update description, create a new lastComment
+      if (updates.updateDescription && updates.updateDescription.trim()) {
+        updatedLead.lastComment = {
+          Content: updates.updateDescription,
+          UserId: user.id,
+          timestamp: Date.now(),
+          // Add user info if available for display
+          User: {
+            username: user.username || user.name || "Current User",
+          },
+        };
+        // Increment the visible comment count
+        updatedLead.visibleCommentCount = (lead.visibleCommentCount || 0) + 1;
       }
+
+      setLocalLeads((prevLeads) =>
+        prevLeads.map((item) => (item._id === leadId ? updatedLead : item))
+      );
+      // Propagate to lead details and campaign screens showing this lead
+      patchCachedLead(leadId, updatedLead);
     },
-    [user]
+    [user, localLeads]
   );
 
   const openCallStatusUpdateModal = useCallback((lead: any, preSelectedStatusId?: string) => {
@@ -588,15 +572,12 @@ export default function LeadsPage() {
           totalLeads={localLeads.length}
           onSelectAll={handleSelectAll}
           onClearSelection={clearSelection}
-          onExport={userPermissions.export ? handleExport : undefined}
-          onDelete={userPermissions.delete ? handleDelete : undefined}
-          onBulkActions={
-            userPermissions.mapLeads ? handleBulkActions : undefined
-          }
-          onHistory={userPermissions.mapLeads ? handleHistory : undefined}
+          onExport={handleExport}
+          onDelete={handleDelete}
+          onBulkActions={handleBulkActions}
+          onHistory={handleHistory}
           onDealSubmission={handleDealSubmission}
           isExporting={isExporting}
-          userPermissions={userPermissions}
         />
       )}
 
@@ -612,7 +593,6 @@ export default function LeadsPage() {
         statusCountsLoading={statusCountsLoading}
         statusCountsExpanded={statusCountsExpanded}
         selectedLeads={selectedLeads}
-        userPermissions={userPermissions}
         leadCardRefs={leadCardRefs}
         scrollViewRef={scrollViewRef}
         currentPage={currentPage}
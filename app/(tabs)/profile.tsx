@@ -1,11 +1,19 @@
+import AppLockSettings from "@/components/AppLockSettings";
 import LogoutButton from "@/components/LogoutButton";
+import SessionsDevices from "@/components/SessionsDevices";
+import { useLocationUploadStatus } from "@/hooks/useLocationUploadStatus";
+import { useServerProfiles } from "@/hooks/useServerProfiles";
+import { useTrackingStatus } from "@/hooks/useTrackingStatus";
+import { TRACKING_MODE_LABELS } from "@/utils/trackingPolicy";
 import { UserContext } from "../_layout";
 import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
 import React, { useContext, useEffect, useState } from "react";
 import {
   SafeAreaView,
   ScrollView,
   Text,
+  TouchableOpacity,
   View,
 } from "react-native";
 import Toast from "react-native-root-toast";
@@ -19,6 +27,9 @@ interface UserInfo {
 export default function ProfileScreen() {
   const user = useContext(UserContext);
   const [userInfo, setUserInfo] = useState<UserInfo>({});
+  const { status: locationStatus } = useLocationUploadStatus();
+  const trackingStatus = useTrackingStatus();
+  const { activeProfile } = useServerProfiles();
 
   useEffect(() => {
     if (user) {
@@ -35,6 +46,26 @@ export default function ProfileScreen() {
     });
   };
 
+  const formatLocationSync = () => {
+    if (!locationStatus || locationStatus.pendingCount === 0) {
+      return "Up to date";
+    }
+    const lagMinutes = Math.round(locationStatus.lagMs / 60000);
+    return `${locationStatus.pendingCount} points waiting (${
+      lagMinutes < 1 ? "under a minute" : `${lagMinutes} min`
+    } behind)`;
+  };
+
+  const formatTrackingMode = () => {
+    if (!trackingStatus) return "Not started";
+    // Updates can only restart in the foreground
+    const pending =
+      trackingStatus.runningMode !== trackingStatus.mode
+        ? " · applies when the app is opened"
+        : "";
+    return `${TRACKING_MODE_LABELS[trackingStatus.mode]} · ${trackingStatus.reason}${pending}`;
+  };
+
   const InfoRow: React.FC<{ icon: string; label: string; value: string }> = ({
     icon,
     label,
@@ -49,6 +80,25 @@ export default function ProfileScreen() {
     </View>
   );
 
+  const ActivityRow: React.FC<{
+    icon: string;
+    title: string;
+    subtitle: string;
+    onPress: () => void;
+  }> = ({ icon, title, subtitle, onPress }) => (
+    <TouchableOpacity
+      className="flex-row items-center py-3 border-b border-gray-100 last:border-b-0"
+      onPress={onPress}
+    >
+      <Ionicons name={icon as any} size={20} color="#6B7280" />
+      <View className="ml-3 flex-1">
+        <Text className="text-gray-700 font-medium">{title}</Text>
+        <Text className="text-gray-500 text-sm">{subtitle}</Text>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+    </TouchableOpacity>
+  );
+
   return (
     <SafeAreaView className="flex-1 bg-gray-50">
       <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
@@ -86,6 +136,47 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Activity */}
+        <View className="px-5 py-4">
+          <Text className="text-lg font-semibold text-gray-900 mb-3">
+            Activity
+          </Text>
+          <View className="bg-white rounded-xl px-4 shadow-sm">
+            <ActivityRow
+              icon="map-outline"
+              title="My Day"
+              subtitle="Today's stops, distance and site visits"
+              onPress={() => router.push("/my-day")}
+            />
+            <ActivityRow
+              icon="stats-chart-outline"
+              title="Calling Stats"
+              subtitle="Talk time, calls and team comparison"
+              onPress={() => router.push("/calling-stats")}
+            />
+          </View>
+        </View>
+
+        {/* Security */}
+        <View className="px-5 py-4">
+          <Text className="text-lg font-semibold text-gray-900 mb-3">
+            Security
+          </Text>
+          <View className="bg-white rounded-xl px-4 shadow-sm">
+            <AppLockSettings />
+          </View>
+        </View>
+
+        {/* Sessions & Devices */}
+        <View className="px-5 py-4">
+          <Text className="text-lg font-semibold text-gray-900 mb-3">
+            Sessions & Devices
+          </Text>
+          <View className="bg-white rounded-xl px-4 shadow-sm">
+            <SessionsDevices />
+          </View>
+        </View>
+
         {/* App Information */}
         <View className="px-5 py-4">
           <Text className="text-lg font-semibold text-gray-900 mb-3">
@@ -102,6 +193,21 @@ export default function ProfileScreen() {
               label="App"
               value="Miles Client"
             />
+            <InfoRow
+              icon="server-outline"
+              label="Server"
+              value={activeProfile.name}
+            />
+            <InfoRow
+              icon="navigate-outline"
+              label="Location Sync"
+              value={formatLocationSync()}
+            />
+            <InfoRow
+              icon="speedometer-outline"
+              label="Tracking Mode"
+              value={formatTrackingMode()}
+            />
           </View>
         </View>
 
@@ -1,9 +1,51 @@
+import AppLockScreen from "@/components/AppLockScreen";
+import CallGuardModal from "@/components/CallGuardModal";
 import LoginPage from "@/components/LoginPage";
+import { useAppLock } from "@/hooks/useAppLock";
 import useLocation from "@/hooks/useLocation";
+import { useInboundCallMatching } from "@/hooks/useInboundCallMatching";
+import { useMeetingVisitPrompts } from "@/hooks/useMeetingVisitPrompts";
 import useOneSignal from "@/hooks/useOneSignal";
+import { useServerProfileLinks } from "@/hooks/useServerProfileLinks";
+import { validateAuthToken } from "@/services/api/auth";
+import {
+  clearPersistedBuildConfig,
+  persistBuildConfig,
+} from "@/services/api/config";
+import {
+  onSessionExpired,
+  resetSessionExpired,
+} from "@/services/api/session";
+import {
+  clearAppLock,
+  lockOnLaunch,
+  startAppLockSync,
+} from "@/services/appLock";
+import { recoverInterruptedDialerSession } from "@/services/dialerSessions";
+import { clearInboundCalls } from "@/services/inboundCalls";
+import { clearLeadCache } from "@/services/leadCache";
+import {
+  clearLocationBuffer,
+  discardOtherAgentsLocations,
+  startLocationUploadSync,
+} from "@/services/locationBuffer";
+import { clearLocationHistory } from "@/services/locationHistory";
+import {
+  startTrackingPolicySync,
+  stopTracking,
+} from "@/services/locationTracking";
+import { clearMeetingVisits } from "@/services/meetingVisits";
+import { startOutboxSync } from "@/services/outbox";
+import {
+  clearPermissions,
+  startPermissionSync,
+} from "@/services/permissions";
+import { clearPowerDialer } from "@/services/powerDialer";
+import { resetRealtimeCursor, startRealtime } from "@/services/realtime";
+import { loadServerProfiles } from "@/services/serverProfiles";
 // Import background location task to ensure it's registered
 import * as Location from "expo-location";
-import { Stack } from "expo-router";
+import { router, Stack } from "expo-router";
 import * as SecureStore from "expo-secure-store";
 import { StatusBar } from "expo-status-bar";
 import * as TaskManager from "expo-task-manager";
@@ -11,9 +53,12 @@ import { jwtDecode } from "jwt-decode";
 import React, { createContext, useEffect, useState } from "react";
 import { AppState } from "react-native";
 import { RootSiblingParent } from "react-native-root-siblings";
+import Toast from "react-native-root-toast";
 import "../global.css";
 import "../tasks/backgroundLocationTask";
 import { BACKGROUND_LOCATION_TASK } from "../tasks/backgroundLocationTask";
+import { unregisterInboundCallTask } from "../tasks/inboundCallTask";
+import { unregisterTrackingPolicyTask } from "../tasks/trackingPolicyTask";
 
 export const UserContext = createContext<any | null>(null);
 export const LogoutContext = createContext<(() => Promise<void>) | null>(null);
@@ -30,6 +75,14 @@ export default function RootLayout() {
   // Get location hook functions
   const { permissionGranted, requestLocationPermission } = useLocation(user);
 
+  // Automatic meeting check-in and check-out from tracked locations
+  useMeetingVisitPrompts(user);
+
+  // Match missed and received calls to leads from the call log
+  useInboundCallMatching(user);
+
+  const locked = useAppLock();
+
   // Function to validate stored token and handle logout
   const validateStoredToken = async () => {
     if (authCheckInProgress) return;
@@ -43,14 +96,21 @@ export default function RootLayout() {
           const decodedToken = jwtDecode(storedToken);
           const currentTime = Math.floor(Date.now() / 1000);
 
-          // Check if token is expired
+          // Refresh an expired token, a rejected refresh logs out through onSessionExpired
           if (decodedToken.exp && currentTime > decodedToken.exp) {
-            await handleLogout();
-          } else {
-            // Token is still valid, update state
-            setToken(storedToken);
-            setUser(decodedToken);
+            try {
+              if (!(await validateAuthToken())) return;
+            } catch (refreshError) {
+              // Offline, keep the session and refresh once the server is reachable
+              console.warn("Token refresh deferred:", refreshError);
+            }
           }
+
+          const currentToken =
+            (await SecureStore.getItemAsync("userToken")) ?? storedToken;
+          await persistBuildConfig();
+          setToken(currentToken);
+          setUser(jwtDecode(currentToken));
         } catch (tokenError) {
           console.error("Token decode error in _layout:", tokenError);
           await handleLogout();
@@ -64,7 +124,8 @@ export default function RootLayout() {
   };
 
   // Function to handle complete logout
-  const handleLogout = async () => {
+  // keepBiometricSignIn lets an expired session be resumed with biometrics
+  const handleLogout = async (keepBiometricSignIn = false) => {
     try {
       // Stop background location tracking
       const isRegistered = await TaskManager.isTaskRegisteredAsync(
@@ -74,13 +135,24 @@ export default function RootLayout() {
         await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
         console.log("Background location task stopped on logout");
       }
+      await unregisterTrackingPolicyTask();
+      await unregisterInboundCallTask();
+      await stopTracking(); // Forget the previous user's tracking mode
 
       await SecureStore.deleteItemAsync("userToken");
       await SecureStore.deleteItemAsync("refreshToken");
-      await SecureStore.deleteItemAsync("user_permissions");
+      await clearPermissions();
       await SecureStore.deleteItemAsync("currentUser"); // Clean up stored user for background tasks
-      await SecureStore.deleteItemAsync("lastLocationSentTime"); // Clean up location timing
-      await SecureStore.deleteItemAsync("lastLocationSent"); // Clean up last location
+      // Buffered points wait for the same user to sign in again after an expiry
+      if (!keepBiometricSignIn) await clearLocationBuffer();
+      await clearLocationHistory();
+      await clearMeetingVisits();
+      await clearPersistedBuildConfig();
+      await clearLeadCache(); // Cached leads belong to the previous user
+      clearPowerDialer();
+      await clearInboundCalls();
+      await clearAppLock(keepBiometricSignIn);
+      await resetRealtimeCursor();
       setToken(null);
       setUser(null);
     } catch (error) {
@@ -91,8 +163,84 @@ export default function RootLayout() {
     }
   };
 
+  // Configuration links switch the server, signing out first
+  useServerProfileLinks(user, () => handleLogout());
+
+  // The API layer emits this once when a token refresh fails or the stored token is unusable
+  useEffect(() => {
+    const unsubscribe = onSessionExpired(async (reason) => {
+      Toast.show(
+        reason === "invalid_token"
+          ? "Invalid session. Please login again."
+          : "Session expired. Please login again.",
+        { duration: Toast.durations.LONG }
+      );
+      await handleLogout(true);
+    });
+    return unsubscribe;
+  }, []);
+
+  // Permissions come from the server at login, on token refresh and on foreground
+  useEffect(() => {
+    if (!user) return;
+    return startPermissionSync();
+  }, [user]);
+
+  // Lock again after the app has been away for the idle period
+  useEffect(() => {
+    if (!user) return;
+    return startAppLockSync();
+  }, [user]);
+
+  // Replay offline changes while logged in
+  useEffect(() => {
+    if (!user) return;
+    return startOutboxSync();
+  }, [user]);
+
+  // Upload buffered locations as soon as connectivity returns
+  useEffect(() => {
+    if (!user) return;
+    return startLocationUploadSync();
+  }, [user]);
+
+  // Adjust location tracking to battery changes while logged in
+  useEffect(() => {
+    if (!user) return;
+    return startTrackingPolicySync();
+  }, [user]);
+
+  // Live lead updates while logged in
+  useEffect(() => {
+    if (!user) return;
+    return startRealtime();
+  }, [user]);
+
+  // Close a call the OS cut short by killing the app and ask for its outcome
+  useEffect(() => {
+    if (!user) return;
+    recoverInterruptedDialerSession()
+      .then((recovered) => {
+        if (!recovered) return;
+        router.push({
+          pathname: "/lead-details/[id]",
+          params: {
+            id: recovered.session.leadId,
+            recoveredCall: recovered.session.id,
+          },
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to recover dialer session:", error);
+      });
+  }, [user]);
+
   useEffect(() => {
     const initializeApp = async () => {
+      // Every API call goes to the server chosen on the login screen
+      await loadServerProfiles();
+      // Lock before the stored session renders anything
+      await lockOnLaunch();
       await validateStoredToken();
       setLoaded(true);
     };
@@ -168,6 +316,13 @@ export default function RootLayout() {
 
       // Store token
       await SecureStore.setItemAsync("userToken", newToken);
+      resetSessionExpired();
+
+      // Points kept from an expired session only upload for the user who recorded them
+      await discardOtherAgentsLocations(decodedToken.id);
+
+      // Background location reports to the backend this build logged into
+      await persistBuildConfig();
 
       // Update app state
       setToken(newToken);
@@ -186,7 +341,7 @@ export default function RootLayout() {
     <RootSiblingParent>
       <StatusBar style="dark" backgroundColor="#ffffff" />
       <UserContext.Provider value={user}>
-        <LogoutContext.Provider value={handleLogout}>
+        <LogoutContext.Provider value={() => handleLogout()}>
           <Stack>
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen
@@ -202,7 +357,38 @@ export default function RootLayout() {
                 headerShadowVisible: true,
               }}
             />
+            <Stack.Screen name="server" options={{ headerShown: false }} />
+            <Stack.Screen name="oauth" options={{ headerShown: false }} />
+            <Stack.Screen
+              name="my-day"
+              options={{
+                headerShown: true,
+                headerTitle: "My Day",
+                headerBackTitle: "Back",
+                headerTintColor: "#374151",
+              }}
+            />
+            <Stack.Screen
+              name="calling-stats"
+              options={{
+                headerShown: true,
+                headerTitle: "Calling Stats",
+                headerBackTitle: "Back",
+                headerTintColor: "#374151",
+              }}
+            />
+            <Stack.Screen
+              name="power-dialer-summary"
+              options={{
+                headerShown: true,
+                headerTitle: "Power Dialer Summary",
+                headerBackTitle: "Back",
+                headerTintColor: "#374151",
+              }}
+            />
           </Stack>
+          <CallGuardModal />
+          {locked && <AppLockScreen />}
         </LogoutContext.Provider>
       </UserContext.Provider>
     </RootSiblingParent>
@@ -0,0 +1,203 @@
+import LoadingView from "@/components/LoadingView";
+import { AgentCallingStats, useCallingStats } from "@/hooks/useCallingStats";
+import {
+  CallingStats,
+  formatTalkTime,
+  percentChange,
+  STATS_PERIOD_LABELS,
+  StatsPeriod,
+} from "@/utils/callingStats";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useContext, useState } from "react";
+import {
+  RefreshControl,
+  ScrollView,
+  Text,
+  TouchableWithoutFeedback,
+  View,
+} from "react-native";
+import { UserContext } from "./_layout";
+
+const PERIODS: StatsPeriod[] = ["day", "week", "month"];
+
+const formatCallsPerHour = (stats: CallingStats) =>
+  stats.callsPerHour === null ? "–" : stats.callsPerHour.toFixed(1);
+
+const PeriodSelector: React.FC<{
+  period: StatsPeriod;
+  onChange: (period: StatsPeriod) => void;
+}> = ({ period, onChange }) => (
+  <View className="flex-row bg-miles-50 rounded-xl p-1">
+    {PERIODS.map((option) => (
+      <TouchableWithoutFeedback key={option} onPress={() => onChange(option)}>
+        <View
+          className={`flex-1 py-2 px-4 rounded-lg items-center ${
+            period === option ? "bg-miles-500 shadow-sm" : "bg-transparent"
+          }`}
+        >
+          <Text
+            className={`font-semibold ${
+              period === option ? "text-white" : "text-miles-700"
+            }`}
+          >
+            {STATS_PERIOD_LABELS[option].current}
+          </Text>
+        </View>
+      </TouchableWithoutFeedback>
+    ))}
+  </View>
+);
+
+const StatCard: React.FC<{
+  icon: string;
+  label: string;
+  value: string;
+  change: number | null;
+  previousLabel: string;
+}> = ({ icon, label, value, change, previousLabel }) => (
+  <View className="w-[48%] bg-white rounded-xl p-4 mb-3 shadow-sm">
+    <View className="flex-row items-center mb-2">
+      <Ionicons name={icon as any} size={16} color="#6B7280" />
+      <Text className="text-sm text-gray-500 ml-2">{label}</Text>
+    </View>
+    <Text className="text-2xl font-bold text-gray-900">{value}</Text>
+    {change !== null ? (
+      <Text
+        className={`text-xs mt-1 ${
+          change >= 0 ? "text-emerald-600" : "text-red-600"
+        }`}
+      >
+        {change >= 0 ? "▲" : "▼"} {Math.abs(change)}% vs {previousLabel}
+      </Text>
+    ) : (
+      <Text className="text-xs mt-1 text-gray-400">
+        No calls {previousLabel}
+      </Text>
+    )}
+  </View>
+);
+
+const AgentRow: React.FC<{ agent: AgentCallingStats }> = ({ agent }) => (
+  <View className="flex-row items-center py-3 border-b border-gray-100">
+    <Ionicons name="person-circle-outline" size={28} color="#176298" />
+    <View className="ml-3 flex-1">
+      <Text className="text-sm font-semibold text-gray-900">{agent.name}</Text>
+      <Text className="text-xs text-gray-500">
+        {agent.stats.totalCalls} calls · avg{" "}
+        {formatTalkTime(agent.stats.averageCallSeconds)} ·{" "}
+        {formatCallsPerHour(agent.stats)}/h
+      </Text>
+    </View>
+    <Text className="text-sm font-semibold text-gray-700">
+      {formatTalkTime(agent.stats.talkTimeSeconds)}
+    </Text>
+  </View>
+);
+
+export default function CallingStatsScreen() {
+  const user = useContext(UserContext);
+  const [period, setPeriod] = useState<StatsPeriod>("day");
+  const {
+    current,
+    previous,
+    team,
+    showTeam,
+    loading,
+    teamLoading,
+    refreshing,
+    error,
+    refresh,
+  } = useCallingStats(user, period);
+
+  const previousLabel = STATS_PERIOD_LABELS[period].previous;
+
+  return (
+    <ScrollView
+      className="flex-1 bg-gray-50"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={refresh} />
+      }
+    >
+      <View className="bg-white border-b border-gray-200 px-5 py-4">
+        <PeriodSelector period={period} onChange={setPeriod} />
+      </View>
+
+      {loading && !refreshing ? (
+        <View className="py-16 items-center">
+          <LoadingView />
+        </View>
+      ) : error || !current ? (
+        <View className="m-5 bg-white rounded-xl p-6 items-center shadow-sm">
+          <Ionicons name="cloud-offline-outline" size={32} color="#9CA3AF" />
+          <Text className="text-gray-500 mt-2 text-center">
+            {error || "No call stats available"}
+          </Text>
+        </View>
+      ) : (
+        <View className="px-5 pt-4 flex-row flex-wrap justify-between">
+          <StatCard
+            icon="time-outline"
+            label="Talk Time"
+            value={formatTalkTime(current.talkTimeSeconds)}
+            change={percentChange(
+              current.talkTimeSeconds,
+              previous?.talkTimeSeconds || 0
+            )}
+            previousLabel={previousLabel}
+          />
+          <StatCard
+            icon="call-outline"
+            label="Calls"
+            value={`${current.totalCalls}`}
+            change={percentChange(
+              current.totalCalls,
+              previous?.totalCalls || 0
+            )}
+            previousLabel={previousLabel}
+          />
+          <StatCard
+            icon="hourglass-outline"
+            label="Avg Call"
+            value={formatTalkTime(current.averageCallSeconds)}
+            change={percentChange(
+              current.averageCallSeconds,
+              previous?.averageCallSeconds || 0
+            )}
+            previousLabel={previousLabel}
+          />
+          <StatCard
+            icon="speedometer-outline"
+            label="Calls / Hour"
+            value={formatCallsPerHour(current)}
+            change={percentChange(
+              current.callsPerHour || 0,
+              previous?.callsPerHour || 0
+            )}
+            previousLabel={previousLabel}
+          />
+        </View>
+      )}
+
+      {showTeam && (
+        <View className="px-5 pt-2 pb-8">
+          <Text className="text-lg font-semibold text-gray-900 mb-3">Team</Text>
+          <View className="bg-white rounded-xl px-4 shadow-sm">
+            {teamLoading ? (
+              <View className="py-6 items-center">
+                <LoadingView />
+              </View>
+            ) : team.length > 0 ? (
+              team.map((agent) => (
+                <AgentRow key={agent.agentId} agent={agent} />
+              ))
+            ) : (
+              <Text className="text-gray-500 text-center py-6">
+                No agents in your team
+              </Text>
+            )}
+          </View>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
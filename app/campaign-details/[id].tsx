@@ -1,5 +1,12 @@
+import DispositionReport from "@/components/campaignDetails/DispositionReport";
 import LoadingView from "@/components/LoadingView";
+import { useLeadCacheUpdates } from "@/hooks/useLeadCacheUpdates";
 import { fetchCampaignLeads } from "@/services/campaignApi";
+import {
+  buildLeadListKey,
+  cacheLeadList,
+  getCachedLeadList,
+} from "@/services/leadCache";
 import { Ionicons } from "@expo/vector-icons";
 import { router, Stack, useLocalSearchParams } from "expo-router";
 import React, {
@@ -16,6 +23,7 @@ import {
   RefreshControl,
   Text,
   TouchableOpacity,
+  TouchableWithoutFeedback,
   View,
 } from "react-native";
 import Toast from "react-native-root-toast";
@@ -53,6 +61,10 @@ interface Lead {
   lastCalled?: string;
 }
 
+type CampaignView = "Leads" | "Report";
+
+const CAMPAIGN_VIEWS: CampaignView[] = ["Leads", "Report"];
+
 export default function CampaignDetailsPage() {
   const user = useContext(UserContext);
   const params = useLocalSearchParams();
@@ -72,9 +84,13 @@ export default function CampaignDetailsPage() {
   const [currentPage, setCurrentPage] = useState(0);
   const [hasMorePages, setHasMorePages] = useState(true);
   const [isLoadingTriggered, setIsLoadingTriggered] = useState(false);
+  const [activeView, setActiveView] = useState<CampaignView>("Leads");
 
   const leadsPerPage = 20;
 
+  // Reflect status updates made from lead details
+  useLeadCacheUpdates(setLeads);
+
   const loadLeads = useCallback(
     async (page = 0, append = false) => {
       if (!user || !campaignId) {
@@ -83,6 +99,8 @@ export default function CampaignDetailsPage() {
         return;
       }
 
+      let showingCached = false;
+
       try {
         setError(null);
         if (append) {
@@ -95,8 +113,20 @@ export default function CampaignDetailsPage() {
           page: page + 1, // Convert to 1-based pagination for API
           limit: leadsPerPage,
         };
+        const cacheKey = buildLeadListKey("campaign", campaignFilters);
+
+        // Show the cached first page while the request below revalidates it
+        if (!append) {
+          const cached = await getCachedLeadList(cacheKey);
+          if (cached) {
+            setLeads(cached.leads);
+            setLoading(false);
+            showingCached = true;
+          }
+        }
 
         const response = await fetchCampaignLeads(campaignFilters);
+        cacheLeadList(cacheKey, response.data, response.totalLeads);
 
         if (append) {
           setLeads((prev) => [...prev, ...response.data]);
@@ -109,7 +139,8 @@ export default function CampaignDetailsPage() {
         setHasMorePages(page + 1 < totalPages);
       } catch (error: any) {
         const errorMessage = error?.message || "Failed to load campaign leads";
-        setError(errorMessage);
+        // Keep the cached list on screen rather than replacing it with an error
+        if (!showingCached) setError(errorMessage);
 
         Toast.show("Failed to load leads", {
           duration: Toast.durations.SHORT,
@@ -397,28 +428,59 @@ export default function CampaignDetailsPage() {
         }}
       />
       <View className="flex-1 bg-gray-50">
-        <FlatList
-          ref={flatListRef}
-          data={leads}
-          renderItem={renderLeadCard}
-          keyExtractor={(item) => item._id}
-          ListHeaderComponent={renderHeader}
-          ListEmptyComponent={renderEmptyState}
-          ListFooterComponent={renderLoadingFooter}
-          refreshControl={
-            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-          }
-          onScroll={handleScroll}
-          scrollEventThrottle={16}
-          contentContainerStyle={
-            leads.length === 0 ? { flex: 1 } : { paddingBottom: 20 }
-          }
-          showsVerticalScrollIndicator={false}
-          removeClippedSubviews={true}
-          maxToRenderPerBatch={10}
-          updateCellsBatchingPeriod={50}
-          initialNumToRender={20}
-        />
+        <View className="bg-white px-4 pt-3">
+          <View className="flex-row bg-miles-50 rounded-xl p-1">
+            {CAMPAIGN_VIEWS.map((view) => (
+              <TouchableWithoutFeedback
+                key={view}
+                onPress={() => setActiveView(view)}
+              >
+                <View
+                  className={`flex-1 py-2 px-4 rounded-lg items-center ${
+                    activeView === view
+                      ? "bg-miles-500 shadow-sm"
+                      : "bg-transparent"
+                  }`}
+                >
+                  <Text
+                    className={`font-semibold ${
+                      activeView === view ? "text-white" : "text-miles-700"
+                    }`}
+                  >
+                    {view}
+                  </Text>
+                </View>
+              </TouchableWithoutFeedback>
+            ))}
+          </View>
+        </View>
+
+        {activeView === "Report" ? (
+          <DispositionReport campaignName={campaignName} />
+        ) : (
+          <FlatList
+            ref={flatListRef}
+            data={leads}
+            renderItem={renderLeadCard}
+            keyExtractor={(item) => item._id}
+            ListHeaderComponent={renderHeader}
+            ListEmptyComponent={renderEmptyState}
+            ListFooterComponent={renderLoadingFooter}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+            }
+            onScroll={handleScroll}
+            scrollEventThrottle={16}
+            contentContainerStyle={
+              leads.length === 0 ? { flex: 1 } : { paddingBottom: 20 }
+            }
+            showsVerticalScrollIndicator={false}
+            removeClippedSubviews={true}
+            maxToRenderPerBatch={10}
+            updateCellsBatchingPeriod={50}
+            initialNumToRender={20}
+          />
+        )}
       </View>
     </>
   );
@@ -3,10 +3,9 @@ import {
   fetchCampaignLeadIds,
   fetchCampaignLeads,
 } from "@/services/campaignApi";
-import { getUserPermissions } from "@/utils/userPermissions";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useNavigation, useRouter } from "expo-router";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   Alert,
   Linking,
@@ -19,19 +18,37 @@ import {
 } from "react-native";
 import Toast from "react-native-root-toast";
 import CallStatusUpdateModal from "../../components/CallStatusUpdateModal";
+import CallsTab from "../../components/leadDetails/CallsTab";
 import CommentsTab from "../../components/leadDetails/CommentsTab";
 import MeetingsTab from "../../components/leadDetails/MeetingsTab";
+import PowerDialerBar from "../../components/leadDetails/PowerDialerBar";
 import ProfileTab from "../../components/leadDetails/ProfileTab";
 import RemindersTab from "../../components/leadDetails/RemindersTab";
+import SyncStatusBanner from "../../components/leadDetails/SyncStatusBanner";
 import MeetingModal from "../../components/MeetingModal";
 import ReminderModal from "../../components/ReminderModal";
 import { useDialerTimeTracking } from "../../hooks/useDialerTimeTracking";
+import { usePowerDialer } from "../../hooks/usePowerDialer";
+import { fetchStatusOptions, getUsers } from "../../services/api";
 import {
-  fetchLeadById,
-  fetchStatusOptions,
-  getUsers,
-  logDialerSession,
-} from "../../services/api";
+  getCachedLead,
+  hydrateLeadCache,
+  patchCachedLead,
+  revalidateLead,
+  subscribeLeadCache,
+} from "../../services/leadCache";
+import {
+  logCallDispositionOrQueue,
+  logDialerSessionOrQueue,
+} from "../../services/outbox";
+import { guardCall } from "../../services/callGuard";
+import {
+  advancePowerDialer,
+  markPowerDialerDialed,
+  recordPowerDialerCall,
+  recordPowerDialerStatus,
+} from "../../services/powerDialer";
+import { getLeadPhone } from "../../utils/phone";
 
 interface Lead {
   _id: string;
@@ -66,7 +83,7 @@ interface Lead {
   dynamicFields?: Record<string, any>;
 }
 
-type TabType = "Profile" | "Comments" | "Reminders" | "Meetings";
+type TabType = "Profile" | "Comments" | "Reminders" | "Meetings" | "Calls";
 
 export default function LeadDetailsPage() {
   const router = useRouter();
@@ -79,6 +96,16 @@ export default function LeadDetailsPage() {
   const campaignId = params.campaignId as string;
   const campaignName = params.campaignName as string;
   const startingFromAuto = fromCalling && (!id || id === "auto");
+  // Set when the agent checked out of a meeting with this lead and wants to record the outcome
+  const meetingOutcome = params.meetingOutcome as string | undefined;
+  // Id of the dialer session that was cut short by the app being killed
+  const recoveredCall = params.recoveredCall as string | undefined;
+  const promptOutcome = !!meetingOutcome || !!recoveredCall;
+  // Set when the lead was opened by the power dialer
+  const powerDialerMode = params.powerDialer === "true";
+  const { session: powerDialer, secondsLeft: powerDialerSecondsLeft } =
+    usePowerDialer();
+  const activePowerDialer = powerDialerMode ? powerDialer : null;
 
   const [lead, setLead] = useState<Lead | null>(null);
   const [loading, setLoading] = useState(true);
@@ -114,8 +141,8 @@ export default function LeadDetailsPage() {
   const [callReminderAdded, setCallReminderAdded] = useState(false);
   const [callMeetingAdded, setCallMeetingAdded] = useState(false);
   const [callComment, setCallComment] = useState("");
-
-  const permissions = getUserPermissions();
+  // Dialer session the outcome being recorded belongs to, kept once the route params are cleared
+  const outcomeSessionIdRef = useRef<string | undefined>(undefined);
 
   // Dialer time tracking
   const dialerTimeTracking = useDialerTimeTracking({
@@ -132,6 +159,7 @@ export default function LeadDetailsPage() {
             }s`
           : "0s",
         transferredToDialer: session.transferredToDialer,
+        answered: session.answered,
         phoneNumber: session.phoneNumber,
         startTime: new Date(session.startedAt).toLocaleTimeString(),
         endTime: session.endedAt
@@ -139,23 +167,37 @@ export default function LeadDetailsPage() {
           : "N/A",
       });
 
-      // Log dialer session to API if duration is valid
+      if (powerDialerMode) {
+        recordPowerDialerCall(
+          session.leadId,
+          session.answered ?? (session.durationSeconds || 0) > 0
+        );
+      }
+
+      // Log dialer session to API if duration is valid, unanswered calls count as attempts
       if (
         session.endedAt &&
-        session.durationSeconds &&
-        session.durationSeconds > 0
+        ((session.durationSeconds && session.durationSeconds > 0) ||
+          session.answered === false)
       ) {
         try {
-          const result = await logDialerSession({
+          const { queued, result } = await logDialerSessionOrQueue({
+            sessionId: session.id,
             leadId: session.leadId,
             phoneNumber: session.phoneNumber,
             startedAt: new Date(session.startedAt).toISOString(),
             endedAt: new Date(session.endedAt).toISOString(),
-            durationSeconds: session.durationSeconds,
+            durationSeconds: session.durationSeconds || 0,
             transferredToDialer: session.transferredToDialer,
+            answered: session.answered,
+            endSource: session.endSource,
             platform: Platform.OS,
           });
-          console.log("✅ Dialer session logged to backend:", result.sessionId);
+          console.log(
+            queued
+              ? "📥 Dialer session queued until back online"
+              : `✅ Dialer session logged to backend: ${result?.sessionId}`
+          );
         } catch (error) {
           console.warn("❌ Failed to log dialer session:", error);
         }
@@ -277,8 +319,9 @@ export default function LeadDetailsPage() {
 
     navigation.setOptions({
       headerTitle: lead ? lead.Name : "Lead Details",
+      // The power dialer moves between leads on its own
       headerRight: () =>
-        campaignLeads.length > 0 ? (
+        campaignLeads.length > 0 && !powerDialerMode ? (
           <TouchableOpacity
             onPress={navigateToNextLead}
             disabled={!canGoNext}
@@ -308,8 +351,19 @@ export default function LeadDetailsPage() {
     campaignLeads.length,
     loadingNavigation,
     navigateToNextLead,
+    powerDialerMode,
   ]);
 
+  // Keep the lead in sync with edits made from other screens
+  useEffect(() => {
+    if (!id) return;
+    return subscribeLeadCache((changedIds) => {
+      if (!changedIds.includes(id)) return;
+      const cachedLead = getCachedLead(id);
+      if (cachedLead) setLead(cachedLead);
+    });
+  }, [id]);
+
   // Load status options and users
   useEffect(() => {
     const loadData = async () => {
@@ -328,16 +382,39 @@ export default function LeadDetailsPage() {
     loadData();
   }, []);
 
+  // Ask for the meeting or call outcome once the lead and statuses are ready
+  useEffect(() => {
+    if (!promptOutcome || !lead || statusOptions.length === 0) return;
+    setCallReminderAdded(false);
+    setCallMeetingAdded(false);
+    setCallComment("");
+    setShowCallStatusModal(true);
+    outcomeSessionIdRef.current = recoveredCall;
+    navigation.setParams({
+      meetingOutcome: undefined,
+      recoveredCall: undefined,
+    } as never);
+  }, [promptOutcome, recoveredCall, lead, statusOptions.length, navigation]);
+
   useEffect(() => {
     if (!id) return;
     if (startingFromAuto) return; // wait for auto-resolution to replace with actual lead id
 
     const fetchLead = async () => {
+      // Show the cached lead right away and revalidate it in the background
+      await hydrateLeadCache();
+      const cachedLead = getCachedLead(id);
+
       try {
-        setLoading(true);
         setError(null);
+        if (cachedLead) {
+          setLead(cachedLead);
+          setLoading(false);
+        } else {
+          setLoading(true);
+        }
 
-        const leadData = await fetchLeadById(id);
+        const leadData = await revalidateLead(id);
         setLead(leadData);
 
         // Load campaign leads if in calling mode
@@ -346,7 +423,7 @@ export default function LeadDetailsPage() {
         }
       } catch (err) {
         console.error(err);
-        setError("Failed to load lead details");
+        if (!cachedLead) setError("Failed to load lead details");
       } finally {
         setLoading(false);
         setLoadingNavigation(false);
@@ -363,25 +440,61 @@ export default function LeadDetailsPage() {
     const nextIdx = currentLeadIndex + 1;
     if (nextIdx >= campaignLeads.length) return;
     const nextId = campaignLeads[nextIdx];
-    // Simple prefetch without caching - let the browser handle caching
-    fetchLeadById(nextId).catch(() => {});
+    // Warm the lead cache so the next lead opens without a spinner
+    revalidateLead(nextId).catch(() => {});
   }, [lead, currentLeadIndex, campaignLeads]);
 
-  const handleLeadUpdate = async () => {
+  const handleLeadUpdate = async (leadOrId?: any, updates?: any) => {
+    // Apply the change locally first so the leads list and campaign screens update too
+    const localChanges = typeof leadOrId === "string" ? updates : leadOrId;
+    if (localChanges) patchCachedLead(id, localChanges);
+
     // Refetch the lead data to ensure we have the latest information
     try {
-      const leadData = await fetchLeadById(id);
+      const leadData = await revalidateLead(id);
       setLead(leadData);
-
-      // End dialer session when user completes lead update
-      // This ensures we only log calls that resulted in actual user engagement
-      if (dialerTimeTracking.isSessionActive) {
-        console.log("📞 Ending dialer session after successful lead update");
-        dialerTimeTracking.endDialerSession();
-      }
     } catch (error) {
+      // Expected while offline, the update itself is waiting in the outbox
       console.error("Failed to refresh lead data:", error);
     }
+
+    // End dialer session when user completes lead update
+    // This ensures we only log calls that resulted in actual user engagement
+    if (dialerTimeTracking.isSessionActive) {
+      console.log("📞 Ending dialer session after successful lead update");
+      dialerTimeTracking.endDialerSession();
+    }
+  };
+
+  // Store the call outcome with its dialer session, and start the power dialer's wrap-up countdown
+  const handleCallStatusUpdate = async (leadOrId?: any, updates?: any) => {
+    const previousStatus = lead?.LeadStatus?.Status;
+    const status = updates?.LeadStatus?.Status || previousStatus || "New";
+    const session = dialerTimeTracking.currentSession;
+    const sessionId = session?.id || outcomeSessionIdRef.current;
+    outcomeSessionIdRef.current = undefined;
+
+    if (sessionId) {
+      logCallDispositionOrQueue({
+        sessionId,
+        leadId: id,
+        campaigns: (lead?.tags || []).map((tag) => tag.Tag),
+        status,
+        previousStatus,
+        statusChanged: !!updates?.LeadStatus,
+        commentAdded: !!updates?.updateDescription,
+        reminderAdded: callReminderAdded,
+        meetingAdded: callMeetingAdded,
+        answered: session?.answered,
+        disposedAt: new Date().toISOString(),
+        platform: Platform.OS,
+      }).catch((error) => {
+        console.warn("❌ Failed to log call disposition:", error);
+      });
+    }
+
+    await handleLeadUpdate(leadOrId, updates);
+    if (powerDialerMode) recordPowerDialerStatus(id, status);
   };
 
   // Action button handlers
@@ -392,13 +505,35 @@ export default function LeadDetailsPage() {
       return;
     }
 
+    const parsed = getLeadPhone(lead);
+    if (parsed?.e164) {
+      placeCall(parsed.e164);
+      return;
+    }
+    Alert.alert(
+      "Invalid Phone Number",
+      `${phoneNumber} doesn't look like a valid phone number.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Call Anyway",
+          onPress: () => placeCall(String(phoneNumber).replace(/[^\d+]/g, "")),
+        },
+      ]
+    );
+  };
+
+  const placeCall = async (phoneNumber: string): Promise<boolean> => {
     if (!lead?._id) {
       Alert.alert("Error", "Lead ID is missing.");
-      return;
+      return false;
     }
 
+    // Do-not-call, calling hours and attempt limits, may ask for an override reason
+    if (!(await guardCall(lead, phoneNumber))) return false;
+
     // Start dialer time tracking session
-    dialerTimeTracking.startDialerSession(lead._id, String(phoneNumber));
+    dialerTimeTracking.startDialerSession(lead._id, phoneNumber);
 
     const url = `tel:${phoneNumber}`;
     Linking.openURL(url).catch(() => {
@@ -406,17 +541,73 @@ export default function LeadDetailsPage() {
       // End tracking session if call failed
       dialerTimeTracking.endDialerSession();
     });
+    return true;
   };
 
+  // Latest placeCall for the auto-dial effect, it closes over the lead
+  const placeCallRef = useRef(placeCall);
+  placeCallRef.current = placeCall;
+
+  // Follow the power dialer to its current lead, or to the summary once it's done
+  useEffect(() => {
+    if (!activePowerDialer) return;
+
+    if (activePowerDialer.status === "finished") {
+      router.replace("/power-dialer-summary");
+      return;
+    }
+
+    const current = activePowerDialer.queue[activePowerDialer.index];
+    if (current && current.id !== id) {
+      router.replace({
+        pathname: `/lead-details/${current.id}`,
+        params: {
+          fromCalling: "true",
+          campaignId: activePowerDialer.campaignId,
+          campaignName: activePowerDialer.campaignName,
+          powerDialer: "true",
+        },
+      });
+    }
+  }, [activePowerDialer, id, router]);
+
+  // Dial the power dialer's current lead as soon as it's loaded
+  useEffect(() => {
+    if (activePowerDialer?.status !== "dialing" || lead?._id !== id) return;
+    const current = activePowerDialer.queue[activePowerDialer.index];
+    if (current?.id !== id || activePowerDialer.dialedLeadIds.includes(id))
+      return;
+    if (dialerTimeTracking.isSessionActive) return;
+
+    markPowerDialerDialed(id);
+    placeCallRef.current(current.phoneNumber).then((placed) => {
+      // The agent chose not to override the call guard
+      if (!placed) advancePowerDialer(true);
+    });
+  }, [activePowerDialer, lead, id, dialerTimeTracking.isSessionActive]);
+
   const handleWhatsApp = () => {
     const phoneNumber = lead?.Phone || lead?.AltPhone;
     if (!phoneNumber) {
       Alert.alert("No Phone Number", "This lead doesn't have a phone number.");
       return;
     }
-    // Remove any non-digit characters from phone number
-    const cleanNumber = phoneNumber.replace(/\D/g, "");
-    const url = `whatsapp://send?phone=${cleanNumber}`;
+    const parsed = getLeadPhone(lead);
+    if (!parsed?.digits) {
+      Alert.alert(
+        "Invalid Phone Number",
+        `${phoneNumber} doesn't look like a valid phone number.`
+      );
+      return;
+    }
+    if (parsed.isLandline) {
+      Alert.alert(
+        "Landline",
+        "This number is a landline and can't use WhatsApp."
+      );
+      return;
+    }
+    const url = `whatsapp://send?phone=${parsed.digits}`;
     Linking.openURL(url).catch(() => {
       Alert.alert("Error", "WhatsApp is not installed or unable to open");
     });
@@ -429,7 +620,9 @@ export default function LeadDetailsPage() {
       return;
     }
 
-    const cleanNumber = String(phoneNumber).replace(/\D/g, "");
+    // E.164 keeps the country code, numbers that don't parse are sent as entered
+    const cleanNumber =
+      getLeadPhone(lead)?.e164 || String(phoneNumber).replace(/[^\d+]/g, "");
 
     if (Platform.OS === "android") {
       // Try preferred SMS packages first to avoid non-SMS apps being suggested
@@ -586,11 +779,7 @@ export default function LeadDetailsPage() {
     switch (activeTab) {
       case "Profile":
         return (
-          <ProfileTab
-            lead={lead}
-            onLeadUpdate={handleLeadUpdate}
-            userPermissions={permissions}
-          />
+          <ProfileTab lead={lead} onLeadUpdate={handleLeadUpdate} />
         );
       case "Comments":
         return <CommentsTab lead={lead} />;
@@ -598,6 +787,8 @@ export default function LeadDetailsPage() {
         return <RemindersTab lead={lead} />;
       case "Meetings":
         return <MeetingsTab lead={lead} />;
+      case "Calls":
+        return <CallsTab lead={lead} />;
       default:
         return null;
     }
@@ -617,6 +808,12 @@ export default function LeadDetailsPage() {
   if (error || !lead) {
     return (
       <SafeAreaView className="flex-1 bg-white">
+        {activePowerDialer && activePowerDialer.status !== "finished" && (
+          <PowerDialerBar
+            session={activePowerDialer}
+            secondsLeft={powerDialerSecondsLeft}
+          />
+        )}
         <View className="flex-1 justify-center items-center px-4">
           <Ionicons name="alert-circle" size={48} color="#EF4444" />
           <Text className="text-xl font-semibold text-gray-800 mt-4 text-center">
@@ -635,6 +832,20 @@ export default function LeadDetailsPage() {
 
   return (
     <SafeAreaView className="flex-1 bg-white">
+      {/* Power dialer progress and controls */}
+      {activePowerDialer && activePowerDialer.status !== "finished" && (
+        <PowerDialerBar
+          session={activePowerDialer}
+          secondsLeft={powerDialerSecondsLeft}
+        />
+      )}
+
+      {/* Offline changes waiting to sync */}
+      <SyncStatusBanner
+        leadId={lead._id}
+        onResolved={() => revalidateLead(id).catch(() => {})}
+      />
+
       {/* Action Buttons */}
       <View className="px-4 py-4 bg-white border-b border-gray-100">
         <View className="flex-row gap-3">
@@ -673,6 +884,7 @@ export default function LeadDetailsPage() {
             {renderTabButton("Comments", "Comments")}
             {renderTabButton("Reminders", "Reminders")}
             {renderTabButton("Meetings", "Meetings")}
+            {renderTabButton("Calls", "Calls")}
           </View>
         </ScrollView>
       </View>
@@ -692,7 +904,7 @@ export default function LeadDetailsPage() {
         }}
         lead={lead}
         statusOptions={statusOptions}
-        onLeadUpdate={handleLeadUpdate}
+        onLeadUpdate={handleCallStatusUpdate}
         onReminderPress={() => {
           if (lead) {
             openReminderModal(lead._id);
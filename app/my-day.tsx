@@ -0,0 +1,187 @@
+import LoadingView from "@/components/LoadingView";
+import { StopDetails, useMyDay } from "@/hooks/useMyDay";
+import { Task } from "@/types/tasks";
+import {
+  DayStop,
+  DayTimelineEntry,
+  formatDistance,
+  formatDuration,
+} from "@/utils/dayRoute";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useContext } from "react";
+import { RefreshControl, ScrollView, Text, View } from "react-native";
+import { UserContext } from "./_layout";
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const StopCard: React.FC<{
+  stop: DayStop;
+  index: number;
+  details?: StopDetails;
+}> = ({ stop, index, details }) => (
+  <View className="flex-row">
+    <View className="items-center mr-3">
+      <View className="w-8 h-8 rounded-full bg-miles-500 items-center justify-center">
+        <Text className="text-white font-bold text-sm">{index + 1}</Text>
+      </View>
+      <View className="flex-1 w-0.5 bg-gray-200" />
+    </View>
+    <View className="flex-1 bg-white rounded-xl p-4 mb-3 shadow-sm">
+      <Text className="text-base font-semibold text-gray-900">
+        {details?.address || "Unknown place"}
+      </Text>
+      <Text className="text-sm text-gray-500 mt-1">
+        {formatTime(stop.arrivedAt)} – {formatTime(stop.leftAt)} ·{" "}
+        {formatDuration(stop.durationMs)}
+      </Text>
+      {details?.meetings.map((meeting) => (
+        <View
+          key={meeting.id}
+          className="flex-row items-center mt-3 bg-emerald-50 rounded-lg px-3 py-2"
+        >
+          <Ionicons name="checkmark-circle" size={18} color="#10B981" />
+          <View className="ml-2 flex-1">
+            <Text className="text-sm font-medium text-emerald-800">
+              Visited for meeting with {meeting.leadName}
+            </Text>
+            <Text className="text-xs text-emerald-700">
+              {meeting.location} · {formatTime(meeting.date)}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  </View>
+);
+
+const TravelRow: React.FC<{ distanceM: number; durationMs: number }> = ({
+  distanceM,
+  durationMs,
+}) => (
+  <View className="flex-row">
+    <View className="items-center mr-3 w-8">
+      <View className="flex-1 w-0.5 bg-gray-200" />
+    </View>
+    <View className="flex-row items-center py-2 mb-3">
+      <Ionicons name="car-outline" size={16} color="#6B7280" />
+      <Text className="text-sm text-gray-500 ml-2">
+        {formatDistance(distanceM)} · {formatDuration(durationMs)}
+      </Text>
+    </View>
+  </View>
+);
+
+const UnmatchedMeeting: React.FC<{ meeting: Task }> = ({ meeting }) => (
+  <View className="flex-row items-center bg-white rounded-xl p-3 mb-2 shadow-sm">
+    <Ionicons name="alert-circle-outline" size={20} color="#F59E0B" />
+    <View className="ml-3 flex-1">
+      <Text className="text-sm font-medium text-gray-900">
+        {meeting.leadName} · {formatTime(meeting.date)}
+      </Text>
+      <Text className="text-xs text-gray-500">{meeting.location}</Text>
+    </View>
+  </View>
+);
+
+export default function MyDayScreen() {
+  const user = useContext(UserContext);
+  const {
+    route,
+    stopDetails,
+    unmatchedMeetings,
+    loading,
+    refreshing,
+    refresh,
+  } = useMyDay(user);
+
+  if (loading && !refreshing) {
+    return (
+      <View className="flex-1 bg-gray-50 justify-center items-center">
+        <LoadingView />
+        <Text className="text-gray-600 mt-4">Building your route...</Text>
+      </View>
+    );
+  }
+
+  let stopIndex = 0;
+  const renderEntry = (entry: DayTimelineEntry, index: number) => {
+    if (entry.type === "travel") {
+      return (
+        <TravelRow
+          key={`travel-${index}`}
+          distanceM={entry.travel.distanceM}
+          durationMs={entry.travel.durationMs}
+        />
+      );
+    }
+    return (
+      <StopCard
+        key={`stop-${index}`}
+        stop={entry.stop}
+        index={stopIndex++}
+        details={stopDetails.get(entry.stop)}
+      />
+    );
+  };
+
+  return (
+    <ScrollView
+      className="flex-1 bg-gray-50"
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={refresh} />
+      }
+    >
+      {/* Summary */}
+      <View className="flex-row px-5 pt-4 gap-2">
+        <View className="flex-1 bg-white rounded-xl p-4 items-center shadow-sm">
+          <Text className="text-2xl font-bold text-gray-900">
+            {formatDistance(route?.totalDistanceM || 0)}
+          </Text>
+          <Text className="text-sm text-gray-500">Travelled</Text>
+        </View>
+        <View className="flex-1 bg-white rounded-xl p-4 items-center shadow-sm">
+          <Text className="text-2xl font-bold text-gray-900">
+            {route?.stops.length || 0}
+          </Text>
+          <Text className="text-sm text-gray-500">Stops</Text>
+        </View>
+      </View>
+
+      {/* Timeline */}
+      <View className="px-5 py-4">
+        <Text className="text-lg font-semibold text-gray-900 mb-3">
+          Timeline
+        </Text>
+        {route && route.timeline.length > 0 ? (
+          route.timeline.map(renderEntry)
+        ) : (
+          <View className="bg-white rounded-xl p-6 items-center shadow-sm">
+            <Ionicons name="navigate-outline" size={32} color="#9CA3AF" />
+            <Text className="text-gray-500 mt-2 text-center">
+              No locations recorded on this device today
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Meetings without a visit */}
+      {unmatchedMeetings.length > 0 && (
+        <View className="px-5 pb-8">
+          <Text className="text-lg font-semibold text-gray-900 mb-1">
+            Meetings Without a Visit
+          </Text>
+          <Text className="text-sm text-gray-500 mb-3">
+            No stop was recorded near these meeting locations
+          </Text>
+          {unmatchedMeetings.map((meeting) => (
+            <UnmatchedMeeting key={meeting.id} meeting={meeting} />
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
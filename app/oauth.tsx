@@ -0,0 +1,9 @@
+import { Redirect } from "expo-router";
+import React from "react";
+
+/**
+ * Redirect target of single sign-on, signInWithSso reads the result from the browser session
+ */
+export default function OAuthRedirectScreen() {
+  return <Redirect href="/" />;
+}
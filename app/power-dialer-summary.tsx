@@ -0,0 +1,124 @@
+import { usePowerDialer } from "@/hooks/usePowerDialer";
+import { clearPowerDialer, summarizePowerDialer } from "@/services/powerDialer";
+import { formatTalkTime } from "@/utils/callingStats";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React from "react";
+import { ScrollView, Text, TouchableOpacity, View } from "react-native";
+
+const SummaryStat: React.FC<{ icon: string; label: string; value: number }> = ({
+  icon,
+  label,
+  value,
+}) => (
+  <View className="w-[48%] bg-white rounded-xl p-4 mb-3 shadow-sm">
+    <View className="flex-row items-center mb-2">
+      <Ionicons name={icon as any} size={16} color="#6B7280" />
+      <Text className="text-sm text-gray-500 ml-2">{label}</Text>
+    </View>
+    <Text className="text-2xl font-bold text-gray-900">{value}</Text>
+  </View>
+);
+
+export default function PowerDialerSummaryScreen() {
+  const { session } = usePowerDialer();
+
+  const handleDone = () => {
+    clearPowerDialer();
+    router.back();
+  };
+
+  if (!session) {
+    return (
+      <View className="flex-1 bg-gray-50 items-center justify-center px-6">
+        <Ionicons name="flash-off-outline" size={32} color="#9CA3AF" />
+        <Text className="text-gray-500 mt-2 text-center">
+          No power dialer session to show
+        </Text>
+      </View>
+    );
+  }
+
+  const summary = summarizePowerDialer(session);
+  const statuses = Object.entries(summary.statuses).sort((a, b) => b[1] - a[1]);
+  const elapsedSeconds =
+    ((session.endedAt || Date.now()) - session.startedAt) / 1000;
+  const current = session.queue[session.index];
+  const remaining = Math.max(
+    0,
+    session.queue.length -
+      session.index -
+      (current && session.dialedLeadIds.includes(current.id) ? 1 : 0)
+  );
+
+  return (
+    <ScrollView className="flex-1 bg-gray-50">
+      <View className="bg-white border-b border-gray-200 px-5 py-4">
+        <Text className="text-lg font-semibold text-gray-900">
+          {session.campaignName}
+        </Text>
+        <Text className="text-sm text-gray-500 mt-1">
+          {formatTalkTime(elapsedSeconds)} of calling
+          {remaining > 0 ? ` · ${remaining} leads left in the queue` : ""}
+        </Text>
+      </View>
+
+      <View className="px-5 pt-4 flex-row flex-wrap justify-between">
+        <SummaryStat
+          icon="call-outline"
+          label="Dialed"
+          value={summary.dialed}
+        />
+        <SummaryStat
+          icon="checkmark-circle-outline"
+          label="Connected"
+          value={summary.connected}
+        />
+        <SummaryStat
+          icon="close-circle-outline"
+          label="Not Connected"
+          value={summary.dialed - summary.connected}
+        />
+        <SummaryStat
+          icon="play-skip-forward-outline"
+          label="Skipped"
+          value={summary.skipped}
+        />
+      </View>
+
+      <View className="px-5 pt-2">
+        <Text className="text-lg font-semibold text-gray-900 mb-3">
+          Statuses Set
+        </Text>
+        <View className="bg-white rounded-xl px-4 shadow-sm">
+          {statuses.length > 0 ? (
+            statuses.map(([status, count]) => (
+              <View
+                key={status}
+                className="flex-row items-center justify-between py-3 border-b border-gray-100"
+              >
+                <Text className="text-sm text-gray-900">{status}</Text>
+                <Text className="text-sm font-semibold text-gray-700">
+                  {count}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text className="text-gray-500 text-center py-6">
+              No statuses were set
+            </Text>
+          )}
+        </View>
+      </View>
+
+      <View className="px-5 py-6">
+        <TouchableOpacity
+          className="bg-miles-500 rounded-lg py-3 items-center"
+          onPress={handleDone}
+        >
+          <Text className="text-white font-semibold">Done</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
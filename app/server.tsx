@@ -0,0 +1,9 @@
+import { Redirect } from "expo-router";
+import React from "react";
+
+/**
+ * Target of server configuration links, useServerProfileLinks in the root layout applies them
+ */
+export default function ServerLinkScreen() {
+  return <Redirect href="/" />;
+}
@@ -8,6 +8,7 @@ import {
   View,
 } from "react-native";
 import Toast from "react-native-root-toast";
+import Can from "./Can";
 
 interface ActionButtonsProps {
   selectedLeads: any[];
@@ -20,11 +21,6 @@ interface ActionButtonsProps {
   onHistory?: () => void;
   onDealSubmission?: () => void;
   isExporting?: boolean;
-  userPermissions?: {
-    export?: boolean;
-    delete?: boolean;
-    mapLeads?: boolean;
-  };
   className?: string;
 }
 
@@ -37,7 +33,6 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
   onDelete,
   onBulkActions,
   isExporting = false,
-  userPermissions = {},
   className = "",
 }) => {
   const selectedCount = selectedLeads.length;
@@ -91,7 +86,7 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
           </TouchableOpacity>
 
           {/* Bulk Actions */}
-          {userPermissions.mapLeads && (
+          <Can permission="lead.bulk_update">
             <TouchableOpacity
               onPress={handleBulkActions}
               disabled={selectedCount === 0}
@@ -115,10 +110,10 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
                 Bulk Actions
               </Text>
             </TouchableOpacity>
-          )}
+          </Can>
 
           {/* Export */}
-          {userPermissions.export && (
+          <Can permission="lead.export">
             <TouchableOpacity
               onPress={handleExport}
               disabled={isExporting}
@@ -150,7 +145,7 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
                 {isExporting ? "Exporting..." : "Export"}
               </Text>
             </TouchableOpacity>
-          )}
+          </Can>
 
           {/* Selection Info */}
           {selectedCount > 0 && (
@@ -0,0 +1,67 @@
+import { getAppLockSupport, unlockApp } from "@/services/appLock";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { Modal, Text, TouchableOpacity, View } from "react-native";
+import LogoutButton from "./LogoutButton";
+
+/**
+ * Covers the app until the user authenticates, prompts as soon as it appears
+ * A modal of its own, so it is presented over any modal that was already open
+ */
+const AppLockScreen: React.FC = () => {
+  const [label, setLabel] = useState("Face ID or PIN");
+  const [unlocking, setUnlocking] = useState(false);
+
+  const unlock = async () => {
+    setUnlocking(true);
+    try {
+      await unlockApp();
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  useEffect(() => {
+    getAppLockSupport().then((support) => {
+      if (support.available) setLabel(support.label);
+    });
+    unlock();
+  }, []);
+
+  return (
+    <Modal
+      visible
+      animationType="none"
+      statusBarTranslucent
+      // Back must not dismiss the lock
+      onRequestClose={() => {}}
+    >
+      <View className="flex-1 bg-white items-center justify-center px-8">
+        <View className="w-20 h-20 rounded-full bg-miles-50 items-center justify-center mb-6">
+          <Ionicons name="lock-closed" size={36} color="#176298" />
+        </View>
+        <Text className="text-xl font-semibold text-gray-900 mb-2">
+          Miles is locked
+        </Text>
+        <Text className="text-base text-gray-500 text-center mb-8">
+          Unlock with {label} to continue
+        </Text>
+        <TouchableOpacity
+          onPress={unlock}
+          disabled={unlocking}
+          className={`bg-miles-500 rounded-lg py-3 px-8 flex-row items-center ${
+            unlocking ? "opacity-60" : ""
+          }`}
+        >
+          <Ionicons name="finger-print" size={20} color="white" />
+          <Text className="text-white font-semibold ml-2">Unlock</Text>
+        </TouchableOpacity>
+        <View className="mt-6">
+          <LogoutButton style="menuItem" color="#6B7280" size="small" />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default AppLockScreen;
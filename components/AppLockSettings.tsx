@@ -0,0 +1,115 @@
+import {
+  APP_LOCK_IDLE_OPTIONS,
+  AppLockSettings as Settings,
+  AppLockSupport,
+  getAppLockSettings,
+  getAppLockSupport,
+  setAppLockEnabled,
+  setAppLockIdleMinutes,
+} from "@/services/appLock";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { Alert, Switch, Text, TouchableOpacity, View } from "react-native";
+
+const formatIdle = (minutes: number) =>
+  minutes === 0 ? "Immediately" : `${minutes} min`;
+
+/**
+ * Turn the app lock on or off and choose how long the app can sit in the background
+ */
+const AppLockSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [support, setSupport] = useState<AppLockSupport | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getAppLockSettings().then(setSettings);
+    getAppLockSupport().then(setSupport);
+  }, []);
+
+  const toggleLock = async (enabled: boolean) => {
+    if (enabled && !support?.available) {
+      Alert.alert(
+        "Screen Lock Needed",
+        "Set up Face ID, a fingerprint or a device PIN in your phone's settings to lock the app."
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setSettings(await setAppLockEnabled(enabled));
+    } catch (error) {
+      console.error("Failed to change app lock:", error);
+      Alert.alert("Error", "The app lock could not be changed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const chooseIdle = async (idleMinutes: number) => {
+    try {
+      setSettings(await setAppLockIdleMinutes(idleMinutes));
+    } catch (error) {
+      console.error("Failed to change app lock timeout:", error);
+    }
+  };
+
+  if (!settings) return null;
+
+  return (
+    <View>
+      <View className="flex-row items-center py-3">
+        <Ionicons name="lock-closed-outline" size={20} color="#6B7280" />
+        <View className="ml-3 flex-1">
+          <Text className="text-gray-700 font-medium">App Lock</Text>
+          <Text className="text-gray-500 text-sm">
+            {support?.available
+              ? `Require ${support.label} to open the app`
+              : "No screen lock set up on this phone"}
+          </Text>
+        </View>
+        <Switch
+          value={settings.enabled}
+          onValueChange={toggleLock}
+          disabled={saving}
+          trackColor={{ true: "#176298" }}
+        />
+      </View>
+
+      {settings.enabled && (
+        <View className="pb-3 border-t border-gray-100 pt-3">
+          <Text className="text-gray-700 font-medium mb-2">
+            Lock after leaving the app
+          </Text>
+          <View className="flex-row flex-wrap gap-2">
+            {APP_LOCK_IDLE_OPTIONS.map((minutes) => {
+              const selected = settings.idleMinutes === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  onPress={() => chooseIdle(minutes)}
+                  className={`px-3 py-1.5 rounded-full border ${
+                    selected
+                      ? "bg-miles-500 border-miles-500"
+                      : "bg-white border-gray-300"
+                  }`}
+                >
+                  <Text
+                    className={`text-sm ${
+                      selected ? "text-white font-medium" : "text-gray-700"
+                    }`}
+                  >
+                    {formatIdle(minutes)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default AppLockSettings;
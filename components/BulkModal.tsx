@@ -1,3 +1,4 @@
+import useUserPermissions from "@/hooks/useUserPermissions";
 import { bulkUpdateLeads, fetchTagOptions } from "@/services/api";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
@@ -10,6 +11,7 @@ import {
   View,
 } from "react-native";
 import Toast from "react-native-root-toast";
+import Can from "./Can";
 import LoadingView from "./LoadingView";
 import MultiSelectModal from "./MultiSelectModal";
 import SearchableDropdown from "./SearchableDropdown";
@@ -50,6 +52,7 @@ const BulkModal: React.FC<BulkModalProps> = ({
   tagOptions: initialTagOptions,
   currentUser,
 }) => {
+  const { can } = useUserPermissions();
   const [loading, setLoading] = useState(false);
   const [bulkData, setBulkData] = useState<BulkData>({
     status: null,
@@ -265,8 +268,11 @@ const BulkModal: React.FC<BulkModalProps> = ({
       };
 
       // Include description when replaceDescription is true or when non-empty
-      if (bulkDataParam.replaceDescription || description !== "") {
-        body.description = description;
+      if (
+        bulkDataParam.replaceDescription ||
+        bulkDataParam.description !== ""
+      ) {
+        body.description = bulkDataParam.description;
       }
 
       // Include tags if there are any selected
@@ -317,9 +323,22 @@ const BulkModal: React.FC<BulkModalProps> = ({
 
     setLoading(true);
     try {
+      // Never send a change the user isn't allowed to make
+      const canUpdateInfo = can("lead.update_info");
+      const canUpdateAssigned = can("lead.update_assigned");
+      const canUpdateTags = can("lead.update_tags");
       const updatedBulkData = {
         ...bulkData,
-        description: description,
+        status: can("lead.update_status") ? bulkData.status : null,
+        source: can("lead.update_source") ? bulkData.source : null,
+        assignee: canUpdateAssigned ? bulkData.assignee : null,
+        forceReassign: canUpdateAssigned && bulkData.forceReassign,
+        tags: canUpdateTags ? bulkData.tags : [],
+        addTags: canUpdateTags && bulkData.addTags,
+        removeTags: canUpdateTags && bulkData.removeTags,
+        hideData: canUpdateInfo && bulkData.hideData,
+        replaceDescription: canUpdateInfo && bulkData.replaceDescription,
+        description: canUpdateInfo ? description : "",
       };
 
       await doBulkAction(selectedLeads, updatedBulkData);
@@ -364,278 +383,292 @@ const BulkModal: React.FC<BulkModalProps> = ({
         <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
           <View className="gap-6">
             {/* Status Field */}
-            <View>
-              <Text className="text-sm font-medium text-gray-700 mb-2">
-                Status
-              </Text>
-              <SearchableDropdown
-                data={statusOptions}
-                onSelect={(item) => handleChange("status")(item?.value)}
-                placeholder="Change Status..."
-                value={bulkData.status?.value}
-                defaultValue={
-                  selectedLeads.length === 1
-                    ? selectedLeads[0].LeadStatus?._id
-                    : undefined
-                }
-              />
-            </View>
+            <Can permission="lead.update_status">
+              <View>
+                <Text className="text-sm font-medium text-gray-700 mb-2">
+                  Status
+                </Text>
+                <SearchableDropdown
+                  data={statusOptions}
+                  onSelect={(item) => handleChange("status")(item?.value)}
+                  placeholder="Change Status..."
+                  value={bulkData.status?.value}
+                  defaultValue={
+                    selectedLeads.length === 1
+                      ? selectedLeads[0].LeadStatus?._id
+                      : undefined
+                  }
+                />
+              </View>
+            </Can>
 
             {/* Source Field */}
-            <View>
-              <Text className="text-sm font-medium text-gray-700 mb-2">
-                Source
-              </Text>
-              <SearchableDropdown
-                data={sourceOptions}
-                onSelect={(item) => handleChange("source")(item?.value)}
-                placeholder="Change Source..."
-                value={bulkData.source?.value}
-                defaultValue={
-                  selectedLeads.length === 1
-                    ? selectedLeads[0]?.Source?._id
-                    : undefined
-                }
-              />
-            </View>
+            <Can permission="lead.update_source">
+              <View>
+                <Text className="text-sm font-medium text-gray-700 mb-2">
+                  Source
+                </Text>
+                <SearchableDropdown
+                  data={sourceOptions}
+                  onSelect={(item) => handleChange("source")(item?.value)}
+                  placeholder="Change Source..."
+                  value={bulkData.source?.value}
+                  defaultValue={
+                    selectedLeads.length === 1
+                      ? selectedLeads[0]?.Source?._id
+                      : undefined
+                  }
+                />
+              </View>
+            </Can>
 
             {/* Assignee Field */}
-            <View>
-              <Text className="text-sm font-medium text-gray-700 mb-2">
-                Assigned
-              </Text>
-              <SearchableDropdown
-                data={filteredAgents}
-                onSelect={(item) => handleChange("assignee")(item?.value)}
-                placeholder="Assign..."
-                value={bulkData.assignee?.value}
-                defaultValue={
-                  selectedLeads.length === 1
-                    ? selectedLeads[0].Assigned?._id
-                    : undefined
-                }
-              />
-              {selfAssignWarning && (
-                <View className="mt-2 flex-row items-center bg-amber-50 p-3 rounded-lg">
-                  <Ionicons name="warning-outline" size={16} color="#D97706" />
-                  <Text className="ml-2 text-sm text-amber-700">
-                    Sales users cannot reassign leads to themselves
-                  </Text>
-                </View>
-              )}
-            </View>
+            <Can permission="lead.update_assigned">
+              <View>
+                <Text className="text-sm font-medium text-gray-700 mb-2">
+                  Assigned
+                </Text>
+                <SearchableDropdown
+                  data={filteredAgents}
+                  onSelect={(item) => handleChange("assignee")(item?.value)}
+                  placeholder="Assign..."
+                  value={bulkData.assignee?.value}
+                  defaultValue={
+                    selectedLeads.length === 1
+                      ? selectedLeads[0].Assigned?._id
+                      : undefined
+                  }
+                />
+                {selfAssignWarning && (
+                  <View className="mt-2 flex-row items-center bg-amber-50 p-3 rounded-lg">
+                    <Ionicons name="warning-outline" size={16} color="#D97706" />
+                    <Text className="ml-2 text-sm text-amber-700">
+                      Sales users cannot reassign leads to themselves
+                    </Text>
+                  </View>
+                )}
+              </View>
+            </Can>
 
             {/* Tags Field */}
-            <View>
-              <Text className="text-sm font-medium text-gray-700 mb-2">
-                Tags
-              </Text>
-              <MultiSelectModal
-                title="Tags"
-                options={tagOptions}
-                selectedValues={selectedTags.map((tag) => tag.value)}
-                onSelectionChange={(selectedValues) => {
-                  // Convert selected values back to tag objects
-                  const newSelectedTags = selectedValues.map((value) => {
-                    const foundTag = tagOptions.find(
-                      (tag) => tag.value === value
-                    );
-                    return foundTag || { value, label: value };
-                  });
-                  handleChange("tags")(newSelectedTags);
-                }}
-                placeholder="Add/Remove tags..."
-                showColors={false}
-                lazyLoad={true}
-                onFetchOptions={async (page, search) => {
-                  if (!search || search.length < 2) {
-                    return {
-                      options: initialTagOptions || [],
-                      hasMore: false,
-                      totalCount: initialTagOptions?.length || 0,
-                    };
-                  }
+            <Can permission="lead.update_tags">
+              <View>
+                <Text className="text-sm font-medium text-gray-700 mb-2">
+                  Tags
+                </Text>
+                <MultiSelectModal
+                  title="Tags"
+                  options={tagOptions}
+                  selectedValues={selectedTags.map((tag) => tag.value)}
+                  onSelectionChange={(selectedValues) => {
+                    // Convert selected values back to tag objects
+                    const newSelectedTags = selectedValues.map((value) => {
+                      const foundTag = tagOptions.find(
+                        (tag) => tag.value === value
+                      );
+                      return foundTag || { value, label: value };
+                    });
+                    handleChange("tags")(newSelectedTags);
+                  }}
+                  placeholder="Add/Remove tags..."
+                  showColors={false}
+                  lazyLoad={true}
+                  onFetchOptions={async (page, search) => {
+                    if (!search || search.length < 2) {
+                      return {
+                        options: initialTagOptions || [],
+                        hasMore: false,
+                        totalCount: initialTagOptions?.length || 0,
+                      };
+                    }
+
+                    try {
+                      const searchResponse = await fetchTagOptions(
+                        page,
+                        50,
+                        search
+                      );
+                      const formattedResults = searchResponse.options.map(
+                        (tag: any) => ({
+                          value: `${tag.label}::${
+                            tag.value.split("::")[1] || tag.value
+                          }`,
+                          label: tag.label,
+                        })
+                      );
+
+                      return {
+                        options: formattedResults,
+                        hasMore: searchResponse.hasMore,
+                        totalCount: searchResponse.totalCount,
+                      };
+                    } catch (error) {
+                      console.error(error);
+                      return {
+                        options: initialTagOptions || [],
+                        hasMore: false,
+                        totalCount: initialTagOptions?.length || 0,
+                      };
+                    }
+                  }}
+                />
+
+                {/* Tag Action Checkboxes */}
+                <View className="flex-row gap-6 mt-3">
+                  <TouchableOpacity
+                    onPress={toggleBooleanField("addTags")}
+                    className="flex-row items-center gap-2"
+                  >
+                    <View
+                      className={`w-4 h-4 rounded border-2 items-center justify-center ${
+                        bulkData.addTags
+                          ? "bg-miles-600 border-miles-600"
+                          : "border-gray-300"
+                      }`}
+                    >
+                      {bulkData.addTags && (
+                        <Ionicons name="checkmark" size={12} color="white" />
+                      )}
+                    </View>
+                    <Text className="text-sm text-miles-600">
+                      Add selected tags
+                    </Text>
+                  </TouchableOpacity>
 
-                  try {
-                    const searchResponse = await fetchTagOptions(
-                      page,
-                      50,
-                      search
-                    );
-                    const formattedResults = searchResponse.options.map(
-                      (tag: any) => ({
-                        value: `${tag.label}::${
-                          tag.value.split("::")[1] || tag.value
-                        }`,
-                        label: tag.label,
-                      })
-                    );
-
-                    return {
-                      options: formattedResults,
-                      hasMore: searchResponse.hasMore,
-                      totalCount: searchResponse.totalCount,
-                    };
-                  } catch (error) {
-                    console.error(error);
-                    return {
-                      options: initialTagOptions || [],
-                      hasMore: false,
-                      totalCount: initialTagOptions?.length || 0,
-                    };
-                  }
-                }}
-              />
+                  <TouchableOpacity
+                    onPress={toggleBooleanField("removeTags")}
+                    className="flex-row items-center gap-2"
+                  >
+                    <View
+                      className={`w-4 h-4 rounded border-2 items-center justify-center ${
+                        bulkData.removeTags
+                          ? "bg-red-600 border-red-600"
+                          : "border-gray-300"
+                      }`}
+                    >
+                      {bulkData.removeTags && (
+                        <Ionicons name="checkmark" size={12} color="white" />
+                      )}
+                    </View>
+                    <Text className="text-sm text-red-600">
+                      Remove selected tags
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {/* Tag Validation Warning */}
+                {selectedTags.length > 0 &&
+                  !bulkData.addTags &&
+                  !bulkData.removeTags && (
+                    <View className="mt-2 flex-row items-center bg-amber-50 p-3 rounded-lg">
+                      <Ionicons
+                        name="warning-outline"
+                        size={16}
+                        color="#D97706"
+                      />
+                      <Text className="ml-2 text-xs text-amber-700">
+                        Please select either "Add" or "Remove" option for tag
+                        operations
+                      </Text>
+                    </View>
+                  )}
+              </View>
+            </Can>
+
+            {/* Description Field */}
+            <Can permission="lead.update_info">
+              <View>
+                <Text className="text-sm font-medium text-gray-700 mb-2">
+                  Description
+                </Text>
+                <TextInput
+                  className="border border-gray-300 rounded-lg p-3 text-base h-24"
+                  placeholder="Describe your changes"
+                  value={description}
+                  onChangeText={setDescription}
+                  multiline={true}
+                  textAlignVertical="top"
+                />
 
-              {/* Tag Action Checkboxes */}
-              <View className="flex-row gap-6 mt-3">
                 <TouchableOpacity
-                  onPress={toggleBooleanField("addTags")}
-                  className="flex-row items-center gap-2"
+                  onPress={toggleBooleanField("replaceDescription")}
+                  className="flex-row items-center gap-2 mt-2"
                 >
                   <View
                     className={`w-4 h-4 rounded border-2 items-center justify-center ${
-                      bulkData.addTags
+                      bulkData.replaceDescription
                         ? "bg-miles-600 border-miles-600"
                         : "border-gray-300"
                     }`}
                   >
-                    {bulkData.addTags && (
+                    {bulkData.replaceDescription && (
                       <Ionicons name="checkmark" size={12} color="white" />
                     )}
                   </View>
-                  <Text className="text-sm text-miles-600">
-                    Add selected tags
+                  <Text className="text-sm text-gray-600">
+                    Replace existing description
                   </Text>
                 </TouchableOpacity>
+              </View>
+            </Can>
 
+            {/* Boolean Options */}
+            <View className="gap-3">
+              <Can permission="lead.update_info">
                 <TouchableOpacity
-                  onPress={toggleBooleanField("removeTags")}
+                  onPress={toggleBooleanField("hideData")}
                   className="flex-row items-center gap-2"
                 >
                   <View
                     className={`w-4 h-4 rounded border-2 items-center justify-center ${
-                      bulkData.removeTags
+                      bulkData.hideData
                         ? "bg-red-600 border-red-600"
                         : "border-gray-300"
                     }`}
                   >
-                    {bulkData.removeTags && (
+                    {bulkData.hideData && (
                       <Ionicons name="checkmark" size={12} color="white" />
                     )}
                   </View>
                   <Text className="text-sm text-red-600">
-                    Remove selected tags
+                    Hide Data (Comments, Reminders, Meetings)
                   </Text>
                 </TouchableOpacity>
-              </View>
+              </Can>
 
-              {/* Tag Validation Warning */}
-              {selectedTags.length > 0 &&
-                !bulkData.addTags &&
-                !bulkData.removeTags && (
-                  <View className="mt-2 flex-row items-center bg-amber-50 p-3 rounded-lg">
+              <Can permission="lead.update_assigned">
+                <View>
+                  <TouchableOpacity
+                    onPress={toggleBooleanField("forceReassign")}
+                    className="flex-row items-center gap-2"
+                  >
+                    <View
+                      className={`w-4 h-4 rounded border-2 items-center justify-center ${
+                        bulkData.forceReassign
+                          ? "bg-amber-600 border-amber-600"
+                          : "border-gray-300"
+                      }`}
+                    >
+                      {bulkData.forceReassign && (
+                        <Ionicons name="checkmark" size={12} color="white" />
+                      )}
+                    </View>
+                    <Text className="text-sm text-amber-600">Force Reassign</Text>
+                  </TouchableOpacity>
+
+                  <View className="flex-row items-center ml-6 mt-1">
                     <Ionicons
-                      name="warning-outline"
-                      size={16}
-                      color="#D97706"
+                      name="information-circle-outline"
+                      size={12}
+                      color="#9CA3AF"
                     />
-                    <Text className="ml-2 text-xs text-amber-700">
-                      Please select either "Add" or "Remove" option for tag
-                      operations
+                    <Text className="ml-1 text-xs text-gray-500">
+                      Allows reassignment when leads have future meetings or
+                      reminders
                     </Text>
                   </View>
-                )}
-            </View>
-
-            {/* Description Field */}
-            <View>
-              <Text className="text-sm font-medium text-gray-700 mb-2">
-                Description
-              </Text>
-              <TextInput
-                className="border border-gray-300 rounded-lg p-3 text-base h-24"
-                placeholder="Describe your changes"
-                value={description}
-                onChangeText={setDescription}
-                multiline={true}
-                textAlignVertical="top"
-              />
-
-              <TouchableOpacity
-                onPress={toggleBooleanField("replaceDescription")}
-                className="flex-row items-center gap-2 mt-2"
-              >
-                <View
-                  className={`w-4 h-4 rounded border-2 items-center justify-center ${
-                    bulkData.replaceDescription
-                      ? "bg-miles-600 border-miles-600"
-                      : "border-gray-300"
-                  }`}
-                >
-                  {bulkData.replaceDescription && (
-                    <Ionicons name="checkmark" size={12} color="white" />
-                  )}
-                </View>
-                <Text className="text-sm text-gray-600">
-                  Replace existing description
-                </Text>
-              </TouchableOpacity>
-            </View>
-
-            {/* Boolean Options */}
-            <View className="gap-3">
-              <TouchableOpacity
-                onPress={toggleBooleanField("hideData")}
-                className="flex-row items-center gap-2"
-              >
-                <View
-                  className={`w-4 h-4 rounded border-2 items-center justify-center ${
-                    bulkData.hideData
-                      ? "bg-red-600 border-red-600"
-                      : "border-gray-300"
-                  }`}
-                >
-                  {bulkData.hideData && (
-                    <Ionicons name="checkmark" size={12} color="white" />
-                  )}
-                </View>
-                <Text className="text-sm text-red-600">
-                  Hide Data (Comments, Reminders, Meetings)
-                </Text>
-              </TouchableOpacity>
-
-              <View>
-                <TouchableOpacity
-                  onPress={toggleBooleanField("forceReassign")}
-                  className="flex-row items-center gap-2"
-                >
-                  <View
-                    className={`w-4 h-4 rounded border-2 items-center justify-center ${
-                      bulkData.forceReassign
-                        ? "bg-amber-600 border-amber-600"
-                        : "border-gray-300"
-                    }`}
-                  >
-                    {bulkData.forceReassign && (
-                      <Ionicons name="checkmark" size={12} color="white" />
-                    )}
-                  </View>
-                  <Text className="text-sm text-amber-600">Force Reassign</Text>
-                </TouchableOpacity>
-
-                <View className="flex-row items-center ml-6 mt-1">
-                  <Ionicons
-                    name="information-circle-outline"
-                    size={12}
-                    color="#9CA3AF"
-                  />
-                  <Text className="ml-1 text-xs text-gray-500">
-                    Allows reassignment when leads have future meetings or
-                    reminders
-                  </Text>
                 </View>
-              </View>
+              </Can>
             </View>
 
             {/* Skipped Leads Display */}
@@ -0,0 +1,107 @@
+import {
+  CallGuardPrompt,
+  resolveCallGuardPrompt,
+  subscribeCallGuardPrompt,
+} from "@/services/callGuard";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { Modal, Text, TextInput, TouchableOpacity, View } from "react-native";
+
+/**
+ * Asks for an override reason when guardCall stops a call
+ * Mounted once in the root layout
+ */
+const CallGuardModal: React.FC = () => {
+  const [prompt, setPrompt] = useState<CallGuardPrompt | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(
+    () =>
+      subscribeCallGuardPrompt((next) => {
+        setPrompt(next);
+        setReason("");
+      }),
+    []
+  );
+
+  if (!prompt) return null;
+
+  const isBlocked = prompt.verdict.level === "block";
+  // Blocked calls need a reason, warnings only need a confirmation
+  const canOverride = !isBlocked || reason.trim().length > 0;
+
+  return (
+    <Modal
+      visible={true}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={() => resolveCallGuardPrompt(null)}
+    >
+      <View className="flex-1 bg-black/50 justify-center px-6">
+        <View className="bg-white rounded-2xl p-5">
+          <View className="flex-row items-center mb-3">
+            <Ionicons
+              name={isBlocked ? "hand-left" : "warning"}
+              size={22}
+              color={isBlocked ? "#DC2626" : "#F59E0B"}
+            />
+            <Text className="text-lg font-semibold text-gray-900 ml-2">
+              {isBlocked ? "Call Blocked" : "Check Before Calling"}
+            </Text>
+          </View>
+
+          {prompt.verdict.reasons.map((item) => (
+            <View key={item.check} className="flex-row items-start mb-2">
+              <Text
+                className={`mr-2 ${
+                  item.level === "block" ? "text-red-600" : "text-amber-600"
+                }`}
+              >
+                •
+              </Text>
+              <Text className="flex-1 text-sm text-gray-700">
+                {item.message}
+              </Text>
+            </View>
+          ))}
+
+          <Text className="text-sm font-medium text-gray-700 mt-3 mb-2">
+            Reason for calling anyway{isBlocked ? "" : " (optional)"}
+          </Text>
+          <TextInput
+            className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900 min-h-[64px]"
+            placeholder="e.g. Lead asked to be called back now"
+            placeholderTextColor="#9CA3AF"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+            textAlignVertical="top"
+          />
+          <Text className="text-xs text-gray-500 mt-1">
+            Overrides are logged for compliance review.
+          </Text>
+
+          <View className="flex-row mt-4 gap-3">
+            <TouchableOpacity
+              className="flex-1 items-center rounded-lg py-3 bg-gray-100"
+              onPress={() => resolveCallGuardPrompt(null)}
+            >
+              <Text className="font-semibold text-gray-700">Don't Call</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              className={`flex-1 items-center rounded-lg py-3 ${
+                canOverride ? "bg-red-600" : "bg-gray-300"
+              }`}
+              disabled={!canOverride}
+              onPress={() => resolveCallGuardPrompt(reason.trim())}
+            >
+              <Text className="font-semibold text-white">Call Anyway</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default CallGuardModal;
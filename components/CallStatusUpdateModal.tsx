@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
   Alert,
   Modal,
@@ -12,7 +12,16 @@ import { Ionicons } from "@expo/vector-icons";
 import Toast from "react-native-root-toast";
 import StatusPicker from "./StatusPicker";
 import SearchableDropdown from "./SearchableDropdown";
-import { updateLead, createAuthHeaders, validateAuthToken } from "../services/api";
+import {
+  createAuthHeaders,
+  getBaseUrl,
+  validateAuthToken,
+} from "../services/api";
+import { useAppLock } from "../hooks/useAppLock";
+import { updateLeadOrQueue, uploadVoiceMemoOrQueue } from "../services/outbox";
+import { VoiceMemo, deleteVoiceMemoFile } from "../services/voiceMemo";
+import { formatMemoDuration } from "./VoiceMemoPlayer";
+import VoiceMemoRecorder from "./VoiceMemoRecorder";
 
 interface Lead {
   _id: string;
@@ -68,6 +77,7 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
   meetingAdded: externalMeetingAdded,
   onCommentChange,
 }) => {
+  const locked = useAppLock();
   const [selectedStatus, setSelectedStatus] = useState<string>("");
   const [comment, setComment] = useState<string>("");
   const [loading, setLoading] = useState(false);
@@ -79,6 +89,26 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
     [key: string]: any;
   }>({});
   const [showRequirements, setShowRequirements] = useState(false);
+  const [voiceMemo, setVoiceMemo] = useState<VoiceMemo | null>(null);
+  const voiceMemoRef = useRef<VoiceMemo | null>(null);
+
+  useEffect(() => {
+    voiceMemoRef.current = voiceMemo;
+  }, [voiceMemo]);
+
+  // Recordings that weren't uploaded or queued are only on this device, don't leave them behind
+  const discardVoiceMemo = useCallback(() => {
+    if (voiceMemoRef.current) deleteVoiceMemoFile(voiceMemoRef.current.uri);
+    voiceMemoRef.current = null;
+    setVoiceMemo(null);
+  }, []);
+
+  // However the modal was closed, an uploaded memo is already cleared by then
+  useEffect(() => {
+    if (!visible) discardVoiceMemo();
+  }, [visible, discardVoiceMemo]);
+
+  useEffect(() => discardVoiceMemo, [discardVoiceMemo]);
 
   useEffect(() => {
     if (visible && lead) {
@@ -86,6 +116,7 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
       const statusToSet = lead.preSelectedStatusId || lead.LeadStatus?._id || "";
       setSelectedStatus(statusToSet);
       setComment("");
+      discardVoiceMemo();
       
       // Initialize requirements from lead data
       setRequirements({
@@ -95,7 +126,7 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
         ...lead.dynamicFields,
       });
     }
-  }, [visible, lead]);
+  }, [visible, lead, discardVoiceMemo]);
 
   // Auto-update when reminder or meeting is added (if required)
   const [hasAutoUpdated, setHasAutoUpdated] = useState(false);
@@ -135,7 +166,7 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
           }
 
           const headers = await createAuthHeaders();
-          const response = await fetch(`${process.env.EXPO_PUBLIC_BASE_URL}/api/requirement-fields?includeInactive=false`, {
+          const response = await fetch(`${getBaseUrl()}/api/requirement-fields?includeInactive=false`, {
             method: 'GET',
             headers,
           });
@@ -151,7 +182,7 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
               console.log('CallStatusUpdateModal - No fields returned, attempting to initialize defaults');
               try {
                 // Try to initialize default fields
-                const initResponse = await fetch(`${process.env.EXPO_PUBLIC_BASE_URL}/api/requirement-fields/initialize`, {
+                const initResponse = await fetch(`${getBaseUrl()}/api/requirement-fields/initialize`, {
                   method: 'POST',
                   headers,
                 });
@@ -216,7 +247,23 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
     }));
   };
 
+  const handleCommentChange = (text: string) => {
+    setComment(text);
+    if (onCommentChange) {
+      onCommentChange(text);
+    }
+  };
+
+  const handleVoiceMemoChange = (memo: VoiceMemo | null) => {
+    setVoiceMemo(memo);
+    // Fill an empty comment with the transcript, the agent can still edit it
+    if (memo?.transcript && !comment.trim()) {
+      handleCommentChange(memo.transcript);
+    }
+  };
+
   const handleSkip = () => {
+    discardVoiceMemo();
     setComment("");
     setSelectedStatus(lead?.LeadStatus?._id || "");
     setRequirements({
@@ -255,9 +302,11 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
       // List of statuses that don't require description
       const noDescriptionStatuses = ["RNR"];
 
+      // A voice memo describes the call as well as a written comment
       if (
         statusChanged &&
         wordCount < 3 &&
+        !voiceMemo &&
         !noDescriptionStatuses.includes(newStatusLabel || "")
       ) {
         Toast.show("Description must exceed 2 words on status change.", {
@@ -290,7 +339,11 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
 
       // Prepare update data
       const updates: any = {
-        updateDescription: trimmedComment,
+        updateDescription:
+          trimmedComment ||
+          (voiceMemo
+            ? `Voice memo (${formatMemoDuration(voiceMemo.durationSeconds)})`
+            : ""),
       };
 
       if (statusChanged && newStatusOption) {
@@ -357,17 +410,37 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
       // Log the updates being sent to API
       console.log('CallStatusUpdateModal - Updates being sent to API:', JSON.stringify(updates, null, 2));
       
-      // Update the lead
-      await updateLead(lead._id, updates);
+      // Update the lead, or keep it in the outbox until we're back online
+      const { queued } = await updateLeadOrQueue(lead, updates);
+
+      // Queued behind the lead update when offline, the recording is kept until it's uploaded
+      if (voiceMemo) {
+        try {
+          await uploadVoiceMemoOrQueue({ leadId: lead._id, ...voiceMemo });
+          // Uploaded or queued, closing must not delete the file
+          voiceMemoRef.current = null;
+          setVoiceMemo(null);
+        } catch (error: any) {
+          console.error("Failed to upload voice memo:", error);
+          Toast.show(`Failed to upload voice memo: ${error.message}`, {
+            duration: Toast.durations.LONG,
+          });
+        }
+      }
 
       // Update local lead data
       if (onLeadUpdate) {
         onLeadUpdate(lead._id, updates);
       }
 
-      Toast.show("Lead updated successfully", {
-        duration: Toast.durations.SHORT,
-      });
+      Toast.show(
+        queued
+          ? "You're offline. Update saved and will sync automatically"
+          : "Lead updated successfully",
+        {
+          duration: Toast.durations.SHORT,
+        }
+      );
 
       // Check if status was changed to "Closure"
       if (statusChanged && newStatusLabel === "Closure") {
@@ -386,7 +459,7 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
     } finally {
       setLoading(false);
     }
-  }, [lead, selectedStatus, comment, requirements, statusOptions, onLeadUpdate, onReminderPress, onMeetingPress, externalReminderAdded, externalMeetingAdded, showRequirements, onClose]);
+  }, [lead, selectedStatus, comment, voiceMemo, requirements, statusOptions, onLeadUpdate, onReminderPress, onMeetingPress, externalReminderAdded, externalMeetingAdded, showRequirements, onClose]);
 
   if (!lead) return null;
 
@@ -402,10 +475,12 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
   // Show Next button if meeting/reminder is required but not yet added
   const showNextButton = requiresMeeting || requiresReminder;
   const nextButtonText = requiresMeeting ? "Next (Add Meeting)" : "Next (Add Reminder)";
+  const needsComment = statusChanged && !voiceMemo && comment.trim().split(/\s+/).length < 3;
 
   return (
     <Modal
-      visible={visible}
+      // Opens on return from the dialer, which is when the app locks, wait for the unlock
+      visible={visible && !locked}
       animationType="slide"
       presentationStyle="pageSheet"
       onRequestClose={handleSkip}
@@ -453,23 +528,30 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
                   : "Add a comment about the call..."
               }
               value={comment}
-              onChangeText={(text) => {
-                setComment(text);
-                if (onCommentChange) {
-                  onCommentChange(text);
-                }
-              }}
+              onChangeText={handleCommentChange}
               multiline
               textAlignVertical="top"
               autoFocus
             />
             {statusChanged && (
               <Text className="text-xs text-gray-500 mt-1">
-                * Required when changing status (minimum 3 words)
+                * Required when changing status (minimum 3 words, or record a voice memo)
               </Text>
             )}
           </View>
 
+          {/* Voice Memo */}
+          <View className="mb-6">
+            <Text className="text-sm font-medium text-gray-700 mb-3">
+              Voice Memo
+            </Text>
+            <VoiceMemoRecorder
+              memo={voiceMemo}
+              onChange={handleVoiceMemoChange}
+              onUseTranscript={handleCommentChange}
+            />
+          </View>
+
           {/* Requirements Toggle */}
           <View className="mb-6">
             <TouchableOpacity
@@ -590,16 +672,16 @@ const CallStatusUpdateModal: React.FC<CallStatusUpdateModalProps> = ({
             </TouchableOpacity>
             <TouchableOpacity
               onPress={handleSubmit}
-              disabled={loading || (statusChanged && comment.trim().split(/\s+/).length < 3)}
+              disabled={loading || needsComment}
               className={`flex-1 p-3 rounded-lg ${
-                loading || (statusChanged && comment.trim().split(/\s+/).length < 3)
+                loading || needsComment
                   ? "bg-gray-300"
                   : "bg-miles-500"
               }`}
             >
               <Text
                 className={`text-center font-medium ${
-                  loading || (statusChanged && comment.trim().split(/\s+/).length < 3)
+                  loading || needsComment
                     ? "text-gray-500"
                     : "text-white"
                 }`}
@@ -0,0 +1,24 @@
+import useUserPermissions from "@/hooks/useUserPermissions";
+import { Permission } from "@/utils/userPermissions";
+import React from "react";
+
+interface CanProps {
+  // Any one of several permissions is enough
+  permission: Permission | Permission[];
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Render children only when the user has the permission
+ */
+const Can: React.FC<CanProps> = ({ permission, fallback = null, children }) => {
+  const { can, canAny } = useUserPermissions();
+  const allowed = Array.isArray(permission)
+    ? canAny(permission)
+    : can(permission);
+
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
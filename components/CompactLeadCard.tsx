@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { formatTimestamp } from '../utils/dateFormatter';
+import { formatPhoneForDisplay } from '../utils/phone';
 import AuthenticatedImage from './AuthenticatedImage';
 
 interface Lead {
@@ -121,7 +122,7 @@ const CompactLeadCard: React.FC<CompactLeadCardProps> = ({ lead, onPress }) => {
               <View className="flex-row items-center mr-4">
                 <Ionicons name="call" size={12} color="#6B7280" />
                 <Text className="text-xs text-gray-600 ml-1" numberOfLines={1}>
-                  {safeText(lead.Phone)}
+                  {safeText(formatPhoneForDisplay(lead.Phone))}
                 </Text>
               </View>
             )}
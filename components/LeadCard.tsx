@@ -3,8 +3,17 @@ import { router } from "expo-router";
 import React from "react";
 import { Alert, Linking, Text, TouchableOpacity, View } from "react-native";
 import Animated, { SlideInDown, SlideOutUp } from "react-native-reanimated";
-import { formatPhoneNumber, formatTimestamp } from "../utils/dateFormatter";
+import useUserPermissions from "../hooks/useUserPermissions";
+import { getBaseUrl } from "../services/api/config";
+import { guardCall } from "../services/callGuard";
+import { formatTimestamp } from "../utils/dateFormatter";
+import {
+  formatPhoneForDisplay,
+  isMaskedPhone,
+  parsePhone,
+} from "../utils/phone";
 import AuthenticatedImage from "./AuthenticatedImage";
+import PendingSyncBadge from "./PendingSyncBadge";
 import StatusPicker from "./StatusPicker";
 
 interface Lead {
@@ -55,9 +64,6 @@ interface LeadCardProps {
     label: string;
   }>;
   onLeadUpdate?: (leadId: string, updates: any) => Promise<void>;
-  userPermissions?: {
-    lead?: string[];
-  };
   onOpenModal?: (type: string, callback?: () => void) => void;
   onCallStatusUpdateModalOpen?: (preSelectedStatusId?: string) => void;
   scrollToCard?: (leadId: string) => void;
@@ -70,18 +76,17 @@ const LeadCard: React.FC<LeadCardProps> = ({
   onCardPress,
   statusOptions = [],
 
-  userPermissions,
   onCallStatusUpdateModalOpen,
 }) => {
   const [showContact, setShowContact] = useState(false);
   const [avatarError, setAvatarError] = useState(false);
   const [loading, setLoading] = useState(false);
 
-  const canUpdateStatus =
-    userPermissions?.lead?.includes("update_status") ?? true;
+  const { can } = useUserPermissions();
+  const canUpdateStatus = can("lead.update_status");
 
-  const handlePhoneCall = (phoneNumber: string) => {
-    if (!phoneNumber || phoneNumber.startsWith("***")) {
+  const handlePhoneCall = async (phoneNumber: string) => {
+    if (!phoneNumber || isMaskedPhone(phoneNumber)) {
       Alert.alert(
         "Contact Unavailable",
         !phoneNumber
@@ -90,11 +95,32 @@ const LeadCard: React.FC<LeadCardProps> = ({
       );
       return;
     }
-    Linking.openURL(`tel:${formatPhoneNumber(phoneNumber)}`);
+
+    const dial = async (number: string) => {
+      if (!(await guardCall(lead, number))) return;
+      Linking.openURL(`tel:${number}`);
+    };
+
+    const parsed = parsePhone(phoneNumber);
+    if (parsed?.isValid && parsed.e164) {
+      dial(parsed.e164);
+      return;
+    }
+    Alert.alert(
+      "Invalid Phone Number",
+      `${phoneNumber} doesn't look like a valid phone number.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Call Anyway",
+          onPress: () => dial(phoneNumber.replace(/[^\d+]/g, "")),
+        },
+      ]
+    );
   };
 
   const handleWhatsApp = (phoneNumber: string) => {
-    if (!phoneNumber || phoneNumber.startsWith("***")) {
+    if (!phoneNumber || isMaskedPhone(phoneNumber)) {
       Alert.alert(
         "Contact Unavailable",
         !phoneNumber
@@ -103,10 +129,23 @@ const LeadCard: React.FC<LeadCardProps> = ({
       );
       return;
     }
+    const parsed = parsePhone(phoneNumber);
+    if (!parsed?.isValid || !parsed.digits) {
+      Alert.alert(
+        "Invalid Phone Number",
+        `${phoneNumber} doesn't look like a valid phone number.`
+      );
+      return;
+    }
+    if (parsed.isLandline) {
+      Alert.alert(
+        "Landline",
+        "This number is a landline and can't use WhatsApp."
+      );
+      return;
+    }
     Linking.openURL(
-      `https://wa.me/${encodeURIComponent(
-        formatPhoneNumber(phoneNumber)
-      )}?text=${encodeURIComponent(
+      `https://wa.me/${parsed.digits}?text=${encodeURIComponent(
         "Hello! I'm reaching out regarding your inquiry."
       )}`
     );
@@ -136,12 +175,15 @@ const LeadCard: React.FC<LeadCardProps> = ({
       >
         <View className="flex-row justify-between">
           <View className="flex-1">
-            <Text
-              className={`text-base font-semibold text-gray-900 text-left`}
-              numberOfLines={1}
-            >
-              {lead.Name}
-            </Text>
+            <View className="flex-row items-center gap-2">
+              <Text
+                className={`flex-shrink text-base font-semibold text-gray-900 text-left`}
+                numberOfLines={1}
+              >
+                {lead.Name}
+              </Text>
+              <PendingSyncBadge leadId={lead._id} />
+            </View>
 
             <View className="flex-row items-center">
               {lead?.Assigned ? (
@@ -164,7 +206,7 @@ const LeadCard: React.FC<LeadCardProps> = ({
           {lead.Assigned?.Avatar && !avatarError ? (
             <AuthenticatedImage
               source={{
-                uri: `${process.env.EXPO_PUBLIC_BASE_URL || ""}${encodeURI(
+                uri: `${getBaseUrl()}${encodeURI(
                   lead.Assigned.Avatar
                 )}`,
               }}
@@ -362,7 +404,7 @@ const LeadCard: React.FC<LeadCardProps> = ({
                     : "text-miles-800"
                 }`}
               >
-                {lead.Phone ? formatPhoneNumber(lead.Phone) : "N/A"}
+                {lead.Phone ? formatPhoneForDisplay(lead.Phone) : "N/A"}
               </Text>
             </TouchableOpacity>
 
@@ -391,7 +433,7 @@ const LeadCard: React.FC<LeadCardProps> = ({
                       : "text-red-600"
                   }`}
                 >
-                  {formatPhoneNumber(lead.AltPhone)}
+                  {formatPhoneForDisplay(lead.AltPhone)}
                 </Text>
               </TouchableOpacity>
             )}
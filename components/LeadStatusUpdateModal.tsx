@@ -13,7 +13,12 @@ import Toast from "react-native-root-toast";
 import StatusPicker from "./StatusPicker";
 import SourcePicker from "./SourcePicker";
 import SearchableDropdown from "./SearchableDropdown";
-import { updateLead, createAuthHeaders, validateAuthToken } from "../services/api";
+import {
+  createAuthHeaders,
+  getBaseUrl,
+  validateAuthToken,
+} from "../services/api";
+import { updateLeadOrQueue } from "../services/outbox";
 
 interface Lead {
   _id: string;
@@ -115,7 +120,7 @@ const LeadStatusUpdateModal: React.FC<LeadStatusUpdateModalProps> = ({
           }
 
           const headers = await createAuthHeaders();
-          const response = await fetch(`${process.env.EXPO_PUBLIC_BASE_URL}/api/requirement-fields?includeInactive=false`, {
+          const response = await fetch(`${getBaseUrl()}/api/requirement-fields?includeInactive=false`, {
             method: 'GET',
             headers,
           });
@@ -130,7 +135,7 @@ const LeadStatusUpdateModal: React.FC<LeadStatusUpdateModalProps> = ({
               console.log('LeadStatusUpdateModal - No fields returned, attempting to initialize defaults');
               try {
                 // Try to initialize default fields
-                const initResponse = await fetch(`${process.env.EXPO_PUBLIC_BASE_URL}/api/requirement-fields/initialize`, {
+                const initResponse = await fetch(`${getBaseUrl()}/api/requirement-fields/initialize`, {
                   method: 'POST',
                   headers,
                 });
@@ -358,8 +363,8 @@ const LeadStatusUpdateModal: React.FC<LeadStatusUpdateModalProps> = ({
       // Log the updates being sent to API
       console.log('LeadStatusUpdateModal - Updates being sent to API:', JSON.stringify(updates, null, 2));
       
-      // Update the lead
-      await updateLead(lead._id, updates);
+      // Update the lead, or keep it in the outbox until we're back online
+      const { queued } = await updateLeadOrQueue(lead, updates);
 
       // Update local lead data
       if (onLeadUpdate) {
@@ -379,9 +384,14 @@ const LeadStatusUpdateModal: React.FC<LeadStatusUpdateModalProps> = ({
         onLeadUpdate(updatedLead);
       }
 
-      Toast.show("Lead updated successfully", {
-        duration: Toast.durations.SHORT,
-      });
+      Toast.show(
+        queued
+          ? "You're offline. Update saved and will sync automatically"
+          : "Lead updated successfully",
+        {
+          duration: Toast.durations.SHORT,
+        }
+      );
 
       // Check if status was changed to "Closure"
       if (statusChanged && newStatusLabel === "Closure") {
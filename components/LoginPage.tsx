@@ -1,3 +1,12 @@
+import { useServerProfiles } from "@/hooks/useServerProfiles";
+import { getBaseUrl } from "@/services/api/config";
+import { getSsoProviders, SsoProvider } from "@/services/api/sso";
+import {
+  getAppLockSupport,
+  hasBiometricSignIn,
+  signInWithBiometrics,
+} from "@/services/appLock";
+import { signInWithSso } from "@/services/sso";
 import { Ionicons } from "@expo/vector-icons";
 import * as SecureStore from "expo-secure-store";
 import React, { useState } from "react";
@@ -15,9 +24,17 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import ServerProfilePicker from "./ServerProfilePicker";
 
 const { width } = Dimensions.get("window");
 
+const getSsoIcon = (provider: SsoProvider) => {
+  const id = `${provider.id} ${provider.issuer}`.toLowerCase();
+  if (id.includes("google")) return "logo-google";
+  if (id.includes("microsoft")) return "logo-microsoft";
+  return "key-outline";
+};
+
 interface LoginPageProps {
   onLoginSuccess: (token: string) => void;
 }
@@ -31,6 +48,10 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
   const [passwordError, setPasswordError] = useState("");
   const [fadeAnim] = useState(new Animated.Value(0));
   const [logoError, setLogoError] = useState(false);
+  // Set when the expired session can be resumed with biometrics
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([]);
+  const { activeProfile } = useServerProfiles();
 
   // Force light mode colors
   const backgroundColor = "#ffffff";
@@ -48,6 +69,74 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
     }).start();
   }, []);
 
+  // Switching servers drops the biometric sign-in of the previous one
+  React.useEffect(() => {
+    hasBiometricSignIn().then(async (available) => {
+      const support = available ? await getAppLockSupport() : null;
+      setBiometricLabel(support?.available ? support.label : null);
+    });
+  }, [activeProfile.id]);
+
+  // Each server decides which identity providers it accepts
+  React.useEffect(() => {
+    let cancelled = false;
+    setSsoProviders([]);
+    getSsoProviders()
+      .then((providers) => {
+        if (!cancelled) setSsoProviders(providers);
+      })
+      .catch((error) => {
+        console.log("Single sign-on not available:", error?.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProfile.id]);
+
+  const handleSsoLogin = async (provider: SsoProvider) => {
+    setIsLoading(true);
+    try {
+      const token = await signInWithSso(provider);
+      if (token) onLoginSuccess(token);
+    } catch (error: any) {
+      console.error("Single sign-on failed:", error);
+      Alert.alert(
+        "Login Failed",
+        error?.message ||
+          `Unable to sign in with ${provider.name}. Please try again.`
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBiometricLogin = async () => {
+    setIsLoading(true);
+    try {
+      const token = await signInWithBiometrics();
+      if (token) {
+        onLoginSuccess(token);
+        return;
+      }
+      // The stored sign-in was rejected, it's gone now
+      if (!(await hasBiometricSignIn())) {
+        setBiometricLabel(null);
+        Alert.alert(
+          "Sign In Required",
+          "Your session can't be resumed. Please sign in with your email and password."
+        );
+      }
+    } catch (error) {
+      console.error(error);
+      Alert.alert(
+        "Connection Error",
+        "Unable to connect to the server. Please check your internet connection and try again."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const validateEmail = (email: string) => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!email) {
@@ -88,7 +177,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
     setIsLoading(true);
 
     try {
-      const loginUrl = `${process.env.EXPO_PUBLIC_BASE_URL}/api/users/login`;
+      const loginUrl = `${getBaseUrl()}/api/users/login`;
       const requestHeaders = {
         "Content-Type": "application/json",
       };
@@ -157,6 +246,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
           <Text style={[styles.brandSubtitle, { color: textColor + "80" }]}>
             Welcome back
           </Text>
+          <ServerProfilePicker />
         </View>
 
         {/* Form Section */}
@@ -257,6 +347,52 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLoginSuccess }) => {
             )}
           </TouchableOpacity>
 
+          {/* Resume the expired session with biometrics */}
+          {biometricLabel && (
+            <TouchableOpacity
+              style={[styles.biometricButton, { borderColor: tintColor }]}
+              onPress={handleBiometricLogin}
+              disabled={isLoading}
+              accessibilityLabel={`Sign in with ${biometricLabel}`}
+            >
+              <Ionicons name="finger-print" size={20} color={tintColor} />
+              <Text style={[styles.biometricButtonText, { color: tintColor }]}>
+                Sign in with {biometricLabel}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Single sign-on with the identity providers the server accepts */}
+          {ssoProviders.length > 0 && (
+            <View style={styles.ssoDivider}>
+              <View style={styles.ssoDividerLine} />
+              <Text
+                style={[styles.ssoDividerText, { color: textColor + "60" }]}
+              >
+                or
+              </Text>
+              <View style={styles.ssoDividerLine} />
+            </View>
+          )}
+          {ssoProviders.map((provider) => (
+            <TouchableOpacity
+              key={provider.id}
+              style={styles.ssoButton}
+              onPress={() => handleSsoLogin(provider)}
+              disabled={isLoading}
+              accessibilityLabel={`Continue with ${provider.name}`}
+            >
+              <Ionicons
+                name={getSsoIcon(provider)}
+                size={20}
+                color={textColor}
+              />
+              <Text style={[styles.ssoButtonText, { color: textColor }]}>
+                Continue with {provider.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
           {/* Forgot Password */}
           <TouchableOpacity
             style={styles.forgotPassword}
@@ -360,6 +496,50 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  biometricButton: {
+    flexDirection: "row",
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 12,
+  },
+  biometricButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  ssoDivider: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  ssoDividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: "#E1E5E9",
+  },
+  ssoDividerText: {
+    fontSize: 14,
+    marginHorizontal: 12,
+  },
+  ssoButton: {
+    flexDirection: "row",
+    borderWidth: 1.5,
+    borderColor: "#E1E5E9",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 12,
+  },
+  ssoButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
   forgotPassword: {
     alignItems: "center",
     marginTop: 20,
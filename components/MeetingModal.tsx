@@ -13,7 +13,8 @@ import {
   View,
 } from "react-native";
 import Toast from "react-native-root-toast";
-import { addMeeting, searchDevelopers, updateMeeting } from "../services/api";
+import { searchDevelopers, updateMeeting } from "../services/api";
+import { addMeetingOrQueue } from "../services/outbox";
 import SearchableDropdown from "./SearchableDropdown";
 
 interface User {
@@ -264,15 +265,17 @@ const MeetingModal: React.FC<MeetingModalProps> = ({
         }
       }
 
-      let result;
+      let queued = false;
       if (isEditMode && meetingToEdit?._id) {
-        result = await updateMeeting(meetingToEdit._id, meetingData);
+        await updateMeeting(meetingToEdit._id, meetingData);
       } else {
-        result = await addMeeting(meetingData);
+        ({ queued } = await addMeetingOrQueue(meetingData));
       }
 
       Toast.show(
-        isEditMode
+        queued
+          ? "You're offline. Meeting saved and will sync automatically"
+          : isEditMode
           ? "Meeting updated successfully"
           : "Meeting added successfully",
         {
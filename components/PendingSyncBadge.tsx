@@ -0,0 +1,42 @@
+import { useOutbox } from "@/hooks/useOutbox";
+import Ionicons from "@expo/vector-icons/Ionicons";
+import React from "react";
+import { Text, View } from "react-native";
+
+interface PendingSyncBadgeProps {
+  leadId: string;
+}
+
+/**
+ * Small badge shown while a lead has changes waiting in the offline outbox
+ */
+const PendingSyncBadge: React.FC<PendingSyncBadgeProps> = ({ leadId }) => {
+  const { pendingCount, conflicts } = useOutbox(leadId);
+
+  if (pendingCount === 0) return null;
+
+  const hasConflict = conflicts.length > 0;
+
+  return (
+    <View
+      className={`flex-row items-center px-2 py-0.5 rounded-full ${
+        hasConflict ? "bg-red-100" : "bg-amber-100"
+      }`}
+    >
+      <Ionicons
+        name={hasConflict ? "alert-circle-outline" : "cloud-upload-outline"}
+        size={12}
+        color={hasConflict ? "#DC2626" : "#D97706"}
+      />
+      <Text
+        className={`ml-1 text-xs font-medium ${
+          hasConflict ? "text-red-700" : "text-amber-700"
+        }`}
+      >
+        {hasConflict ? "Sync conflict" : `Pending sync (${pendingCount})`}
+      </Text>
+    </View>
+  );
+};
+
+export default PendingSyncBadge;
@@ -0,0 +1,111 @@
+import { getWrapUpSeconds } from "@/services/powerDialer";
+import { formatCountdown, WRAP_UP_OPTIONS } from "@/utils/powerDialer";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface PowerDialerSetupModalProps {
+  visible: boolean;
+  campaignName?: string;
+  pendingLeads?: number;
+  starting: boolean;
+  onClose: () => void;
+  onStart: (wrapUpSeconds: number) => void;
+}
+
+const PowerDialerSetupModal: React.FC<PowerDialerSetupModalProps> = ({
+  visible,
+  campaignName,
+  pendingLeads,
+  starting,
+  onClose,
+  onStart,
+}) => {
+  const [wrapUpSeconds, setWrapUpSeconds] = useState<number | null>(null);
+
+  // Start from the wrap-up time used last
+  useEffect(() => {
+    if (visible) getWrapUpSeconds().then(setWrapUpSeconds);
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 bg-black/50 justify-center px-6">
+        <View className="bg-white rounded-2xl p-5">
+          <View className="flex-row items-center justify-between mb-1">
+            <Text className="text-lg font-semibold text-gray-900">
+              Power Dialer
+            </Text>
+            <TouchableOpacity onPress={onClose} className="p-1">
+              <Ionicons name="close" size={22} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+          <Text className="text-sm text-gray-600 mb-4">
+            Calls the pending leads of{" "}
+            <Text className="font-medium text-gray-900">{campaignName}</Text>{" "}
+            one after another
+            {pendingLeads !== undefined ? ` (${pendingLeads} pending)` : ""}.
+            Leads without a valid phone number are skipped.
+          </Text>
+
+          <Text className="text-sm font-medium text-gray-700 mb-2">
+            Wrap-up time before the next call
+          </Text>
+          <View className="flex-row flex-wrap gap-2 mb-5">
+            {WRAP_UP_OPTIONS.map((seconds) => (
+              <TouchableOpacity
+                key={seconds}
+                onPress={() => setWrapUpSeconds(seconds)}
+                className={`px-4 py-2 rounded-full border ${
+                  wrapUpSeconds === seconds
+                    ? "bg-miles-500 border-miles-500"
+                    : "bg-white border-gray-300"
+                }`}
+              >
+                <Text
+                  className={`text-sm font-medium ${
+                    wrapUpSeconds === seconds ? "text-white" : "text-gray-700"
+                  }`}
+                >
+                  {seconds === 0 ? "Manual" : formatCountdown(seconds)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            className={`flex-row items-center justify-center rounded-lg py-3 ${
+              starting || wrapUpSeconds === null
+                ? "bg-gray-300"
+                : "bg-miles-500"
+            }`}
+            disabled={starting || wrapUpSeconds === null}
+            onPress={() => wrapUpSeconds !== null && onStart(wrapUpSeconds)}
+          >
+            {starting ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Ionicons name="flash" size={18} color="white" />
+            )}
+            <Text className="text-white font-semibold ml-2">
+              {starting ? "Loading leads..." : "Start Power Dialer"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default PowerDialerSetupModal;
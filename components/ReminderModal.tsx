@@ -13,7 +13,8 @@ import {
   View,
 } from "react-native";
 import Toast from "react-native-root-toast";
-import { addReminder, getUsers, updateReminder } from "../services/api";
+import { getUsers, updateReminder } from "../services/api";
+import { addReminderOrQueue } from "../services/outbox";
 
 interface User {
   _id: string;
@@ -245,16 +246,19 @@ const ReminderModal: React.FC<ReminderModalProps> = ({
       });
 
       let result;
+      let queued = false;
       if (isEditMode && reminderToEdit?._id) {
         result = await updateReminder(reminderToEdit._id, reminderData);
       } else {
-        result = await addReminder(reminderData);
+        ({ result, queued } = await addReminderOrQueue(reminderData));
       }
       
       console.log('✅ Reminder API response:', result);
 
       Toast.show(
-        isEditMode
+        queued
+          ? "You're offline. Reminder saved and will sync automatically"
+          : isEditMode
           ? "Reminder updated successfully"
           : "Reminder added successfully",
         {
@@ -0,0 +1,219 @@
+import { useServerProfiles } from "@/hooks/useServerProfiles";
+import {
+  confirmServerSwitch,
+  removeServerProfile,
+  saveServerProfile,
+  selectServerProfile,
+  ServerProfile,
+  validateServerUrl,
+} from "@/services/serverProfiles";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+/**
+ * Shows the server the app signs in to and lets the user pick or add another
+ */
+const ServerProfilePicker: React.FC = () => {
+  const { profiles, activeProfile } = useServerProfiles();
+  const [visible, setVisible] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [urlError, setUrlError] = useState<string | null>(null);
+
+  const close = () => {
+    setVisible(false);
+    setAdding(false);
+    setName("");
+    setUrl("");
+    setUrlError(null);
+  };
+
+  const switchTo = async (profile: ServerProfile) => {
+    if (profile.id === activeProfile.id) {
+      close();
+      return;
+    }
+    if (!(await confirmServerSwitch(profile.name))) return;
+
+    try {
+      await selectServerProfile(profile.id);
+      close();
+    } catch (error: any) {
+      console.error("Failed to switch server:", error);
+      Alert.alert(
+        "Error",
+        error?.message || "The server could not be changed."
+      );
+    }
+  };
+
+  const addProfile = async () => {
+    const error = validateServerUrl(url);
+    setUrlError(error);
+    if (error) return;
+
+    try {
+      const profile = await saveServerProfile(name, url);
+      setAdding(false);
+      setName("");
+      setUrl("");
+      await switchTo(profile);
+    } catch (saveError: any) {
+      setUrlError(saveError?.message || "The server could not be saved.");
+    }
+  };
+
+  const removeProfile = (profile: ServerProfile) => {
+    Alert.alert("Remove Server", `Remove ${profile.name} from this phone?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () =>
+          removeServerProfile(profile.id).catch((error) => {
+            console.error("Failed to remove server:", error);
+          }),
+      },
+    ]);
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        onPress={() => setVisible(true)}
+        className="flex-row items-center self-center px-3 py-1.5 rounded-full bg-gray-100 mt-4"
+        accessibilityLabel="Choose server"
+      >
+        <Ionicons name="server-outline" size={14} color="#6B7280" />
+        <Text className="text-xs text-gray-600 ml-1.5" numberOfLines={1}>
+          {activeProfile.name}
+        </Text>
+        <Ionicons name="chevron-down" size={14} color="#6B7280" />
+      </TouchableOpacity>
+
+      <Modal
+        visible={visible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={close}
+      >
+        <View className="flex-1 bg-gray-50">
+          <View className="flex-row items-center justify-between p-4 bg-white border-b border-gray-200">
+            <TouchableOpacity onPress={close} className="p-1">
+              <Ionicons name="close" size={24} color="#6B7280" />
+            </TouchableOpacity>
+            <Text className="text-lg font-semibold text-gray-900">Server</Text>
+            <View className="w-8" />
+          </View>
+
+          <ScrollView className="flex-1 p-4">
+            <View className="bg-white rounded-xl px-4 shadow-sm">
+              {profiles.map((profile) => {
+                const selected = profile.id === activeProfile.id;
+                return (
+                  <TouchableOpacity
+                    key={profile.id}
+                    onPress={() => switchTo(profile)}
+                    className="flex-row items-center py-3 border-b border-gray-100"
+                  >
+                    <Ionicons
+                      name={selected ? "radio-button-on" : "radio-button-off"}
+                      size={20}
+                      color={selected ? "#176298" : "#9CA3AF"}
+                    />
+                    <View className="ml-3 flex-1">
+                      <Text className="text-gray-900 font-medium">
+                        {profile.name}
+                      </Text>
+                      <Text className="text-gray-500 text-sm" numberOfLines={1}>
+                        {profile.baseUrl}
+                      </Text>
+                    </View>
+                    {!profile.builtIn && (
+                      <TouchableOpacity
+                        onPress={() => removeProfile(profile)}
+                        className="p-1 ml-2"
+                      >
+                        <Ionicons
+                          name="trash-outline"
+                          size={18}
+                          color="#DC2626"
+                        />
+                      </TouchableOpacity>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {adding ? (
+              <View className="bg-white rounded-xl p-4 shadow-sm mt-4 gap-3">
+                <TextInput
+                  className="border border-gray-300 rounded-lg p-3 text-base"
+                  placeholder="Name, e.g. Dubai Office"
+                  value={name}
+                  onChangeText={setName}
+                />
+                <TextInput
+                  className={`border rounded-lg p-3 text-base ${
+                    urlError ? "border-red-400" : "border-gray-300"
+                  }`}
+                  placeholder="https://crm.example.com"
+                  value={url}
+                  onChangeText={(text) => {
+                    setUrl(text);
+                    if (urlError) setUrlError(validateServerUrl(text));
+                  }}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                {urlError && (
+                  <Text className="text-xs text-red-600">{urlError}</Text>
+                )}
+                <View className="flex-row gap-3">
+                  <TouchableOpacity
+                    onPress={() => setAdding(false)}
+                    className="flex-1 py-3 rounded-lg border border-gray-300 items-center"
+                  >
+                    <Text className="text-gray-700 font-medium">Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={addProfile}
+                    className="flex-1 py-3 rounded-lg bg-miles-500 items-center"
+                  >
+                    <Text className="text-white font-semibold">
+                      Save and Use
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <TouchableOpacity
+                onPress={() => setAdding(true)}
+                className="flex-row items-center justify-center p-3 mt-4 border border-dashed border-gray-300 rounded-lg"
+              >
+                <Ionicons name="add" size={18} color="#176298" />
+                <Text className="text-miles-600 font-medium ml-1">
+                  Add Server
+                </Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+export default ServerProfilePicker;
@@ -0,0 +1,286 @@
+import { useDeviceHealth } from "@/hooks/useDeviceHealth";
+import { useSessions } from "@/hooks/useSessions";
+import { clearAuthData } from "@/services/api/auth";
+import { logoutEverywhere, UserSession } from "@/services/api/sessions";
+import { registerPushSubscription } from "@/services/deviceHealth";
+import { formatTimeAgo } from "@/utils/dateFormatter";
+import { HEALTH_LEVEL_COLORS, HealthCheck } from "@/utils/deviceHealth";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useContext, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { LogoutContext, UserContext } from "../app/_layout";
+
+const PLATFORM_ICONS: Record<string, string> = {
+  ios: "logo-apple",
+  android: "logo-android",
+  web: "globe-outline",
+};
+
+const formatPlatform = (session: UserSession) =>
+  [
+    session.platform === "ios"
+      ? "iOS"
+      : session.platform
+        ? session.platform.charAt(0).toUpperCase() + session.platform.slice(1)
+        : null,
+    session.osVersion,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+// Enough of the OneSignal ID to tell two devices apart
+const shortenPlayerId = (playerId: string) =>
+  playerId.length > 12 ? `${playerId.slice(0, 8)}…` : playerId;
+
+const HealthRow: React.FC<{
+  icon: string;
+  label: string;
+  check: HealthCheck | undefined;
+  action?: { label: string; onPress: () => void };
+}> = ({ icon, label, check, action }) => (
+  <View className="flex-row items-center py-3 border-b border-gray-100">
+    <Ionicons name={icon as any} size={20} color="#6B7280" />
+    <View className="ml-3 flex-1">
+      <Text className="text-gray-700 font-medium">{label}</Text>
+      <View className="flex-row items-center mt-0.5">
+        <View
+          className="w-2 h-2 rounded-full mr-1.5"
+          style={{
+            backgroundColor: check
+              ? HEALTH_LEVEL_COLORS[check.level]
+              : "#D1D5DB",
+          }}
+        />
+        <Text className="text-gray-500 text-sm flex-1">
+          {check?.summary || "Checking..."}
+        </Text>
+      </View>
+    </View>
+    {action && (
+      <TouchableOpacity onPress={action.onPress} className="px-2 py-1 ml-2">
+        <Text className="text-miles-600 font-medium text-sm">
+          {action.label}
+        </Text>
+      </TouchableOpacity>
+    )}
+  </View>
+);
+
+/**
+ * This device's push and location health, the user's signed-in devices and signing out of them
+ */
+const SessionsDevices: React.FC = () => {
+  const user = useContext(UserContext);
+  const contextLogout = useContext(LogoutContext);
+  const {
+    sessions,
+    currentSession,
+    loading,
+    error,
+    refresh: refreshSessions,
+    revoke,
+  } = useSessions();
+  // undefined until the server says which subscription it has for this session
+  const { health, refresh: refreshHealth } = useDeviceHealth(
+    currentSession ? (currentSession.playerId ?? null) : undefined
+  );
+  const [busy, setBusy] = useState(false);
+
+  const openSettings = () => {
+    Linking.openSettings().catch((settingsError) => {
+      console.error("Failed to open settings:", settingsError);
+    });
+  };
+
+  const reregisterPush = async () => {
+    if (!user?.id) return;
+    try {
+      if (!(await registerPushSubscription(user.id))) {
+        Alert.alert(
+          "Not Subscribed",
+          "This device has no notification subscription yet. Allow notifications and try again."
+        );
+        return;
+      }
+      await refreshSessions();
+      await refreshHealth();
+    } catch (registerError) {
+      console.error("Failed to register push subscription:", registerError);
+      Alert.alert("Error", "This device could not be registered.");
+    }
+  };
+
+  const confirmRevoke = (session: UserSession) => {
+    Alert.alert(
+      "Sign Out Device",
+      `Sign out ${session.deviceName || "this session"}? It will need to sign in again.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out",
+          style: "destructive",
+          onPress: () =>
+            revoke(session.id).catch((revokeError) => {
+              console.error("Failed to revoke session:", revokeError);
+              Alert.alert("Error", "The device could not be signed out.");
+            }),
+        },
+      ]
+    );
+  };
+
+  const confirmLogoutEverywhere = () => {
+    Alert.alert(
+      "Log Out Everywhere",
+      "Sign out of every device, including this one?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Log Out Everywhere",
+          style: "destructive",
+          onPress: async () => {
+            setBusy(true);
+            try {
+              await logoutEverywhere();
+            } catch (logoutError) {
+              console.error("Failed to log out everywhere:", logoutError);
+              Alert.alert(
+                "Error",
+                "Other devices could not be signed out. Please try again."
+              );
+              setBusy(false);
+              return;
+            }
+            // The server has already ended this session, only local cleanup is left
+            await clearAuthData();
+            await contextLogout?.();
+          },
+        },
+      ]
+    );
+  };
+
+  const pushAction =
+    health?.push.level === "error"
+      ? { label: "Settings", onPress: openSettings }
+      : health?.push.level === "warning"
+        ? { label: "Fix", onPress: reregisterPush }
+        : undefined;
+  const locationAction =
+    health?.location.level === "error"
+      ? { label: "Settings", onPress: openSettings }
+      : undefined;
+
+  return (
+    <View>
+      <HealthRow
+        icon="notifications-outline"
+        label="Push Notifications"
+        check={health?.push}
+        action={pushAction}
+      />
+      <HealthRow
+        icon="navigate-outline"
+        label="Location Tracking"
+        check={health?.location}
+        action={locationAction}
+      />
+
+      <Text className="text-gray-500 text-xs font-semibold uppercase mt-4 mb-1">
+        Active Sessions
+      </Text>
+      {loading ? (
+        <ActivityIndicator className="py-4" color="#176298" />
+      ) : error ? (
+        <View className="py-3 items-center">
+          <Text className="text-gray-500 text-sm mb-2">{error}</Text>
+          <TouchableOpacity onPress={refreshSessions}>
+            <Text className="text-miles-600 font-medium">Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        sessions.map((session) => (
+          <View
+            key={session.id}
+            className="flex-row items-center py-3 border-b border-gray-100"
+          >
+            <Ionicons
+              name={
+                (PLATFORM_ICONS[session.platform || ""] ||
+                  "phone-portrait-outline") as any
+              }
+              size={20}
+              color="#6B7280"
+            />
+            <View className="ml-3 flex-1">
+              <View className="flex-row items-center">
+                <Text className="text-gray-700 font-medium" numberOfLines={1}>
+                  {session.deviceName || "Unknown device"}
+                </Text>
+                {session.current && (
+                  <View className="ml-2 px-2 py-0.5 rounded-full bg-miles-50">
+                    <Text className="text-miles-600 text-xs font-medium">
+                      This device
+                    </Text>
+                  </View>
+                )}
+              </View>
+              <Text className="text-gray-500 text-sm">
+                {[
+                  formatPlatform(session),
+                  session.lastSeenAt
+                    ? `Active ${formatTimeAgo(session.lastSeenAt)}`
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+              <Text className="text-gray-400 text-xs">
+                {session.playerId
+                  ? `Push ID ${shortenPlayerId(session.playerId)}`
+                  : "No push subscription"}
+              </Text>
+            </View>
+            {!session.current && (
+              <TouchableOpacity
+                onPress={() => confirmRevoke(session)}
+                className="px-2 py-1 ml-2"
+                accessibilityLabel={`Sign out ${session.deviceName || "device"}`}
+              >
+                <Text className="text-red-600 font-medium text-sm">
+                  Sign Out
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))
+      )}
+
+      <TouchableOpacity
+        onPress={confirmLogoutEverywhere}
+        disabled={busy}
+        className="flex-row items-center justify-center py-3 mt-3 mb-1 rounded-lg border border-red-200"
+      >
+        {busy ? (
+          <ActivityIndicator color="#DC2626" />
+        ) : (
+          <>
+            <Ionicons name="log-out-outline" size={18} color="#DC2626" />
+            <Text className="text-red-600 font-medium ml-2">
+              Log Out Everywhere
+            </Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default SessionsDevices;
@@ -0,0 +1,120 @@
+import { Ionicons } from "@expo/vector-icons";
+import { Audio, AVPlaybackStatus } from "expo-av";
+import * as SecureStore from "expo-secure-store";
+import React, { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Text, TouchableOpacity, View } from "react-native";
+
+interface VoiceMemoPlayerProps {
+  uri: string;
+  durationSeconds?: number;
+  // Send the auth token, for memos streamed from the server
+  authenticated?: boolean;
+}
+
+export const formatMemoDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${`${Math.floor(seconds % 60)}`.padStart(2, "0")}`;
+
+const VoiceMemoPlayer: React.FC<VoiceMemoPlayerProps> = ({
+  uri,
+  durationSeconds = 0,
+  authenticated = false,
+}) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [positionSeconds, setPositionSeconds] = useState(0);
+  const [totalSeconds, setTotalSeconds] = useState(durationSeconds);
+  const [error, setError] = useState(false);
+
+  // Unload when the memo changes or the player goes away
+  useEffect(
+    () => () => {
+      soundRef.current?.unloadAsync();
+      soundRef.current = null;
+    },
+    [uri]
+  );
+
+  const handleStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    setPositionSeconds(status.positionMillis / 1000);
+    if (status.durationMillis) setTotalSeconds(status.durationMillis / 1000);
+    setPlaying(status.isPlaying);
+    if (status.didJustFinish) {
+      setPositionSeconds(0);
+      soundRef.current?.setPositionAsync(0);
+    }
+  };
+
+  const togglePlayback = async () => {
+    try {
+      if (soundRef.current) {
+        if (playing) {
+          await soundRef.current.pauseAsync();
+        } else {
+          await soundRef.current.playAsync();
+        }
+        return;
+      }
+
+      setLoading(true);
+      setError(false);
+      const token = authenticated
+        ? await SecureStore.getItemAsync("userToken")
+        : null;
+      await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+      const { sound } = await Audio.Sound.createAsync(
+        {
+          uri,
+          headers: token
+            ? { Authorization: `Bearer ${token}`, Cookie: `token=${token}` }
+            : undefined,
+        },
+        { shouldPlay: true },
+        handleStatus
+      );
+      soundRef.current = sound;
+    } catch (playbackError) {
+      console.error("Failed to play voice memo:", playbackError);
+      setError(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const progress =
+    totalSeconds > 0 ? Math.min(1, positionSeconds / totalSeconds) : 0;
+
+  return (
+    <View className="flex-row items-center bg-miles-50 rounded-full px-2 py-1.5">
+      <TouchableOpacity
+        onPress={togglePlayback}
+        disabled={loading}
+        className="w-8 h-8 rounded-full bg-miles-500 items-center justify-center"
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <Ionicons name={playing ? "pause" : "play"} size={16} color="white" />
+        )}
+      </TouchableOpacity>
+      <View className="flex-1 h-1.5 bg-miles-100 rounded-full mx-3 overflow-hidden">
+        <View
+          className="h-1.5 bg-miles-500 rounded-full"
+          style={{ width: `${progress * 100}%` }}
+        />
+      </View>
+      <Text
+        className={`text-xs mr-2 ${error ? "text-red-600" : "text-gray-600"}`}
+      >
+        {error
+          ? "Can't play"
+          : formatMemoDuration(
+              playing || positionSeconds > 0 ? positionSeconds : totalSeconds
+            )}
+      </Text>
+    </View>
+  );
+};
+
+export default VoiceMemoPlayer;
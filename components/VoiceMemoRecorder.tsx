@@ -0,0 +1,174 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useRef, useState } from "react";
+import { Alert, Text, TouchableOpacity, View } from "react-native";
+import {
+  MAX_VOICE_MEMO_SECONDS,
+  VoiceMemo,
+  VoiceMemoRecording,
+  deleteVoiceMemoFile,
+  startVoiceMemo,
+} from "../services/voiceMemo";
+import VoiceMemoPlayer, { formatMemoDuration } from "./VoiceMemoPlayer";
+
+interface VoiceMemoRecorderProps {
+  memo: VoiceMemo | null;
+  onChange: (memo: VoiceMemo | null) => void;
+  // Called when the agent wants the transcript as the comment
+  onUseTranscript?: (transcript: string) => void;
+}
+
+/**
+ * Record, preview and discard a post-call voice memo
+ * The memo itself is uploaded by the caller
+ */
+const VoiceMemoRecorder: React.FC<VoiceMemoRecorderProps> = ({
+  memo,
+  onChange,
+  onUseTranscript,
+}) => {
+  const recordingRef = useRef<VoiceMemoRecording | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [liveTranscript, setLiveTranscript] = useState("");
+
+  const stopRecording = async () => {
+    const current = recordingRef.current;
+    if (!current) return;
+    recordingRef.current = null;
+    setRecording(false);
+
+    try {
+      const recorded = await current.stop();
+      if (recorded) onChange(recorded);
+    } catch (error) {
+      console.error("Failed to stop voice memo:", error);
+      Alert.alert("Error", "The voice memo could not be saved.");
+    }
+  };
+
+  // Latest stopRecording for the timer, it closes over onChange
+  const stopRecordingRef = useRef(stopRecording);
+  stopRecordingRef.current = stopRecording;
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      const startedAt = recordingRef.current?.startedAt;
+      if (!startedAt) return;
+      const elapsed = Math.floor((Date.now() - startedAt) / 1000);
+      setElapsedSeconds(elapsed);
+      if (elapsed >= MAX_VOICE_MEMO_SECONDS) stopRecordingRef.current();
+    }, 500);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Don't leave the microphone open when the modal closes mid-recording
+  useEffect(
+    () => () => {
+      recordingRef.current?.cancel();
+      recordingRef.current = null;
+    },
+    []
+  );
+
+  const startRecording = async () => {
+    try {
+      setStarting(true);
+      setElapsedSeconds(0);
+      setLiveTranscript("");
+      recordingRef.current = await startVoiceMemo(setLiveTranscript);
+      setRecording(true);
+    } catch (error: any) {
+      console.error("Failed to start voice memo:", error);
+      Alert.alert(
+        "Can't Record",
+        error?.message || "The microphone could not be started."
+      );
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const discardMemo = () => {
+    if (!memo) return;
+    deleteVoiceMemoFile(memo.uri);
+    onChange(null);
+  };
+
+  if (recording) {
+    return (
+      <View className="border border-red-200 bg-red-50 rounded-lg p-3">
+        <View className="flex-row items-center">
+          <View className="w-2.5 h-2.5 rounded-full bg-red-600 mr-2" />
+          <Text className="flex-1 text-sm font-medium text-red-700">
+            Recording {formatMemoDuration(elapsedSeconds)} /{" "}
+            {formatMemoDuration(MAX_VOICE_MEMO_SECONDS)}
+          </Text>
+          <TouchableOpacity
+            onPress={stopRecording}
+            className="flex-row items-center bg-red-600 rounded-lg px-3 py-2"
+          >
+            <Ionicons name="stop" size={14} color="white" />
+            <Text className="text-white font-medium ml-1">Stop</Text>
+          </TouchableOpacity>
+        </View>
+        {recordingRef.current?.transcribing && (
+          <Text className="text-sm text-gray-600 mt-2" numberOfLines={3}>
+            {liveTranscript || "Listening..."}
+          </Text>
+        )}
+      </View>
+    );
+  }
+
+  if (memo) {
+    return (
+      <View className="border border-gray-200 rounded-lg p-3">
+        <View className="flex-row items-center">
+          <View className="flex-1">
+            <VoiceMemoPlayer
+              uri={memo.uri}
+              durationSeconds={memo.durationSeconds}
+            />
+          </View>
+          <TouchableOpacity onPress={discardMemo} className="ml-3 p-1">
+            <Ionicons name="trash-outline" size={20} color="#DC2626" />
+          </TouchableOpacity>
+        </View>
+        {memo.transcript && (
+          <>
+            <Text className="text-sm text-gray-600 mt-2" numberOfLines={4}>
+              {memo.transcript}
+            </Text>
+            {onUseTranscript && (
+              <TouchableOpacity
+                onPress={() => onUseTranscript(memo.transcript!)}
+                className="self-start mt-2"
+              >
+                <Text className="text-sm font-medium text-miles-600">
+                  Use transcript as comment
+                </Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={startRecording}
+      disabled={starting}
+      className="flex-row items-center justify-center p-3 border border-gray-300 rounded-lg bg-gray-50"
+    >
+      <Ionicons name="mic-outline" size={20} color="#6B7280" />
+      <Text className="text-gray-700 font-medium ml-2">
+        {starting ? "Starting..." : "Record Voice Memo"}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+export default VoiceMemoRecorder;
@@ -10,6 +10,7 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import { formatPhoneForDisplay, parsePhone } from '../utils/phone';
 
 interface WhatsAppTemplateModalProps {
   isVisible: boolean;
@@ -52,20 +53,32 @@ const WhatsAppTemplateModal: React.FC<WhatsAppTemplateModalProps> = ({
   const [customMessage, setCustomMessage] = useState('');
   const [selectedTemplate, setSelectedTemplate] = useState<number | null>(null);
 
+  const parsedPhone = parsePhone(phoneNumber);
+  const phoneError = !phoneNumber
+    ? null
+    : !parsedPhone?.isValid
+      ? 'This number is not valid, check it before sending.'
+      : parsedPhone.isLandline
+        ? 'This number is a landline and can\'t use WhatsApp.'
+        : null;
+  const canSend =
+    !!parsedPhone?.digits && !phoneError && !!customMessage.trim();
+
   const handleTemplateSelect = (template: typeof predefinedTemplates[0]) => {
     setSelectedTemplate(template.id);
     setCustomMessage(template.message);
   };
 
   const handleSend = () => {
-    if (!phoneNumber || !customMessage.trim()) return;
+    if (!canSend || !parsedPhone?.digits) return;
     
     // Replace placeholder with actual lead name if available
     const finalMessage = leadName 
       ? customMessage.replace(/\[NAME\]/g, leadName)
       : customMessage;
     
-    onSendMessage(phoneNumber, finalMessage);
+    // wa.me links take the international number as digits only
+    onSendMessage(parsedPhone.digits, finalMessage);
     onClose();
     setCustomMessage('');
     setSelectedTemplate(null);
@@ -105,9 +118,14 @@ const WhatsAppTemplateModal: React.FC<WhatsAppTemplateModalProps> = ({
                 <View className="flex-row items-center">
                   <Ionicons name="logo-whatsapp" size={20} color="#10B981" />
                   <Text className="ml-2 text-sm font-medium text-gray-700">
-                    Sending to: {phoneNumber}
+                    Sending to: {formatPhoneForDisplay(phoneNumber)}
                   </Text>
                 </View>
+                {phoneError && (
+                  <Text className="text-sm text-red-600 mt-1">
+                    {phoneError}
+                  </Text>
+                )}
                 {leadName && (
                   <Text className="text-sm text-gray-600 mt-1">
                     Lead: {leadName}
@@ -183,9 +201,9 @@ const WhatsAppTemplateModal: React.FC<WhatsAppTemplateModalProps> = ({
               
               <TouchableOpacity
                 onPress={handleSend}
-                disabled={!phoneNumber || !customMessage.trim()}
+                disabled={!canSend}
                 className={`flex-1 py-3 px-4 rounded-lg ${
-                  !phoneNumber || !customMessage.trim()
+                  !canSend
                     ? 'bg-gray-300'
                     : 'bg-green-500'
                 }`}
@@ -0,0 +1,128 @@
+import LoadingView from "@/components/LoadingView";
+import { useCampaignDispositions } from "@/hooks/useCampaignDispositions";
+import { ConversionRow } from "@/utils/dispositionReport";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { RefreshControl, ScrollView, Text, View } from "react-native";
+
+interface DispositionReportProps {
+  campaignName: string;
+}
+
+const FUNNEL_COLORS = ["#176298", "#F59E0B", "#10B981", "#059669"];
+
+const ConversionTable: React.FC<{
+  title: string;
+  rows: ConversionRow[];
+}> = ({ title, rows }) => (
+  <View className="px-5 pt-2 pb-4">
+    <Text className="text-lg font-semibold text-gray-900 mb-3">{title}</Text>
+    <View className="bg-white rounded-xl px-4 shadow-sm">
+      <View className="flex-row py-2 border-b border-gray-100">
+        <Text className="flex-1 text-xs font-medium text-gray-500">Name</Text>
+        <Text className="w-14 text-xs font-medium text-gray-500 text-right">
+          Calls
+        </Text>
+        <Text className="w-16 text-xs font-medium text-gray-500 text-right">
+          Meetings
+        </Text>
+        <Text className="w-16 text-xs font-medium text-gray-500 text-right">
+          Conv.
+        </Text>
+      </View>
+      {rows.map((row) => (
+        <View
+          key={row.key}
+          className="flex-row items-center py-3 border-b border-gray-100"
+        >
+          <Text className="flex-1 text-sm text-gray-900" numberOfLines={1}>
+            {row.label}
+          </Text>
+          <Text className="w-14 text-sm text-gray-700 text-right">
+            {row.calls}
+          </Text>
+          <Text className="w-16 text-sm text-gray-700 text-right">
+            {row.meetingsBooked}
+          </Text>
+          <Text className="w-16 text-sm font-semibold text-miles-700 text-right">
+            {row.conversionRate}%
+          </Text>
+        </View>
+      ))}
+    </View>
+  </View>
+);
+
+const DispositionReport: React.FC<DispositionReportProps> = ({
+  campaignName,
+}) => {
+  const { report, loading, error, refresh } =
+    useCampaignDispositions(campaignName);
+
+  return (
+    <ScrollView
+      className="flex-1 bg-gray-50"
+      refreshControl={
+        <RefreshControl refreshing={loading && !!report} onRefresh={refresh} />
+      }
+    >
+      {loading && !report ? (
+        <View className="py-16 items-center">
+          <LoadingView />
+        </View>
+      ) : error || !report ? (
+        <View className="m-5 bg-white rounded-xl p-6 items-center shadow-sm">
+          <Ionicons name="cloud-offline-outline" size={32} color="#9CA3AF" />
+          <Text className="text-gray-500 mt-2 text-center">
+            {error || "No call outcomes available"}
+          </Text>
+        </View>
+      ) : report.funnel[0].count === 0 ? (
+        <View className="m-5 bg-white rounded-xl p-6 items-center shadow-sm">
+          <Ionicons name="bar-chart-outline" size={32} color="#9CA3AF" />
+          <Text className="text-gray-500 mt-2 text-center">
+            No call outcomes recorded for this campaign yet
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View className="px-5 pt-4 pb-2">
+            <Text className="text-lg font-semibold text-gray-900 mb-3">
+              Funnel
+            </Text>
+            <View className="bg-white rounded-xl p-4 shadow-sm">
+              {report.funnel.map((step, index) => (
+                <View key={step.stage} className="mb-3">
+                  <View className="flex-row justify-between mb-1">
+                    <Text className="text-sm text-gray-700">{step.label}</Text>
+                    <Text className="text-sm font-semibold text-gray-900">
+                      {step.count}
+                      <Text className="font-normal text-gray-500">
+                        {" "}
+                        · {step.percent}%
+                      </Text>
+                    </Text>
+                  </View>
+                  <View className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <View
+                      className="h-2 rounded-full"
+                      style={{
+                        width: `${step.percent}%`,
+                        backgroundColor: FUNNEL_COLORS[index],
+                      }}
+                    />
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          <ConversionTable title="By Agent" rows={report.byAgent} />
+          <ConversionTable title="By Hour of Day" rows={report.byHour} />
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+export default DispositionReport;
@@ -0,0 +1,152 @@
+import { useLeadCallHistory } from "@/hooks/useLeadCallHistory";
+import {
+  CallHistoryEntry,
+  formatCallDuration,
+  isCallConnected,
+} from "@/utils/callHistory";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { RefreshControl, ScrollView, Text, View } from "react-native";
+import { formatTimeAgo, formatTimestamp } from "../../utils/dateFormatter";
+import { formatPhoneForDisplay } from "../../utils/phone";
+import LoadingView from "../LoadingView";
+
+interface Lead {
+  _id: string;
+  Name: string;
+}
+
+interface CallsTabProps {
+  lead: Lead;
+}
+
+const SummaryItem: React.FC<{ label: string; value: string }> = ({
+  label,
+  value,
+}) => (
+  <View className="flex-1 items-center">
+    <Text className="text-lg font-semibold text-gray-900">{value}</Text>
+    <Text className="text-xs text-gray-500 mt-1">{label}</Text>
+  </View>
+);
+
+const CallsTab: React.FC<CallsTabProps> = ({ lead }) => {
+  const { entries, summary, loading, error, refresh } = useLeadCallHistory(
+    lead._id
+  );
+
+  const renderCall = (entry: CallHistoryEntry, index: number) => {
+    const connected = isCallConnected(entry);
+    return (
+      <View
+        key={entry.sessionId || index}
+        className="flex-row items-start py-3 border-b border-gray-100"
+      >
+        <View
+          className={`w-9 h-9 rounded-full items-center justify-center mr-3 ${
+            connected ? "bg-green-100" : "bg-red-100"
+          }`}
+        >
+          <Ionicons
+            name={connected ? "call" : "call-outline"}
+            size={16}
+            color={connected ? "#059669" : "#DC2626"}
+          />
+        </View>
+        <View className="flex-1">
+          <View className="flex-row items-center justify-between">
+            <Text className="text-sm font-medium text-gray-900">
+              {formatTimestamp(entry.startedAt)}
+            </Text>
+            <Text className="text-sm text-gray-700">
+              {connected
+                ? formatCallDuration(entry.durationSeconds)
+                : entry.answered === false
+                  ? "Not answered"
+                  : "—"}
+            </Text>
+          </View>
+          <Text className="text-xs text-gray-500 mt-1">
+            {entry.agentName}
+            {entry.phoneNumber
+              ? ` · ${formatPhoneForDisplay(entry.phoneNumber)}`
+              : ""}
+          </Text>
+          <Text
+            className={`text-xs mt-1 ${
+              entry.disposition ? "text-miles-700" : "text-gray-400"
+            }`}
+          >
+            {entry.disposition || "No outcome recorded"}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading && entries.length === 0) {
+    return (
+      <View className="flex-1 justify-center items-center bg-white">
+        <LoadingView />
+        <Text className="text-gray-500 mt-2">Loading calls...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      className="flex-1 bg-gray-50"
+      refreshControl={
+        <RefreshControl
+          refreshing={loading && entries.length > 0}
+          onRefresh={refresh}
+        />
+      }
+    >
+      {error ? (
+        <View className="m-4 bg-white rounded-xl p-6 items-center shadow-sm">
+          <Ionicons name="cloud-offline-outline" size={32} color="#9CA3AF" />
+          <Text className="text-gray-500 mt-2 text-center">{error}</Text>
+        </View>
+      ) : entries.length === 0 ? (
+        <View className="justify-center items-center py-16 px-4">
+          <Ionicons name="call-outline" size={64} color="#9CA3AF" />
+          <Text className="text-xl font-semibold text-gray-700 mt-4 mb-2 text-center">
+            No Calls Yet
+          </Text>
+          <Text className="text-base text-gray-500 text-center leading-6">
+            Calls placed to this lead from the app will show up here.
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View className="m-4 bg-white rounded-xl p-4 shadow-sm">
+            <View className="flex-row">
+              <SummaryItem label="Attempts" value={`${summary.attempts}`} />
+              <SummaryItem label="Connected" value={`${summary.connected}`} />
+              <SummaryItem
+                label="Talk Time"
+                value={formatCallDuration(summary.totalTalkSeconds)}
+              />
+            </View>
+            <Text className="text-sm text-gray-600 mt-4 text-center">
+              {summary.lastContactAt
+                ? `Last contact ${formatTimeAgo(summary.lastContactAt)}`
+                : "Never reached"}
+              {summary.lastAttemptAt &&
+              summary.lastAttemptAt !== summary.lastContactAt
+                ? ` · last tried ${formatTimeAgo(summary.lastAttemptAt)}`
+                : ""}
+            </Text>
+          </View>
+
+          <View className="mx-4 mb-4 bg-white rounded-xl px-4 shadow-sm">
+            {entries.map(renderCall)}
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+export default CallsTab;
@@ -1,4 +1,5 @@
 import { Ionicons } from "@expo/vector-icons";
+import { useRealtimeEvent } from "@/hooks/useRealtimeEvent";
 import React, { useEffect, useState } from "react";
 import {
   ActivityIndicator,
@@ -10,9 +11,15 @@ import {
   View,
 } from "react-native";
 import Toast from "react-native-root-toast";
-import { addLeadComment, fetchLeadComments } from "../../services/api";
+import {
+  fetchLeadComments,
+  fetchLeadVoiceMemos,
+  getBaseUrl,
+} from "../../services/api";
+import { addLeadCommentOrQueue } from "../../services/outbox";
 import { formatTimestamp } from "../../utils/dateFormatter";
 import LoadingView from "../LoadingView";
+import VoiceMemoPlayer from "../VoiceMemoPlayer";
 
 interface Lead {
   _id: string;
@@ -29,12 +36,25 @@ interface Comment {
   timestamp: string;
 }
 
+interface VoiceMemo {
+  _id: string;
+  url: string;
+  durationSeconds?: number;
+  transcript?: string;
+  User?: {
+    username: string;
+  };
+  recordedAt?: string;
+  timestamp?: string;
+}
+
 interface CommentsTabProps {
   lead: Lead;
 }
 
 const CommentsTab: React.FC<CommentsTabProps> = ({ lead }) => {
   const [comments, setComments] = useState<Comment[]>([]);
+  const [voiceMemos, setVoiceMemos] = useState<VoiceMemo[]>([]);
   const [loading, setLoading] = useState(true);
   const [adding, setAdding] = useState(false);
   const [sending, setSending] = useState(false);
@@ -63,6 +83,30 @@ const CommentsTab: React.FC<CommentsTabProps> = ({ lead }) => {
     }
   }, [lead._id, adding]);
 
+  // Memos are optional extras, a failure here doesn't hide the comments
+  useEffect(() => {
+    if (!lead._id) return;
+    const controller = new AbortController();
+    fetchLeadVoiceMemos(lead._id, controller.signal)
+      .then(setVoiceMemos)
+      .catch((error) => {
+        if (error?.name !== "AbortError") {
+          console.error("Failed to load voice memos:", error);
+        }
+      });
+    return () => controller.abort();
+  }, [lead._id]);
+
+  // Pick up comments added by other users without a loading state
+  useRealtimeEvent("comment_added", async ({ leadId }) => {
+    if (leadId !== lead._id) return;
+    try {
+      setComments(await fetchLeadComments(lead._id));
+    } catch (error) {
+      console.error(error);
+    }
+  });
+
   const handleSubmit = async () => {
     if (!newComment.trim()) {
       Alert.alert("Error", "Please enter a comment");
@@ -71,12 +115,20 @@ const CommentsTab: React.FC<CommentsTabProps> = ({ lead }) => {
 
     try {
       setSending(true);
-      await addLeadComment(lead._id, newComment.trim());
+      const { queued } = await addLeadCommentOrQueue(
+        lead._id,
+        newComment.trim()
+      );
       setNewComment("");
       setAdding(false);
-      Toast.show("Comment added successfully", {
-        duration: Toast.durations.SHORT,
-      });
+      Toast.show(
+        queued
+          ? "You're offline. Comment saved and will sync automatically"
+          : "Comment added successfully",
+        {
+          duration: Toast.durations.SHORT,
+        }
+      );
     } catch (error) {
       console.error(error);
       Toast.show("Failed to add comment", {
@@ -117,6 +169,34 @@ const CommentsTab: React.FC<CommentsTabProps> = ({ lead }) => {
     </View>
   );
 
+  const renderVoiceMemo = (memo: VoiceMemo) => (
+    <View key={memo._id} className="mb-4 bg-gray-50 rounded-lg p-3">
+      <View className="flex-row items-center justify-between mb-2">
+        <View className="flex-row items-center">
+          <View className="w-8 h-8 rounded-full bg-miles-100 items-center justify-center mr-2">
+            <Ionicons name="mic" size={16} color="#176298" />
+          </View>
+          <Text className="text-sm font-medium text-gray-800">
+            {memo.User?.username || "Unknown User"}
+          </Text>
+        </View>
+        <Text className="text-xs text-gray-500">
+          {formatTimestamp(memo.recordedAt || memo.timestamp || "")}
+        </Text>
+      </View>
+      <VoiceMemoPlayer
+        uri={memo.url.startsWith("/") ? `${getBaseUrl()}${memo.url}` : memo.url}
+        durationSeconds={memo.durationSeconds}
+        authenticated
+      />
+      {memo.transcript && (
+        <Text className="text-sm text-gray-700 leading-5 mt-2">
+          {memo.transcript}
+        </Text>
+      )}
+    </View>
+  );
+
   if (loading) {
     return (
       <View className="flex-1 justify-center items-center bg-white">
@@ -129,7 +209,16 @@ const CommentsTab: React.FC<CommentsTabProps> = ({ lead }) => {
   return (
     <View className="flex-1 bg-white">
       <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
-        {comments.length === 0 && !adding ? (
+        {voiceMemos.length > 0 && (
+          <View className="pb-2">
+            <Text className="text-sm font-medium text-gray-500 mb-2">
+              Voice Memos
+            </Text>
+            {voiceMemos.map(renderVoiceMemo)}
+          </View>
+        )}
+
+        {comments.length === 0 && voiceMemos.length === 0 && !adding ? (
           <View className="flex-1 justify-center items-center py-16">
             <Ionicons name="chatbubbles-outline" size={64} color="#9CA3AF" />
             <Text className="text-xl font-semibold text-gray-700 mt-4 mb-2 text-center">
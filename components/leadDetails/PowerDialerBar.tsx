@@ -0,0 +1,111 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { Alert, Text, TouchableOpacity, View } from "react-native";
+import {
+  advancePowerDialer,
+  endPowerDialer,
+  pausePowerDialer,
+  PowerDialerState,
+  resumePowerDialer,
+  summarizePowerDialer,
+} from "../../services/powerDialer";
+import { formatCountdown } from "../../utils/powerDialer";
+
+interface PowerDialerBarProps {
+  session: PowerDialerState;
+  secondsLeft: number | null;
+}
+
+const STATUS_LABELS = {
+  dialing: "On call",
+  wrapUp: "Wrap-up",
+  paused: "Paused",
+  finished: "Finished",
+};
+
+const PowerDialerBar: React.FC<PowerDialerBarProps> = ({
+  session,
+  secondsLeft,
+}) => {
+  const summary = summarizePowerDialer(session);
+  const isPaused = session.status === "paused";
+  const isLastLead = session.index >= session.queue.length - 1;
+
+  const handleNext = () => {
+    const lead = session.queue[session.index];
+    // Leads that were never called are counted as skipped
+    const skip = !!lead && !session.dialedLeadIds.includes(lead.id);
+    advancePowerDialer(skip);
+  };
+
+  const handleEnd = () => {
+    Alert.alert("End Power Dialer", "Stop calling and see the summary?", [
+      { text: "Keep Calling", style: "cancel" },
+      { text: "End", style: "destructive", onPress: endPowerDialer },
+    ]);
+  };
+
+  return (
+    <View className="bg-miles-50 border-b border-miles-100 px-4 py-3">
+      <View className="flex-row items-center justify-between">
+        <View className="flex-row items-center flex-1">
+          <Ionicons name="flash" size={16} color="#176298" />
+          <Text className="text-sm font-semibold text-miles-700 ml-1">
+            {STATUS_LABELS[session.status]} · Lead{" "}
+            {Math.min(session.index + 1, session.queue.length)} of{" "}
+            {session.queue.length}
+          </Text>
+        </View>
+        {secondsLeft !== null && (
+          <Text className="text-sm font-semibold text-miles-700">
+            Next call in {formatCountdown(secondsLeft)}
+          </Text>
+        )}
+      </View>
+
+      <Text className="text-xs text-gray-600 mt-1">
+        {summary.dialed} dialed · {summary.connected} connected ·{" "}
+        {Object.values(summary.statuses).reduce((a, b) => a + b, 0)} statuses
+        set · {summary.skipped} skipped
+      </Text>
+
+      <View className="flex-row mt-2 gap-2">
+        <TouchableOpacity
+          className="flex-1 flex-row items-center justify-center bg-white border border-miles-200 rounded-lg py-2"
+          onPress={isPaused ? resumePowerDialer : pausePowerDialer}
+        >
+          <Ionicons
+            name={isPaused ? "play" : "pause"}
+            size={16}
+            color="#176298"
+          />
+          <Text className="text-sm font-medium text-miles-700 ml-1">
+            {isPaused ? "Resume" : "Pause"}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="flex-1 flex-row items-center justify-center bg-white border border-miles-200 rounded-lg py-2"
+          onPress={handleNext}
+        >
+          <Ionicons
+            name={isLastLead ? "checkmark-done" : "play-skip-forward"}
+            size={16}
+            color="#176298"
+          />
+          <Text className="text-sm font-medium text-miles-700 ml-1">
+            {isLastLead ? "Finish" : "Next"}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          className="flex-1 flex-row items-center justify-center bg-white border border-red-200 rounded-lg py-2"
+          onPress={handleEnd}
+        >
+          <Ionicons name="stop" size={16} color="#DC2626" />
+          <Text className="text-sm font-medium text-red-600 ml-1">End</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+export default PowerDialerBar;
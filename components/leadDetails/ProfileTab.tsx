@@ -2,6 +2,8 @@ import { Ionicons } from "@expo/vector-icons";
 import React from "react";
 import { Linking, ScrollView, Text, TouchableOpacity, View } from "react-native";
 import { formatTimestamp } from "../../utils/dateFormatter";
+import { formatPhoneForDisplay, getLeadPhoneIssues } from "../../utils/phone";
+import Can from "../Can";
 import RequirementsSection from "./RequirementsSection";
 
 interface Lead {
@@ -40,10 +42,10 @@ interface Lead {
 interface ProfileTabProps {
   lead: Lead;
   onLeadUpdate: (updatedLead: Lead) => void;
-  userPermissions: any;
 }
 
-const ProfileTab: React.FC<ProfileTabProps> = ({ lead, onLeadUpdate, userPermissions }) => {
+const ProfileTab: React.FC<ProfileTabProps> = ({ lead, onLeadUpdate }) => {
+  const phoneIssues = getLeadPhoneIssues(lead);
 
   const handleEmailPress = (email: string) => {
     if (email) {
@@ -119,6 +121,45 @@ const ProfileTab: React.FC<ProfileTabProps> = ({ lead, onLeadUpdate, userPermiss
       )}
 
 
+      {/* Phone Numbers */}
+      {(lead.Phone || lead.AltPhone) && renderInfoSection(
+        "Phone Numbers",
+        <>
+          {([
+            ["Phone", lead.Phone],
+            ["Alt Phone", lead.AltPhone],
+          ] as const).map(([label, phoneNumber], index) => {
+            if (!phoneNumber) return null;
+            const field = index === 0 ? "Phone" : "AltPhone";
+            const issues = phoneIssues.filter((item) => item.field === field);
+            return (
+              <View key={field} className="border-b border-gray-100 py-2">
+                <Text className="text-sm font-medium text-gray-500 mb-1">{label}:</Text>
+                <Text className="text-base text-gray-900">
+                  {formatPhoneForDisplay(phoneNumber)}
+                </Text>
+                {issues.map((item) => (
+                  <View key={item.issue} className="flex-row items-center mt-1">
+                    <Ionicons
+                      name={item.issue === "invalid" ? "alert-circle" : "information-circle"}
+                      size={14}
+                      color={item.issue === "invalid" ? "#DC2626" : "#F59E0B"}
+                    />
+                    <Text
+                      className={`ml-1 text-xs ${
+                        item.issue === "invalid" ? "text-red-600" : "text-amber-600"
+                      }`}
+                    >
+                      {item.message}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            );
+          })}
+        </>
+      )}
+
       {/* Lead Details */}
       {renderInfoSection(
         "Lead Details",
@@ -177,15 +218,17 @@ const ProfileTab: React.FC<ProfileTabProps> = ({ lead, onLeadUpdate, userPermiss
       )}
 
       {/* Edit Button - TODO: Implement editing functionality */}
-      <View className="mt-6 mb-4">
-        <TouchableOpacity className="bg-miles-500 rounded-lg py-3 px-6 flex-row items-center justify-center">
-          <Ionicons name="create" size={20} color="white" />
-          <Text className="text-white font-semibold ml-2">Edit Information</Text>
-        </TouchableOpacity>
-        <Text className="text-sm text-gray-400 text-center mt-2">
-          Editing feature coming soon
-        </Text>
-      </View>
+      <Can permission="lead.update_info">
+        <View className="mt-6 mb-4">
+          <TouchableOpacity className="bg-miles-500 rounded-lg py-3 px-6 flex-row items-center justify-center">
+            <Ionicons name="create" size={20} color="white" />
+            <Text className="text-white font-semibold ml-2">Edit Information</Text>
+          </TouchableOpacity>
+          <Text className="text-sm text-gray-400 text-center mt-2">
+            Editing feature coming soon
+          </Text>
+        </View>
+      </Can>
     </ScrollView>
   );
 };
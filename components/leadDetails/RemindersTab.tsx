@@ -1,4 +1,5 @@
 import { Ionicons } from "@expo/vector-icons";
+import { useRealtimeEvent } from "@/hooks/useRealtimeEvent";
 import React, { useEffect, useState } from "react";
 import {
   RefreshControl,
@@ -69,6 +70,10 @@ const RemindersTab: React.FC<RemindersTabProps> = ({ lead }) => {
     fetchReminders();
   }, [lead._id]);
 
+  useRealtimeEvent("reminder_created", ({ leadId }) => {
+    if (leadId === lead._id) fetchReminders(true);
+  });
+
   const onRefresh = () => {
     fetchReminders(true);
   };
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, ActivityIndicator } from 'react-native';
-import { createAuthHeaders, validateAuthToken } from '../../services/api';
+import { createAuthHeaders, getBaseUrl, validateAuthToken } from '../../services/api';
 
 interface Lead {
   _id: string;
@@ -46,7 +46,7 @@ const RequirementsSection: React.FC<RequirementsSectionProps> = ({ lead }) => {
         }
 
         const headers = await createAuthHeaders();
-        const response = await fetch(`${process.env.EXPO_PUBLIC_BASE_URL}/api/requirement-fields?includeInactive=false`, {
+        const response = await fetch(`${getBaseUrl()}/api/requirement-fields?includeInactive=false`, {
           method: 'GET',
           headers,
         });
@@ -64,7 +64,7 @@ const RequirementsSection: React.FC<RequirementsSectionProps> = ({ lead }) => {
             console.log('RequirementsSection - No fields returned, attempting to initialize defaults');
             try {
               // Try to initialize default fields
-              const initResponse = await fetch(`${process.env.EXPO_PUBLIC_BASE_URL}/api/requirement-fields/initialize`, {
+              const initResponse = await fetch(`${getBaseUrl()}/api/requirement-fields/initialize`, {
                 method: 'POST',
                 headers,
               });
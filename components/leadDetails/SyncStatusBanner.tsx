@@ -0,0 +1,100 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { Alert, Text, TouchableOpacity, View } from "react-native";
+import { useOutbox } from "../../hooks/useOutbox";
+import { OutboxEntry, OutboxMutationType } from "../../services/outbox";
+
+interface SyncStatusBannerProps {
+  leadId: string;
+  onResolved?: () => void;
+}
+
+const MUTATION_LABELS: Record<OutboxMutationType, string> = {
+  updateLead: "Lead update",
+  addLeadComment: "Comment",
+  addReminder: "Reminder",
+  addMeeting: "Meeting",
+  updateMeeting: "Meeting visit",
+  logDialerSession: "Call log",
+  logCallDisposition: "Call outcome",
+  logCallOverride: "Call override",
+  uploadVoiceMemo: "Voice memo",
+};
+
+const SyncStatusBanner: React.FC<SyncStatusBannerProps> = ({
+  leadId,
+  onResolved,
+}) => {
+  const { pendingCount, conflicts, flush, resolve } = useOutbox(leadId);
+
+  if (pendingCount === 0) return null;
+
+  const handleResolve = (entry: OutboxEntry) => {
+    const isConflict = entry.status === "conflict";
+
+    Alert.alert(
+      isConflict ? "Lead changed on server" : "Sync failed",
+      isConflict
+        ? `${MUTATION_LABELS[entry.type]} was made offline, but someone else updated this lead since. Apply your change anyway?`
+        : `${MUTATION_LABELS[entry.type]} could not be synced: ${
+            entry.lastError || "Unknown error"
+          }`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard mine",
+          style: "destructive",
+          onPress: async () => {
+            await resolve(entry.id, "discard");
+            onResolved?.();
+          },
+        },
+        {
+          text: isConflict ? "Keep mine" : "Retry",
+          onPress: async () => {
+            await resolve(entry.id, "overwrite");
+            onResolved?.();
+          },
+        },
+      ]
+    );
+  };
+
+  if (conflicts.length > 0) {
+    return (
+      <View className="mx-4 mt-3 p-3 rounded-lg bg-red-50 border border-red-200">
+        {conflicts.map((entry) => (
+          <TouchableOpacity
+            key={entry.id}
+            className="flex-row items-center"
+            onPress={() => handleResolve(entry)}
+          >
+            <Ionicons name="alert-circle" size={18} color="#DC2626" />
+            <Text className="flex-1 ml-2 text-sm text-red-800">
+              {MUTATION_LABELS[entry.type]}{" "}
+              {entry.status === "conflict"
+                ? "conflicts with a newer server change"
+                : "failed to sync"}
+            </Text>
+            <Text className="text-sm font-medium text-red-700">Resolve</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <View className="mx-4 mt-3 p-3 rounded-lg bg-amber-50 border border-amber-200 flex-row items-center">
+      <Ionicons name="cloud-upload-outline" size={18} color="#D97706" />
+      <Text className="flex-1 ml-2 text-sm text-amber-800">
+        {pendingCount} {pendingCount === 1 ? "change" : "changes"} waiting to
+        sync
+      </Text>
+      <TouchableOpacity onPress={() => flush()}>
+        <Text className="text-sm font-medium text-amber-700">Sync now</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default SyncStatusBanner;
@@ -26,7 +26,6 @@ interface LeadsContentProps {
   statusCountsLoading: boolean;
   statusCountsExpanded: boolean;
   selectedLeads: any[];
-  userPermissions: any;
   leadCardRefs: React.MutableRefObject<{ [key: string]: View | null }>;
   scrollViewRef: React.RefObject<ScrollView>;
   currentPage: number;
@@ -61,7 +60,6 @@ export default function LeadsContent({
   statusCountsLoading,
   statusCountsExpanded,
   selectedLeads,
-  userPermissions,
   leadCardRefs,
   scrollViewRef,
   currentPage,
@@ -163,7 +161,6 @@ export default function LeadsContent({
                 statusOptions={statusOptions}
                 sourceOptions={sourceOptions}
                 onLeadUpdate={onLeadUpdate}
-                userPermissions={userPermissions}
                 scrollToCard={scrollToCard}
                 onOpenModal={(type, callback) => {
                   onModalOpen(type, lead._id, callback);
@@ -9,7 +9,7 @@ import {
   getTaskDateIconColor,
   getTaskDateIconBackground
 } from "../../utils/taskUtils";
-import { formatPhoneNumber } from "../../utils/dateFormatter";
+import { parsePhone } from "../../utils/phone";
 
 interface TaskCardProps {
   task: Task;
@@ -23,7 +23,8 @@ const handlePhoneCall = (phoneNumber: string) => {
     Alert.alert("Error", "Phone number not available");
     return;
   }
-  Linking.openURL(`tel:${formatPhoneNumber(phoneNumber)}`);
+  const parsed = parsePhone(phoneNumber);
+  Linking.openURL(`tel:${parsed?.e164 || phoneNumber.replace(/[^\d+]/g, "")}`);
 };
 
 const handleWhatsAppPress = (phoneNumber: string) => {
@@ -32,9 +33,13 @@ const handleWhatsAppPress = (phoneNumber: string) => {
     return;
   }
   
-  const whatsappUrl = `https://wa.me/${encodeURIComponent(
-    formatPhoneNumber(phoneNumber)
-  )}?text=${encodeURIComponent(
+  const parsed = parsePhone(phoneNumber);
+  if (!parsed?.isValid || !parsed.digits) {
+    Alert.alert("Error", "Phone number is not valid");
+    return;
+  }
+
+  const whatsappUrl = `https://wa.me/${parsed.digits}?text=${encodeURIComponent(
     "Hello! I'm reaching out regarding our scheduled meeting/reminder."
   )}`;
   
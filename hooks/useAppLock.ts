@@ -0,0 +1,13 @@
+import { isAppLocked, subscribeAppLock } from "@/services/appLock";
+import { useEffect, useState } from "react";
+
+/**
+ * Whether the app is locked and waiting for the user to authenticate
+ */
+export const useAppLock = () => {
+  const [locked, setLocked] = useState(isAppLocked);
+
+  useEffect(() => subscribeAppLock(setLocked), []);
+
+  return locked;
+};
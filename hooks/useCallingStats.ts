@@ -0,0 +1,157 @@
+import { fetchAgents, getDialerSessionStats } from "@/services/api";
+import { getFlattenedAgents } from "@/utils/agents";
+import {
+  CallingStats,
+  DateRange,
+  EMPTY_CALLING_STATS,
+  getPeriodRanges,
+  normalizeDialerStats,
+  StatsPeriod,
+} from "@/utils/callingStats";
+import { useCallback, useEffect, useRef, useState } from "react";
+import useUserPermissions from "./useUserPermissions";
+
+export interface AgentCallingStats {
+  agentId: string;
+  name: string;
+  stats: CallingStats;
+}
+
+// Requests in flight at once while loading the team breakdown
+const AGENT_STATS_CONCURRENCY = 4;
+
+const loadStats = async (
+  userId: string | null,
+  range: DateRange,
+  signal: AbortSignal
+) =>
+  normalizeDialerStats(
+    await getDialerSessionStats(userId, range.startDate, range.endDate, signal)
+  );
+
+const loadTeamStats = async (
+  user: any,
+  range: DateRange,
+  signal: AbortSignal
+): Promise<AgentCallingStats[]> => {
+  const agents = getFlattenedAgents(await fetchAgents(user)).filter(
+    (agent) => agent.value !== user.id
+  );
+  const results: AgentCallingStats[] = [];
+
+  for (let index = 0; index < agents.length; index += AGENT_STATS_CONCURRENCY) {
+    if (signal.aborted) break;
+    const batch = agents.slice(index, index + AGENT_STATS_CONCURRENCY);
+    const batchResults = await Promise.all(
+      batch.map(async (agent) => ({
+        agentId: agent.value,
+        name: agent.label,
+        stats: await loadStats(agent.value, range, signal).catch((error) => {
+          console.error(`Failed to load call stats for ${agent.label}:`, error);
+          return EMPTY_CALLING_STATS;
+        }),
+      }))
+    );
+    results.push(...batchResults);
+  }
+
+  return results.sort(
+    (a, b) => b.stats.talkTimeSeconds - a.stats.talkTimeSeconds
+  );
+};
+
+/**
+ * Load the user's calling stats for a period and the period before it
+ * Users who can view all users also get a breakdown for every agent below them
+ */
+export const useCallingStats = (user: any, period: StatsPeriod) => {
+  const [current, setCurrent] = useState<CallingStats | null>(null);
+  const [previous, setPrevious] = useState<CallingStats | null>(null);
+  const [team, setTeam] = useState<AgentCallingStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [teamLoading, setTeamLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const { can } = useUserPermissions();
+  const showTeam = can("user.view_all");
+
+  const load = useCallback(
+    async (isRefresh = false) => {
+      // Nothing to load until the user is known, don't leave the spinner up
+      if (!user?.id) {
+        setLoading(false);
+        setRefreshing(false);
+        return;
+      }
+
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      const ranges = getPeriodRanges(period);
+
+      try {
+        const [currentStats, previousStats] = await Promise.all([
+          loadStats(user.id, ranges.current, controller.signal),
+          loadStats(user.id, ranges.previous, controller.signal),
+        ]);
+        if (controller.signal.aborted) return;
+        setCurrent(currentStats);
+        setPrevious(previousStats);
+      } catch (err: any) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to load call stats:", err);
+        setError(err?.message || "Failed to load call stats");
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setRefreshing(false);
+        }
+      }
+
+      if (!showTeam || controller.signal.aborted) return;
+
+      // The team list can take a while, show the user's own numbers first
+      setTeamLoading(true);
+      try {
+        const teamStats = await loadTeamStats(
+          user,
+          ranges.current,
+          controller.signal
+        );
+        if (!controller.signal.aborted) setTeam(teamStats);
+      } catch (err) {
+        console.error("Failed to load team call stats:", err);
+      } finally {
+        if (!controller.signal.aborted) setTeamLoading(false);
+      }
+    },
+    [user, period, showTeam]
+  );
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  return {
+    current,
+    previous,
+    team,
+    showTeam,
+    loading,
+    teamLoading,
+    refreshing,
+    error,
+    refresh: () => load(true),
+  };
+};
@@ -0,0 +1,49 @@
+import { fetchCampaignDispositions } from "@/services/api";
+import {
+  buildDispositionReport,
+  DispositionReport,
+  normalizeDispositions,
+} from "@/utils/dispositionReport";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Load the call dispositions of a campaign and build its report
+ */
+export const useCampaignDispositions = (campaignName: string) => {
+  const [report, setReport] = useState<DispositionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    if (!campaignName) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetchCampaignDispositions(
+        campaignName,
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+      setReport(buildDispositionReport(normalizeDispositions(response)));
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to load call dispositions:", err);
+      setError(err?.message || "Failed to load call outcomes");
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [campaignName]);
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  return { report, loading, error, refresh: load };
+};
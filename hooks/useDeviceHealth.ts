@@ -0,0 +1,26 @@
+import { DeviceHealth, getDeviceHealth } from "@/services/deviceHealth";
+import { useCallback, useEffect, useState } from "react";
+import { AppState } from "react-native";
+
+/**
+ * Check push notifications and location tracking on this device
+ * Re-checks on foreground, permissions are usually fixed in the system settings
+ * @param serverPlayerId - Player ID the server has for this session, undefined until sessions load
+ */
+export const useDeviceHealth = (serverPlayerId?: string | null) => {
+  const [health, setHealth] = useState<DeviceHealth | null>(null);
+
+  const check = useCallback(async () => {
+    setHealth(await getDeviceHealth(serverPlayerId));
+  }, [serverPlayerId]);
+
+  useEffect(() => {
+    check();
+    const subscription = AppState.addEventListener("change", (next) => {
+      if (next === "active") check();
+    });
+    return () => subscription.remove();
+  }, [check]);
+
+  return { health, refresh: check };
+};
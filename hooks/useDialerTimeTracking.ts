@@ -1,15 +1,15 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { AppState, AppStateStatus } from 'react-native';
-
-interface DialerSession {
-  id: string;
-  leadId: string;
-  phoneNumber: string;
-  startedAt: number;
-  endedAt?: number;
-  durationSeconds?: number;
-  transferredToDialer: boolean;
-}
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import {
+  CallStateEvent,
+  getCallOutcomeFromCallLog,
+  watchOutgoingCall,
+} from '../services/callState';
+import {
+  clearPersistedDialerSession,
+  DialerSession,
+  persistDialerSession,
+} from '../services/dialerSessions';
 
 interface UseDialerTimeTrackingProps {
   leadId?: string;
@@ -30,6 +30,52 @@ export function useDialerTimeTracking({
   const [isInDialer, setIsInDialer] = useState(false);
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
   const sessionRef = useRef<DialerSession | null>(null);
+  const stopWatchingCallRef = useRef<(() => void) | null>(null);
+  // Android call log lookup started when the agent came back
+  const callOutcomeRef = useRef<Promise<void> | null>(null);
+
+  const updateSession = (updates: Partial<DialerSession>) => {
+    if (!sessionRef.current) return;
+    const updatedSession = { ...sessionRef.current, ...updates };
+    sessionRef.current = updatedSession;
+    setCurrentSession(updatedSession);
+    persistDialerSession(updatedSession);
+  };
+
+  // Native call lifecycle, iOS only
+  const handleCallState = (event: CallStateEvent) => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    console.log('📞 Call state:', event.phase, new Date(event.at).toLocaleTimeString());
+
+    if (event.phase === 'dialing' && !session.transferredToDialer) {
+      updateSession({ transferredToDialer: true });
+    }
+    if (event.phase === 'connected') {
+      // A connect noticed after a suspension only says the call was answered, not when
+      updateSession(
+        event.observedThroughout
+          ? { transferredToDialer: true, answered: true, connectedAt: event.at }
+          : { transferredToDialer: true, answered: true }
+      );
+    }
+    if (event.phase === 'disconnected') {
+      if (event.observedThroughout) {
+        updateSession({
+          callEndedAt: event.at,
+          answered: !!session.connectedAt,
+          endSource: 'callState',
+        });
+      } else if (event.answered === false) {
+        // Seen after a suspension but never connected, there was no talk time to miss
+        updateSession({ callEndedAt: event.at, answered: false, endSource: 'callState' });
+      } else if (event.answered) {
+        updateSession({ answered: true });
+      }
+      // Otherwise when it connected is unknown, the time away from the app stands in for the duration
+    }
+  };
 
   // Start a new dialer session
   const startDialerSession = (sessionLeadId: string, sessionPhoneNumber: string) => {
@@ -50,23 +96,44 @@ export function useDialerTimeTracking({
 
     setCurrentSession(session);
     sessionRef.current = session;
+    callOutcomeRef.current = null;
+    // Survives an app kill during the call, see recoverInterruptedDialerSession
+    persistDialerSession(session);
+
+    stopWatchingCallRef.current?.();
+    stopWatchingCallRef.current = watchOutgoingCall(handleCallState);
     
     return session;
   };
 
   // End the current dialer session
-  const endDialerSession = useCallback(() => {
-    const session = sessionRef.current;
-    if (!session) {
+  const endDialerSession = useCallback(async () => {
+    if (!sessionRef.current) {
       console.log('⚠️ Attempted to end dialer session but no session active');
       return null;
     }
 
+    // Let a running call log lookup fill in the call outcome first
+    await callOutcomeRef.current;
+    const session = sessionRef.current;
+    if (!session) return null;
+
+    stopWatchingCallRef.current?.();
+    stopWatchingCallRef.current = null;
+    callOutcomeRef.current = null;
+
     const endedAt = Date.now();
-    const durationSeconds = Math.max(0, Math.round((endedAt - session.startedAt) / 1000));
+    // Connected time when the call state is known, otherwise the time away from the app
+    // until the agent came back, not until the outcome was submitted
+    const awayUntil = session.returnedAt ?? endedAt;
+    const durationSeconds = session.callEndedAt
+      ? session.connectedAt
+        ? Math.max(0, Math.round((session.callEndedAt - session.connectedAt) / 1000))
+        : 0
+      : Math.max(0, Math.round((awayUntil - session.startedAt) / 1000));
 
     // Add safeguard: warn if session is being ended too quickly
-    if (durationSeconds < 5) {
+    if (durationSeconds < 5 && session.answered !== false) {
       console.log(`⚠️ Warning: Dialer session ending very quickly (${durationSeconds}s). This might indicate premature ending.`);
       console.trace('Stack trace for premature session end:');
     }
@@ -76,6 +143,7 @@ export function useDialerTimeTracking({
       durationSeconds,
       durationFormatted: `${Math.floor(durationSeconds / 60)}m ${durationSeconds % 60}s`,
       transferredToDialer: session.transferredToDialer,
+      answered: session.answered,
       startTime: new Date(session.startedAt).toLocaleTimeString(),
       endTime: new Date(endedAt).toLocaleTimeString()
     });
@@ -84,11 +152,13 @@ export function useDialerTimeTracking({
       ...session,
       endedAt,
       durationSeconds,
+      endSource: session.callEndedAt ? session.endSource : 'returnTime',
     };
 
     setCurrentSession(null);
     setIsInDialer(false);
     sessionRef.current = null;
+    clearPersistedDialerSession(session.id);
 
     onSessionComplete?.(completedSession);
     return completedSession;
@@ -123,6 +193,7 @@ export function useDialerTimeTracking({
         sessionRef.current = updatedSession;
         setCurrentSession(updatedSession);
         setIsInDialer(true);
+        persistDialerSession(updatedSession);
         onTransferToDialer?.(updatedSession);
       }
 
@@ -135,6 +206,21 @@ export function useDialerTimeTracking({
         console.log('⬅️ User returned from dialer - app state:', previousState, '→', nextState);
         console.log('Current session duration:', getCurrentDuration(), 'seconds');
         setIsInDialer(false);
+        updateSession({ returnedAt: Date.now() });
+
+        // Android has no live call state, the call log says whether the call connected
+        if (Platform.OS === 'android' && !session.callEndedAt) {
+          callOutcomeRef.current = getCallOutcomeFromCallLog(session.phoneNumber, session.startedAt)
+            .then((outcome) => {
+              if (!outcome || sessionRef.current?.id !== session.id) return;
+              updateSession({
+                connectedAt: outcome.connectedAt ?? undefined,
+                callEndedAt: outcome.endedAt,
+                answered: outcome.answered,
+                endSource: 'callLog',
+              });
+            });
+        }
         onReturnFromDialer?.(session);
         
         // Optionally end session automatically on return
@@ -150,6 +236,7 @@ export function useDialerTimeTracking({
     return () => {
       if (sessionRef.current) {
         console.log('⚠️ Component unmounting with active dialer session:', sessionRef.current.id);
+        stopWatchingCallRef.current?.();
         // Don't automatically end the session on unmount
         // Let it be ended manually when the user workflow is complete
       }
@@ -0,0 +1,65 @@
+import { isCallLogEnabled } from "@/services/callState";
+import { startInboundCallSync } from "@/services/inboundCalls";
+import * as Notifications from "expo-notifications";
+import { router } from "expo-router";
+import { useEffect } from "react";
+import { PermissionsAndroid } from "react-native";
+import { registerInboundCallTask } from "../tasks/inboundCallTask";
+
+/**
+ * Match calls from leads to their lead and announce them after the call
+ * Android builds with call log access only, there's no caller identification while the phone rings
+ * Asks for call log access once, the background check never prompts
+ */
+export const useInboundCallMatching = (user: any) => {
+  useEffect(() => {
+    if (!user?.id || !isCallLogEnabled()) return;
+
+    let stopSync: (() => void) | null = null;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        const permission = await PermissionsAndroid.request(
+          PermissionsAndroid.PERMISSIONS.READ_CALL_LOG,
+          {
+            title: "Call Log Access",
+            message:
+              "Miles reads your call log to tell you which lead called once the call is over. Calls are checked when you open Miles and about every 15 minutes.",
+            buttonPositive: "Allow",
+            buttonNegative: "Not Now",
+          }
+        );
+        if (cancelled || permission !== PermissionsAndroid.RESULTS.GRANTED) {
+          return;
+        }
+        stopSync = startInboundCallSync(user);
+        await registerInboundCallTask();
+      } catch (error) {
+        console.error("Failed to start inbound call matching:", error);
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      stopSync?.();
+    };
+  }, [user]);
+
+  // Inbound call notifications open the caller's lead
+  useEffect(() => {
+    if (!user?.id) return;
+    const subscription = Notifications.addNotificationResponseReceivedListener(
+      (response) => {
+        const data = response.notification.request.content.data || {};
+        if (data.type !== "inbound_call" || !data.leadId) return;
+        router.push({
+          pathname: "/lead-details/[id]",
+          params: { id: data.leadId },
+        });
+      }
+    );
+    return () => subscription.remove();
+  }, [user?.id]);
+};
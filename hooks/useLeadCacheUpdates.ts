@@ -0,0 +1,28 @@
+import { getCachedLead, subscribeLeadCache } from "@/services/leadCache";
+import { Dispatch, SetStateAction, useEffect } from "react";
+
+/**
+ * Keep a list of leads in sync with edits made anywhere else in the app
+ * Leads in the list are swapped for the cached copy whenever that lead changes,
+ * and dropped when the lead is removed from the cache
+ * @param setLeads - State setter of the list to keep in sync
+ */
+export const useLeadCacheUpdates = <T extends { _id: string }>(
+  setLeads: Dispatch<SetStateAction<T[]>>
+) => {
+  useEffect(
+    () =>
+      subscribeLeadCache((changedIds) => {
+        const changed = new Set(changedIds);
+        setLeads((prev) => {
+          if (!prev.some((lead) => changed.has(lead._id))) return prev;
+          return prev
+            .map((lead) =>
+              changed.has(lead._id) ? getCachedLead(lead._id) : lead
+            )
+            .filter(Boolean);
+        });
+      }),
+    [setLeads]
+  );
+};
@@ -0,0 +1,52 @@
+import { fetchLeadDialerSessions } from "@/services/api";
+import {
+  CallHistoryEntry,
+  normalizeCallHistory,
+  summarizeCallHistory,
+} from "@/utils/callHistory";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Load the dialer sessions logged for a lead and summarize them
+ */
+export const useLeadCallHistory = (leadId: string) => {
+  const [entries, setEntries] = useState<CallHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    if (!leadId) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetchLeadDialerSessions(leadId, controller.signal);
+      if (controller.signal.aborted) return;
+      setEntries(normalizeCallHistory(response));
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to load call history:", err);
+      setError(err?.message || "Failed to load call history");
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  return {
+    entries,
+    summary: summarizeCallHistory(entries),
+    loading,
+    error,
+    refresh: load,
+  };
+};
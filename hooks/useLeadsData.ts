@@ -7,8 +7,15 @@ import {
   FilterOption,
   FilterOptions,
 } from "@/services/api";
+import {
+  buildLeadListKey,
+  cacheLeadList,
+  getCachedLeadList,
+} from "@/services/leadCache";
 import { useCallback, useEffect, useRef, useState } from "react";
 import Toast from "react-native-root-toast";
+import { useLeadCacheUpdates } from "./useLeadCacheUpdates";
+import { useRealtimeEvent } from "./useRealtimeEvent";
 
 export interface UseLeadsDataProps {
   user: any;
@@ -42,6 +49,7 @@ export interface UseLeadsDataReturn {
 /**
  * Custom hook to manage leads data, filter options, and loading states
  * Handles API calls, pagination, and provides a clean interface for the component
+ * Cached pages are shown immediately and revalidated in the background
  */
 export const useLeadsData = ({
   user,
@@ -69,6 +77,9 @@ export const useLeadsData = ({
   const requestCounterRef = useRef(0);
   const latestRequestRef = useRef(0);
 
+  // Reflect single-lead edits made on other screens
+  useLeadCacheUpdates(setLeads);
+
   /**
    * Fetch leads data with current parameters
    * Allow passing explicit page to avoid stale state issues
@@ -84,15 +95,34 @@ export const useLeadsData = ({
     const thisRequestId = requestCounterRef.current;
     latestRequestRef.current = thisRequestId;
     
-    setLoading(true);
-
     const pageToUse = explicitPage !== undefined ? explicitPage : currentPage;
+    const cacheKey = buildLeadListKey("leads", {
+      userId: user.id,
+      filters,
+      searchTerm,
+      page: pageToUse,
+      limit: leadsPerPage,
+    });
+
+    // Show the cached page straight away, the request below revalidates it
+    const cached = await getCachedLeadList(cacheKey);
+    if (thisRequestId !== latestRequestRef.current) return;
+
+    if (cached) {
+      setLeads(cached.leads);
+      setTotalLeads(cached.total);
+      setTotalPages(Math.ceil(cached.total / leadsPerPage));
+      setLoading(false);
+    } else {
+      setLoading(true);
+    }
 
     try {
       const response = await fetchLeads(user, filters, searchTerm, {
         page: pageToUse,
         limit: leadsPerPage,
       });
+      cacheLeadList(cacheKey, response.data, response.totalLeads);
 
       // Only update state if this is still the latest request
       if (thisRequestId === latestRequestRef.current) {
@@ -109,7 +139,8 @@ export const useLeadsData = ({
       }
     } catch (error) {
       // Only show error if this is still the latest request
-      if (thisRequestId === latestRequestRef.current) {
+      // Keep showing the cached page if we had one
+      if (thisRequestId === latestRequestRef.current && !cached) {
         Toast.show(`Error fetching leads: ${error.message}`, {
           duration: Toast.durations.LONG,
         });
@@ -159,6 +190,11 @@ export const useLeadsData = ({
     }
   }, [user, loadFilterOptions]);
 
+  // A newly assigned lead may belong on the current page, revalidate it in the background
+  useRealtimeEvent("lead_assigned", () => {
+    if (user && user.id && shouldFetchLeads) refreshLeads();
+  });
+
   // Fetch leads when user and shouldFetchLeads conditions are met
   // Exclude currentPage to prevent conflicts with manual pagination
   useEffect(() => {
@@ -2,7 +2,19 @@ import * as Location from "expo-location";
 import * as SecureStore from "expo-secure-store";
 import * as TaskManager from "expo-task-manager";
 import { useEffect, useRef, useState } from "react";
-import { BACKGROUND_LOCATION_TASK } from "../tasks/backgroundLocationTask";
+import {
+  recordLocations,
+  uploadBufferedLocations,
+} from "../services/locationBuffer";
+import {
+  applyTrackingPolicy,
+  stopTracking,
+} from "../services/locationTracking";
+import {
+  registerTrackingPolicyTask,
+  unregisterTrackingPolicyTask,
+} from "../tasks/trackingPolicyTask";
+import { getDistance } from "../utils/geo";
 
 export default function useLocation(user) {
   const [location, setLocation] = useState(null);
@@ -118,14 +130,10 @@ export default function useLocation(user) {
     try {
       console.log("Stopping background location tracking...");
 
-      // Stop background location updates
-      const isRegistered = await TaskManager.isTaskRegisteredAsync(
-        BACKGROUND_LOCATION_TASK
-      );
-      if (isRegistered) {
-        await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
-        console.log("Background location task stopped");
-      }
+      // Stop background location updates and the policy checks that restart them
+      await unregisterTrackingPolicyTask();
+      await stopTracking();
+      console.log("Background location task stopped");
 
       // Stop foreground tracking if active
       if (watchSubscriptionRef.current) {
@@ -133,10 +141,8 @@ export default function useLocation(user) {
         watchSubscriptionRef.current = null;
       }
 
-      // Clean up stored user data and timing info
+      // Clean up stored user data
       await SecureStore.deleteItemAsync("currentUser");
-      await SecureStore.deleteItemAsync("lastLocationSentTime");
-      await SecureStore.deleteItemAsync("lastLocationSent");
 
       setIsTrackingLocation(false);
       console.log("Location tracking stopped successfully");
@@ -159,31 +165,12 @@ export default function useLocation(user) {
         return;
       }
 
-      // Check if background task is already running
-      const isRegistered = await TaskManager.isTaskRegisteredAsync(
-        BACKGROUND_LOCATION_TASK
-      );
-      if (isRegistered) {
-        console.log("Background location task is already running, skipping restart");
-        setIsTrackingLocation(true);
-        return;
-      }
-
-      // Start background location updates
-      await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
-        accuracy: Location.Accuracy.Balanced,
-        timeInterval: 30000, // 30 seconds - stable for background
-        distanceInterval: 10, // 10 meters - reasonable distance threshold
-        deferredUpdatesInterval: 30000, // Force updates every 30 seconds
-        pausesLocationUpdatesAutomatically: false, // Don't pause when stationary
-        foregroundService: {
-          notificationTitle: "Location Tracking",
-          notificationBody:
-            "Miles is tracking your location for better service.",
-        },
-      });
+      // Start, restart or pause updates to match the tracking policy
+      const status = await applyTrackingPolicy();
+      await registerTrackingPolicyTask();
+      console.log("Location tracking mode:", status?.mode, status?.reason);
 
-      setIsTrackingLocation(true);
+      setIsTrackingLocation(status?.mode !== "paused");
       console.log("Background location tracking started successfully");
     } catch (err) {
       console.error("Failed to start background location tracking:", err);
@@ -248,61 +235,8 @@ export default function useLocation(user) {
       previousLocationRef.current = { latitude, longitude };
 
       if (user && user.id) {
-        const currentTime = Date.now();
-
-        // Get last sent time from storage (persistent across background/foreground)
-        const lastSentTimeStr = await SecureStore.getItemAsync(
-          "lastLocationSentTime"
-        );
-        const lastSentTime = lastSentTimeStr ? parseInt(lastSentTimeStr) : 0;
-        const timeSinceLastSend = currentTime - lastSentTime;
-        const FORCE_SEND_INTERVAL = 30000; // 30 seconds - stable interval
-
-        // Get last sent location from storage
-        const lastSentLocationStr = await SecureStore.getItemAsync(
-          "lastLocationSent"
-        );
-        const lastSentLocation = lastSentLocationStr
-          ? JSON.parse(lastSentLocationStr)
-          : null;
-
-        // Check if we should send this location update
-        const shouldSend =
-          // First time sending
-          lastSentTime === 0 ||
-          // Force send every minute regardless of position
-          timeSinceLastSend >= FORCE_SEND_INTERVAL ||
-          // Send if position changed significantly (backup check)
-          (lastSentLocation &&
-            (Math.abs(latitude - lastSentLocation.latitude) > 0.0001 ||
-              Math.abs(longitude - lastSentLocation.longitude) > 0.0001));
-
-        if (shouldSend) {
-          console.log(
-            "Sending foreground location to server for user:",
-            user.id,
-            "- Time since last:",
-            timeSinceLastSend,
-            "ms"
-          );
-          await sendLocationToServer(user.id, latitude, longitude);
-
-          // Update stored timing and location data
-          await SecureStore.setItemAsync(
-            "lastLocationSentTime",
-            currentTime.toString()
-          );
-          await SecureStore.setItemAsync(
-            "lastLocationSent",
-            JSON.stringify({ latitude, longitude })
-          );
-        } else {
-          console.log(
-            "Foreground location update skipped - Time since last:",
-            timeSinceLastSend,
-            "ms (waiting for 30 seconds)"
-          );
-        }
+        await recordLocations([position]);
+        await uploadBufferedLocations();
       } else {
         console.warn("Cannot send location - user or user.id is missing:", {
           user,
@@ -359,74 +293,6 @@ export default function useLocation(user) {
     }
   };
 
-  const sendLocationToServer = async (userId, latitude, longitude) => {
-    const timestamp = new Date().toISOString();
-    const data = { agent_id: userId, latitude, longitude, timestamp };
-
-    // Use specific location service URL if available, otherwise use main API with /data endpoint
-    console.log("Environment variables:", {
-      EXPO_PUBLIC_LOCATION_SERVICE_URL:
-        process.env.EXPO_PUBLIC_LOCATION_SERVICE_URL,
-      EXPO_PUBLIC_BASE_URL: process.env.EXPO_PUBLIC_BASE_URL,
-    });
-
-    let url;
-    if (process.env.EXPO_PUBLIC_LOCATION_SERVICE_URL) {
-      const locationServiceUrl =
-        process.env.EXPO_PUBLIC_LOCATION_SERVICE_URL.replace(/\/$/, "");
-      url = `${locationServiceUrl}/data`;
-      console.log("Using location service URL:", url);
-    } else {
-      // Use main API with /data endpoint (nginx proxies to agent-location service)
-      const baseUrl =
-        process.env.EXPO_PUBLIC_BASE_URL?.replace(/\/$/, "") || "";
-      url = `${baseUrl}/data`;
-      console.log("Using main API with /data endpoint:", url);
-    }
-
-    try {
-      console.log("Sending location data:", { url, data });
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-        body: JSON.stringify(data),
-      });
-
-      console.log("Location API response status:", response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Location API error response:", errorText);
-        throw new Error(
-          `HTTP error! status: ${response.status}, message: ${errorText}`
-        );
-      }
-
-      const contentType = response.headers.get("content-type");
-      if (contentType && contentType.includes("application/json")) {
-        const result = await response.json();
-        console.log("Location sent successfully:", result);
-      } else {
-        const text = await response.text();
-        console.log("Location sent successfully (text response):", text);
-      }
-    } catch (error) {
-      console.error("Failed to send location to server:", {
-        error: error.message,
-        url,
-        data,
-        userId,
-        latitude,
-        longitude,
-      });
-      throw error;
-    }
-  };
-
   return {
     location,
     address,
@@ -442,18 +308,3 @@ export default function useLocation(user) {
       permissionGranted && startBackgroundLocationUpdates(),
   };
 }
-
-export const getDistance = (lat1, lon1, lat2, lon2) => {
-  const R = 6371e3; // Earth's radius in meters
-  const toRadians = (deg) => (deg * Math.PI) / 180;
-  const dLat = toRadians(lat2 - lat1);
-  const dLon = toRadians(lon2 - lon1);
-
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRadians(lat1)) *
-      Math.cos(toRadians(lat2)) *
-      Math.sin(dLon / 2) ** 2;
-
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-};
@@ -0,0 +1,20 @@
+import {
+  LocationUploadStatus,
+  subscribeLocationUploadStatus,
+  uploadBufferedLocations,
+} from "@/services/locationBuffer";
+import { useEffect, useState } from "react";
+
+/**
+ * Track how many location points are waiting to be uploaded and how far behind the server is
+ */
+export const useLocationUploadStatus = () => {
+  const [status, setStatus] = useState<LocationUploadStatus | null>(null);
+
+  useEffect(() => subscribeLocationUploadStatus(setStatus), []);
+
+  return {
+    status,
+    retry: () => uploadBufferedLocations(true),
+  };
+};
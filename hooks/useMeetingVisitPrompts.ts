@@ -0,0 +1,76 @@
+import {
+  MeetingVisit,
+  startMeetingVisitSync,
+  subscribeMeetingVisits,
+} from "@/services/meetingVisits";
+import * as Notifications from "expo-notifications";
+import { router } from "expo-router";
+import { useEffect } from "react";
+import { Alert } from "react-native";
+import Toast from "react-native-root-toast";
+
+const openMeetingOutcome = (meetingId: string, leadId: string | null) => {
+  // Without the lead we can only point the agent at their meetings
+  if (!leadId) {
+    router.push("/(tabs)/tasks");
+    return;
+  }
+  router.push({
+    pathname: "/lead-details/[id]",
+    params: { id: leadId, meetingOutcome: meetingId },
+  });
+};
+
+const formatVisitDuration = (visit: MeetingVisit) =>
+  `${Math.max(1, Math.round((visit.durationMs || 0) / 60000))} min`;
+
+/**
+ * Watch today's meetings for automatic check-in and check-out
+ * Asks the agent for the meeting outcome after each check-out
+ */
+export const useMeetingVisitPrompts = (user: any) => {
+  useEffect(() => {
+    if (!user?.id) return;
+    return startMeetingVisitSync(user.id);
+  }, [user?.id]);
+
+  // Visits recorded while the app is open
+  useEffect(() => {
+    if (!user?.id) return;
+    return subscribeMeetingVisits(({ type, visit }) => {
+      if (type === "checkIn") {
+        Toast.show(`Checked in for meeting with ${visit.leadName}`, {
+          duration: Toast.durations.SHORT,
+        });
+        return;
+      }
+
+      Alert.alert(
+        "Meeting Finished",
+        `You spent ${formatVisitDuration(visit)} with ${
+          visit.leadName
+        }. How did it go?`,
+        [
+          { text: "Later", style: "cancel" },
+          {
+            text: "Record Outcome",
+            onPress: () => openMeetingOutcome(visit.meetingId, visit.leadId),
+          },
+        ]
+      );
+    });
+  }, [user?.id]);
+
+  // Check-out notifications tapped while the app was in the background
+  useEffect(() => {
+    if (!user?.id) return;
+    const subscription = Notifications.addNotificationResponseReceivedListener(
+      (response) => {
+        const data = response.notification.request.content.data || {};
+        if (data.type !== "meeting_check_out") return;
+        openMeetingOutcome(data.meetingId, data.leadId ?? null);
+      }
+    );
+    return () => subscription.remove();
+  }, [user?.id]);
+};
@@ -0,0 +1,173 @@
+import { fetchTasks } from "@/services/api";
+import { getLocationHistory, toDayKey } from "@/services/locationHistory";
+import { Task } from "@/types/tasks";
+import {
+  buildDayRoute,
+  DayRoute,
+  DayStop,
+  matchMeetingsToStops,
+  MeetingWithCoordinates,
+} from "@/utils/dayRoute";
+import * as Location from "expo-location";
+import { useCallback, useEffect, useState } from "react";
+
+export interface StopDetails {
+  address: string | null;
+  meetings: Task[];
+}
+
+// Geocoding is rate limited, remember results for the session
+const geocodeCache = new Map<
+  string,
+  { latitude: number; longitude: number } | null
+>();
+const addressCache = new Map<string, string | null>();
+
+const geocodeMeetingLocation = async (location: string) => {
+  const key = location.trim().toLowerCase();
+  if (!geocodeCache.has(key)) {
+    try {
+      const [result] = await Location.geocodeAsync(location);
+      geocodeCache.set(
+        key,
+        result
+          ? { latitude: result.latitude, longitude: result.longitude }
+          : null
+      );
+    } catch {
+      geocodeCache.set(key, null);
+    }
+  }
+  return geocodeCache.get(key) ?? null;
+};
+
+const describeStop = async (stop: DayStop): Promise<string | null> => {
+  const key = `${stop.latitude.toFixed(4)},${stop.longitude.toFixed(4)}`;
+  if (!addressCache.has(key)) {
+    try {
+      const [result] = await Location.reverseGeocodeAsync({
+        latitude: stop.latitude,
+        longitude: stop.longitude,
+      });
+      addressCache.set(
+        key,
+        result
+          ? [result.name || result.street, result.district || result.city]
+              .filter(Boolean)
+              .join(", ") || null
+          : null
+      );
+    } catch {
+      addressCache.set(key, null);
+    }
+  }
+  return addressCache.get(key) ?? null;
+};
+
+/**
+ * Build today's route from the locations recorded on this device
+ * and match the stops to the agent's meetings
+ */
+export const useMyDay = (user: any) => {
+  const [route, setRoute] = useState<DayRoute | null>(null);
+  const [stopDetails, setStopDetails] = useState<Map<DayStop, StopDetails>>(
+    new Map()
+  );
+  const [meetings, setMeetings] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const load = useCallback(
+    async (isRefresh = false) => {
+      if (!user?.id) return;
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+
+      try {
+        const [points, tasks] = await Promise.all([
+          getLocationHistory(toDayKey(new Date())),
+          fetchTasks(user.id, "today")
+            .then((response) => response.tasks || [])
+            .catch((error) => {
+              // The route is still useful without meetings
+              console.error("Failed to load today's meetings:", error);
+              return [] as Task[];
+            }),
+        ]);
+
+        const dayRoute = buildDayRoute(points);
+        const todaysMeetings = tasks.filter(
+          (task) => task.type === "meeting"
+        );
+
+        const meetingsWithCoordinates = (
+          await Promise.all(
+            todaysMeetings
+              .filter((meeting) => meeting.location?.trim())
+              .map(async (meeting) => {
+                const coordinates = await geocodeMeetingLocation(
+                  meeting.location!
+                );
+                return coordinates
+                  ? { id: meeting.id, date: meeting.date, ...coordinates }
+                  : null;
+              })
+          )
+        ).filter(
+          (meeting): meeting is MeetingWithCoordinates => meeting !== null
+        );
+
+        const matches = matchMeetingsToStops(
+          dayRoute.stops,
+          meetingsWithCoordinates
+        );
+
+        const details = new Map<DayStop, StopDetails>();
+        for (const stop of dayRoute.stops) {
+          details.set(stop, {
+            address: await describeStop(stop),
+            meetings: todaysMeetings.filter(
+              (meeting) => matches.get(meeting.id) === stop
+            ),
+          });
+        }
+
+        setRoute(dayRoute);
+        setMeetings(todaysMeetings);
+        setStopDetails(details);
+      } catch (error) {
+        console.error("Failed to build day route:", error);
+      } finally {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    },
+    [user?.id]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Meetings with a location that no stop matched, worth flagging to the agent
+  const unmatchedMeetings = meetings.filter(
+    (meeting) =>
+      meeting.location?.trim() &&
+      ![...stopDetails.values()].some((details) =>
+        details.meetings.includes(meeting)
+      )
+  );
+
+  return {
+    route,
+    stopDetails,
+    meetings,
+    unmatchedMeetings,
+    loading,
+    refreshing,
+    refresh: () => load(true),
+  };
+};
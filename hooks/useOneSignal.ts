@@ -1,6 +1,8 @@
 import { router } from "expo-router";
 import { useEffect } from "react";
 import { LogLevel, OneSignal } from "react-native-onesignal";
+import { updatePlayerId } from "../services/api/users";
+import { getDeviceDetails } from "../services/deviceHealth";
 
 const ONE_SIGNAL_APP_ID = "d1134921-c416-419e-a0a7-0c98e2640e2a";
 
@@ -145,25 +147,12 @@ export default function useOneSignal(user: User | null) {
   const sendPlayerIdToServer = async (userId: string, playerId: string) => {
     try {
       console.log("Sending player ID to server:", { userId, playerId });
-      const response = await fetch(
-        `${process.env.EXPO_PUBLIC_BASE_URL}api/users/update-player-id`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ userId, playerId }),
-        }
+      const result = await updatePlayerId(
+        userId,
+        playerId,
+        getDeviceDetails()
       );
-
-      if (response.ok) {
-        const result = await response.json();
-        console.log("Player ID sent successfully:", result);
-      } else {
-        console.error(
-          "Failed to send player ID:",
-          response.status,
-          response.statusText
-        );
-      }
+      console.log("Player ID sent successfully:", result);
     } catch (error) {
       console.error("Error sending player ID to server:", error);
     }
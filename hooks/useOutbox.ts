@@ -0,0 +1,44 @@
+import {
+  flushOutbox,
+  OutboxEntry,
+  resolveOutboxEntry,
+  subscribeOutbox,
+} from "@/services/outbox";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+/**
+ * Track queued offline mutations, optionally only those for one lead
+ * @param leadId - Limit entries to this lead
+ */
+export const useOutbox = (leadId?: string) => {
+  const [allEntries, setAllEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => subscribeOutbox(setAllEntries), []);
+
+  const entries = useMemo(
+    () =>
+      leadId
+        ? allEntries.filter((entry) => entry.leadId === leadId)
+        : allEntries,
+    [allEntries, leadId]
+  );
+
+  const conflicts = useMemo(
+    () => entries.filter((entry) => entry.status !== "pending"),
+    [entries]
+  );
+
+  const resolve = useCallback(
+    (id: string, resolution: "overwrite" | "discard") =>
+      resolveOutboxEntry(id, resolution),
+    []
+  );
+
+  return {
+    entries,
+    pendingCount: entries.length,
+    conflicts,
+    flush: flushOutbox,
+    resolve,
+  };
+};
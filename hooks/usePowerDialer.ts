@@ -0,0 +1,41 @@
+import {
+  advancePowerDialerIfDue,
+  PowerDialerState,
+  subscribePowerDialer,
+} from "@/services/powerDialer";
+import { useEffect, useState } from "react";
+
+/**
+ * Follow the power dialer session and run its wrap-up countdown
+ * Moves on to the next lead when the countdown runs out
+ */
+export const usePowerDialer = () => {
+  const [session, setSession] = useState<PowerDialerState | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => subscribePowerDialer(setSession), []);
+
+  const nextDialAt = session?.status === "wrapUp" ? session.nextDialAt : null;
+
+  useEffect(() => {
+    if (!nextDialAt) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    const tick = () => {
+      const remaining = Math.max(
+        0,
+        Math.ceil((nextDialAt - Date.now()) / 1000)
+      );
+      setSecondsLeft(remaining);
+      if (remaining === 0) advancePowerDialerIfDue();
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [nextDialAt]);
+
+  return { session, secondsLeft };
+};
@@ -0,0 +1,25 @@
+import {
+  RealtimeEventPayloads,
+  RealtimeEventType,
+  subscribeRealtime,
+} from "@/services/realtime";
+import { useEffect, useRef } from "react";
+
+/**
+ * Run a handler whenever a real-time event of the given type arrives
+ * The latest handler is always used, so it can read current state without resubscribing
+ * @param type - Event type to listen for
+ * @param handler - Called with the event payload
+ */
+export const useRealtimeEvent = <T extends RealtimeEventType>(
+  type: T,
+  handler: (payload: RealtimeEventPayloads[T]) => void
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => subscribeRealtime(type, (payload) => handlerRef.current(payload)),
+    [type]
+  );
+};
@@ -0,0 +1,79 @@
+import { logout } from "@/services/api/auth";
+import {
+  confirmServerSwitch,
+  isActiveServerUrl,
+  saveServerProfile,
+  selectServerProfile,
+  validateServerUrl,
+} from "@/services/serverProfiles";
+import * as Linking from "expo-linking";
+import { useEffect, useRef } from "react";
+import { Alert } from "react-native";
+
+// e.g. myapp://server?name=Dubai%20Office&url=https://dubai.crm.example.com
+const SERVER_LINK_PATH = "server";
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Save and switch to the server a configuration link points at, after the user confirms
+ * @param user - Signed-in user, they are signed out before switching
+ * @param onSignOut - Clears the local session, as the logout button does
+ */
+export const useServerProfileLinks = (
+  user: any,
+  onSignOut: () => Promise<void>
+) => {
+  const url = Linking.useURL();
+  const handledRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!url || handledRef.current === url) return;
+
+    const { hostname, path, queryParams } = Linking.parse(url);
+    if ((hostname || path) !== SERVER_LINK_PATH) return;
+    handledRef.current = url;
+
+    const baseUrl = firstParam(queryParams?.url) || "";
+    const name = firstParam(queryParams?.name) || "";
+    const error = validateServerUrl(baseUrl);
+    if (error) {
+      Alert.alert("Invalid Server Link", error);
+      return;
+    }
+
+    const apply = async () => {
+      try {
+        if (isActiveServerUrl(baseUrl)) return;
+        // Only keep the server once the user accepted dropping unsynced changes
+        if (!(await confirmServerSwitch(name || baseUrl))) return;
+        const profile = await saveServerProfile(name, baseUrl);
+
+        if (user) {
+          await logout();
+          await onSignOut();
+        }
+        await selectServerProfile(profile.id);
+      } catch (switchError: any) {
+        console.error("Failed to apply server link:", switchError);
+        Alert.alert(
+          "Error",
+          switchError?.message || "The server could not be changed."
+        );
+      }
+    };
+
+    // Someone could send a link to a look-alike server, always show where it points
+    Alert.alert(
+      "Switch Server",
+      `Sign in to ${name || "this server"} at ${baseUrl}?${
+        user ? " You will be signed out first." : ""
+      }`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Switch", onPress: apply },
+      ]
+    );
+  }, [url, user, onSignOut]);
+};
@@ -0,0 +1,21 @@
+import {
+  getServerProfiles,
+  loadServerProfiles,
+  ServerProfilesState,
+  subscribeServerProfiles,
+} from "@/services/serverProfiles";
+import { useEffect, useState } from "react";
+
+/**
+ * Saved servers and the one the app talks to
+ */
+export const useServerProfiles = () => {
+  const [state, setState] = useState<ServerProfilesState>(getServerProfiles);
+
+  useEffect(() => {
+    loadServerProfiles();
+    return subscribeServerProfiles(setState);
+  }, []);
+
+  return state;
+};
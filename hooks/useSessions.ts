@@ -0,0 +1,63 @@
+import {
+  getActiveSessions,
+  revokeSession,
+  UserSession,
+} from "@/services/api/sessions";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Load the signed-in user's active sessions, this device's first
+ */
+export const useSessions = () => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getActiveSessions(controller.signal);
+      if (controller.signal.aborted) return;
+      setSessions(
+        [...result].sort(
+          (a, b) =>
+            Number(!!b.current) - Number(!!a.current) ||
+            (b.lastSeenAt || "").localeCompare(a.lastSeenAt || "")
+        )
+      );
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to load sessions:", err);
+      setError(err?.message || "Failed to load sessions");
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  const revoke = useCallback(async (sessionId: string) => {
+    await revokeSession(sessionId);
+    setSessions((current) =>
+      current.filter((session) => session.id !== sessionId)
+    );
+  }, []);
+
+  return {
+    sessions,
+    currentSession: sessions.find((session) => session.current) || null,
+    loading,
+    error,
+    refresh: load,
+    revoke,
+  };
+};
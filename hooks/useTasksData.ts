@@ -1,17 +1,9 @@
 import { useState, useCallback, useContext } from "react";
 import { Alert } from "react-native";
 import { UserContext } from "../app/_layout";
-import { createAuthHeaders } from "../services/api";
+import { createAuthHeaders, getBaseUrl } from "../services/api";
 import { Task, TasksResponse, TaskSummary, PeriodType, UpdateTaskStatusParams } from "../types/tasks";
 
-const getBaseUrl = () => {
-  if (__DEV__) {
-    return process.env.EXPO_PUBLIC_BASE_URL || "http://192.168.70.3:3000";
-  } else {
-    return "";
-  }
-};
-
 export const useTasksData = () => {
   const user = useContext(UserContext) as any;
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -0,0 +1,16 @@
+import {
+  subscribeTrackingStatus,
+  TrackingStatus,
+} from "@/services/locationTracking";
+import { useEffect, useState } from "react";
+
+/**
+ * Track the location tracking mode the policy last applied and why
+ */
+export const useTrackingStatus = () => {
+  const [status, setStatus] = useState<TrackingStatus | null>(null);
+
+  useEffect(() => subscribeTrackingStatus(setStatus), []);
+
+  return status;
+};
@@ -1,43 +1,52 @@
-import { useMemo } from "react";
+import {
+  arePermissionsLoaded,
+  getPermissions,
+  refreshPermissions,
+  subscribePermissions,
+} from "@/services/permissions";
+import {
+  hasAnyPermission,
+  hasPermission,
+  Permission,
+} from "@/utils/userPermissions";
+import { useCallback, useEffect, useState } from "react";
 
-export type User = { role?: string | null } | null;
+/**
+ * The signed-in user's permissions as granted by the server
+ * Nothing is allowed until they are loaded
+ */
+export default function useUserPermissions() {
+  const [state, setState] = useState(getPermissions);
+  const [loaded, setLoaded] = useState(arePermissionsLoaded);
 
-export type UserPermissions = {
-  export: boolean;
-  delete: boolean;
-  mapLeads: boolean;
-  lead: string[];
-};
+  useEffect(
+    () =>
+      subscribePermissions((next) => {
+        setState(next);
+        setLoaded(arePermissionsLoaded());
+      }),
+    []
+  );
 
-export default function useUserPermissions(user: User): UserPermissions {
-  return useMemo(() => {
-    if (!user) return { lead: [], export: false, delete: false, mapLeads: false } as UserPermissions;
-    const permissions: UserPermissions = {
-      export: false,
-      delete: false,
-      mapLeads: false,
-      lead: ["update_status", "update_source"],
-    };
+  const permissions = state?.permissions ?? null;
 
-    if (user.role) {
-      const role = user.role.toLowerCase();
+  const can = useCallback(
+    (permission: Permission) => hasPermission(permissions, permission),
+    [permissions]
+  );
 
-      if (role === "admin" || role === "superadmin" || role.includes("admin")) {
-        permissions.export = true;
-        permissions.delete = true;
-        permissions.mapLeads = true;
-        permissions.lead = ["update_status", "update_source", "update_assigned", "delete_lead"];
-      }
-      else if (role.includes("lead") || role.includes("manager")) {
-        permissions.export = true;
-        permissions.lead = ["update_status", "update_source", "update_assigned"];
-        permissions.mapLeads = true;
-      }
-      else {
-        permissions.export = true;
-      }
-    }
+  const canAny = useCallback(
+    (permissionList: Permission[]) =>
+      hasAnyPermission(permissions, permissionList),
+    [permissions]
+  );
 
-    return permissions;
-  }, [user]);
+  return {
+    permissions,
+    version: state?.version ?? null,
+    loading: !loaded,
+    can,
+    canAny,
+    refresh: refreshPermissions,
+  };
 }
@@ -0,0 +1,215 @@
+/**
+ * Local OpenID Connect provider for testing single sign-on.
+ * Plays both sides: the identity provider (discovery, authorize page, token endpoint)
+ * and the CRM endpoints the app calls to list providers and redeem the code.
+ * Codes are checked against the PKCE verifier, redirect URI and nonce like a real server would.
+ *
+ * Usage: npm run mock:oidc [-- --port 4002 --client miles-mobile]
+ * Then, in a development build, add http://<your-ip>:4002 as a server on the login screen
+ * and tap "Continue with Mock Provider". Only sign-in works against it, other API calls fail.
+ */
+
+const crypto = require("crypto");
+const http = require("http");
+const { Buffer } = require("buffer");
+const { URL, URLSearchParams } = require("url");
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const port = Number(getArg("port", 4002));
+const clientId = getArg("client", "miles-mobile");
+
+// Issued codes waiting to be redeemed, each can be used once
+const codes = new Map();
+
+const base64Url = (value) =>
+  Buffer.from(value).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// Unsigned, the app only decodes tokens
+const createJwt = (payload) =>
+  `${base64Url(JSON.stringify({ alg: "none", typ: "JWT" }))}.${base64Url(JSON.stringify(payload))}.`;
+
+const issuerFor = (req) => `http://${req.headers.host}`;
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      if (!data) return resolve({});
+      try {
+        resolve(JSON.parse(data));
+      } catch {
+        resolve(Object.fromEntries(new URLSearchParams(data)));
+      }
+    });
+  });
+
+const escapeHtml = (value) =>
+  String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const redirectBack = (res, redirectUri, params) => {
+  const separator = redirectUri.includes("?") ? "&" : "?";
+  res.writeHead(302, { Location: `${redirectUri}${separator}${new URLSearchParams(params)}` });
+  res.end();
+};
+
+const authorizePage = (query) => `<!doctype html>
+<html>
+<head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Mock Provider</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 48px auto; padding: 0 16px">
+  <h2>Mock Provider</h2>
+  <p>Sign in to <b>${escapeHtml(query.get("client_id"))}</b></p>
+  <form method="POST" action="/authorize">
+    ${[...query].map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`).join("\n    ")}
+    <input name="email" type="email" value="agent@example.com" style="width: 100%; padding: 8px; margin-bottom: 12px">
+    <button name="decision" value="allow" style="padding: 8px 16px">Sign in</button>
+    <button name="decision" value="deny" style="padding: 8px 16px">Cancel</button>
+  </form>
+</body>
+</html>`;
+
+const handleAuthorize = async (req, res, url) => {
+  if (req.method === "GET") {
+    const query = url.searchParams;
+    if (query.get("client_id") !== clientId || !query.get("redirect_uri")) {
+      res.writeHead(400);
+      res.end("Unknown client or missing redirect_uri");
+      return;
+    }
+    if (query.get("code_challenge_method") !== "S256" || !query.get("code_challenge")) {
+      redirectBack(res, query.get("redirect_uri"), {
+        error: "invalid_request",
+        error_description: "PKCE with S256 is required",
+        state: query.get("state") || "",
+      });
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(authorizePage(query));
+    return;
+  }
+
+  const form = await readBody(req);
+  if (form.decision !== "allow") {
+    redirectBack(res, form.redirect_uri, { error: "access_denied", state: form.state });
+    return;
+  }
+
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, {
+    email: form.email || "agent@example.com",
+    challenge: form.code_challenge,
+    redirectUri: form.redirect_uri,
+    nonce: form.nonce,
+    expiresAt: Date.now() + 60000,
+  });
+  console.log(`Issued code for ${form.email}`);
+  redirectBack(res, form.redirect_uri, { code, state: form.state });
+};
+
+/**
+ * Look up and consume a code, checking it against the verifier and redirect URI
+ * @returns The grant, or an error message
+ */
+const redeemCode = ({ code, codeVerifier, redirectUri }) => {
+  const grant = codes.get(code);
+  codes.delete(code);
+  if (!grant || grant.expiresAt < Date.now()) return { error: "Unknown or expired code" };
+  if (grant.redirectUri !== redirectUri) return { error: "redirect_uri doesn't match" };
+
+  const challenge = base64Url(crypto.createHash("sha256").update(codeVerifier || "").digest());
+  if (challenge !== grant.challenge) return { error: "code_verifier doesn't match the challenge" };
+  return { grant };
+};
+
+const createSession = (email) => {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    success: true,
+    token: createJwt({ id: `mock-${email}`, email, iat: now, exp: now + 3600 }),
+    refreshToken: crypto.randomBytes(24).toString("hex"),
+  };
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, issuerFor(req));
+  const issuer = issuerFor(req);
+
+  // Identity provider
+  if (url.pathname === "/.well-known/openid-configuration") {
+    sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      response_types_supported: ["code"],
+      code_challenge_methods_supported: ["S256"],
+      scopes_supported: ["openid", "email", "profile"],
+    });
+    return;
+  }
+  if (url.pathname === "/authorize") {
+    await handleAuthorize(req, res, url);
+    return;
+  }
+  if (url.pathname === "/token" && req.method === "POST") {
+    const form = await readBody(req);
+    const { grant, error } = redeemCode({
+      code: form.code,
+      codeVerifier: form.code_verifier,
+      redirectUri: form.redirect_uri,
+    });
+    if (error) return sendJson(res, 400, { error: "invalid_grant", error_description: error });
+
+    const now = Math.floor(Date.now() / 1000);
+    sendJson(res, 200, {
+      access_token: crypto.randomBytes(24).toString("hex"),
+      token_type: "Bearer",
+      expires_in: 3600,
+      id_token: createJwt({ iss: issuer, aud: clientId, sub: grant.email, email: grant.email, nonce: grant.nonce, iat: now, exp: now + 3600 }),
+    });
+    return;
+  }
+
+  // CRM server
+  if (url.pathname === "/api/auth/sso/providers") {
+    sendJson(res, 200, {
+      success: true,
+      data: [{ id: "mock", name: "Mock Provider", issuer, clientId }],
+    });
+    return;
+  }
+  if (url.pathname === "/api/auth/sso/token" && req.method === "POST") {
+    const body = await readBody(req);
+    const redeemed = redeemCode(body);
+    const error = redeemed.error || (redeemed.grant.nonce !== body.nonce ? "nonce doesn't match" : null);
+    const { grant } = redeemed;
+    if (error) {
+      console.log(`Rejected code: ${error}`);
+      return sendJson(res, 401, { success: false, message: error });
+    }
+    console.log(`Signed in ${grant.email}`);
+    sendJson(res, 200, createSession(grant.email));
+    return;
+  }
+  if (url.pathname === "/api/auth/refresh" && req.method === "POST") {
+    sendJson(res, 200, createSession("agent@example.com"));
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+server.listen(port, () => {
+  console.log(`Mock OIDC provider listening on http://localhost:${port} (client_id ${clientId})`);
+});
@@ -0,0 +1,143 @@
+/**
+ * Local Server-Sent Events server for testing real-time lead updates.
+ * Emits a random lead event every few seconds and replays missed events when the client sends Last-Event-ID.
+ *
+ * Usage: npm run mock:sse [-- --port 4001 --interval 5000 --lead <leadId>]
+ * Then start the app with EXPO_PUBLIC_SSE_URL=http://<your-ip>:4001/api/events/stream
+ */
+
+const http = require("http");
+const { setInterval } = require("timers");
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const port = Number(getArg("port", 4001));
+const interval = Number(getArg("interval", 5000));
+const leadId = getArg("lead", "mock-lead-1");
+
+const statuses = [
+  { _id: "status-new", Status: "New", color: "#3B82F6" },
+  { _id: "status-interested", Status: "Interested", color: "#10B981" },
+  { _id: "status-not-interested", Status: "Not Interested", color: "#EF4444" },
+];
+
+// Every event sent so far, so reconnecting clients can be caught up
+const history = [];
+const clients = new Set();
+let nextId = 1;
+let currentStatus = statuses[0];
+
+const buildEvent = () => {
+  const now = new Date().toISOString();
+  const tags = [{ Tag: "Mock Campaign" }];
+
+  switch (Math.floor(Math.random() * 4)) {
+    case 0: {
+      const id = `mock-lead-${Date.now()}`;
+      return {
+        type: "lead_assigned",
+        data: {
+          lead: {
+            _id: id,
+            Name: `Mock Lead ${nextId}`,
+            Phone: "9999999999",
+            LeadStatus: statuses[0],
+            tags,
+            createdAt: now,
+            updatedAt: now,
+          },
+        },
+      };
+    }
+    case 1: {
+      const previousStatus = currentStatus.Status;
+      currentStatus = statuses[Math.floor(Math.random() * statuses.length)];
+      return {
+        type: "lead_status_changed",
+        data: { leadId, LeadStatus: currentStatus, previousStatus, tags },
+      };
+    }
+    case 2:
+      return {
+        type: "comment_added",
+        data: {
+          leadId,
+          comment: {
+            _id: `mock-comment-${nextId}`,
+            Content: `Mock comment ${nextId}`,
+            User: { username: "mock-server" },
+            timestamp: now,
+          },
+        },
+      };
+    default:
+      return {
+        type: "reminder_created",
+        data: {
+          leadId,
+          reminder: {
+            _id: `mock-reminder-${nextId}`,
+            Comment: `Follow up ${nextId}`,
+            DateTime: new Date(Date.now() + 3600000).toISOString(),
+            status: "Pending",
+            timestamp: now,
+          },
+        },
+      };
+  }
+};
+
+const write = (res, event) => {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+};
+
+const server = http.createServer((req, res) => {
+  if (!req.url.startsWith("/api/events/stream")) {
+    res.writeHead(404);
+    res.end();
+    return;
+  }
+
+  if (!req.headers.authorization) {
+    res.writeHead(401);
+    res.end();
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const lastEventId = Number(req.headers["last-event-id"]) || 0;
+  const missed = history.filter((event) => event.id > lastEventId);
+  missed.forEach((event) => write(res, event));
+  console.log(`Client connected (Last-Event-ID: ${lastEventId}), replayed ${missed.length} events`);
+
+  clients.add(res);
+  req.on("close", () => {
+    clients.delete(res);
+    console.log("Client disconnected");
+  });
+});
+
+setInterval(() => {
+  const event = { id: nextId++, ...buildEvent() };
+  history.push(event);
+  clients.forEach((res) => write(res, event));
+  console.log(`Sent ${event.type} #${event.id} to ${clients.size} client(s)`);
+}, interval);
+
+// Comment lines keep proxies from closing idle connections
+setInterval(() => {
+  clients.forEach((res) => res.write(": ping\n\n"));
+}, 15000);
+
+server.listen(port, () => {
+  console.log(`Mock SSE server listening on http://localhost:${port}/api/events/stream`);
+});
@@ -1,443 +1,55 @@
-import * as SecureStore from "expo-secure-store";
-import { jwtDecode } from "jwt-decode";
-import Toast from "react-native-root-toast";
-export interface FilterOptions {
-  searchTerm: string;
-  searchBoxFilters: string[];
-  selectedAgents: string[];
-  selectedStatuses: string[];
-  selectedSources: string[];
-  selectedTags: string[];
-  dateRange: [Date | null, Date | null];
-  dateFor: string;
-  leadType?: "community" | "marketing";
-}
-
-export interface LeadRequestOptions {
-  includeNonAssigned?: boolean;
-  viewAllLeads?: boolean;
-}
-
-export interface PaginationParams {
-  page: number;
-  limit: number;
-}
-
-export interface LeadsResponse {
-  data: any[];
-  totalLeads: number;
-}
-
-export interface FilterOption {
-  value: string;
-  label: string;
-  color: string;
-  requiresReminder?: "yes" | "no" | "optional";
-}
-
-export interface TagsResponse {
-  options: FilterOption[];
-  hasMore: boolean;
-  totalCount: number;
-}
-
-/**
- * Create standardized authentication headers for API requests
- * Ensures consistent authentication across platforms matching the web application's format
- */
-export const createAuthHeaders = async () => {
-  const storedToken = await SecureStore.getItemAsync("userToken");
-  if (!storedToken) throw new Error("No authentication token available");
-
-  return {
-    accept: "application/json, text/plain, */*",
-    "content-type": "application/json",
-    Cookie: `token=${storedToken}`,
-    referer: `${process.env.EXPO_PUBLIC_BASE_URL}/Leads/Marketing`,
-    origin: `${process.env.EXPO_PUBLIC_BASE_URL}`,
-    "user-agent":
-      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) MilesClient-Mobile/1.0.0",
-    "x-requested-with": "XMLHttpRequest",
-  };
-};
-
-/**
- * Add a new reminder
- * @param reminderData - The reminder data to submit
- * @returns Promise<any> - API response
- */
-export const addReminder = async (reminderData: any) => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Reminder/add`;
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(reminderData),
-    });
-
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(
-        errorData.error || `Failed to add reminder: HTTP ${response.status}`
-      );
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
-  }
-};
-
-/**
- * Update an existing reminder
- * @param reminderId - The ID of the reminder to update
- * @param reminderData - The updated reminder data
- * @returns Promise<any> - API response
- */
-export const updateReminder = async (reminderId: string, reminderData: any) => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Reminder/update/${reminderId}`;
-
-    const response = await fetch(url, {
-      method: "PATCH",
-      headers,
-      body: JSON.stringify(reminderData),
-    });
-
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(
-        errorData.error || `Failed to update reminder: HTTP ${response.status}`
-      );
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
-  }
-};
-
-/**
- * Get reminders for a specific lead
- * @param leadId - The ID of the lead
- * @returns Promise<any[]> - Array of reminders
- */
-export const getLeadReminders = async (leadId: string) => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Reminder/get/${leadId}`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers,
-    });
-
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(
-        errorData.error || `Failed to fetch reminders: HTTP ${response.status}`
-      );
-    }
-
-    const result = await response.json();
-    return result.data || [];
-  } catch (error) {
-    throw error;
-  }
-};
-
-/**
- * Get all users/agents for assignee selection
- * @returns Promise<User[]> - Array of users
- */
-export const getUsers = async () => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/staff/get`;
-
-    console.log("👥 Fetching users from:", url);
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers,
-    });
-
-    if (!response.ok) {
-      const errorData = await response
-        .text() // Use text() first to see raw response
-        .then((text) => {
-          try {
-            return JSON.parse(text);
-          } catch {
-            return { error: text || `HTTP ${response.status}` };
-          }
-        });
-      throw new Error(
-        errorData.error || `Failed to fetch users: HTTP ${response.status}`
-      );
-    }
-
-    const result = await response.json();
-    return result.data || [];
-  } catch (error) {
-    throw error;
-  }
-};
-
-/**
- * Refresh the authentication token
- */
-const refreshAuthToken = async (): Promise<string | null> => {
-  try {
-    const refreshToken = await SecureStore.getItemAsync("refreshToken");
-    if (!refreshToken) {
-      return null;
-    }
-
-    const response = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/auth/refresh`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Cookie: `refreshToken=${refreshToken}`,
-        },
-      }
-    );
-
-    if (response.ok) {
-      const result = await response.json();
-      if (result.success && result.token) {
-        // Store new access token
-        await SecureStore.setItemAsync("userToken", result.token);
-
-        // Store new refresh token if provided
-        if (result.refreshToken) {
-          await SecureStore.setItemAsync("refreshToken", result.refreshToken);
-        }
-
-        return result.token;
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error(error);
-    return null;
-  }
-};
-
-/**
- * Validate token and attempt refresh if needed
- * @returns Promise<boolean> - true if token is valid or refreshed, false if authentication failed
- */
-export const validateAuthToken = async (): Promise<boolean> => {
-  try {
-    const storedToken = await SecureStore.getItemAsync("userToken");
-    if (!storedToken) {
-      return false;
-    }
-
-    // Check if current token is valid
-    const tokenPayload = jwtDecode(storedToken) as { exp?: number };
-    const currentTime = Math.floor(Date.now() / 1000);
-    const tokenExpiry = tokenPayload.exp;
-    const timeUntilExpiry = tokenExpiry ? tokenExpiry - currentTime : -1;
-
-    // If token expires within 5 minutes, try to refresh it
-    if (timeUntilExpiry < 300) {
-      const newToken = await refreshAuthToken();
-
-      if (newToken) {
-        return true; // Successfully refreshed
-      } else {
-        // Refresh failed, clear auth data
-        await clearAuthData();
-        Toast.show("Session expired. Please login again.", {
-          duration: Toast.durations.LONG,
-        });
-        return false;
-      }
-    }
-
-    // Token is still valid
-    if (tokenExpiry && currentTime < tokenExpiry) {
-      return true;
-    }
-
-    // Token is expired, try to refresh
-    const newToken = await refreshAuthToken();
-
-    if (newToken) {
-      return true; // Successfully refreshed
-    } else {
-      // Refresh failed, clear auth data
-      await clearAuthData();
-      Toast.show("Session expired. Please login again.", {
-        duration: Toast.durations.LONG,
-      });
-      return false;
-    }
-  } catch (tokenError) {
-    console.error(tokenError);
-    await clearAuthData();
-    Toast.show("Invalid session. Please login again.", {
-      duration: Toast.durations.LONG,
-    });
-    return false;
-  }
-};
-
-/**
- * Build request body for leads API call
- */
-export const buildLeadsRequestBody = (
-  user: any,
-  filters: FilterOptions,
-  searchText: string,
-  pagination: PaginationParams,
-  options: LeadRequestOptions = {}
-) => {
-  // Determine selected agents from filters
-  let selectedAgents = [];
-  let requestOptions = {};
-
-  if (filters?.selectedAgents && filters.selectedAgents.length > 0) {
-    selectedAgents = filters.selectedAgents;
-
-    // Remove non-assigned from selected agents if it exists
-    selectedAgents = filters.selectedAgents.filter(
-      (agent) => agent !== "non-assigned"
-    );
-  } else if (user.role === "superAdmin") {
-    // For superAdmin with no explicit selection, let backend decide scope
-    selectedAgents = [];
-    requestOptions = { viewAllLeads: true };
-  } else {
-    selectedAgents = [user.id];
-  }
-
-  return {
-    searchTerm: searchText.trim(),
-    selectedAgents: selectedAgents,
-    selectedStatuses: filters.selectedStatuses || [],
-    selectedSources: filters.selectedSources || [],
-    selectedTags: filters.selectedTags || [],
-    date:
-      filters.dateRange && (filters.dateRange[0] || filters.dateRange[1])
-        ? filters.dateRange
-            .filter((date) => date !== null)
-            .map((date) => date!.toISOString())
-        : [],
-    dateFor: filters.dateFor || "LeadIntroduction",
-    searchBoxFilters: filters.searchBoxFilters || ["LeadInfo"],
-    page: pagination.page + 1, // Convert 0-based to 1-based for API
-    limit: pagination.limit.toString(),
-    userid: user.id,
-    ...requestOptions,
-    ...options,
-  };
-};
-
-/**
- * Fetch leads with pagination and filtering
- */
-export const fetchLeads = async (
-  user: any,
-  filters: FilterOptions,
-  searchText: string,
-  pagination: PaginationParams,
-  options: LeadRequestOptions = {}
-): Promise<LeadsResponse> => {
-  if (!user || !user.id) {
-    throw new Error("User not available");
-  }
-
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-  const requestBody = buildLeadsRequestBody(
-    user,
-    filters,
-    searchText,
-    pagination,
-    options
-  );
-
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/get`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestBody),
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch leads: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    data: Array.isArray(data.data) ? data.data : [],
-    totalLeads: data.totalLeads || 0,
-  };
-};
+import {
+  ApiDataResponse,
+  FilterOption,
+  FilterOptions,
+  TagsResponse,
+} from "./api/types";
+import { api } from "./api/client";
+import { PeriodType, TasksResponse } from "../types/tasks";
+import type { DialerEndSource } from "./dialerSessions";
+
+export * from "./api/types";
+export { ApiError, api, apiRequest } from "./api/client";
+export type { ApiRequestOptions, HttpMethod } from "./api/client";
+export {
+  clearPersistedBuildConfig,
+  getAppEnvironment,
+  getBaseUrl,
+  getPersistedBuildConfig,
+  isBuildBaseUrl,
+  persistBuildConfig,
+  setBaseUrlResolver,
+} from "./api/config";
+export type { BuildConfig } from "./api/config";
+export {
+  createAuthHeaders,
+  validateAuthToken,
+  clearAuthData,
+} from "./api/auth";
+export { fetchLeads, buildLeadsRequestBody, getLeadMeetings } from "./api/leads";
+export { addReminder, updateReminder, getLeadReminders } from "./api/reminders";
+export { getUsers, fetchUserPermissions, updatePlayerId } from "./api/users";
+export {
+  getActiveSessions,
+  revokeSession,
+  logoutEverywhere,
+} from "./api/sessions";
+export type { UserSession } from "./api/sessions";
+export { getSsoProviders, exchangeSsoCode } from "./api/sso";
+export type { SsoProvider, SsoCodeExchange } from "./api/sso";
 
 /**
  * Fetch status options
  */
 export const fetchStatusOptions = async (): Promise<FilterOption[]> => {
   try {
-    const headers = await createAuthHeaders();
-    const response = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/Status/get`,
-      {
-        method: "GET",
-        headers,
-      }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      return data.data.map((status: any) => ({
-        value: status._id,
-        label: status.Status,
-        color: status.color || "#6B7280", // Default color if not provided
-        requiresReminder: status.requiresReminder,
-      }));
-    } else {
-      return [];
-    }
+    const data = await api.get<ApiDataResponse<any[]>>("/api/Status/get");
+    return data.data.map((status: any) => ({
+      value: status._id,
+      label: status.Status,
+      color: status.color || "#6B7280", // Default color if not provided
+      requiresReminder: status.requiresReminder,
+    }));
   } catch (error) {
     return [];
   }
@@ -448,25 +60,12 @@ export const fetchStatusOptions = async (): Promise<FilterOption[]> => {
  */
 export const fetchSourceOptions = async (): Promise<FilterOption[]> => {
   try {
-    const headers = await createAuthHeaders();
-    const response = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/Source/get`,
-      {
-        method: "GET",
-        headers,
-      }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      return data.data.map((source: any) => ({
-        value: source._id,
-        label: source.Source,
-        color: source.color || "#6B7280", // Default color if not provided
-      }));
-    } else {
-      return [];
-    }
+    const data = await api.get<ApiDataResponse<any[]>>("/api/Source/get");
+    return data.data.map((source: any) => ({
+      value: source._id,
+      label: source.Source,
+      color: source.color || "#6B7280", // Default color if not provided
+    }));
   } catch (error) {
     return [];
   }
@@ -481,37 +80,23 @@ export const fetchTagOptions = async (
   searchTerm = ""
 ): Promise<TagsResponse> => {
   try {
-    const headers = await createAuthHeaders();
-    const queryParams = new URLSearchParams({
-      page: page.toString(),
-      limit: limit.toString(),
-      ...(searchTerm && { search: searchTerm }),
+    const data = await api.get<
+      ApiDataResponse<any[]> & { totalTags?: number; total?: number }
+    >("/api/tags/get", {
+      query: { page, limit, search: searchTerm },
     });
 
-    const response = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/tags/get?${queryParams}`,
-      {
-        method: "GET",
-        headers,
-      }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      const tagOpts = data.data.map((tag: any) => ({
-        label: tag.Tag,
-        value: `${tag.Tag}::${tag._id}`, // Use actual tag ID
-        color: tag.color || "#6B7280", // Default color if not provided
-      }));
-
-      return {
-        options: tagOpts,
-        hasMore: tagOpts.length === limit,
-        totalCount: data.totalTags || data.total || tagOpts.length,
-      };
-    } else {
-      return { options: [], hasMore: false, totalCount: 0 };
-    }
+    const tagOpts = data.data.map((tag: any) => ({
+      label: tag.Tag,
+      value: `${tag.Tag}::${tag._id}`, // Use actual tag ID
+      color: tag.color || "#6B7280", // Default color if not provided
+    }));
+
+    return {
+      options: tagOpts,
+      hasMore: tagOpts.length === limit,
+      totalCount: data.totalTags || data.total || tagOpts.length,
+    };
   } catch (error) {
     return { options: [], hasMore: false, totalCount: 0 };
   }
@@ -559,26 +144,10 @@ export const updateLead = async (
     throw new Error("Lead ID is required");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/update/${leadId}`,
-    {
-      method: "PATCH",
-      headers,
-      body: JSON.stringify(updates),
-    }
+  const data = await api.patch<ApiDataResponse<any>>(
+    `/api/Lead/update/${leadId}`,
+    updates
   );
-
-  if (!response.ok) {
-    throw new Error(`Failed to update lead: ${response.status}`);
-  }
-
-  const data = await response.json();
   return data.data;
 };
 
@@ -589,23 +158,10 @@ export const fetchAgents = async (user: any): Promise<any[]> => {
   if (!user || !user.id) return [];
 
   try {
-    const headers = await createAuthHeaders();
-    const response = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/staff/get?preserveHierarchy=true`,
-      {
-        method: "GET",
-        headers,
-      }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      const treeData = transformAgentsDataToTreeSelect(data.data);
-
-      return treeData;
-    } else {
-      return [];
-    }
+    const data = await api.get<ApiDataResponse<any[]>>("/api/staff/get", {
+      query: { preserveHierarchy: true },
+    });
+    return transformAgentsDataToTreeSelect(data.data);
   } catch (error) {
     return [];
   }
@@ -614,30 +170,15 @@ export const fetchAgents = async (user: any): Promise<any[]> => {
 /**
  * Fetch full lead details by ID including all related data
  */
-export const fetchLeadById = async (leadId: string): Promise<any> => {
+export const fetchLeadById = async (
+  leadId: string,
+  signal?: AbortSignal
+): Promise<any> => {
   if (!leadId) {
     throw new Error("Lead ID is required");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/${leadId}`,
-    {
-      method: "GET",
-      headers,
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch lead: ${response.status}`);
-  }
-
-  const data = await response.json();
+  const data = await api.get(`/api/Lead/${leadId}`, { signal });
   return data.data || data;
 };
 
@@ -649,67 +190,32 @@ export const fetchLeadComments = async (leadId: string): Promise<any[]> => {
     throw new Error("Lead ID is required");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/comment/get/${leadId}`,
-    {
-      method: "GET",
-      headers,
-    }
+  const data = await api.get<ApiDataResponse<any[]>>(
+    `/api/comment/get/${leadId}`
   );
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch comments: ${response.status}`);
-  }
-
-  const data = await response.json();
   return data.data || [];
 };
 
 /**
  * Search developers using our internal API
  */
-export const searchDevelopers = async (query: string = ""): Promise<any[]> => {
+export const searchDevelopers = async (
+  query: string = "",
+  signal?: AbortSignal
+): Promise<any[]> => {
   try {
-    if (!(await validateAuthToken())) {
-      throw new Error("Authentication failed");
-    }
-
-    const headers = await createAuthHeaders();
-    const params = new URLSearchParams({
-      limit: '20', // Match the previous limit of 20 results
+    const data = await api.get<ApiDataResponse<any[]>>("/api/developers", {
+      // Match the previous limit of 20 results
+      query: { limit: 20, search: query.trim() },
+      signal,
     });
-    
-    if (query.trim()) {
-      params.append('search', query.trim());
-    }
-
-    const response = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/developers?${params.toString()}`,
-      {
-        method: "GET",
-        headers,
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Developer search failed: ${response.status}`);
-    }
-
-    const data = await response.json();
 
     // Transform the results to match the expected format
-    const developerOptions = (data.data || [])
-      .map((developer: any) => ({
-        value: developer.Developer || developer.name,
-        label: developer.Developer || developer.name,
-        adsCount: developer.properties_sale_count || 0,
-      }));
+    const developerOptions = (data.data || []).map((developer: any) => ({
+      value: developer.Developer || developer.name,
+      label: developer.Developer || developer.name,
+      adsCount: developer.properties_sale_count || 0,
+    }));
 
     return developerOptions;
   } catch (error) {
@@ -732,12 +238,6 @@ export const exportLeads = async (
   user?: any,
   leadType: string = "cold"
 ): Promise<Blob> => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
   const requestData: any = {};
 
   // If specific leads are selected, only export those
@@ -787,20 +287,9 @@ export const exportLeads = async (
     if (user?.id) requestData.userid = user.id;
   }
 
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/export/${leadType}`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestData),
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to export leads: ${response.status}`);
-  }
-
-  const blob = await response.blob();
+  const blob = await api.post<Blob>(`/api/Lead/export/${leadType}`, requestData, {
+    responseType: "blob",
+  });
 
   if (!blob || blob.size === 0) {
     throw new Error("No data to export");
@@ -819,27 +308,7 @@ export const deleteLeads = async (leadIds: string[]): Promise<any> => {
     throw new Error("Lead IDs are required");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/delete`,
-    {
-      method: "DELETE",
-      headers,
-      body: JSON.stringify({ leadIds }),
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to delete leads: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data;
+  return api.delete("/api/Lead/delete", { leadIds });
 };
 
 /**
@@ -852,32 +321,7 @@ export const bulkUpdateLeads = async (bulkData: any): Promise<any> => {
     throw new Error("Lead IDs are required for bulk update");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/bulk`,
-    {
-      method: "PUT",
-      headers,
-      body: JSON.stringify(bulkData),
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to bulk update leads: ${response.status}`);
-  }
-
-  const data = await response.json();
-
-  if (data.skippedLeads && data.skippedLeads.length > 0) {
-  } else {
-  }
-
-  return data;
+  return api.put("/api/Lead/bulk", bulkData);
 };
 
 /**
@@ -891,30 +335,10 @@ export const addLeadComment = async (
     throw new Error("Lead ID and comment content are required");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/comment/add`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        leadData: { _id: leadId },
-        content: content.trim(),
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to add comment: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data;
+  return api.post("/api/comment/add", {
+    leadData: { _id: leadId },
+    content: content.trim(),
+  });
 };
 
 /**
@@ -925,26 +349,60 @@ export const deleteLeadComment = async (commentId: string): Promise<any> => {
     throw new Error("Comment ID is required");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
+  return api.delete(`/api/comment/delete/${commentId}`);
+};
 
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/comment/delete/${commentId}`,
-    {
-      method: "DELETE",
-      headers,
-    }
-  );
+/**
+ * Upload a voice memo recorded after a call as a lead attachment
+ * @param memoData - Local recording and its details
+ * @returns Promise<any> - API response
+ */
+export const uploadVoiceMemo = async (memoData: {
+  leadId: string;
+  uri: string;
+  mimeType: string;
+  durationSeconds: number;
+  transcript?: string;
+  recordedAt: string;
+}) => {
+  if (!memoData.leadId || !memoData.uri) {
+    throw new Error("Lead ID and recording are required");
+  }
+
+  const fileName = memoData.uri.split("/").pop() || "voice-memo";
+  const formData = new FormData();
+  // React Native reads the file from the uri when the request is sent
+  formData.append("file", {
+    uri: memoData.uri,
+    name: fileName,
+    type: memoData.mimeType,
+  } as any);
+  formData.append("kind", "voiceMemo");
+  formData.append("durationSeconds", String(memoData.durationSeconds));
+  formData.append("recordedAt", memoData.recordedAt);
+  if (memoData.transcript) formData.append("transcript", memoData.transcript);
+
+  return api.post(`/api/Lead/${memoData.leadId}/attachments`, formData, {
+    timeout: 60000,
+  });
+};
 
-  if (!response.ok) {
-    throw new Error(`Failed to delete comment: ${response.status}`);
+/**
+ * Fetch voice memos attached to a lead
+ */
+export const fetchLeadVoiceMemos = async (
+  leadId: string,
+  signal?: AbortSignal
+): Promise<any[]> => {
+  if (!leadId) {
+    throw new Error("Lead ID is required");
   }
 
-  const data = await response.json();
-  return data;
+  const data = await api.get<ApiDataResponse<any[]>>(
+    `/api/Lead/${leadId}/attachments`,
+    { query: { kind: "voiceMemo" }, signal }
+  );
+  return data.data || [];
 };
 
 /**
@@ -953,34 +411,7 @@ export const deleteLeadComment = async (commentId: string): Promise<any> => {
  * @returns Promise<any> - API response
  */
 export const addMeeting = async (meetingData: any) => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Meeting/add`;
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(meetingData),
-    });
-
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(
-        errorData.error || `Failed to add meeting: HTTP ${response.status}`
-      );
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
-  }
+  return api.post("/api/Meeting/add", meetingData);
 };
 
 /**
@@ -990,34 +421,7 @@ export const addMeeting = async (meetingData: any) => {
  * @returns Promise<any> - API response
  */
 export const updateMeeting = async (meetingId: string, meetingData: any) => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Meeting/update/${meetingId}`;
-
-    const response = await fetch(url, {
-      method: "PATCH",
-      headers,
-      body: JSON.stringify(meetingData),
-    });
-
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(
-        errorData.error || `Failed to update meeting: HTTP ${response.status}`
-      );
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
-  }
+  return api.patch(`/api/Meeting/update/${meetingId}`, meetingData);
 };
 
 /**
@@ -1030,7 +434,8 @@ export const updateMeeting = async (meetingId: string, meetingData: any) => {
 export const fetchStatusCounts = async (
   user: any,
   filters: FilterOptions,
-  searchTerm: string
+  searchTerm: string,
+  signal?: AbortSignal
 ): Promise<{
   [statusId: string]: { count: number; filteredCount: number };
 }> => {
@@ -1038,12 +443,6 @@ export const fetchStatusCounts = async (
     throw new Error("User not available");
   }
 
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
-
   // Build payload similar to the web app
   const payload = {
     searchTerm: searchTerm.trim(),
@@ -1066,104 +465,104 @@ export const fetchStatusCounts = async (
     userid: user.id,
   };
 
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/statusCountsForUser`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify(payload),
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch status counts: ${response.status}`);
-  }
-
-  const data = await response.json();
+  const data = await api.post("/api/Lead/statusCountsForUser", payload, {
+    signal,
+  });
   return data.statusCounts || {};
 };
 
-/**
- * Get meetings for a specific lead
- * @param leadId - The ID of the lead
- * @returns Promise<any[]> - Array of meetings
- */
-export const getLeadMeetings = async (leadId: string) => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Meeting/get/${leadId}`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch meetings: HTTP ${response.status}`);
-    }
-
-    const responseText = await response.text();
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      throw new Error("Invalid JSON response from server");
-    }
-
-    const meetings = result.data || [];
-    return meetings;
-  } catch (error) {
-    throw error;
-  }
-};
-
-
 /**
  * Log a dialer time tracking session
  * @param sessionData - Dialer session data including leadId, phoneNumber, duration, etc.
  * @returns Promise<any> - API response
  */
 export const logDialerSession = async (sessionData: {
+  // Client-side session id, dispositions refer to it
+  sessionId?: string;
   leadId: string;
   phoneNumber: string;
   startedAt: string;
   endedAt: string;
   durationSeconds: number;
   transferredToDialer: boolean;
+  // false when the call never connected, omitted when the call state is unknown
+  answered?: boolean;
+  // returnTime durations are the time away from the app, not measured talk time
+  endSource?: DialerEndSource;
   platform: string;
 }): Promise<any> => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
+  return api.post("/api/dialer-session/log", sessionData);
+};
 
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/dialer-session/log`;
+/**
+ * Log the outcome the agent recorded after a call
+ * @param dispositionData - Disposition with the dialer session it belongs to
+ * @returns Promise<any> - API response
+ */
+export const logCallDisposition = async (dispositionData: {
+  sessionId: string;
+  leadId: string;
+  // Campaign tags of the lead
+  campaigns: string[];
+  status: string;
+  previousStatus?: string;
+  statusChanged: boolean;
+  commentAdded: boolean;
+  reminderAdded: boolean;
+  meetingAdded: boolean;
+  answered?: boolean;
+  disposedAt: string;
+  platform: string;
+}): Promise<any> => {
+  return api.post("/api/dialer-session/disposition", dispositionData);
+};
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(sessionData),
-    });
+/**
+ * Log a call placed despite a do-not-call, calling hours or attempt limit check
+ * @param overrideData - Failed checks and the agent's reason for calling anyway
+ * @returns Promise<any> - API response
+ */
+export const logCallOverride = async (overrideData: {
+  leadId?: string;
+  phoneNumber: string;
+  level: "warn" | "block";
+  checks: string[];
+  reason: string;
+  overriddenAt: string;
+  platform: string;
+}): Promise<any> => {
+  return api.post("/api/dialer-session/override", overrideData);
+};
 
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(
-        errorData.error || `Failed to log dialer session: HTTP ${response.status}`
-      );
-    }
+/**
+ * Get the call dispositions recorded for a campaign
+ * @param campaignName - Campaign tag
+ * @returns Promise<any> - API response with the dispositions of every agent
+ */
+export const fetchCampaignDispositions = async (
+  campaignName: string,
+  signal?: AbortSignal
+): Promise<any> => {
+  return api.get("/api/dialer-session/dispositions", {
+    query: { campaign: campaignName },
+    signal,
+  });
+};
 
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
+/**
+ * Fetch the dialer sessions logged for a lead, newest first, each with the disposition recorded after it
+ * @param leadId - The ID of the lead
+ * @returns Promise<any> - API response
+ */
+export const fetchLeadDialerSessions = async (
+  leadId: string,
+  signal?: AbortSignal
+): Promise<any> => {
+  if (!leadId) {
+    throw new Error("Lead ID is required");
   }
+
+  return api.get(`/api/dialer-session/lead/${leadId}`, { signal });
 };
 
 /**
@@ -1173,55 +572,30 @@ export const logDialerSession = async (sessionData: {
  * @param endDate - End date in YYYY-MM-DD format
  * @returns Promise<any> - API response with call statistics
  */
-export const getDialerSessionStats = async (userId: string | null, startDate: string, endDate: string): Promise<any> => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    
-    // Build query parameters
-    const params = new URLSearchParams({
-      startDate,
-      endDate,
-    });
-    
-    if (userId) {
-      params.append('userId', userId);
-    }
-    
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/dialer-session/stats?${params.toString()}`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers,
-    });
-
-    if (!response.ok) {
-      const errorData = await response
-        .json()
-        .catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(
-        errorData.error || `Failed to get dialer session stats: HTTP ${response.status}`
-      );
-    }
-
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
-  }
+export const getDialerSessionStats = async (
+  userId: string | null,
+  startDate: string,
+  endDate: string,
+  signal?: AbortSignal
+): Promise<any> => {
+  return api.get("/api/dialer-session/stats", {
+    query: { startDate, endDate, userId },
+    signal,
+  });
 };
 
 /**
- * Clear authentication data from secure storage
+ * Fetch the meetings and reminders assigned to a user for a period
+ * @param userId - User ID
+ * @param period - "today" or "week"
  */
-export const clearAuthData = async (): Promise<void> => {
-  try {
-    await SecureStore.deleteItemAsync("userToken");
-    await SecureStore.deleteItemAsync("refreshToken");
-  } catch (error) {
-    console.error("Error clearing auth data:", error);
-  }
+export const fetchTasks = async (
+  userId: string,
+  period: PeriodType,
+  signal?: AbortSignal
+): Promise<TasksResponse> => {
+  return api.get<TasksResponse>("/api/tasks", {
+    query: { period, userId },
+    signal,
+  });
 };
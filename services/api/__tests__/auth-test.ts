@@ -0,0 +1,143 @@
+import * as SecureStore from "expo-secure-store";
+import { refreshAuthToken, validateAuthToken } from "../auth";
+import { ApiError } from "../errors";
+import {
+  SessionExpiredReason,
+  onSessionExpired,
+  resetSessionExpired,
+} from "../session";
+
+jest.mock("expo-secure-store", () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+jest.mock("../config", () => ({
+  getBaseUrl: () => "https://crm.test",
+}));
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// A token that expires this many seconds from now
+const tokenExpiringIn = (seconds: number) =>
+  `${encode({ alg: "HS256", typ: "JWT" })}.${encode({
+    exp: Math.floor(Date.now() / 1000) + seconds,
+  })}.signature`;
+
+const respond = (status: number, body: unknown) =>
+  Promise.resolve(
+    new Response(typeof body === "string" ? body : JSON.stringify(body), {
+      status,
+    })
+  );
+
+const fetchMock = jest.fn();
+let expired: SessionExpiredReason[] = [];
+let unsubscribe: () => void;
+
+beforeEach(async () => {
+  global.fetch = fetchMock;
+  fetchMock.mockReset();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+
+  resetSessionExpired();
+  expired = [];
+  unsubscribe = onSessionExpired((reason) => expired.push(reason));
+
+  await SecureStore.setItemAsync("userToken", tokenExpiringIn(-60));
+  await SecureStore.setItemAsync("refreshToken", "refresh-1");
+});
+
+afterEach(() => {
+  unsubscribe();
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe("refresh that can't reach the server", () => {
+  it("keeps the session and rejects with a network error", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Network request failed"));
+
+    const error = await validateAuthToken().catch((caught) => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.isNetworkError).toBe(true);
+
+    expect(expired).toEqual([]);
+    expect(await SecureStore.getItemAsync("refreshToken")).toBe("refresh-1");
+  });
+
+  it("keeps using a token that hasn't expired yet", async () => {
+    await SecureStore.setItemAsync("userToken", tokenExpiringIn(120));
+    fetchMock.mockRejectedValue(new TypeError("Network request failed"));
+
+    await expect(validateAuthToken()).resolves.toBe(true);
+    expect(expired).toEqual([]);
+  });
+
+  it("times out a request that never answers", async () => {
+    jest.useFakeTimers();
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("Aborted", "AbortError"))
+          );
+        })
+    );
+
+    const refresh = expect(refreshAuthToken()).rejects.toMatchObject({
+      status: 0,
+    });
+    await jest.advanceTimersByTimeAsync(15000);
+
+    await refresh;
+    expect(expired).toEqual([]);
+  });
+
+  it("keeps the session when the server fails", async () => {
+    fetchMock.mockReturnValue(respond(503, "Service Unavailable"));
+
+    await expect(validateAuthToken()).rejects.toMatchObject({ status: 503 });
+    expect(expired).toEqual([]);
+    expect(await SecureStore.getItemAsync("refreshToken")).toBe("refresh-1");
+  });
+});
+
+describe("refresh the server rejects", () => {
+  it("expires the session on an auth error", async () => {
+    fetchMock.mockReturnValue(respond(401, { error: "Invalid token" }));
+
+    await expect(validateAuthToken()).resolves.toBe(false);
+    expect(expired).toEqual(["refresh_failed"]);
+    expect(await SecureStore.getItemAsync("refreshToken")).toBeNull();
+  });
+
+  it("expires the session when the body isn't a success", async () => {
+    fetchMock.mockReturnValue(respond(200, { success: false }));
+
+    await expect(validateAuthToken()).resolves.toBe(false);
+    expect(expired).toEqual(["refresh_failed"]);
+  });
+});
+
+it("stores the rotated tokens after a refresh", async () => {
+  const token = tokenExpiringIn(3600);
+  fetchMock.mockReturnValue(
+    respond(200, { success: true, token, refreshToken: "refresh-2" })
+  );
+
+  await expect(validateAuthToken()).resolves.toBe(true);
+  expect(await SecureStore.getItemAsync("userToken")).toBe(token);
+  expect(await SecureStore.getItemAsync("refreshToken")).toBe("refresh-2");
+  expect(expired).toEqual([]);
+});
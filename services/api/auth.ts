@@ -1,6 +1,19 @@
 import * as SecureStore from "expo-secure-store";
 import { jwtDecode } from "jwt-decode";
 import Toast from "react-native-root-toast";
+import { getBaseUrl } from "./config";
+import { ApiError } from "./errors";
+import {
+  SessionExpiredReason,
+  emitSessionExpired,
+  emitTokenRefreshed,
+} from "./session";
+
+const REFRESH_ENDPOINT = "/api/auth/refresh";
+const REFRESH_TIMEOUT_MS = 15000;
+
+// Refresh currently in flight, shared by every caller that needs a new token
+let refreshInFlight: Promise<string | null> | null = null;
 
 /**
  * Create standardized authentication headers for API requests
@@ -28,52 +41,107 @@ export const createAuthHeaders = async () => {
 };
 
 /**
- * Refresh the authentication token
+ * Call the refresh endpoint and store the rotated tokens
+ * @param refreshTokenOverride - Refresh token to use instead of the stored one
+ * @returns The new access token, or null if the server rejected the refresh token
+ * @throws ApiError when the server can't be reached or fails, the refresh token may still be good
  */
-const refreshAuthToken = async (): Promise<string | null> => {
+const requestTokenRefresh = async (
+  refreshTokenOverride?: string
+): Promise<string | null> => {
+  const refreshToken =
+    refreshTokenOverride ?? (await SecureStore.getItemAsync("refreshToken"));
+  if (!refreshToken) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REFRESH_TIMEOUT_MS);
+
+  let response: Response;
+  let result: any;
   try {
-    const refreshToken = await SecureStore.getItemAsync("refreshToken");
-    if (!refreshToken) {
+    response = await fetch(`${getBaseUrl()}/api/auth/refresh`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: `refreshToken=${refreshToken}`,
+      },
+      signal: controller.signal,
+    });
+    result = response.ok ? await response.json() : null;
+  } catch (error: any) {
+    console.warn("Refresh token request failed:", error);
+    throw new ApiError({
+      status: 0,
+      endpoint: REFRESH_ENDPOINT,
+      method: "POST",
+      message: controller.signal.aborted
+        ? `Request timeout after ${REFRESH_TIMEOUT_MS / 1000}s`
+        : error?.message || "Network request failed",
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    console.error("Refresh token API error:", response.status, errorText);
+
+    // Only an auth failure means the refresh token is no good
+    if (response.status === 401 || response.status === 403) {
       return null;
     }
+    throw new ApiError({
+      status: response.status,
+      endpoint: REFRESH_ENDPOINT,
+      method: "POST",
+      serverMessage: errorText || undefined,
+    });
+  }
 
-    const response = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/auth/refresh`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Cookie: `refreshToken=${refreshToken}`,
-        },
-      }
-    );
-
-    if (response.ok) {
-      const result = await response.json();
+  if (!result?.success || !result.token) {
+    console.error("Refresh token rejected:", result);
+    return null;
+  }
 
-      if (result.success && result.token) {
-        // Store new access token
-        await SecureStore.setItemAsync("userToken", result.token);
+  // Store new access token
+  await SecureStore.setItemAsync("userToken", result.token);
 
-        // Store new refresh token if provided
-        if (result.refreshToken) {
-          await SecureStore.setItemAsync("refreshToken", result.refreshToken);
-        }
+  // Store new refresh token if provided, or keep the one that was used
+  await SecureStore.setItemAsync(
+    "refreshToken",
+    result.refreshToken || refreshToken
+  );
 
-        return result.token;
-      }
-    } else {
-      const errorText = await response.text();
-      console.error("Refresh token API error:", response.status, errorText);
-    }
+  emitTokenRefreshed();
+  return result.token;
+};
 
-    return null;
-  } catch (error) {
-    console.error("Refresh token error:", error);
-    return null;
+/**
+ * Refresh the authentication token
+ * Concurrent callers share a single request so the refresh token is only rotated once
+ * @returns Promise<string | null> - the new access token, or null if the server rejected the refresh
+ * @throws ApiError when the server can't be reached
+ */
+export const refreshAuthToken = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = requestTokenRefresh().finally(() => {
+      refreshInFlight = null;
+    });
   }
+  return refreshInFlight;
 };
 
+/**
+ * Start a new session from a refresh token kept outside the auth keys, e.g. one released by biometrics
+ * @returns Promise<string | null> - the new access token, or null if the refresh token was rejected
+ * @throws ApiError when the server can't be reached
+ */
+export const refreshAuthTokenWith = (
+  refreshToken: string
+): Promise<string | null> => requestTokenRefresh(refreshToken);
+
 /**
  * Clear all authentication data and force logout
  */
@@ -83,6 +151,16 @@ export const clearAuthData = async (): Promise<void> => {
   await SecureStore.deleteItemAsync("user_permissions");
 };
 
+/**
+ * Drop the local session and notify listeners that the user has to login again
+ */
+export const expireSession = async (
+  reason: SessionExpiredReason
+): Promise<void> => {
+  await clearAuthData();
+  emitSessionExpired(reason);
+};
+
 /**
  * Perform server logout and clear all local authentication data
  * @returns Promise<boolean> - true if logout was successful
@@ -94,7 +172,7 @@ export const logout = async (): Promise<boolean> => {
     if (storedToken) {
       try {
         const response = await fetch(
-          `${process.env.EXPO_PUBLIC_BASE_URL}/api/auth/logout`,
+          `${getBaseUrl()}/api/auth/logout`,
           {
             method: "POST",
             headers: {
@@ -140,68 +218,51 @@ export const logout = async (): Promise<boolean> => {
 
 /**
  * Validate token and attempt refresh if needed
+ * The session is only expired when the token is unreadable or the server rejected the refresh
  * @returns Promise<boolean> - true if token is valid or refreshed, false if authentication failed
+ * @throws ApiError when an expired token can't be refreshed because the server can't be reached
  */
 export const validateAuthToken = async (): Promise<boolean> => {
+  const storedToken = await SecureStore.getItemAsync("userToken");
+  if (!storedToken) {
+    return false;
+  }
+
+  // Check if current token is valid
+  let tokenPayload: { exp?: number };
   try {
-    const storedToken = await SecureStore.getItemAsync("userToken");
-    if (!storedToken) {
-      return false;
-    }
+    tokenPayload = jwtDecode(storedToken) as { exp?: number };
+  } catch (decodeError) {
+    console.log("JWT decode failed, clearing token:", decodeError);
+    await expireSession("invalid_token");
+    return false;
+  }
 
-    // Check if current token is valid
-    let tokenPayload: { exp?: number };
-    try {
-      tokenPayload = jwtDecode(storedToken) as { exp?: number };
-    } catch (decodeError) {
-      console.log("JWT decode failed, clearing token:", decodeError);
-      await clearAuthData();
-      return false;
-    }
+  const currentTime = Math.floor(Date.now() / 1000);
+  const timeUntilExpiry = tokenPayload.exp
+    ? tokenPayload.exp - currentTime
+    : -1;
 
-    const currentTime = Math.floor(Date.now() / 1000);
-    const tokenExpiry = tokenPayload.exp;
-    const timeUntilExpiry = tokenExpiry ? tokenExpiry - currentTime : -1;
-
-    // If token expires within 5 minutes, try to refresh it
-    if (timeUntilExpiry < 300) {
-      const newToken = await refreshAuthToken();
-
-      if (newToken) {
-        return true; // Successfully refreshed
-      } else {
-        // Refresh failed, clear auth data
-        await clearAuthData();
-        Toast.show("Session expired. Please login again.", {
-          duration: Toast.durations.LONG,
-        });
-        return false;
-      }
-    }
+  // Token is still valid for more than 5 minutes
+  if (timeUntilExpiry >= 300) {
+    return true;
+  }
 
-    // Token is still valid
-    if (tokenExpiry && currentTime < tokenExpiry) {
+  // Expired or about to expire, refresh it
+  let newToken: string | null;
+  try {
+    newToken = await refreshAuthToken();
+  } catch (error) {
+    // Offline, keep using the current token until it actually expires
+    if (timeUntilExpiry > 0) {
       return true;
     }
-
-    const newToken = await refreshAuthToken();
-
-    if (newToken) {
-      return true; // Successfully refreshed
-    } else {
-      // Refresh failed, clear auth data
-      await clearAuthData();
-      Toast.show("Session expired. Please login again.", {
-        duration: Toast.durations.LONG,
-      });
-      return false;
-    }
-  } catch (tokenError) {
-    console.error(tokenError);
-    await clearAuthData();
-    Toast.show("Invalid session. Please login again.", {
-      duration: Toast.durations.LONG,
-    });
-    return false;
+    throw error;
   }
+  if (newToken) {
+    return true;
+  }
+
+  await expireSession("refresh_failed");
+  return false;
 };
@@ -0,0 +1,254 @@
+import * as SecureStore from "expo-secure-store";
+import {
+  createAuthHeaders,
+  expireSession,
+  refreshAuthToken,
+  validateAuthToken,
+} from "./auth";
+import { getBaseUrl } from "./config";
+import { ApiError } from "./errors";
+
+export { ApiError };
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type QueryParams = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
+export interface ApiRequestOptions<TBody = unknown> {
+  method?: HttpMethod;
+  body?: TBody;
+  query?: QueryParams;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  // Set to false for endpoints that don't need a token (login, health check)
+  auth?: boolean;
+  // Abort the request after this many milliseconds
+  timeout?: number;
+  responseType?: "json" | "text" | "blob";
+  // Override the configured base URL for this request only
+  baseUrl?: string;
+}
+
+const buildUrl = (baseUrl: string, endpoint: string, query?: QueryParams) => {
+  const url = `${baseUrl}${endpoint.startsWith("/") ? "" : "/"}${endpoint}`;
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.append(key, String(value));
+    }
+  });
+
+  const queryString = params.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+/**
+ * Read the server's error message from a failed response
+ * Servers answer with { error }, { message } or plain text depending on the endpoint
+ */
+const readServerMessage = async (
+  response: Response
+): Promise<string | undefined> => {
+  const text = await response.text().catch(() => "");
+  if (!text) return undefined;
+
+  try {
+    const data = JSON.parse(text);
+    return data?.error || data?.message || undefined;
+  } catch {
+    return text.slice(0, 500);
+  }
+};
+
+const parseResponse = async (
+  response: Response,
+  responseType: "json" | "text" | "blob"
+) => {
+  if (responseType === "blob") return response.blob();
+
+  const text = await response.text();
+  if (responseType === "text") return text;
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("Invalid JSON response from server");
+  }
+};
+
+/**
+ * Send a request to the CRM API
+ * Validates the token, attaches auth headers, retries once after a token refresh on 401
+ * and throws ApiError for any non-2xx response
+ * @param endpoint - Path relative to the base URL, e.g. "/api/Lead/get"
+ * @param options - Method, body, query, abort signal and other request options
+ * @returns Promise<TResponse> - Parsed response body
+ */
+export const apiRequest = async <TResponse = any, TBody = unknown>(
+  endpoint: string,
+  options: ApiRequestOptions<TBody> = {}
+): Promise<TResponse> => {
+  const {
+    method = "GET",
+    body,
+    query,
+    headers: extraHeaders,
+    signal,
+    auth = true,
+    timeout,
+    responseType = "json",
+    baseUrl = getBaseUrl(),
+  } = options;
+
+  if (auth && !(await validateAuthToken())) {
+    throw new ApiError({
+      status: 401,
+      endpoint,
+      method,
+      message: "Authentication failed. Please login again.",
+    });
+  }
+
+  const url = buildUrl(baseUrl, endpoint, query);
+  const isFormData = body instanceof FormData;
+
+  const send = async (): Promise<Response> => {
+    const headers: Record<string, string> = {
+      ...(auth
+        ? await createAuthHeaders()
+        : {
+            Accept: "application/json, text/plain, */*",
+            "Content-Type": "application/json",
+          }),
+      ...extraHeaders,
+    };
+    // fetch sets the multipart boundary itself
+    if (isFormData) delete headers["Content-Type"];
+
+    // Combine the caller's signal with our own timeout
+    const controller = new AbortController();
+    const abortFromCaller = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", abortFromCaller);
+
+    let timedOut = false;
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : null;
+
+    try {
+      return await fetch(url, {
+        method,
+        headers,
+        body:
+          body === undefined
+            ? undefined
+            : isFormData
+              ? (body as FormData)
+              : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      if (timedOut) {
+        throw new ApiError({
+          status: 0,
+          endpoint,
+          method,
+          message: `Request timeout after ${Math.round(timeout! / 1000)}s`,
+        });
+      }
+      if (error?.name === "AbortError") throw error;
+
+      throw new ApiError({
+        status: 0,
+        endpoint,
+        method,
+        message: error?.message || "Network request failed",
+      });
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", abortFromCaller);
+    }
+  };
+
+  const sentWithToken = auth
+    ? await SecureStore.getItemAsync("userToken")
+    : null;
+  let response = await send();
+
+  // Token may have been revoked or rotated server-side, refresh once and retry
+  if (response.status === 401 && auth) {
+    // Another request may already have refreshed while this one was in flight
+    // A refresh that can't reach the server throws and leaves the session alone
+    const currentToken = await SecureStore.getItemAsync("userToken");
+    const canRetry =
+      (currentToken && currentToken !== sentWithToken) ||
+      (await refreshAuthToken());
+
+    if (canRetry) {
+      response = await send();
+    } else {
+      await expireSession("refresh_failed");
+    }
+  }
+
+  if (!response.ok) {
+    throw new ApiError({
+      status: response.status,
+      endpoint,
+      method,
+      serverMessage: await readServerMessage(response),
+    });
+  }
+
+  return parseResponse(response, responseType) as Promise<TResponse>;
+};
+
+type MethodOptions = Omit<ApiRequestOptions, "method" | "body">;
+
+/**
+ * Shorthand helpers around apiRequest
+ */
+export const api = {
+  get: <TResponse = any>(endpoint: string, options?: MethodOptions) =>
+    apiRequest<TResponse>(endpoint, { ...options, method: "GET" }),
+
+  post: <TResponse = any, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options?: MethodOptions
+  ) => apiRequest<TResponse, TBody>(endpoint, { ...options, method: "POST", body }),
+
+  put: <TResponse = any, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options?: MethodOptions
+  ) => apiRequest<TResponse, TBody>(endpoint, { ...options, method: "PUT", body }),
+
+  patch: <TResponse = any, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options?: MethodOptions
+  ) =>
+    apiRequest<TResponse, TBody>(endpoint, { ...options, method: "PATCH", body }),
+
+  delete: <TResponse = any, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options?: MethodOptions
+  ) =>
+    apiRequest<TResponse, TBody>(endpoint, {
+      ...options,
+      method: "DELETE",
+      body,
+    }),
+};
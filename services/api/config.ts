@@ -0,0 +1,81 @@
+// API base URL configuration
+import * as SecureStore from "expo-secure-store";
+
+const BUILD_CONFIG_STORAGE_KEY = "buildConfig";
+
+type BaseUrlResolver = () => string;
+
+export interface BuildConfig {
+  baseUrl: string;
+  // Build profile the app was built with, e.g. "development", "preview" or "production"
+  environment: string;
+}
+
+const trimTrailingSlashes = (url: string) => url.replace(/\/+$/, "");
+
+let resolveBaseUrl: BaseUrlResolver = () =>
+  process.env.EXPO_PUBLIC_BASE_URL || "";
+
+/**
+ * Replace the function used to resolve the API base URL
+ * Defaults to the EXPO_PUBLIC_BASE_URL baked in at build time
+ */
+export const setBaseUrlResolver = (resolver: BaseUrlResolver): void => {
+  resolveBaseUrl = resolver;
+};
+
+/**
+ * Get the current API base URL without a trailing slash
+ */
+export const getBaseUrl = (): string => trimTrailingSlashes(resolveBaseUrl());
+
+/**
+ * Whether a base URL is the one baked in at build time
+ * Service URL overrides set next to EXPO_PUBLIC_BASE_URL only apply to that server
+ */
+export const isBuildBaseUrl = (baseUrl: string): boolean =>
+  trimTrailingSlashes(baseUrl) ===
+  trimTrailingSlashes(process.env.EXPO_PUBLIC_BASE_URL || "");
+
+/**
+ * Get the environment this build targets
+ * Set per EAS build profile through EXPO_PUBLIC_APP_ENV
+ */
+export const getAppEnvironment = (): string =>
+  process.env.EXPO_PUBLIC_APP_ENV || (__DEV__ ? "development" : "production");
+
+/**
+ * Save the current base URL and environment for code that runs outside the app,
+ * e.g. background tasks started by the OS
+ */
+export const persistBuildConfig = async (): Promise<void> => {
+  const config: BuildConfig = {
+    baseUrl: getBaseUrl(),
+    environment: getAppEnvironment(),
+  };
+  await SecureStore.setItemAsync(
+    BUILD_CONFIG_STORAGE_KEY,
+    JSON.stringify(config)
+  );
+};
+
+/**
+ * Read the config saved at login
+ * @returns The saved config, or null if nobody is logged in
+ */
+export const getPersistedBuildConfig = async (): Promise<BuildConfig | null> => {
+  const stored = await SecureStore.getItemAsync(BUILD_CONFIG_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remove the saved config, e.g. on logout
+ */
+export const clearPersistedBuildConfig = (): Promise<void> =>
+  SecureStore.deleteItemAsync(BUILD_CONFIG_STORAGE_KEY);
@@ -0,0 +1,43 @@
+import type { HttpMethod } from "./client";
+
+/**
+ * Error thrown for every failed API request
+ * Carries the HTTP status (0 for network failures), the message returned by the server and the endpoint
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly serverMessage?: string;
+  readonly endpoint: string;
+  readonly method: HttpMethod;
+
+  constructor({
+    status,
+    endpoint,
+    method,
+    serverMessage,
+    message,
+  }: {
+    status: number;
+    endpoint: string;
+    method: HttpMethod;
+    serverMessage?: string;
+    message?: string;
+  }) {
+    super(
+      message || serverMessage || `${method} ${endpoint} failed: HTTP ${status}`
+    );
+    this.name = "ApiError";
+    this.status = status;
+    this.serverMessage = serverMessage;
+    this.endpoint = endpoint;
+    this.method = method;
+  }
+
+  get isAuthError(): boolean {
+    return this.status === 401;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+}
@@ -3,8 +3,24 @@
 // Types
 export * from './types';
 
+// HTTP client
+export { ApiError, api, apiRequest } from './client';
+export type { ApiRequestOptions, HttpMethod } from './client';
+export {
+  getBaseUrl,
+  setBaseUrlResolver,
+  getAppEnvironment,
+  persistBuildConfig,
+  getPersistedBuildConfig,
+  isBuildBaseUrl,
+  clearPersistedBuildConfig,
+} from './config';
+export type { BuildConfig } from './config';
+
 // Authentication
-export { createAuthHeaders, validateAuthToken, clearAuthData } from './auth';
+export { createAuthHeaders, validateAuthToken, clearAuthData, refreshAuthToken } from './auth';
+export { onSessionExpired, onTokenRefreshed, resetSessionExpired } from './session';
+export type { SessionExpiredReason } from './session';
 
 
 // Leads
@@ -14,7 +30,15 @@ export { fetchLeads, buildLeadsRequestBody, getLeadMeetings } from './leads';
 export { addReminder, updateReminder, getLeadReminders } from './reminders';
 
 // Users
-export { getUsers } from './users';
+export { getUsers, fetchUserPermissions, updatePlayerId } from './users';
+
+// Sessions
+export { getActiveSessions, revokeSession, logoutEverywhere } from './sessions';
+export type { UserSession } from './sessions';
+
+// Single sign-on
+export { getSsoProviders, exchangeSsoCode } from './sso';
+export type { SsoProvider, SsoCodeExchange } from './sso';
 
 // Note: The original api.ts file contained many more functions that would need to be moved
 // This is a starting point for the refactoring. Additional modules can be created as needed:
@@ -1,5 +1,6 @@
-import { createAuthHeaders, validateAuthToken } from "./auth";
+import { api } from "./client";
 import {
+  ApiDataResponse,
   FilterOptions,
   LeadRequestOptions,
   LeadsResponse,
@@ -67,19 +68,13 @@ export const fetchLeads = async (
   filters: FilterOptions,
   searchText: string,
   pagination: PaginationParams,
-  options: LeadRequestOptions = {}
+  options: LeadRequestOptions = {},
+  signal?: AbortSignal
 ): Promise<LeadsResponse> => {
   if (!user || !user.id) {
     throw new Error("User not available");
   }
 
-  const tokenValid = await validateAuthToken();
-
-  if (!tokenValid) {
-    throw new Error("Authentication failed");
-  }
-
-  const headers = await createAuthHeaders();
   const requestBody = buildLeadsRequestBody(
     user,
     filters,
@@ -88,25 +83,15 @@ export const fetchLeads = async (
     options
   );
 
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/get`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestBody),
-    }
+  const data = await api.post<{ data?: any[]; totalLeads?: number }>(
+    "/api/Lead/get",
+    requestBody,
+    { signal }
   );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to fetch leads: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-
   return {
-    data: Array.isArray(data.data) ? data.data : [],
-    totalLeads: data.totalLeads || 0,
+    data: Array.isArray(data?.data) ? data.data : [],
+    totalLeads: data?.totalLeads || 0,
   };
 };
 
@@ -116,34 +101,8 @@ export const fetchLeads = async (
  * @returns Promise<any[]> - Array of meetings
  */
 export const getLeadMeetings = async (leadId: string) => {
-  if (!(await validateAuthToken())) {
-    throw new Error("Authentication failed. Please login again.");
-  }
-
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Meeting/get/${leadId}`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch meetings: HTTP ${response.status}`);
-    }
-
-    const responseText = await response.text();
-    let result;
-    try {
-      result = JSON.parse(responseText);
-    } catch (e) {
-      throw new Error("Invalid JSON response from server");
-    }
-
-    const meetings = result.data || [];
-    return meetings;
-  } catch (error) {
-    throw error;
-  }
+  const result = await api.get<ApiDataResponse<any[]>>(
+    `/api/Meeting/get/${leadId}`
+  );
+  return result?.data || [];
 };
@@ -1,4 +1,5 @@
-import { createAuthHeaders, validateAuthToken } from './auth';
+import { api } from './client';
+import { ApiDataResponse } from './types';
 
 /**
  * Add a new reminder
@@ -6,30 +7,7 @@ import { createAuthHeaders, validateAuthToken } from './auth';
  * @returns Promise<any> - API response
  */
 export const addReminder = async (reminderData: any) => {
-  if (!(await validateAuthToken())) {
-    throw new Error('Authentication failed. Please login again.');
-  }
-  
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Reminder/add`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(reminderData),
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(errorData.error || `Failed to add reminder: HTTP ${response.status}`);
-    }
-    
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
-  }
+  return api.post('/api/Reminder/add', reminderData);
 };
 
 /**
@@ -39,30 +17,7 @@ export const addReminder = async (reminderData: any) => {
  * @returns Promise<any> - API response
  */
 export const updateReminder = async (reminderId: string, reminderData: any) => {
-  if (!(await validateAuthToken())) {
-    throw new Error('Authentication failed. Please login again.');
-  }
-  
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Reminder/update/${reminderId}`;
-    
-    const response = await fetch(url, {
-      method: 'PATCH',
-      headers,
-      body: JSON.stringify(reminderData),
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(errorData.error || `Failed to update reminder: HTTP ${response.status}`);
-    }
-    
-    const result = await response.json();
-    return result;
-  } catch (error) {
-    throw error;
-  }
+  return api.patch(`/api/Reminder/update/${reminderId}`, reminderData);
 };
 
 /**
@@ -71,27 +26,6 @@ export const updateReminder = async (reminderId: string, reminderData: any) => {
  * @returns Promise<any[]> - Array of reminders
  */
 export const getLeadReminders = async (leadId: string) => {
-  if (!(await validateAuthToken())) {
-    throw new Error('Authentication failed. Please login again.');
-  }
-  
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Reminder/get/${leadId}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(errorData.error || `Failed to fetch reminders: HTTP ${response.status}`);
-    }
-    
-    const result = await response.json();
-    return result.data || [];
-  } catch (error) {
-    throw error;
-  }
+  const result = await api.get<ApiDataResponse<any[]>>(`/api/Reminder/get/${leadId}`);
+  return result?.data || [];
 };
@@ -0,0 +1,76 @@
+// Session lifecycle events shared between the API layer and the UI
+
+export type SessionExpiredReason = "refresh_failed" | "invalid_token";
+
+type SessionExpiredListener = (reason: SessionExpiredReason) => void;
+
+const listeners = new Set<SessionExpiredListener>();
+let expiredNotified = false;
+
+/**
+ * Subscribe to the session expired event
+ * @returns Function that removes the listener
+ */
+export const onSessionExpired = (
+  listener: SessionExpiredListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Notify listeners that the session can no longer be used
+ * Only the first call per session is delivered, concurrent failures are collapsed into one event
+ */
+export const emitSessionExpired = (reason: SessionExpiredReason): void => {
+  if (expiredNotified) return;
+  expiredNotified = true;
+
+  listeners.forEach((listener) => {
+    try {
+      listener(reason);
+    } catch (error) {
+      console.error("Session expired listener error:", error);
+    }
+  });
+};
+
+/**
+ * Mark a new session as started so the next expiry is reported again
+ * Call after a successful login
+ */
+export const resetSessionExpired = (): void => {
+  expiredNotified = false;
+};
+
+type TokenRefreshedListener = () => void;
+
+const refreshListeners = new Set<TokenRefreshedListener>();
+
+/**
+ * Subscribe to successful token refreshes
+ * @returns Function that removes the listener
+ */
+export const onTokenRefreshed = (
+  listener: TokenRefreshedListener
+): (() => void) => {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+};
+
+/**
+ * Notify listeners that a new access token was stored
+ */
+export const emitTokenRefreshed = (): void => {
+  refreshListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error("Token refreshed listener error:", error);
+    }
+  });
+};
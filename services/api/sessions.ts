@@ -0,0 +1,48 @@
+import { api } from './client';
+import { ApiDataResponse } from './types';
+
+export interface UserSession {
+  id: string;
+  deviceName?: string;
+  // "ios", "android" or "web"
+  platform?: string;
+  osVersion?: string;
+  lastSeenAt?: string;
+  createdAt?: string;
+  // OneSignal subscription the server sends this session's pushes to
+  playerId?: string | null;
+  // Set on the session making the request
+  current?: boolean;
+}
+
+/**
+ * Get the signed-in user's active sessions, one per logged-in device
+ * @param signal - Optional abort signal
+ * @returns Promise<UserSession[]> - Array of sessions
+ */
+export const getActiveSessions = async (
+  signal?: AbortSignal
+): Promise<UserSession[]> => {
+  const result = await api.get<ApiDataResponse<UserSession[]>>(
+    '/api/auth/sessions',
+    { signal }
+  );
+  return result?.data || [];
+};
+
+/**
+ * Revoke a session, the device is signed out the next time it refreshes its token
+ * @param sessionId - The ID of the session to revoke
+ * @returns Promise<any> - API response
+ */
+export const revokeSession = async (sessionId: string): Promise<any> => {
+  return api.delete(`/api/auth/sessions/${encodeURIComponent(sessionId)}`);
+};
+
+/**
+ * Revoke every session of the signed-in user, including this one
+ * @returns Promise<any> - API response
+ */
+export const logoutEverywhere = async (): Promise<any> => {
+  return api.post('/api/auth/logout-all');
+};
@@ -0,0 +1,45 @@
+import { api } from './client';
+import { ApiDataResponse } from './types';
+
+export interface SsoProvider {
+  // Sent back with the code so the server knows which identity provider issued it
+  id: string;
+  name: string;
+  // OIDC issuer, the app reads the authorization endpoint from its discovery document
+  issuer: string;
+  clientId: string;
+  scopes?: string[];
+  // Extra authorization request parameters, e.g. { hd: "example.com" } to limit Google to one Workspace domain
+  params?: Record<string, string>;
+}
+
+export interface SsoCodeExchange {
+  provider: string;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+/**
+ * Get the single sign-on providers enabled on the server
+ * @returns Promise<SsoProvider[]> - Empty when the server only allows email and password
+ */
+export const getSsoProviders = async (): Promise<SsoProvider[]> => {
+  const result = await api.get<ApiDataResponse<SsoProvider[]>>(
+    '/api/auth/sso/providers',
+    { auth: false, timeout: 10000 }
+  );
+  return result?.data || [];
+};
+
+/**
+ * Exchange an authorization code for a CRM session
+ * The server redeems the code with the verifier, checks the ID token and its nonce, and maps the account to a user
+ * @returns Promise<any> - API response with the token and refreshToken, as from the email login
+ */
+export const exchangeSsoCode = async (
+  exchange: SsoCodeExchange
+): Promise<any> => {
+  return api.post('/api/auth/sso/token', exchange, { auth: false });
+};
@@ -27,10 +27,16 @@ export interface LeadsResponse {
   totalLeads: number;
 }
 
+export interface ApiDataResponse<T> {
+  success?: boolean;
+  message?: string;
+  data: T;
+}
+
 export interface FilterOption {
   value: string;
   label: string;
-  color?: string;
+  color: string;
   requiresReminder?: "yes" | "no" | "optional";
 }
 
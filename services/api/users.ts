@@ -1,31 +1,42 @@
-import { createAuthHeaders, validateAuthToken } from './auth';
+import { api } from './client';
+import { ApiDataResponse } from './types';
 
 /**
  * Get all users/agents for assignee selection
  * @returns Promise<User[]> - Array of users
  */
 export const getUsers = async () => {
-  if (!(await validateAuthToken())) {
-    throw new Error('Authentication failed. Please login again.');
-  }
-  
-  try {
-    const headers = await createAuthHeaders();
-    const url = `${process.env.EXPO_PUBLIC_BASE_URL}/api/Users/get`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: `HTTP ${response.status}` }));
-      throw new Error(errorData.error || `Failed to fetch users: HTTP ${response.status}`);
-    }
-    
-    const result = await response.json();
-    return result.data || [];
-  } catch (error) {
-    throw error;
+  const result = await api.get<ApiDataResponse<any[]>>('/api/staff/get');
+  return result?.data || [];
+};
+
+/**
+ * Get the signed-in user's permissions
+ * @returns Promise<any> - API response with the permissions and their version
+ */
+export const fetchUserPermissions = async (): Promise<any> => {
+  return api.get('/api/auth/permissions');
+};
+
+/**
+ * Register this device's OneSignal subscription so pushes reach it
+ * @param userId - The signed-in user's ID
+ * @param playerId - OneSignal subscription (player) ID
+ * @param device - Name and platform shown in the user's session list
+ * @returns Promise<any> - API response
+ */
+export const updatePlayerId = async (
+  userId: string,
+  playerId: string,
+  device: {
+    deviceName?: string | null;
+    platform: string;
+    osVersion?: string | null;
   }
+): Promise<any> => {
+  return api.post(
+    '/api/users/update-player-id',
+    { userId, playerId, ...device },
+    { auth: false }
+  );
 };
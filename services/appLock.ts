@@ -0,0 +1,342 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import * as LocalAuthentication from "expo-local-authentication";
+import * as SecureStore from "expo-secure-store";
+import { AppState, Platform } from "react-native";
+import { refreshAuthTokenWith } from "./api/auth";
+import { onTokenRefreshed } from "./api/session";
+
+const APP_LOCK_SETTINGS_STORAGE_KEY = "appLockSettings";
+// Copy of the refresh token kept through a session expiry, the keystore only releases it after biometrics
+const BIOMETRIC_REFRESH_TOKEN_KEY = "biometricRefreshToken";
+// Protected items need their own keychain service, separate from the plain auth keys
+const BIOMETRIC_KEYCHAIN_SERVICE = "biometricSignIn";
+// Set while a copy is stored, the login screen can't check the copy itself without prompting
+const BIOMETRIC_SIGN_IN_MARKER_KEY = "biometricSignInStored";
+
+// Minutes in the background before the app locks again, 0 locks on every return
+export const APP_LOCK_IDLE_OPTIONS = [0, 1, 5, 15, 30];
+const DEFAULT_IDLE_MINUTES = 5;
+
+export interface AppLockSettings {
+  enabled: boolean;
+  idleMinutes: number;
+}
+
+export interface AppLockSupport {
+  // Whether the device has biometrics or a screen lock set up
+  available: boolean;
+  // What the prompt will ask for, e.g. "Face ID"
+  label: string;
+}
+
+type AppLockListener = (locked: boolean) => void;
+
+let settings: AppLockSettings = {
+  enabled: false,
+  idleMinutes: DEFAULT_IDLE_MINUTES,
+};
+let locked = false;
+let backgroundedAt: number | null = null;
+let authInFlight: Promise<boolean> | null = null;
+// Refresh token last written to the copy, writing prompts on Android so unchanged tokens are skipped
+let syncedRefreshToken: string | null = null;
+const listeners = new Set<AppLockListener>();
+
+const setLocked = (next: boolean) => {
+  if (locked === next) return;
+  locked = next;
+  listeners.forEach((listener) => listener(locked));
+};
+
+export const isAppLocked = () => locked;
+
+export const subscribeAppLock = (listener: AppLockListener): (() => void) => {
+  listeners.add(listener);
+  listener(locked);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getAppLockSettings = async (): Promise<AppLockSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(APP_LOCK_SETTINGS_STORAGE_KEY);
+    settings = stored ? { ...settings, ...JSON.parse(stored) } : settings;
+  } catch (error) {
+    console.error("Failed to load app lock settings:", error);
+  }
+  return settings;
+};
+
+const saveAppLockSettings = async (changes: Partial<AppLockSettings>) => {
+  settings = { ...settings, ...changes };
+  await AsyncStorage.setItem(
+    APP_LOCK_SETTINGS_STORAGE_KEY,
+    JSON.stringify(settings)
+  );
+  return settings;
+};
+
+/**
+ * What the device can unlock the app with
+ */
+export const getAppLockSupport = async (): Promise<AppLockSupport> => {
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+    if (level === LocalAuthentication.SecurityLevel.NONE) {
+      return { available: false, label: "Screen lock" };
+    }
+    if (level === LocalAuthentication.SecurityLevel.SECRET) {
+      return { available: true, label: "Device PIN" };
+    }
+
+    const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+    const ios = Platform.OS === "ios";
+    if (
+      types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)
+    ) {
+      return { available: true, label: ios ? "Face ID" : "Face Unlock" };
+    }
+    if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+      return { available: true, label: ios ? "Touch ID" : "Fingerprint" };
+    }
+    return { available: true, label: "Biometrics" };
+  } catch (error) {
+    console.error("Failed to check app lock support:", error);
+    return { available: false, label: "Screen lock" };
+  }
+};
+
+/**
+ * Ask for biometrics, falling back to the device PIN or passcode
+ * Concurrent calls share the same prompt
+ */
+const authenticate = (promptMessage: string): Promise<boolean> => {
+  if (!authInFlight) {
+    authInFlight = LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel: "Cancel",
+      disableDeviceFallback: false,
+    })
+      .then((result) => result.success)
+      .catch((error) => {
+        console.error("Authentication failed:", error);
+        return false;
+      })
+      .finally(() => {
+        authInFlight = null;
+      });
+  }
+  return authInFlight;
+};
+
+const biometricStoreOptions = (
+  authenticationPrompt: string
+): SecureStore.SecureStoreOptions => ({
+  keychainService: BIOMETRIC_KEYCHAIN_SERVICE,
+  requireAuthentication: true,
+  authenticationPrompt,
+  keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+});
+
+const deleteBiometricRefreshToken = async () => {
+  syncedRefreshToken = null;
+  await AsyncStorage.removeItem(BIOMETRIC_SIGN_IN_MARKER_KEY);
+  await SecureStore.deleteItemAsync(BIOMETRIC_REFRESH_TOKEN_KEY, {
+    keychainService: BIOMETRIC_KEYCHAIN_SERVICE,
+  });
+};
+
+/**
+ * Keep the biometric copy of the refresh token in step with the signed-in session
+ * Android asks for biometrics to write it, so there it is only written when a prompt is expected
+ * @param authenticationPrompt - Shown while writing on Android, leave out to skip writes that would prompt
+ * @returns Whether the copy was written
+ * @throws Error when the prompt was cancelled or the device has no biometrics
+ */
+const syncBiometricRefreshToken = async (
+  authenticationPrompt?: string
+): Promise<boolean> => {
+  const refreshToken = settings.enabled
+    ? await SecureStore.getItemAsync("refreshToken")
+    : null;
+  if (!refreshToken) {
+    await deleteBiometricRefreshToken();
+    return false;
+  }
+  if (refreshToken === syncedRefreshToken) return false;
+  if (Platform.OS === "android" && !authenticationPrompt) return false;
+
+  await SecureStore.setItemAsync(
+    BIOMETRIC_REFRESH_TOKEN_KEY,
+    refreshToken,
+    biometricStoreOptions(authenticationPrompt || "Save biometric sign-in")
+  );
+  await AsyncStorage.setItem(BIOMETRIC_SIGN_IN_MARKER_KEY, "true");
+  syncedRefreshToken = refreshToken;
+  return true;
+};
+
+const syncBiometricRefreshTokenSilently = () =>
+  syncBiometricRefreshToken().catch((error) => {
+    console.error("Failed to store biometric sign-in:", error);
+  });
+
+/**
+ * Turn the app lock on or off, the user has to authenticate first either way
+ * @returns The settings, unchanged when authentication failed
+ */
+export const setAppLockEnabled = async (
+  enabled: boolean
+): Promise<AppLockSettings> => {
+  const authenticated = await authenticate(
+    enabled ? "Turn on app lock" : "Turn off app lock"
+  );
+  if (!authenticated) return settings;
+
+  const next = await saveAppLockSettings({ enabled });
+  try {
+    await syncBiometricRefreshToken("Allow sign-in with biometrics");
+  } catch (error) {
+    // The lock still works with the device PIN, only biometric sign-in is missing
+    console.warn("Biometric sign-in not stored:", error);
+  }
+  return next;
+};
+
+export const setAppLockIdleMinutes = (
+  idleMinutes: number
+): Promise<AppLockSettings> => saveAppLockSettings({ idleMinutes });
+
+/**
+ * Lock before anything is shown when the app is opened with a stored session
+ * Call once on launch, before the stored token is validated
+ */
+export const lockOnLaunch = async (): Promise<void> => {
+  const { enabled } = await getAppLockSettings();
+  if (!enabled) return;
+  if (await SecureStore.getItemAsync("userToken")) setLocked(true);
+};
+
+/**
+ * Prompt the user and unlock the app when they authenticate
+ * @returns Whether the app was unlocked
+ */
+export const unlockApp = async (): Promise<boolean> => {
+  if (Platform.OS === "android") {
+    try {
+      // Writing the copy asks for biometrics, that prompt unlocks as well
+      if (await syncBiometricRefreshToken("Unlock Miles")) {
+        setLocked(false);
+        return true;
+      }
+    } catch (error) {
+      console.warn("Biometric unlock failed, falling back:", error);
+    }
+  }
+
+  const authenticated = await authenticate("Unlock Miles");
+  if (authenticated) setLocked(false);
+  return authenticated;
+};
+
+/**
+ * Whether the session that expired can be resumed with biometrics
+ */
+export const hasBiometricSignIn = async (): Promise<boolean> => {
+  const { enabled } = await getAppLockSettings();
+  if (!enabled) return false;
+  try {
+    return !!(await AsyncStorage.getItem(BIOMETRIC_SIGN_IN_MARKER_KEY));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Read the biometric copy of the refresh token, which prompts for biometrics, and start a new session from it
+ * The copy is dropped when the server rejects it or new biometrics were enrolled since it was stored
+ * @returns The new access token, or null when the user has to sign in with their password
+ * @throws Error when offline or the server can't be reached, the copy is kept for another try
+ */
+export const signInWithBiometrics = async (): Promise<string | null> => {
+  const network = await NetInfo.fetch();
+  if (network.isConnected === false) {
+    throw new Error("No internet connection");
+  }
+
+  let refreshToken: string | null;
+  try {
+    refreshToken = await SecureStore.getItemAsync(
+      BIOMETRIC_REFRESH_TOKEN_KEY,
+      biometricStoreOptions("Sign in to Miles")
+    );
+  } catch (error) {
+    // Cancelled or failed, the copy stays for another try
+    console.warn("Biometric sign-in cancelled:", error);
+    return null;
+  }
+  // Invalidated by the system when biometrics change
+  if (!refreshToken) {
+    await deleteBiometricRefreshToken();
+    return null;
+  }
+
+  const token = await refreshAuthTokenWith(refreshToken);
+  if (!token) {
+    await deleteBiometricRefreshToken();
+    return null;
+  }
+  syncedRefreshToken = refreshToken;
+  setLocked(false);
+  return token;
+};
+
+/**
+ * Lock the app after it has been in the background for the idle period and keep biometric sign-in current
+ * @returns Function that stops listening
+ */
+export const startAppLockSync = (): (() => void) => {
+  const appStateSubscription = AppState.addEventListener("change", (next) => {
+    // The PIN fallback backgrounds the app on Android, don't count it
+    if (authInFlight) return;
+
+    if (next === "background") {
+      backgroundedAt = Date.now();
+      return;
+    }
+    if (next !== "active" || backgroundedAt === null) return;
+
+    const awayMs = Date.now() - backgroundedAt;
+    backgroundedAt = null;
+    if (settings.enabled && awayMs >= settings.idleMinutes * 60 * 1000) {
+      setLocked(true);
+    }
+  });
+  const unsubscribeTokenRefreshed = onTokenRefreshed(
+    syncBiometricRefreshTokenSilently
+  );
+
+  getAppLockSettings().then(syncBiometricRefreshTokenSilently);
+
+  return () => {
+    appStateSubscription.remove();
+    unsubscribeTokenRefreshed();
+  };
+};
+
+/**
+ * Unlock and forget biometric sign-in, e.g. on logout
+ * The lock settings stay, they belong to the device
+ * @param keepBiometricSignIn - Keep it when the session expired rather than the user signing out
+ */
+export const clearAppLock = async (
+  keepBiometricSignIn = false
+): Promise<void> => {
+  setLocked(false);
+  backgroundedAt = null;
+  if (!keepBiometricSignIn) {
+    await deleteBiometricRefreshToken();
+  }
+};
@@ -0,0 +1,132 @@
+import { CallGuardVerdict, evaluateCallGuard } from "@/utils/callGuard";
+import { normalizeCallHistory } from "@/utils/callHistory";
+import { Platform } from "react-native";
+import { fetchLeadDialerSessions } from "./api";
+import { toDayKey } from "./locationHistory";
+import { getOutboxEntries, logCallOverrideOrQueue } from "./outbox";
+
+// The call waits on this lookup, past it only unsynced sessions are counted
+const CALL_ATTEMPTS_TIMEOUT_MS = 3000;
+
+export interface CallGuardPrompt {
+  lead: any;
+  phoneNumber: string;
+  verdict: CallGuardVerdict;
+}
+
+type CallGuardPromptListener = (prompt: CallGuardPrompt | null) => void;
+
+let pendingPrompt: {
+  prompt: CallGuardPrompt;
+  resolve: (reason: string | null) => void;
+} | null = null;
+const listeners = new Set<CallGuardPromptListener>();
+
+const notify = () =>
+  listeners.forEach((listener) => listener(pendingPrompt?.prompt || null));
+
+const isToday = (startedAt: string | undefined, today: string) =>
+  !!startedAt && toDayKey(new Date(startedAt)) === today;
+
+/**
+ * Calls placed to a lead today by anyone, from the server's dialer sessions
+ * Sessions still waiting in the outbox are added, the server doesn't have them yet
+ */
+export const getCallAttemptsToday = async (leadId: string): Promise<number> => {
+  const today = toDayKey(new Date());
+
+  const unsynced = (await getOutboxEntries()).filter(
+    (entry) =>
+      entry.type === "logDialerSession" &&
+      entry.payload?.leadId === leadId &&
+      isToday(entry.payload.startedAt, today)
+  ).length;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(
+    () => controller.abort(),
+    CALL_ATTEMPTS_TIMEOUT_MS
+  );
+  try {
+    const sessions = normalizeCallHistory(
+      await fetchLeadDialerSessions(leadId, controller.signal)
+    );
+    return (
+      sessions.filter((session) => isToday(session.startedAt, today)).length +
+      unsynced
+    );
+  } catch (error) {
+    console.error("Failed to load today's call attempts:", error);
+    return unsynced;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+export const subscribeCallGuardPrompt = (
+  listener: CallGuardPromptListener
+): (() => void) => {
+  listeners.add(listener);
+  listener(pendingPrompt?.prompt || null);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Answer the prompt shown by CallGuardModal
+ * @param reason - Why the agent overrides the guard, null to cancel the call
+ */
+export const resolveCallGuardPrompt = (reason: string | null) => {
+  const pending = pendingPrompt;
+  pendingPrompt = null;
+  notify();
+  pending?.resolve(reason);
+};
+
+const askForOverride = (prompt: CallGuardPrompt): Promise<string | null> => {
+  // Only one call can be placed at a time, an older prompt is cancelled
+  if (pendingPrompt) resolveCallGuardPrompt(null);
+  return new Promise((resolve) => {
+    pendingPrompt = { prompt, resolve };
+    notify();
+  });
+};
+
+/**
+ * Check do-not-call, calling hours and daily attempts before a lead is called
+ * Asks the agent for an override reason when a check fails and logs it
+ * @returns Whether the call may go ahead
+ */
+export const guardCall = async (
+  lead: any,
+  phoneNumber: string
+): Promise<boolean> => {
+  const leadId = lead?._id;
+  const attemptsToday = leadId ? await getCallAttemptsToday(leadId) : 0;
+  const verdict = evaluateCallGuard({ lead, phoneNumber, attemptsToday });
+
+  if (verdict.level !== "allow") {
+    const reason = await askForOverride({ lead, phoneNumber, verdict });
+    if (reason === null) return false;
+
+    console.log("Call guard overridden:", {
+      leadId,
+      checks: verdict.reasons.map((item) => item.check),
+      reason,
+    });
+    logCallOverrideOrQueue({
+      leadId,
+      phoneNumber,
+      level: verdict.level,
+      checks: verdict.reasons.map((item) => item.check),
+      reason,
+      overriddenAt: new Date().toISOString(),
+      platform: Platform.OS,
+    }).catch((error) => {
+      console.warn("Failed to log call guard override:", error);
+    });
+  }
+
+  return true;
+};
@@ -0,0 +1,190 @@
+import { PermissionsAndroid, Platform } from "react-native";
+import CallLogs, { CallLog } from "react-native-call-log";
+import RNCallKeep from "react-native-callkeep";
+
+// How often the iOS call observer is read while a call is tracked
+const CALL_OBSERVER_POLL_MS = 1000;
+// A longer pause between reads means iOS suspended the app and call changes may have been missed
+const CALL_OBSERVER_GAP_MS = 5000;
+// The call log entry may be stamped slightly before the session started
+const CALL_LOG_MATCH_SLACK_MS = 60 * 1000;
+// Numbers are compared by their last digits so country code formatting doesn't matter
+const PHONE_MATCH_DIGITS = 9;
+
+export type CallPhase = "dialing" | "connected" | "disconnected";
+
+export interface CallStateEvent {
+  phase: CallPhase;
+  // Epoch milliseconds, when the change was noticed
+  at: number;
+  // False once the app was suspended while watching, the phase is then known but not when it changed
+  observedThroughout: boolean;
+  // Whether a disconnected call had connected, unknown once the observer dropped the call
+  answered?: boolean;
+}
+
+export interface CallOutcome {
+  answered: boolean;
+  connectedAt: number | null;
+  endedAt: number;
+  // Connected time only, ringing is not counted
+  talkSeconds: number;
+}
+
+/**
+ * Whether this build may read the device call log
+ * Call log access is restricted on Google Play, Play builds leave EXPO_PUBLIC_CALL_LOG unset
+ * and time calls from app state alone, see app.config.js
+ */
+export const isCallLogEnabled = (): boolean =>
+  Platform.OS === "android" && process.env.EXPO_PUBLIC_CALL_LOG === "true";
+
+const lastDigits = (phoneNumber: string) =>
+  phoneNumber.replace(/\D/g, "").slice(-PHONE_MATCH_DIGITS);
+
+/**
+ * Follow the native outgoing call placed after startedAt
+ * iOS reports dialing, connected and disconnected through CallKit's call observer.
+ * The observer is polled from JS, which stops while iOS suspends the app behind the Phone app,
+ * so events say whether every change could have been seen. A call the observer still lists
+ * after a resume says whether it connected, though not when.
+ * Android has no live call state for calls made in the system dialer, use
+ * getCallOutcomeFromCallLog once the agent is back instead where the build reads the call log
+ * @returns Function that stops watching
+ */
+export const watchOutgoingCall = (
+  onEvent: (event: CallStateEvent) => void
+): (() => void) => {
+  if (Platform.OS !== "ios") return () => {};
+
+  // Calls already running when tracking started belong to someone else
+  let knownCallIds: Set<string> | null = null;
+  let trackedCallId: string | null = null;
+  let phase: CallPhase | null = null;
+  let lastPollAt: number | null = null;
+  let observedThroughout = true;
+
+  const emit = (next: CallPhase, answered?: boolean) => {
+    phase = next;
+    onEvent({ phase, at: Date.now(), observedThroughout, answered });
+  };
+
+  const poll = async () => {
+    const now = Date.now();
+    if (lastPollAt !== null && now - lastPollAt > CALL_OBSERVER_GAP_MS) {
+      observedThroughout = false;
+    }
+    lastPollAt = now;
+
+    try {
+      const calls = (await RNCallKeep.getCalls()) || [];
+
+      if (!knownCallIds) {
+        knownCallIds = new Set(calls.map((call) => call.callUUID));
+        return;
+      }
+
+      const call = trackedCallId
+        ? calls.find((candidate) => candidate.callUUID === trackedCallId)
+        : calls.find(
+            (candidate) =>
+              candidate.outgoing && !knownCallIds!.has(candidate.callUUID)
+          );
+
+      if (!call) {
+        // The observer drops a call shortly after it ends
+        if (trackedCallId && phase !== "disconnected") emit("disconnected");
+        return;
+      }
+
+      trackedCallId = call.callUUID;
+      const next: CallPhase = call.hasEnded
+        ? "disconnected"
+        : call.hasConnected
+          ? "connected"
+          : "dialing";
+      if (next !== phase) {
+        emit(next, next === "disconnected" ? call.hasConnected : undefined);
+      }
+    } catch (error) {
+      console.warn("Failed to read call state:", error);
+    }
+  };
+
+  poll();
+  const interval = setInterval(() => {
+    if (phase === "disconnected") {
+      clearInterval(interval);
+      return;
+    }
+    poll();
+  }, CALL_OBSERVER_POLL_MS);
+
+  return () => clearInterval(interval);
+};
+
+/**
+ * Find the outgoing call to a number in the device call log
+ * Android builds with call log access only, asks for the READ_CALL_LOG permission
+ * @param phoneNumber - Number that was dialed
+ * @param startedAt - When the dialer was opened, epoch milliseconds
+ */
+export const findOutgoingCallLogEntry = async (
+  phoneNumber: string,
+  startedAt: number
+): Promise<CallLog | null> => {
+  if (!isCallLogEnabled()) return null;
+
+  try {
+    const permission = await PermissionsAndroid.request(
+      PermissionsAndroid.PERMISSIONS.READ_CALL_LOG,
+      {
+        title: "Call Log Access",
+        message:
+          "Miles reads your call log to record how long your calls last.",
+        buttonPositive: "Allow",
+        buttonNegative: "Not Now",
+      }
+    );
+    if (permission !== PermissionsAndroid.RESULTS.GRANTED) return null;
+
+    const calls = await CallLogs.load(20, {
+      minTimestamp: startedAt - CALL_LOG_MATCH_SLACK_MS,
+    });
+    const target = lastDigits(phoneNumber);
+    return (
+      calls
+        .filter(
+          (call) => call.type === "OUTGOING" || call.type === "WIFI_OUTGOING"
+        )
+        .filter((call) => lastDigits(call.phoneNumber) === target)
+        .sort((a, b) => Number(a.timestamp) - Number(b.timestamp))[0] || null
+    );
+  } catch (error) {
+    console.warn("Failed to read call log:", error);
+    return null;
+  }
+};
+
+/**
+ * Work out whether the call connected and for how long from the device call log
+ * The log only stores connected time, so a zero duration means nobody answered
+ * @returns The outcome, or null when the call isn't in the log
+ */
+export const getCallOutcomeFromCallLog = async (
+  phoneNumber: string,
+  startedAt: number
+): Promise<CallOutcome | null> => {
+  const call = await findOutgoingCallLogEntry(phoneNumber, startedAt);
+  if (!call) return null;
+
+  const talkSeconds = Math.max(0, Math.round(call.duration));
+  // The entry is stamped when dialing began, the connected part is at the end
+  const endedAt = Number(call.timestamp) + talkSeconds * 1000;
+  return {
+    answered: talkSeconds > 0,
+    connectedAt: talkSeconds > 0 ? endedAt - talkSeconds * 1000 : null,
+    endedAt,
+    talkSeconds,
+  };
+};
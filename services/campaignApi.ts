@@ -1,5 +1,7 @@
 import * as SecureStore from "expo-secure-store";
 import { createAuthHeaders } from "./api/auth";
+import { ApiError, api } from "./api/client";
+import { getBaseUrl } from "./api/config";
 
 export interface CampaignFilters {
   campaignName: string;
@@ -41,55 +43,37 @@ export interface CampaignsWithCountsResponse {
  * Uses the optimized campaign endpoint with pending-first sorting
  */
 export const fetchCampaignLeads = async (
-  campaignFilters: CampaignFilters
+  campaignFilters: CampaignFilters,
+  signal?: AbortSignal
 ): Promise<CampaignLeadsResponse> => {
   if (!campaignFilters.campaignName) {
     throw new Error("Campaign name is required");
   }
 
-  const headers = await createAuthHeaders();
-
   const requestBody = {
     campaignName: campaignFilters.campaignName,
     page: campaignFilters.page || 1,
     limit: campaignFilters.limit || 50,
   };
 
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/campaign`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestBody),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Campaign Leads API Error:", {
-      status: response.status,
-      statusText: response.statusText,
-      url: `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/campaign`,
-      requestBody,
-      errorText,
-    });
-
-    if (response.status === 303 || response.status === 401) {
-      console.log("Got 401/303 but not throwing auth error for debugging");
-      // throw new Error('Authentication failed. Please login again.');
+  try {
+    const data = await api.post("/api/Lead/campaign", requestBody, { signal });
+    return {
+      message: data.message,
+      data: Array.isArray(data.data) ? data.data : [],
+      totalLeads: data.totalLeads || 0,
+    };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      console.error("Campaign Leads API Error:", {
+        status: error.status,
+        endpoint: error.endpoint,
+        requestBody,
+        serverMessage: error.serverMessage,
+      });
     }
-
-    throw new Error(
-      `Failed to fetch campaign leads: HTTP ${response.status} - ${errorText}`
-    );
+    throw error;
   }
-
-  const data = await response.json();
-  return {
-    message: data.message,
-    data: Array.isArray(data.data) ? data.data : [],
-    totalLeads: data.totalLeads || 0,
-  };
 };
 
 export interface CampaignsWithCountsParams {
@@ -116,89 +100,28 @@ export const fetchCampaignsWithCounts = async (
     signal,
   } = params;
 
-  const headers = await createAuthHeaders();
-
-  // Build query parameters
-  const queryParams = new URLSearchParams({
-    page: page.toString(),
-    limit: limit.toString(),
-    sortBy,
-    sortOrder,
-  });
-
-  if (search.trim()) {
-    queryParams.append("search", search.trim());
-  }
-
-  // Use the properly optimized with-counts endpoint
-  const campaignsUrl = `${
-    process.env.EXPO_PUBLIC_BASE_URL
-  }/api/campaigns/with-counts?${queryParams.toString()}`;
-
-  console.log("Fetching campaigns from:", campaignsUrl);
-
   try {
-    const response = await Promise.race([
-      fetch(campaignsUrl, {
-        method: "GET",
-        headers,
-        signal, // Add abort signal support
-      }),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error("Request timeout after 30s")), 30000)
-      ),
-    ]);
-
-    console.log("Campaigns API Response:", {
-      status: response.status,
-      statusText: response.statusText,
-      ok: response.ok,
-      url: response.url,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Campaign API Error:", {
-        status: response.status,
-        statusText: response.statusText,
-        url: campaignsUrl,
-        headers: response.headers,
-        errorText,
-      });
-
-      if (response.status === 303 || response.status === 401) {
-        console.log("Got 401/303 but not throwing auth error for debugging");
-        // throw new Error('Authentication failed. Please login again.');
+    // Use the properly optimized with-counts endpoint
+    const result = await api.get<CampaignsWithCountsResponse>(
+      "/api/campaigns/with-counts",
+      {
+        query: { page, limit, sortBy, sortOrder, search: search.trim() },
+        signal,
+        timeout: 30000,
       }
-
-      throw new Error(
-        `Failed to fetch campaigns: HTTP ${response.status} - ${errorText}`
-      );
-    }
-
-    const result = await response.json();
-
-    console.log("Campaigns API Result:", {
-      hasData: !!result.data,
-      dataLength: result.data?.length || 0,
-      hasPagination: !!result.pagination,
-      sampleData: result.data?.slice(0, 2)?.map((item) => ({
-        id: item._id,
-        tag: item.Tag,
-        leadCount: item.leadCount,
-      })),
-    });
+    );
 
     return {
-      data: result.data || [],
-      pagination: result.pagination,
+      data: result?.data || [],
+      pagination: result?.pagination,
     };
-  } catch (error) {
-    console.error("Campaigns fetch error:", {
-      error: error.message,
-      stack: error.stack,
-      url: campaignsUrl,
-    });
+  } catch (error: any) {
+    if (error?.name !== "AbortError") {
+      console.error("Campaigns fetch error:", {
+        error: error?.message,
+        status: error instanceof ApiError ? error.status : undefined,
+      });
+    }
     throw error;
   }
 };
@@ -207,36 +130,22 @@ export const fetchCampaignsWithCounts = async (
  * Fetch ordered lead IDs for a campaign (lightweight, optimized for calling queue)
  */
 export const fetchCampaignLeadIds = async (
-  campaignFilters: CampaignFilters
+  campaignFilters: CampaignFilters,
+  signal?: AbortSignal
 ): Promise<CampaignLeadIdsResponse> => {
   if (!campaignFilters.campaignName) {
     throw new Error("Campaign name is required");
   }
 
-  const headers = await createAuthHeaders();
   const requestBody = {
     campaignName: campaignFilters.campaignName,
     page: campaignFilters.page || 1,
     limit: campaignFilters.limit || 1000,
   };
 
-  const response = await fetch(
-    `${process.env.EXPO_PUBLIC_BASE_URL}/api/Lead/campaign/ids`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify(requestBody),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Failed to fetch campaign lead ids: HTTP ${response.status} - ${errorText}`
-    );
-  }
-
-  const data = await response.json();
+  const data = await api.post("/api/Lead/campaign/ids", requestBody, {
+    signal,
+  });
   return {
     message: data.message,
     data: Array.isArray(data.data) ? data.data : [],
@@ -251,7 +160,7 @@ export const diagnoseStagingIssues = async (): Promise<void> => {
   console.log("=== STAGING DIAGNOSTIC START ===");
 
   // Check base URL
-  console.log("Base URL:", process.env.EXPO_PUBLIC_BASE_URL);
+  console.log("Base URL:", getBaseUrl());
 
   // Check stored tokens
   const userToken = await SecureStore.getItemAsync("userToken");
@@ -268,7 +177,7 @@ export const diagnoseStagingIssues = async (): Promise<void> => {
   try {
     console.log("Testing basic connectivity...");
     const basicResponse = await fetch(
-      `${process.env.EXPO_PUBLIC_BASE_URL}/api/healthcheck`,
+      `${getBaseUrl()}/api/healthcheck`,
       {
         method: "GET",
       }
@@ -289,7 +198,7 @@ export const diagnoseStagingIssues = async (): Promise<void> => {
       console.log("Testing authenticated request...");
       const headers = await createAuthHeaders();
       const authResponse = await fetch(
-        `${process.env.EXPO_PUBLIC_BASE_URL}/api/campaigns/with-counts?page=1&limit=1`,
+        `${getBaseUrl()}/api/campaigns/with-counts?page=1&limit=1`,
         {
           method: "GET",
           headers,
@@ -0,0 +1,109 @@
+import * as Device from "expo-device";
+import * as Location from "expo-location";
+import { Platform } from "react-native";
+import { OneSignal } from "react-native-onesignal";
+import { BACKGROUND_LOCATION_TASK } from "../tasks/backgroundLocationTask";
+import {
+  evaluateLocationHealth,
+  evaluatePushHealth,
+  HealthCheck,
+} from "../utils/deviceHealth";
+import { updatePlayerId } from "./api/users";
+import { getLocationUploadStatus } from "./locationBuffer";
+import { getTrackingStatus } from "./locationTracking";
+
+export interface DeviceHealth {
+  push: HealthCheck;
+  location: HealthCheck;
+  // This device's OneSignal subscription, null when not subscribed
+  playerId: string | null;
+}
+
+/**
+ * Name and platform the server shows for this device in the session list
+ */
+export const getDeviceDetails = () => ({
+  deviceName: Device.deviceName || Device.modelName,
+  platform: Platform.OS,
+  osVersion: Device.osVersion,
+});
+
+/**
+ * Send this device's OneSignal subscription to the server
+ * @returns Whether there was a subscription to send
+ */
+export const registerPushSubscription = async (
+  userId: string
+): Promise<boolean> => {
+  const playerId = await OneSignal.User.pushSubscription.getIdAsync();
+  if (!playerId) return false;
+
+  await updatePlayerId(userId, playerId, getDeviceDetails());
+  return true;
+};
+
+const checkPush = async (
+  serverPlayerId?: string | null
+): Promise<{ playerId: string | null; check: HealthCheck }> => {
+  try {
+    const [permissionGranted, subscriptionId, optedIn] = await Promise.all([
+      OneSignal.Notifications.getPermissionAsync(),
+      OneSignal.User.pushSubscription.getIdAsync(),
+      OneSignal.User.pushSubscription.getOptedInAsync(),
+    ]);
+    return {
+      playerId: subscriptionId,
+      check: evaluatePushHealth({
+        permissionGranted,
+        subscriptionId,
+        optedIn,
+        serverPlayerId,
+      }),
+    };
+  } catch (error) {
+    console.error("Failed to check push subscription:", error);
+    return {
+      playerId: null,
+      check: { level: "error", summary: "Notifications aren't set up" },
+    };
+  }
+};
+
+const checkLocation = async (): Promise<HealthCheck> => {
+  try {
+    const [foreground, background, updatesRunning, tracking, upload] =
+      await Promise.all([
+        Location.getForegroundPermissionsAsync(),
+        Location.getBackgroundPermissionsAsync(),
+        Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK),
+        getTrackingStatus(),
+        getLocationUploadStatus(),
+      ]);
+    return evaluateLocationHealth({
+      foregroundGranted: foreground.granted,
+      backgroundGranted: background.granted,
+      updatesRunning,
+      mode: tracking?.mode ?? null,
+      pendingCount: upload.pendingCount,
+      lagMs: upload.lagMs,
+      lastUploadError: upload.lastError,
+    });
+  } catch (error) {
+    console.error("Failed to check location tracking:", error);
+    return { level: "error", summary: "Location status unavailable" };
+  }
+};
+
+/**
+ * Check push notifications and location tracking on this device
+ * @param serverPlayerId - Player ID the server has for this session, to catch stale registrations
+ */
+export const getDeviceHealth = async (
+  serverPlayerId?: string | null
+): Promise<DeviceHealth> => {
+  const [push, location] = await Promise.all([
+    checkPush(serverPlayerId),
+    checkLocation(),
+  ]);
+  return { push: push.check, location, playerId: push.playerId };
+};
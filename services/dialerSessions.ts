@@ -0,0 +1,187 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Platform } from "react-native";
+import { getCallOutcomeFromCallLog } from "./callState";
+import { logDialerSessionOrQueue } from "./outbox";
+
+const ACTIVE_DIALER_SESSION_STORAGE_KEY = "activeDialerSession";
+
+// Sessions left open longer than this are too stale to guess an end for
+const MAX_RECOVERABLE_AGE_MS = 12 * 60 * 60 * 1000;
+
+// Identifies this app process, sessions from an earlier process were interrupted
+const LAUNCH_ID = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Where a session's end time and duration came from
+// returnTime is the time away from the app, ringing and all, the talk time itself is unknown
+export type DialerEndSource = "callState" | "callLog" | "returnTime";
+
+export interface DialerSession {
+  id: string;
+  leadId: string;
+  phoneNumber: string;
+  startedAt: number;
+  endedAt?: number;
+  // Connected time when the call state is known, time away from the app otherwise
+  durationSeconds?: number;
+  transferredToDialer: boolean;
+  // Set from native call state, see services/callState
+  connectedAt?: number;
+  callEndedAt?: number;
+  // false when the call ended without connecting
+  answered?: boolean;
+  // When the agent came back to the app from the dialer
+  returnedAt?: number;
+  endSource?: DialerEndSource;
+}
+
+interface PersistedDialerSession extends DialerSession {
+  launchId: string;
+}
+
+export interface RecoveredDialerSession {
+  session: DialerSession;
+  endSource: DialerEndSource;
+}
+
+const readPersistedSession =
+  async (): Promise<PersistedDialerSession | null> => {
+    try {
+      const stored = await AsyncStorage.getItem(
+        ACTIVE_DIALER_SESSION_STORAGE_KEY
+      );
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("Failed to load active dialer session:", error);
+      return null;
+    }
+  };
+
+/**
+ * Save the active session so it can be closed if the app is killed during the call
+ */
+export const persistDialerSession = async (
+  session: DialerSession
+): Promise<void> => {
+  try {
+    const persisted: PersistedDialerSession = {
+      ...session,
+      launchId: LAUNCH_ID,
+    };
+    await AsyncStorage.setItem(
+      ACTIVE_DIALER_SESSION_STORAGE_KEY,
+      JSON.stringify(persisted)
+    );
+  } catch (error) {
+    console.error("Failed to persist dialer session:", error);
+  }
+};
+
+/**
+ * Forget the saved session once it has been closed normally
+ * @param sessionId - Only clear if the saved session is this one
+ */
+export const clearPersistedDialerSession = async (
+  sessionId?: string
+): Promise<void> => {
+  const persisted = await readPersistedSession();
+  if (!persisted || (sessionId && persisted.id !== sessionId)) return;
+  await AsyncStorage.removeItem(ACTIVE_DIALER_SESSION_STORAGE_KEY);
+};
+
+/**
+ * Close a session left open when the app was killed during a call and log it
+ * The end time comes from the call state seen before the kill or the device call log
+ * when available, otherwise from the moment the agent came back to the app
+ * @returns The recovered session, or null when there was nothing to recover
+ */
+export const recoverInterruptedDialerSession =
+  async (): Promise<RecoveredDialerSession | null> => {
+    const persisted = await readPersistedSession();
+    // Sessions from this launch are still tracked by useDialerTimeTracking
+    if (!persisted || persisted.launchId === LAUNCH_ID) return null;
+
+    await AsyncStorage.removeItem(ACTIVE_DIALER_SESSION_STORAGE_KEY);
+
+    const { launchId, ...session } = persisted;
+    const returnedAt = Date.now();
+    if (returnedAt - session.startedAt > MAX_RECOVERABLE_AGE_MS) {
+      console.log("Discarding stale dialer session:", session.id);
+      return null;
+    }
+
+    let recovered: DialerSession;
+    let endSource: DialerEndSource;
+    const outcome = session.callEndedAt
+      ? null
+      : await getCallOutcomeFromCallLog(session.phoneNumber, session.startedAt);
+
+    if (session.callEndedAt) {
+      // The call ended before the app was killed, iOS already saw how it went
+      endSource = "callState";
+      recovered = {
+        ...session,
+        transferredToDialer: true,
+        endedAt: session.callEndedAt,
+        answered: !!session.connectedAt,
+        durationSeconds: session.connectedAt
+          ? Math.max(
+              0,
+              Math.round((session.callEndedAt - session.connectedAt) / 1000)
+            )
+          : 0,
+      };
+    } else if (outcome) {
+      endSource = "callLog";
+      recovered = {
+        ...session,
+        transferredToDialer: true,
+        connectedAt: outcome.connectedAt ?? undefined,
+        callEndedAt: outcome.endedAt,
+        endedAt: outcome.endedAt,
+        answered: outcome.answered,
+        durationSeconds: outcome.talkSeconds,
+      };
+    } else {
+      endSource = "returnTime";
+      // The agent may have come back before the app was killed
+      const awayUntil = session.returnedAt ?? returnedAt;
+      recovered = {
+        ...session,
+        // An app kill during the call means the agent was in the dialer
+        transferredToDialer: true,
+        endedAt: awayUntil,
+        durationSeconds: Math.max(
+          0,
+          Math.round((awayUntil - session.startedAt) / 1000)
+        ),
+      };
+    }
+
+    // Unanswered calls are logged too so they count as attempts
+    if (recovered.durationSeconds! > 0 || recovered.answered === false) {
+      try {
+        await logDialerSessionOrQueue({
+          sessionId: recovered.id,
+          leadId: recovered.leadId,
+          phoneNumber: recovered.phoneNumber,
+          startedAt: new Date(recovered.startedAt).toISOString(),
+          endedAt: new Date(recovered.endedAt!).toISOString(),
+          durationSeconds: recovered.durationSeconds!,
+          transferredToDialer: true,
+          answered: recovered.answered,
+          endSource,
+          platform: Platform.OS,
+        });
+      } catch (error) {
+        console.warn("Failed to log recovered dialer session:", error);
+      }
+    }
+
+    console.log("Recovered interrupted dialer session:", {
+      sessionId: recovered.id,
+      durationSeconds: recovered.durationSeconds,
+      answered: recovered.answered,
+      endSource,
+    });
+    return { session: { ...recovered, endSource }, endSource };
+  };
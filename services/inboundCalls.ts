@@ -0,0 +1,236 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import * as SecureStore from "expo-secure-store";
+import { AppState, PermissionsAndroid } from "react-native";
+import CallLogs, { CallLog } from "react-native-call-log";
+import { DEFAULT_FILTERS } from "../utils/constants";
+import {
+  formatPhoneForDisplay,
+  leadHasPhone,
+  parsePhone,
+} from "../utils/phone";
+import { fetchLeadComments, fetchLeads } from "./api";
+import { isCallLogEnabled } from "./callState";
+import { cacheLead, findCachedLead } from "./leadCache";
+import { addLeadCommentOrQueue } from "./outbox";
+
+const INBOUND_CALLS_CHECKED_AT_STORAGE_KEY = "inboundCallsCheckedAt";
+
+const MISSED_CALL_TYPES = ["MISSED", "REJECTED"];
+const INCOMING_CALL_TYPES = ["INCOMING", "WIFI_INCOMING", ...MISSED_CALL_TYPES];
+// Calls older than this when the log is first read are not announced
+const FIRST_SCAN_LOOKBACK_MS = 60 * 60 * 1000;
+const MAX_CALLS_PER_SCAN = 50;
+const LAST_COMMENT_LENGTH = 100;
+
+export interface InboundCallMatch {
+  call: CallLog;
+  lead: any;
+  missed: boolean;
+}
+
+let scanInFlight: Promise<InboundCallMatch[]> | null = null;
+
+// Stored for background tasks while location tracking is on
+const getCurrentUser = async (): Promise<any | null> => {
+  const userJson = await SecureStore.getItemAsync("currentUser");
+  if (!userJson) return null;
+  try {
+    return JSON.parse(userJson);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Find the lead a number belongs to, cached leads first, then a server search
+ * @param user - Agent whose leads to search, only cached leads are checked without one
+ * @returns The lead, or null when the number isn't a lead's Phone or AltPhone
+ */
+export const findLeadByPhone = async (
+  phoneNumber: string,
+  user: any | null
+): Promise<any | null> => {
+  const cached = await findCachedLead((lead) =>
+    leadHasPhone(lead, phoneNumber)
+  );
+  if (cached) return cached;
+
+  const parsed = parsePhone(phoneNumber);
+  if (!user?.id || !parsed) return null;
+
+  // Leads are stored in whatever format they were entered, search on the national part
+  const searchText = parsed.digits
+    ? parsed.digits.slice(parsed.countryCallingCode?.length || 0)
+    : parsed.raw.replace(/\D/g, "");
+  const { data } = await fetchLeads(user, DEFAULT_FILTERS, searchText, {
+    page: 0,
+    limit: 5,
+  });
+  const lead = data.find((item) => leadHasPhone(item, phoneNumber)) || null;
+  if (lead) cacheLead(lead);
+  return lead;
+};
+
+const getLastComment = async (leadId: string): Promise<string | null> => {
+  try {
+    const comments = await fetchLeadComments(leadId);
+    const latest = [...comments].sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    )[0];
+    const content = latest?.Content?.trim();
+    if (!content) return null;
+    return content.length > LAST_COMMENT_LENGTH
+      ? `${content.slice(0, LAST_COMMENT_LENGTH - 1)}…`
+      : content;
+  } catch (error) {
+    console.warn("Failed to load last comment for inbound call:", error);
+    return null;
+  }
+};
+
+const formatCallTime = (call: CallLog) =>
+  new Date(Number(call.timestamp)).toLocaleTimeString([], {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const announce = async ({ call, lead, missed }: InboundCallMatch) => {
+  const lastComment = await getLastComment(lead._id);
+  const details = [lead.LeadStatus?.Status, lastComment]
+    .filter(Boolean)
+    .join(" · ");
+
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        // Sent after the call, the time tells the agent how long ago it was
+        title: `${missed ? "Missed call" : "Call"} from ${lead.Name || "a lead"} at ${formatCallTime(call)}`,
+        body: details || formatPhoneForDisplay(call.phoneNumber),
+        data: { type: "inbound_call", leadId: lead._id },
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.warn("Failed to show inbound call notification:", error);
+  }
+};
+
+const logMissedCall = async ({ call, lead }: InboundCallMatch) => {
+  try {
+    await addLeadCommentOrQueue(
+      lead._id,
+      `Missed call from ${formatPhoneForDisplay(call.phoneNumber)} at ${formatCallTime(call)}`
+    );
+  } catch (error) {
+    console.warn("Failed to log missed call:", error);
+  }
+};
+
+const readCheckedAt = async (): Promise<number | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(
+      INBOUND_CALLS_CHECKED_AT_STORAGE_KEY
+    );
+    return stored ? Number(stored) : null;
+  } catch (error) {
+    console.error("Failed to load inbound call checkpoint:", error);
+    return null;
+  }
+};
+
+const scan = async (user?: any): Promise<InboundCallMatch[]> => {
+  // iOS gives apps no access to the call log, Play builds don't read it
+  if (!isCallLogEnabled()) return [];
+
+  // Never prompt here, the scan also runs in the background
+  const hasPermission = await PermissionsAndroid.check(
+    PermissionsAndroid.PERMISSIONS.READ_CALL_LOG
+  );
+  if (!hasPermission) return [];
+
+  const checkedAt =
+    (await readCheckedAt()) ?? Date.now() - FIRST_SCAN_LOOKBACK_MS;
+  const calls = (
+    await CallLogs.load(MAX_CALLS_PER_SCAN, {
+      minTimestamp: checkedAt + 1,
+      types: INCOMING_CALL_TYPES,
+    })
+  ).sort((a, b) => Number(a.timestamp) - Number(b.timestamp));
+
+  const agent = user ?? (await getCurrentUser());
+  const matches: InboundCallMatch[] = [];
+  for (const call of calls) {
+    try {
+      const lead = await findLeadByPhone(call.phoneNumber, agent);
+      if (lead) {
+        matches.push({
+          call,
+          lead,
+          missed: MISSED_CALL_TYPES.includes(call.type),
+        });
+      }
+    } catch (error) {
+      // Keep this call for the next scan, the lead search needs the network
+      console.warn("Failed to match inbound call:", error);
+      break;
+    }
+    await AsyncStorage.setItem(
+      INBOUND_CALLS_CHECKED_AT_STORAGE_KEY,
+      call.timestamp
+    );
+  }
+
+  for (const match of matches) {
+    if (match.missed) await logMissedCall(match);
+    await announce(match);
+  }
+  return matches;
+};
+
+/**
+ * Match calls received since the last check to leads, announce them and log missed ones on the lead
+ * Calls are only found after they end, on the next foreground or background check, never while ringing
+ * Android builds with call log access only, reads the call log once READ_CALL_LOG has been granted
+ * Concurrent calls share the same run
+ * @param user - Signed-in agent, read from storage when called from a background task
+ * @returns Calls that belonged to a lead
+ */
+export const scanInboundCalls = (user?: any): Promise<InboundCallMatch[]> => {
+  if (!scanInFlight) {
+    scanInFlight = scan(user)
+      .catch((error) => {
+        console.error("Failed to scan inbound calls:", error);
+        return [];
+      })
+      .finally(() => {
+        scanInFlight = null;
+      });
+  }
+  return scanInFlight;
+};
+
+/**
+ * Scan for inbound calls now and whenever the app comes to the foreground
+ * @param user - Signed-in agent
+ * @returns Function that stops listening
+ */
+export const startInboundCallSync = (user: any): (() => void) => {
+  const appStateSubscription = AppState.addEventListener("change", (next) => {
+    if (next === "active") scanInboundCalls(user);
+  });
+
+  scanInboundCalls(user);
+
+  return () => {
+    appStateSubscription.remove();
+  };
+};
+
+/**
+ * Forget which calls were already checked, e.g. on logout
+ */
+export const clearInboundCalls = async (): Promise<void> => {
+  await AsyncStorage.removeItem(INBOUND_CALLS_CHECKED_AT_STORAGE_KEY);
+};
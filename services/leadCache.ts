@@ -0,0 +1,240 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { fetchLeadById } from "./api";
+
+const LEAD_CACHE_STORAGE_KEY = "leadCache";
+
+// Limits for what is written to disk, the in-memory store is not trimmed
+const MAX_PERSISTED_LISTS = 30;
+const MAX_PERSISTED_LEADS = 500;
+const PERSIST_DELAY_MS = 1000;
+
+interface CachedLeadList {
+  ids: string[];
+  total: number;
+  fetchedAt: number;
+}
+
+interface PersistedLeadCache {
+  leads: Record<string, any>;
+  lists: Record<string, CachedLeadList>;
+}
+
+export interface CachedLeadListResult {
+  leads: any[];
+  total: number;
+  fetchedAt: number;
+}
+
+type LeadCacheListener = (changedIds: string[]) => void;
+
+const listeners = new Set<LeadCacheListener>();
+let leadsById: Record<string, any> = {};
+let lists: Record<string, CachedLeadList> = {};
+let loaded: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+const notify = (changedIds: string[]) => {
+  if (changedIds.length === 0) return;
+  listeners.forEach((listener) => listener(changedIds));
+};
+
+const persistSoon = () => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = setTimeout(async () => {
+    persistTimer = null;
+
+    // Keep the most recently fetched lists and the leads they reference
+    const keptLists = Object.entries(lists)
+      .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+      .slice(0, MAX_PERSISTED_LISTS);
+    const keptIds = new Set(keptLists.flatMap(([, list]) => list.ids));
+
+    // Leads opened individually are kept in insertion order, newest last
+    Object.keys(leadsById)
+      .reverse()
+      .forEach((id) => {
+        if (keptIds.size < MAX_PERSISTED_LEADS) keptIds.add(id);
+      });
+
+    const snapshot: PersistedLeadCache = {
+      leads: Object.fromEntries(
+        [...keptIds]
+          .filter((id) => leadsById[id])
+          .map((id) => [id, leadsById[id]])
+      ),
+      lists: Object.fromEntries(keptLists),
+    };
+
+    try {
+      await AsyncStorage.setItem(
+        LEAD_CACHE_STORAGE_KEY,
+        JSON.stringify(snapshot)
+      );
+    } catch (error) {
+      console.error("Failed to persist lead cache:", error);
+    }
+  }, PERSIST_DELAY_MS);
+};
+
+const storeLeads = (leads: any[]): string[] => {
+  const changedIds: string[] = [];
+  leads.forEach((lead) => {
+    if (!lead?._id) return;
+    // List endpoints return fewer fields than lead details, merge so neither loses data
+    const merged = { ...leadsById[lead._id], ...lead };
+    // Re-insert so the most recently seen leads survive trimming
+    delete leadsById[lead._id];
+    leadsById[lead._id] = merged;
+    changedIds.push(lead._id);
+  });
+  return changedIds;
+};
+
+/**
+ * Load the persisted cache into memory
+ * Safe to call repeatedly, the storage is only read once
+ */
+export const hydrateLeadCache = (): Promise<void> => {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(LEAD_CACHE_STORAGE_KEY)
+      .then((stored) => {
+        if (!stored) return;
+        const parsed: PersistedLeadCache = JSON.parse(stored);
+        // Anything fetched while we were reading wins over the persisted copy
+        leadsById = { ...parsed.leads, ...leadsById };
+        lists = { ...parsed.lists, ...lists };
+      })
+      .catch((error) => {
+        console.error("Failed to load lead cache:", error);
+      });
+  }
+  return loaded;
+};
+
+/**
+ * Build a stable cache key for a lead list request
+ * @param scope - Which screen or endpoint the list belongs to, e.g. "leads" or "campaign"
+ * @param params - Anything that changes the result: filters, search, page, limit, user
+ */
+export const buildLeadListKey = (scope: string, params: any): string =>
+  `${scope}:${JSON.stringify(params)}`;
+
+/**
+ * Subscribe to lead changes
+ * @returns Function that removes the listener
+ */
+export const subscribeLeadCache = (
+  listener: LeadCacheListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get the cached copy of a lead
+ */
+export const getCachedLead = (leadId: string): any | undefined =>
+  leadsById[leadId];
+
+/**
+ * Find a cached lead, the most recently seen first
+ */
+export const findCachedLead = async (
+  predicate: (lead: any) => boolean
+): Promise<any | undefined> => {
+  await hydrateLeadCache();
+  return Object.values(leadsById).reverse().find(predicate);
+};
+
+/**
+ * Get a cached lead list resolved against the latest copy of each lead
+ */
+export const getCachedLeadList = async (
+  key: string
+): Promise<CachedLeadListResult | null> => {
+  await hydrateLeadCache();
+  const list = lists[key];
+  if (!list) return null;
+
+  return {
+    leads: list.ids.map((id) => leadsById[id]).filter(Boolean),
+    total: list.total,
+    fetchedAt: list.fetchedAt,
+  };
+};
+
+/**
+ * Store the result of a list request
+ */
+export const cacheLeadList = (key: string, leads: any[], total: number) => {
+  const changedIds = storeLeads(leads);
+  lists[key] = {
+    ids: leads.map((lead) => lead._id).filter(Boolean),
+    total,
+    fetchedAt: Date.now(),
+  };
+  persistSoon();
+  notify(changedIds);
+};
+
+/**
+ * Store a lead fetched from the server
+ */
+export const cacheLead = (lead: any) => {
+  const changedIds = storeLeads([lead]);
+  persistSoon();
+  notify(changedIds);
+};
+
+/**
+ * Merge local changes into a cached lead so every view showing it updates
+ * @param leadId - Lead to patch
+ * @param updates - Fields to merge into the cached copy
+ */
+export const patchCachedLead = (leadId: string, updates: any) => {
+  if (!leadsById[leadId]) return;
+
+  storeLeads([{ ...updates, _id: leadId }]);
+  persistSoon();
+  notify([leadId]);
+};
+
+/**
+ * Drop leads from the cache and from every cached list, e.g. after a delete
+ */
+export const removeCachedLeads = (leadIds: string[]) => {
+  const removed = new Set(leadIds);
+  leadIds.forEach((id) => delete leadsById[id]);
+  Object.values(lists).forEach((list) => {
+    const before = list.ids.length;
+    list.ids = list.ids.filter((id) => !removed.has(id));
+    list.total -= before - list.ids.length;
+  });
+  persistSoon();
+  notify(leadIds);
+};
+
+/**
+ * Fetch a lead from the server and refresh the cached copy
+ */
+export const revalidateLead = async (
+  leadId: string,
+  signal?: AbortSignal
+): Promise<any> => {
+  const lead = await fetchLeadById(leadId, signal);
+  if (lead?._id) cacheLead(lead);
+  return lead;
+};
+
+/**
+ * Clear the cache in memory and on disk, e.g. on logout
+ */
+export const clearLeadCache = async (): Promise<void> => {
+  if (persistTimer) clearTimeout(persistTimer);
+  persistTimer = null;
+  leadsById = {};
+  lists = {};
+  await AsyncStorage.removeItem(LEAD_CACHE_STORAGE_KEY);
+};
@@ -0,0 +1,360 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import type { LocationObject } from "expo-location";
+import * as SecureStore from "expo-secure-store";
+import { AppState } from "react-native";
+import { ApiError, api } from "./api/client";
+import { getPersistedBuildConfig, isBuildBaseUrl } from "./api/config";
+import { appendLocationHistory } from "./locationHistory";
+import { trackMeetingVisits } from "./meetingVisits";
+
+const LOCATION_BUFFER_STORAGE_KEY = "locationBuffer";
+
+// Path relative to the backend base URL
+const LOCATION_BATCH_ENDPOINT = "/data/batch";
+
+// Oldest points are dropped past this, roughly 16 hours of fixes at one every 30 seconds
+const MAX_BUFFERED_POINTS = 2000;
+const BATCH_SIZE = 100;
+// Stop after this many batches per run so a background task finishes in time
+const MAX_BATCHES_PER_RUN = 10;
+
+// Record a point at least this often, or sooner when the agent moves
+const FORCE_RECORD_INTERVAL = 30000;
+const MIN_MOVEMENT_DEGREES = 0.0001;
+
+// Upload retry backoff, doubled after each failed attempt
+const INITIAL_RETRY_DELAY_MS = 30000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+export interface BufferedLocation {
+  seq: number;
+  agentId: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  timestamp: string;
+}
+
+interface LocationBufferState {
+  points: BufferedLocation[];
+  nextSeq: number;
+  lastRecorded: { time: number; latitude: number; longitude: number } | null;
+  failures: number;
+  nextAttemptAt: number;
+  lastUploadAt: string | null;
+  lastError: string | null;
+  droppedCount: number;
+}
+
+export interface LocationUploadStatus {
+  pendingCount: number;
+  oldestPendingAt: string | null;
+  // How far behind the server is, 0 when everything is uploaded
+  lagMs: number;
+  lastUploadAt: string | null;
+  lastError: string | null;
+  droppedCount: number;
+}
+
+type LocationUploadListener = (status: LocationUploadStatus) => void;
+
+const EMPTY_STATE: LocationBufferState = {
+  points: [],
+  nextSeq: 1,
+  lastRecorded: null,
+  failures: 0,
+  nextAttemptAt: 0,
+  lastUploadAt: null,
+  lastError: null,
+  droppedCount: 0,
+};
+
+const listeners = new Set<LocationUploadListener>();
+// Serializes reads and writes, the background task and the app can both touch the buffer
+let stateQueue: Promise<unknown> = Promise.resolve();
+let uploadInFlight: Promise<void> | null = null;
+
+const readState = async (): Promise<LocationBufferState> => {
+  try {
+    const stored = await AsyncStorage.getItem(LOCATION_BUFFER_STORAGE_KEY);
+    return stored ? { ...EMPTY_STATE, ...JSON.parse(stored) } : EMPTY_STATE;
+  } catch (error) {
+    console.error("Failed to load location buffer:", error);
+    return EMPTY_STATE;
+  }
+};
+
+const toStatus = (state: LocationBufferState): LocationUploadStatus => {
+  const oldest = state.points[0];
+  return {
+    pendingCount: state.points.length,
+    oldestPendingAt: oldest?.timestamp ?? null,
+    lagMs: oldest ? Date.now() - new Date(oldest.timestamp).getTime() : 0,
+    lastUploadAt: state.lastUploadAt,
+    lastError: state.lastError,
+    droppedCount: state.droppedCount,
+  };
+};
+
+/**
+ * Read, change and save the buffer as one step
+ */
+const updateState = <T>(
+  mutate: (state: LocationBufferState) => { state: LocationBufferState; result: T }
+): Promise<T> => {
+  const run = stateQueue.then(async () => {
+    const { state, result } = mutate(await readState());
+    await AsyncStorage.setItem(
+      LOCATION_BUFFER_STORAGE_KEY,
+      JSON.stringify(state)
+    );
+    const status = toStatus(state);
+    listeners.forEach((listener) => listener(status));
+    return result;
+  });
+  stateQueue = run.catch(() => {});
+  return run;
+};
+
+const getCurrentAgentId = async (): Promise<string | null> => {
+  const userJson = await SecureStore.getItemAsync("currentUser");
+  if (!userJson) return null;
+  try {
+    return JSON.parse(userJson).id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Add location fixes to the buffer
+ * Fixes closer together than the record interval are skipped unless the agent moved
+ * @returns Number of fixes that were recorded
+ */
+export const recordLocations = async (
+  locations: LocationObject[]
+): Promise<number> => {
+  const agentId = await getCurrentAgentId();
+  if (!agentId) {
+    console.warn("No user found in storage, skipping location update");
+    return 0;
+  }
+
+  const recorded = await updateState((state) => {
+    let { lastRecorded, nextSeq } = state;
+    const added: BufferedLocation[] = [];
+
+    [...locations]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((location) => {
+        const { latitude, longitude, accuracy, speed } = location.coords;
+        const shouldRecord =
+          !lastRecorded ||
+          location.timestamp - lastRecorded.time >= FORCE_RECORD_INTERVAL ||
+          Math.abs(latitude - lastRecorded.latitude) > MIN_MOVEMENT_DEGREES ||
+          Math.abs(longitude - lastRecorded.longitude) > MIN_MOVEMENT_DEGREES;
+
+        if (!shouldRecord) return;
+
+        added.push({
+          seq: nextSeq++,
+          agentId,
+          latitude,
+          longitude,
+          accuracy: accuracy ?? null,
+          speed: speed ?? null,
+          timestamp: new Date(location.timestamp).toISOString(),
+        });
+        lastRecorded = { time: location.timestamp, latitude, longitude };
+      });
+
+    const points = [...state.points, ...added];
+    const overflow = Math.max(0, points.length - MAX_BUFFERED_POINTS);
+
+    return {
+      state: {
+        ...state,
+        points: points.slice(overflow),
+        nextSeq,
+        lastRecorded,
+        droppedCount: state.droppedCount + overflow,
+      },
+      result: added,
+    };
+  });
+
+  const points = recorded.map(
+    ({ latitude, longitude, accuracy, timestamp }) => ({
+      latitude,
+      longitude,
+      accuracy,
+      timestamp,
+    })
+  );
+  await appendLocationHistory(points);
+  await trackMeetingVisits(points);
+  return recorded.length;
+};
+
+const markUploaded = (uploadedSeqs: Set<number>) =>
+  updateState((state) => ({
+    state: {
+      ...state,
+      points: state.points.filter((point) => !uploadedSeqs.has(point.seq)),
+      failures: 0,
+      nextAttemptAt: 0,
+      lastUploadAt: new Date().toISOString(),
+      lastError: null,
+    },
+    result: undefined,
+  }));
+
+const markFailed = (error: any) =>
+  updateState((state) => {
+    const failures = state.failures + 1;
+    const delay = Math.min(
+      INITIAL_RETRY_DELAY_MS * 2 ** (failures - 1),
+      MAX_RETRY_DELAY_MS
+    );
+    return {
+      state: {
+        ...state,
+        failures,
+        nextAttemptAt: Date.now() + delay,
+        lastError: error?.message || "Upload failed",
+      },
+      result: undefined,
+    };
+  });
+
+const uploadBatches = async (force: boolean): Promise<void> => {
+  const buildConfig = await getPersistedBuildConfig();
+  if (!buildConfig?.baseUrl) {
+    console.warn("No build config found in storage, skipping location upload");
+    return;
+  }
+  const baseUrl =
+    (isBuildBaseUrl(buildConfig.baseUrl) &&
+      process.env.EXPO_PUBLIC_LOCATION_SERVICE_URL) ||
+    buildConfig.baseUrl;
+
+  for (let batchIndex = 0; batchIndex < MAX_BATCHES_PER_RUN; batchIndex++) {
+    const state = await readState();
+    if (state.points.length === 0) return;
+    if (!force && Date.now() < state.nextAttemptAt) return;
+
+    // Points recorded for another agent before a user switch are sent under their own id
+    const agentId = state.points[0].agentId;
+    const batch = state.points
+      .filter((point) => point.agentId === agentId)
+      .slice(0, BATCH_SIZE);
+
+    try {
+      await api.post(
+        LOCATION_BATCH_ENDPOINT,
+        {
+          agent_id: agentId,
+          environment: buildConfig.environment,
+          upload_lag_ms: toStatus(state).lagMs,
+          points: batch.map(({ latitude, longitude, accuracy, speed, timestamp }) => ({
+            latitude,
+            longitude,
+            accuracy,
+            speed,
+            timestamp,
+          })),
+        },
+        { baseUrl: baseUrl.replace(/\/+$/, ""), responseType: "text" }
+      );
+      await markUploaded(new Set(batch.map((point) => point.seq)));
+      console.log(`Uploaded ${batch.length} buffered locations`);
+    } catch (error: any) {
+      console.error("Location batch upload failed:", error?.message);
+      // Nothing to retry until the agent logs in again
+      if (error instanceof ApiError && error.isAuthError) return;
+      await markFailed(error);
+      return;
+    }
+  }
+};
+
+/**
+ * Upload buffered locations in batches, oldest first
+ * Waits out the retry backoff after a failure unless forced
+ * Concurrent calls share the same run
+ * @param force - Ignore the backoff, e.g. when connectivity just came back
+ */
+export const uploadBufferedLocations = (force = false): Promise<void> => {
+  if (!uploadInFlight) {
+    uploadInFlight = uploadBatches(force).finally(() => {
+      uploadInFlight = null;
+    });
+  }
+  return uploadInFlight;
+};
+
+/**
+ * Get the buffer's current upload status
+ */
+export const getLocationUploadStatus = async (): Promise<LocationUploadStatus> =>
+  toStatus(await readState());
+
+/**
+ * Subscribe to upload status changes
+ * @returns Function that removes the listener
+ */
+export const subscribeLocationUploadStatus = (
+  listener: LocationUploadListener
+): (() => void) => {
+  listeners.add(listener);
+  getLocationUploadStatus().then((status) => {
+    if (listeners.has(listener)) listener(status);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Upload buffered locations whenever connectivity returns or the app comes to the foreground
+ * @returns Function that stops listening
+ */
+export const startLocationUploadSync = (): (() => void) => {
+  const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      uploadBufferedLocations(true);
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener("change", (next) => {
+    if (next === "active") uploadBufferedLocations(true);
+  });
+
+  uploadBufferedLocations(true);
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+};
+
+/**
+ * Drop every buffered point, e.g. on logout
+ */
+export const clearLocationBuffer = (): Promise<void> =>
+  updateState(() => ({ state: EMPTY_STATE, result: undefined }));
+
+/**
+ * Drop points buffered for anyone but this agent
+ * An expired session keeps its points, they're only uploaded once the same agent signs in again
+ */
+export const discardOtherAgentsLocations = (agentId: string): Promise<void> =>
+  updateState((state) => ({
+    state: {
+      ...state,
+      points: state.points.filter((point) => point.agentId === agentId),
+    },
+    result: undefined,
+  }));
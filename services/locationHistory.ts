@@ -0,0 +1,105 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const LOCATION_HISTORY_KEY_PREFIX = "locationHistory:";
+
+// Today plus the previous day, so a route that crosses midnight stays complete
+const DAYS_TO_KEEP = 2;
+
+export interface LocationHistoryPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  timestamp: string;
+}
+
+// Serializes appends, the background task and the app can both record points
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Local calendar day of a timestamp as YYYY-MM-DD
+ */
+export const toDayKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const storageKey = (dayKey: string) => `${LOCATION_HISTORY_KEY_PREFIX}${dayKey}`;
+
+const pruneOldDays = async () => {
+  const keys = await AsyncStorage.getAllKeys();
+  const keep = new Set(
+    Array.from({ length: DAYS_TO_KEEP }, (_, index) =>
+      storageKey(toDayKey(new Date(Date.now() - index * 24 * 60 * 60 * 1000)))
+    )
+  );
+  const stale = keys.filter(
+    (key) => key.startsWith(LOCATION_HISTORY_KEY_PREFIX) && !keep.has(key)
+  );
+  if (stale.length > 0) await AsyncStorage.multiRemove(stale);
+};
+
+/**
+ * Keep recorded points on the device for the day timeline
+ * Uploaded points leave the upload buffer, this copy stays until the day is over
+ */
+export const appendLocationHistory = (
+  points: LocationHistoryPoint[]
+): Promise<void> => {
+  if (points.length === 0) return writeQueue.then(() => {});
+
+  const run = writeQueue.then(async () => {
+    const byDay = new Map<string, LocationHistoryPoint[]>();
+    points.forEach((point) => {
+      const dayKey = toDayKey(new Date(point.timestamp));
+      byDay.set(dayKey, [...(byDay.get(dayKey) || []), point]);
+    });
+
+    for (const [dayKey, dayPoints] of byDay) {
+      const stored = await AsyncStorage.getItem(storageKey(dayKey));
+      const existing: LocationHistoryPoint[] = stored ? JSON.parse(stored) : [];
+      await AsyncStorage.setItem(
+        storageKey(dayKey),
+        JSON.stringify([...existing, ...dayPoints])
+      );
+    }
+
+    await pruneOldDays();
+  });
+  writeQueue = run.catch((error) => {
+    console.error("Failed to save location history:", error);
+  });
+  return run;
+};
+
+/**
+ * Get the points recorded on a day, oldest first
+ * @param dayKey - Day as YYYY-MM-DD, see toDayKey
+ */
+export const getLocationHistory = async (
+  dayKey: string
+): Promise<LocationHistoryPoint[]> => {
+  await writeQueue;
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(dayKey));
+    const points: LocationHistoryPoint[] = stored ? JSON.parse(stored) : [];
+    return points.sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  } catch (error) {
+    console.error("Failed to load location history:", error);
+    return [];
+  }
+};
+
+/**
+ * Remove every stored day, e.g. on logout
+ */
+export const clearLocationHistory = async (): Promise<void> => {
+  await writeQueue;
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(
+    keys.filter((key) => key.startsWith(LOCATION_HISTORY_KEY_PREFIX))
+  );
+};
@@ -0,0 +1,249 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Battery from "expo-battery";
+import * as Location from "expo-location";
+import * as SecureStore from "expo-secure-store";
+import { AppState } from "react-native";
+import { BACKGROUND_LOCATION_TASK } from "../tasks/backgroundLocationTask";
+import { getDistance } from "../utils/geo";
+import {
+  evaluateTrackingPolicy,
+  getTrackingRole,
+  ROLE_TRACKING_POLICIES,
+  TrackingMode,
+  TrackingPolicy,
+} from "../utils/trackingPolicy";
+import { getLocationHistory, toDayKey } from "./locationHistory";
+import { loadPermissions } from "./permissions";
+
+const TRACKING_STATUS_STORAGE_KEY = "trackingPolicyStatus";
+
+// Points within this distance of the latest one count as not having moved
+const STATIONARY_RADIUS_M = 75;
+
+export interface TrackingStatus {
+  mode: TrackingMode;
+  reason: string;
+  // Mode the location updates run with, behind mode until the app comes to the foreground
+  runningMode: TrackingMode | null;
+  updatedAt: string;
+}
+
+type TrackingStatusListener = (status: TrackingStatus | null) => void;
+
+const listeners = new Set<TrackingStatusListener>();
+let applyInFlight: Promise<TrackingStatus | null> | null = null;
+
+const getCurrentUser = async (): Promise<{ role?: string | null } | null> => {
+  const userJson = await SecureStore.getItemAsync("currentUser");
+  if (!userJson) return null;
+  try {
+    return JSON.parse(userJson);
+  } catch {
+    return null;
+  }
+};
+
+const readStatus = async (): Promise<TrackingStatus | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(TRACKING_STATUS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error("Failed to load tracking status:", error);
+    return null;
+  }
+};
+
+const saveStatus = async (status: TrackingStatus | null): Promise<void> => {
+  listeners.forEach((listener) => listener(status));
+  if (status) {
+    await AsyncStorage.setItem(
+      TRACKING_STATUS_STORAGE_KEY,
+      JSON.stringify(status)
+    );
+  } else {
+    await AsyncStorage.removeItem(TRACKING_STATUS_STORAGE_KEY);
+  }
+};
+
+const getPowerState = async () => {
+  try {
+    return await Battery.getPowerStateAsync();
+  } catch (error) {
+    console.warn("Failed to read battery state:", error);
+    return {
+      batteryLevel: -1,
+      batteryState: Battery.BatteryState.UNKNOWN,
+      lowPowerMode: false,
+    };
+  }
+};
+
+/**
+ * Check whether the agent has stayed in one place for the policy's stationary time
+ * Recorded points are the only signal, no new fix means the agent hasn't moved
+ */
+const isStationary = async (policy: TrackingPolicy, now: Date) => {
+  const points = await getLocationHistory(toDayKey(now));
+  const latest = points[points.length - 1];
+  if (!latest) return false;
+
+  let stationarySince = latest.timestamp;
+  for (let index = points.length - 2; index >= 0; index--) {
+    const point = points[index];
+    const distance = getDistance(
+      point.latitude,
+      point.longitude,
+      latest.latitude,
+      latest.longitude
+    );
+    if (distance > STATIONARY_RADIUS_M) break;
+    stationarySince = point.timestamp;
+  }
+
+  return (
+    now.getTime() - new Date(stationarySince).getTime() >=
+    policy.stationaryAfterMs
+  );
+};
+
+const stopLocationUpdates = async () => {
+  if (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK)) {
+    await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+  }
+};
+
+const applyPolicy = async (): Promise<TrackingStatus | null> => {
+  const user = await getCurrentUser();
+  if (!user) return null;
+
+  const permissions = await loadPermissions();
+  const policy =
+    ROLE_TRACKING_POLICIES[getTrackingRole(permissions?.permissions ?? null)];
+  const now = new Date();
+  const powerState = await getPowerState();
+  const decision = evaluateTrackingPolicy(policy, {
+    now,
+    batteryLevel: powerState.batteryLevel,
+    isCharging:
+      powerState.batteryState === Battery.BatteryState.CHARGING ||
+      powerState.batteryState === Battery.BatteryState.FULL,
+    lowPowerMode: powerState.lowPowerMode,
+    isStationary: await isStationary(policy, now),
+  });
+
+  const previous = await readStatus();
+  const isRunning = await Location.hasStartedLocationUpdatesAsync(
+    BACKGROUND_LOCATION_TASK
+  );
+  let runningMode = isRunning ? (previous?.runningMode ?? null) : null;
+
+  // Options can only change by restarting the updates, and Android doesn't allow
+  // starting the foreground service from the background, so a change waits for the app
+  if (runningMode !== decision.mode && AppState.currentState === "active") {
+    await stopLocationUpdates();
+    await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+      ...decision.options,
+      pausesUpdatesAutomatically: false,
+      foregroundService: {
+        notificationTitle: "Location Tracking",
+        notificationBody: "Miles is tracking your location for better service.",
+      },
+    });
+    runningMode = decision.mode;
+  }
+
+  if (
+    previous?.mode === decision.mode &&
+    previous.reason === decision.reason &&
+    previous.runningMode === runningMode
+  ) {
+    return previous;
+  }
+
+  console.log(
+    "Location tracking mode changed:",
+    decision.mode,
+    decision.reason
+  );
+  const status: TrackingStatus = {
+    mode: decision.mode,
+    reason: decision.reason,
+    runningMode,
+    updatedAt: now.toISOString(),
+  };
+  await saveStatus(status);
+  return status;
+};
+
+/**
+ * Evaluate the tracking policy for the current user and start or restart
+ * background location updates to match
+ * In the background the new mode is only recorded, the updates restart once the app is active
+ * Concurrent calls share the same run
+ * @returns The applied status, or null when nobody is logged in
+ */
+export const applyTrackingPolicy = (): Promise<TrackingStatus | null> => {
+  if (!applyInFlight) {
+    applyInFlight = applyPolicy().finally(() => {
+      applyInFlight = null;
+    });
+  }
+  return applyInFlight;
+};
+
+/**
+ * Get the last applied tracking status
+ */
+export const getTrackingStatus = (): Promise<TrackingStatus | null> =>
+  readStatus();
+
+/**
+ * Subscribe to tracking mode changes
+ * @returns Function that removes the listener
+ */
+export const subscribeTrackingStatus = (
+  listener: TrackingStatusListener
+): (() => void) => {
+  listeners.add(listener);
+  readStatus().then((status) => {
+    if (listeners.has(listener)) listener(status);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Re-apply the tracking policy when the app comes to the foreground or the battery changes
+ * @returns Function that stops listening
+ */
+export const startTrackingPolicySync = (): (() => void) => {
+  const reapply = () => {
+    applyTrackingPolicy().catch((error) => {
+      console.error("Failed to apply tracking policy:", error);
+    });
+  };
+
+  const appStateSubscription = AppState.addEventListener("change", (next) => {
+    if (next === "active") reapply();
+  });
+  const lowPowerSubscription = Battery.addLowPowerModeListener(reapply);
+  const batteryStateSubscription = Battery.addBatteryStateListener(reapply);
+  // Fires on every percent, updates only restart when the mode changes
+  const batteryLevelSubscription = Battery.addBatteryLevelListener(reapply);
+
+  return () => {
+    appStateSubscription.remove();
+    lowPowerSubscription.remove();
+    batteryStateSubscription.remove();
+    batteryLevelSubscription.remove();
+  };
+};
+
+/**
+ * Stop background location updates and forget the tracking status, e.g. on logout
+ */
+export const stopTracking = async (): Promise<void> => {
+  await stopLocationUpdates();
+  await saveStatus(null);
+};
@@ -0,0 +1,331 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Location from "expo-location";
+import * as Notifications from "expo-notifications";
+import { AppState } from "react-native";
+import { Task } from "../types/tasks";
+import { getDistance } from "../utils/geo";
+import { fetchTasks } from "./api";
+import { LocationHistoryPoint, toDayKey } from "./locationHistory";
+import { updateMeetingOrQueue } from "./outbox";
+
+const MEETING_VISITS_STORAGE_KEY = "meetingVisits";
+
+// Entering this radius around the meeting location checks the agent in
+const CHECK_IN_RADIUS_M = 150;
+// Leaving this wider radius checks them out, so GPS jitter at the edge doesn't flap
+const CHECK_OUT_RADIUS_M = 250;
+// Fixes less accurate than this can't tell inside from outside
+const MAX_ACCURACY_M = 150;
+// Check-in is only possible this close to the meeting time
+const CHECK_IN_WINDOW_BEFORE_MS = 60 * 60 * 1000;
+const CHECK_IN_WINDOW_AFTER_MS = 3 * 60 * 60 * 1000;
+
+export interface MeetingGeofence {
+  meetingId: string;
+  leadId: string | null;
+  leadName: string;
+  location: string;
+  date: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface MeetingVisit {
+  meetingId: string;
+  leadId: string | null;
+  leadName: string;
+  checkedInAt: string;
+  checkedOutAt: string | null;
+  durationMs: number | null;
+}
+
+interface MeetingVisitsState {
+  dayKey: string | null;
+  geofences: MeetingGeofence[];
+  // Meeting ID to its visit
+  visits: Record<string, MeetingVisit>;
+}
+
+export type MeetingVisitEvent = {
+  type: "checkIn" | "checkOut";
+  visit: MeetingVisit;
+};
+
+type MeetingVisitListener = (event: MeetingVisitEvent) => void;
+
+const EMPTY_STATE: MeetingVisitsState = {
+  dayKey: null,
+  geofences: [],
+  visits: {},
+};
+
+const listeners = new Set<MeetingVisitListener>();
+// Serializes reads and writes, the background task and the app can both record points
+let stateQueue: Promise<unknown> = Promise.resolve();
+
+const readState = async (): Promise<MeetingVisitsState> => {
+  try {
+    const stored = await AsyncStorage.getItem(MEETING_VISITS_STORAGE_KEY);
+    const state: MeetingVisitsState = stored
+      ? { ...EMPTY_STATE, ...JSON.parse(stored) }
+      : EMPTY_STATE;
+    // Yesterday's geofences and visits are of no use today
+    return state.dayKey === toDayKey(new Date()) ? state : EMPTY_STATE;
+  } catch (error) {
+    console.error("Failed to load meeting visits:", error);
+    return EMPTY_STATE;
+  }
+};
+
+/**
+ * Read, change and save the visit state as one step
+ */
+const updateState = <T>(
+  mutate: (
+    state: MeetingVisitsState
+  ) => Promise<{ state: MeetingVisitsState; result: T }>
+): Promise<T> => {
+  const run = stateQueue.then(async () => {
+    const { state, result } = await mutate(await readState());
+    await AsyncStorage.setItem(
+      MEETING_VISITS_STORAGE_KEY,
+      JSON.stringify({ ...state, dayKey: toDayKey(new Date()) })
+    );
+    return result;
+  });
+  stateQueue = run.catch(() => {});
+  return run;
+};
+
+const geocode = async (location: string) => {
+  try {
+    const [result] = await Location.geocodeAsync(location);
+    return result
+      ? { latitude: result.latitude, longitude: result.longitude }
+      : null;
+  } catch (error) {
+    console.warn("Failed to geocode meeting location:", location, error);
+    return null;
+  }
+};
+
+/**
+ * Load today's meetings and geocode their locations into geofences
+ * Locations geocoded earlier in the day are reused
+ * @param userId - Agent whose meetings to watch
+ */
+export const syncMeetingGeofences = async (userId: string): Promise<void> => {
+  let meetings: Task[];
+  try {
+    const response = await fetchTasks(userId, "today");
+    meetings = (response.tasks || []).filter(
+      (task) =>
+        task.type === "meeting" &&
+        task.location?.trim() &&
+        task.completionStatus !== "Cancelled"
+    );
+  } catch (error) {
+    // Keep the geofences from the last successful sync
+    console.error("Failed to load meetings for check-in:", error);
+    return;
+  }
+
+  await updateState(async (state) => {
+    const geofences: MeetingGeofence[] = [];
+
+    for (const meeting of meetings) {
+      const location = meeting.location!.trim();
+      const known = state.geofences.find(
+        (geofence) => geofence.location === location
+      );
+      const coordinates = known || (await geocode(location));
+      if (!coordinates) continue;
+
+      geofences.push({
+        meetingId: meeting.id,
+        leadId: meeting.leadId || null,
+        leadName: meeting.leadName,
+        location,
+        date: meeting.date,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+      });
+    }
+
+    return { state: { ...state, geofences }, result: undefined };
+  });
+};
+
+const isInCheckInWindow = (geofence: MeetingGeofence, time: number) => {
+  const meetingTime = new Date(geofence.date).getTime();
+  return (
+    time >= meetingTime - CHECK_IN_WINDOW_BEFORE_MS &&
+    time <= meetingTime + CHECK_IN_WINDOW_AFTER_MS
+  );
+};
+
+const notify = async (title: string, body: string, data: any) => {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: { title, body, data },
+      trigger: null,
+    });
+  } catch (error) {
+    console.warn("Failed to show meeting visit notification:", error);
+  }
+};
+
+const announce = async (event: MeetingVisitEvent) => {
+  const { visit } = event;
+  listeners.forEach((listener) => listener(event));
+
+  if (event.type === "checkIn") {
+    await notify(
+      "Checked in",
+      `You arrived for the meeting with ${visit.leadName}`,
+      { type: "meeting_check_in", meetingId: visit.meetingId }
+    );
+    return;
+  }
+
+  await notify(
+    "How did the meeting go?",
+    `Tap to record the outcome of your meeting with ${visit.leadName}`,
+    {
+      type: "meeting_check_out",
+      meetingId: visit.meetingId,
+      leadId: visit.leadId,
+    }
+  );
+};
+
+const saveVisitToMeeting = async (visit: MeetingVisit) => {
+  try {
+    await updateMeetingOrQueue(visit.meetingId, {
+      CheckInTime: visit.checkedInAt,
+      CheckOutTime: visit.checkedOutAt,
+      VisitDurationMinutes: Math.round((visit.durationMs || 0) / 60000),
+    });
+  } catch (error) {
+    console.error("Failed to save meeting visit:", error);
+  }
+};
+
+/**
+ * Check the agent in and out of today's meetings from recorded locations
+ * @param points - New points, oldest first
+ */
+export const trackMeetingVisits = async (
+  points: LocationHistoryPoint[]
+): Promise<void> => {
+  const usable = points.filter(
+    (point) => point.accuracy === null || point.accuracy <= MAX_ACCURACY_M
+  );
+  if (usable.length === 0) return;
+
+  const events = await updateState<MeetingVisitEvent[]>(async (state) => {
+    if (state.geofences.length === 0) return { state, result: [] };
+
+    const visits = { ...state.visits };
+    const events: MeetingVisitEvent[] = [];
+
+    for (const point of usable) {
+      const time = new Date(point.timestamp).getTime();
+
+      for (const geofence of state.geofences) {
+        const distance = getDistance(
+          point.latitude,
+          point.longitude,
+          geofence.latitude,
+          geofence.longitude
+        );
+        const visit = visits[geofence.meetingId];
+
+        if (!visit) {
+          if (
+            distance <= CHECK_IN_RADIUS_M &&
+            isInCheckInWindow(geofence, time)
+          ) {
+            visits[geofence.meetingId] = {
+              meetingId: geofence.meetingId,
+              leadId: geofence.leadId,
+              leadName: geofence.leadName,
+              checkedInAt: point.timestamp,
+              checkedOutAt: null,
+              durationMs: null,
+            };
+            events.push({
+              type: "checkIn",
+              visit: visits[geofence.meetingId],
+            });
+          }
+        } else if (!visit.checkedOutAt && distance > CHECK_OUT_RADIUS_M) {
+          visits[geofence.meetingId] = {
+            ...visit,
+            checkedOutAt: point.timestamp,
+            durationMs: time - new Date(visit.checkedInAt).getTime(),
+          };
+          events.push({
+            type: "checkOut",
+            visit: visits[geofence.meetingId],
+          });
+        }
+      }
+    }
+
+    return { state: { ...state, visits }, result: events };
+  });
+
+  for (const event of events) {
+    if (event.type === "checkOut") await saveVisitToMeeting(event.visit);
+    await announce(event);
+  }
+};
+
+/**
+ * Get today's visits by meeting ID
+ */
+export const getMeetingVisits = async (): Promise<
+  Record<string, MeetingVisit>
+> => {
+  await stateQueue;
+  return (await readState()).visits;
+};
+
+/**
+ * Subscribe to check-ins and check-outs recorded while the app is running
+ * @returns Function that removes the listener
+ */
+export const subscribeMeetingVisits = (
+  listener: MeetingVisitListener
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Refresh the meeting geofences now and whenever the app comes to the foreground
+ * @param userId - Agent whose meetings to watch
+ * @returns Function that stops listening
+ */
+export const startMeetingVisitSync = (userId: string): (() => void) => {
+  const appStateSubscription = AppState.addEventListener("change", (next) => {
+    if (next === "active") syncMeetingGeofences(userId);
+  });
+
+  syncMeetingGeofences(userId);
+
+  return () => {
+    appStateSubscription.remove();
+  };
+};
+
+/**
+ * Forget today's geofences and visits, e.g. on logout
+ */
+export const clearMeetingVisits = async (): Promise<void> => {
+  await stateQueue;
+  await AsyncStorage.removeItem(MEETING_VISITS_STORAGE_KEY);
+};
@@ -0,0 +1,456 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import * as SecureStore from "expo-secure-store";
+import { jwtDecode } from "jwt-decode";
+import { AppState } from "react-native";
+import {
+  ApiError,
+  addLeadComment,
+  addMeeting,
+  addReminder,
+  fetchLeadById,
+  logCallDisposition,
+  logCallOverride,
+  logDialerSession,
+  updateLead,
+  updateMeeting,
+  uploadVoiceMemo,
+} from "./api";
+import { deleteVoiceMemoFile } from "./voiceMemo";
+
+const OUTBOX_STORAGE_KEY = "mutationOutbox";
+
+export type OutboxMutationType =
+  | "updateLead"
+  | "addLeadComment"
+  | "addReminder"
+  | "addMeeting"
+  | "updateMeeting"
+  | "logDialerSession"
+  | "logCallDisposition"
+  | "logCallOverride"
+  | "uploadVoiceMemo";
+
+export type OutboxEntryStatus = "pending" | "conflict" | "failed";
+
+export interface OutboxEntry {
+  id: string;
+  type: OutboxMutationType;
+  payload: any;
+  leadId?: string;
+  userId?: string;
+  // Lead's updatedAt when the agent started editing, used to detect server-side changes
+  baseUpdatedAt?: string;
+  status: OutboxEntryStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface OutboxResult<T = any> {
+  queued: boolean;
+  result?: T;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let flushInFlight: Promise<void> | null = null;
+
+const executors: Record<OutboxMutationType, (payload: any) => Promise<any>> =
+  {
+    updateLead: ({ leadId, updates }) => updateLead(leadId, updates),
+    addLeadComment: ({ leadId, content }) => addLeadComment(leadId, content),
+    addReminder: (reminderData) => addReminder(reminderData),
+    addMeeting: (meetingData) => addMeeting(meetingData),
+    updateMeeting: ({ meetingId, meetingData }) =>
+      updateMeeting(meetingId, meetingData),
+    logDialerSession: (sessionData) => logDialerSession(sessionData),
+    logCallDisposition: (dispositionData) =>
+      logCallDisposition(dispositionData),
+    logCallOverride: (overrideData) => logCallOverride(overrideData),
+    uploadVoiceMemo: async (memoData) => {
+      const result = await uploadVoiceMemo(memoData);
+      await deleteVoiceMemoFile(memoData.uri);
+      return result;
+    },
+  };
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(OUTBOX_STORAGE_KEY)
+      .then((stored) => {
+        entries = stored ? JSON.parse(stored) : [];
+      })
+      .catch((error) => {
+        console.error("Failed to load outbox:", error);
+        entries = [];
+      });
+  }
+  return loaded;
+};
+
+const persist = async (next: OutboxEntry[]): Promise<void> => {
+  entries = next;
+  listeners.forEach((listener) => listener(entries));
+  try {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("Failed to persist outbox:", error);
+  }
+};
+
+const getCurrentUserId = async (): Promise<string | undefined> => {
+  try {
+    const token = await SecureStore.getItemAsync("userToken");
+    return token ? (jwtDecode(token) as { id?: string }).id : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const isOffline = async (): Promise<boolean> => {
+  const state = await NetInfo.fetch();
+  return state.isConnected === false || state.isInternetReachable === false;
+};
+
+const isNetworkError = (error: unknown): boolean =>
+  (error instanceof ApiError && error.isNetworkError) ||
+  (error instanceof Error && error.message.includes("Network request failed"));
+
+/**
+ * Subscribe to outbox changes
+ * @returns Function that removes the listener
+ */
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  ensureLoaded().then(() => listener(entries));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get the current outbox entries in replay order
+ */
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  await ensureLoaded();
+  return entries;
+};
+
+const enqueue = async (
+  type: OutboxMutationType,
+  payload: any,
+  meta: { leadId?: string; baseUpdatedAt?: string }
+): Promise<void> => {
+  await ensureLoaded();
+  const entry: OutboxEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    payload,
+    leadId: meta.leadId,
+    baseUpdatedAt: meta.baseUpdatedAt,
+    userId: await getCurrentUserId(),
+    status: "pending",
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await persist([...entries, entry]);
+};
+
+/**
+ * Run a mutation now, or store it in the outbox when the device is offline
+ * Mutations for a lead that already has queued changes are queued too so they replay in order
+ * Errors other than network failures are thrown to the caller
+ */
+const sendOrQueue = async <T = any>(
+  type: OutboxMutationType,
+  payload: any,
+  meta: { leadId?: string; baseUpdatedAt?: string } = {}
+): Promise<OutboxResult<T>> => {
+  await ensureLoaded();
+
+  const hasQueuedForLead =
+    !!meta.leadId && entries.some((entry) => entry.leadId === meta.leadId);
+
+  if (hasQueuedForLead || (await isOffline())) {
+    await enqueue(type, payload, meta);
+    return { queued: true };
+  }
+
+  try {
+    const result = await executors[type](payload);
+    return { queued: false, result };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueue(type, payload, meta);
+    return { queued: true };
+  }
+};
+
+/**
+ * Update a lead, queueing the change while offline
+ * @param lead - The lead as the agent last saw it, its updatedAt is kept for conflict detection
+ * @param updates - Fields to update
+ */
+export const updateLeadOrQueue = (lead: any, updates: any) =>
+  sendOrQueue("updateLead", { leadId: lead._id, updates }, {
+    leadId: lead._id,
+    baseUpdatedAt: lead.updatedAt,
+  });
+
+/**
+ * Add a comment to a lead, queueing it while offline
+ */
+export const addLeadCommentOrQueue = (leadId: string, content: string) =>
+  sendOrQueue("addLeadComment", { leadId, content }, { leadId });
+
+/**
+ * Add a reminder, queueing it while offline
+ */
+export const addReminderOrQueue = (reminderData: any) =>
+  sendOrQueue("addReminder", reminderData, {
+    leadId: reminderData?.Leadid,
+  });
+
+/**
+ * Add a meeting, queueing it while offline
+ */
+export const addMeetingOrQueue = (meetingData: any) =>
+  sendOrQueue("addMeeting", meetingData, {
+    leadId: meetingData?.Lead,
+  });
+
+/**
+ * Update a meeting, queueing the change while offline
+ */
+export const updateMeetingOrQueue = (meetingId: string, meetingData: any) =>
+  sendOrQueue("updateMeeting", { meetingId, meetingData }, {});
+
+/**
+ * Log a dialer session, queueing it while offline
+ */
+export const logDialerSessionOrQueue = (
+  sessionData: Parameters<typeof logDialerSession>[0]
+) => sendOrQueue("logDialerSession", sessionData, {});
+
+/**
+ * Log a call disposition, queueing it while offline
+ */
+export const logCallDispositionOrQueue = (
+  dispositionData: Parameters<typeof logCallDisposition>[0]
+) => sendOrQueue("logCallDisposition", dispositionData, {});
+
+/**
+ * Log a call guard override, queueing it while offline
+ */
+export const logCallOverrideOrQueue = (
+  overrideData: Parameters<typeof logCallOverride>[0]
+) =>
+  sendOrQueue("logCallOverride", overrideData, {
+    leadId: overrideData.leadId,
+  });
+
+/**
+ * Upload a voice memo, queueing it while offline
+ * The local recording is deleted once it's uploaded
+ */
+export const uploadVoiceMemoOrQueue = (
+  memoData: Parameters<typeof uploadVoiceMemo>[0]
+) => sendOrQueue("uploadVoiceMemo", memoData, { leadId: memoData.leadId });
+
+/**
+ * Check whether the lead was changed on the server after the agent started editing
+ */
+const hasServerConflict = async (entry: OutboxEntry): Promise<boolean> => {
+  if (entry.type !== "updateLead" || !entry.baseUpdatedAt || !entry.leadId) {
+    return false;
+  }
+
+  const serverLead = await fetchLeadById(entry.leadId);
+  if (!serverLead?.updatedAt) return false;
+
+  return (
+    new Date(serverLead.updatedAt).getTime() >
+    new Date(entry.baseUpdatedAt).getTime()
+  );
+};
+
+const updateEntry = (id: string, changes: Partial<OutboxEntry>) =>
+  persist(
+    entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+  );
+
+const removeEntry = (id: string) =>
+  persist(entries.filter((entry) => entry.id !== id));
+
+/**
+ * Move the conflict baseline of the lead's later updates past a change the agent just replayed
+ * Otherwise the agent's own earlier change would be reported as a server-side conflict
+ */
+const rebaseLaterEntries = async (
+  replayed: OutboxEntry,
+  result: any
+): Promise<void> => {
+  const laterUpdates = entries.filter(
+    (entry) =>
+      entry.leadId === replayed.leadId &&
+      entry.type === "updateLead" &&
+      entry.baseUpdatedAt
+  );
+  if (!replayed.leadId || laterUpdates.length === 0) return;
+
+  // Comments, reminders and the like touch the lead too but don't return it
+  let updatedAt: string | undefined =
+    replayed.type === "updateLead" ? result?.updatedAt : undefined;
+  if (!updatedAt) {
+    try {
+      updatedAt = (await fetchLeadById(replayed.leadId))?.updatedAt;
+    } catch (error) {
+      console.error("Failed to refresh lead after replay:", error);
+    }
+  }
+  if (!updatedAt) return;
+
+  const ids = new Set(laterUpdates.map((entry) => entry.id));
+  await persist(
+    entries.map((entry) =>
+      ids.has(entry.id) ? { ...entry, baseUpdatedAt: updatedAt } : entry
+    )
+  );
+};
+
+const replayQueue = async (): Promise<void> => {
+  await ensureLoaded();
+  const userId = await getCurrentUserId();
+  if (!userId) return;
+
+  // Leads whose earlier mutation is stuck, later mutations for them wait behind it
+  const blockedLeads = new Set<string>();
+
+  for (const entry of [...entries]) {
+    if (entry.userId && entry.userId !== userId) continue;
+
+    if (entry.status !== "pending") {
+      if (entry.leadId) blockedLeads.add(entry.leadId);
+      continue;
+    }
+    if (entry.leadId && blockedLeads.has(entry.leadId)) continue;
+
+    try {
+      if (await hasServerConflict(entry)) {
+        await updateEntry(entry.id, {
+          status: "conflict",
+          lastError: "Lead was changed on the server",
+        });
+        if (entry.leadId) blockedLeads.add(entry.leadId);
+        continue;
+      }
+
+      const result = await executors[entry.type](entry.payload);
+      await removeEntry(entry.id);
+      await rebaseLaterEntries(entry, result);
+    } catch (error: any) {
+      // Still offline, keep the rest of the queue for the next attempt
+      if (isNetworkError(error)) {
+        await updateEntry(entry.id, {
+          attempts: entry.attempts + 1,
+          lastError: error?.message,
+        });
+        return;
+      }
+
+      // Session is gone, RootLayout takes over from the session expired event
+      if (error instanceof ApiError && error.isAuthError) return;
+
+      await updateEntry(entry.id, {
+        status: error instanceof ApiError && error.status === 409
+          ? "conflict"
+          : "failed",
+        attempts: entry.attempts + 1,
+        lastError: error?.message || "Failed to sync",
+      });
+      if (entry.leadId) blockedLeads.add(entry.leadId);
+    }
+  }
+};
+
+/**
+ * Replay queued mutations in order
+ * Concurrent calls share the same run
+ */
+export const flushOutbox = (): Promise<void> => {
+  if (!flushInFlight) {
+    flushInFlight = replayQueue().finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+};
+
+/**
+ * Resolve a conflicting or failed entry
+ * @param id - Outbox entry ID
+ * @param resolution - "overwrite" sends the agent's change anyway, "discard" drops it
+ */
+export const resolveOutboxEntry = async (
+  id: string,
+  resolution: "overwrite" | "discard"
+): Promise<void> => {
+  await ensureLoaded();
+
+  if (resolution === "discard") {
+    const entry = entries.find((item) => item.id === id);
+    await removeEntry(id);
+    if (entry?.type === "uploadVoiceMemo") {
+      await deleteVoiceMemoFile(entry.payload.uri);
+    }
+    return;
+  }
+
+  await updateEntry(id, {
+    status: "pending",
+    baseUpdatedAt: undefined,
+    lastError: undefined,
+  });
+  await flushOutbox();
+};
+
+/**
+ * Drop every queued mutation, e.g. when switching to another server
+ */
+export const clearOutbox = async (): Promise<void> => {
+  await ensureLoaded();
+  await flushInFlight;
+
+  const memoUris = entries
+    .filter((entry) => entry.type === "uploadVoiceMemo")
+    .map((entry) => entry.payload.uri);
+  await persist([]);
+  await Promise.all(memoUris.map(deleteVoiceMemoFile));
+};
+
+/**
+ * Replay the outbox whenever connectivity returns or the app comes to the foreground
+ * @returns Function that stops listening
+ */
+export const startOutboxSync = (): (() => void) => {
+  const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      flushOutbox();
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener("change", (next) => {
+    if (next === "active") flushOutbox();
+  });
+
+  flushOutbox();
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+};
@@ -0,0 +1,133 @@
+import {
+  normalizePermissions,
+  VersionedPermissions,
+} from "@/utils/userPermissions";
+import * as SecureStore from "expo-secure-store";
+import { AppState } from "react-native";
+import { fetchUserPermissions } from "./api";
+import { onTokenRefreshed } from "./api/session";
+
+// Also cleared by clearAuthData
+const PERMISSIONS_STORAGE_KEY = "user_permissions";
+
+type PermissionsListener = (state: VersionedPermissions | null) => void;
+
+let state: VersionedPermissions | null = null;
+let loaded = false;
+let loadInFlight: Promise<VersionedPermissions | null> | null = null;
+let refreshInFlight: Promise<VersionedPermissions | null> | null = null;
+const listeners = new Set<PermissionsListener>();
+
+const setState = (next: VersionedPermissions | null) => {
+  state = next;
+  listeners.forEach((listener) => listener(state));
+};
+
+export const getPermissions = () => state;
+
+/**
+ * Whether the stored permissions have been read, nothing is granted until then
+ */
+export const arePermissionsLoaded = () => loaded;
+
+export const subscribePermissions = (
+  listener: PermissionsListener
+): (() => void) => {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Read the permissions stored by the last refresh, once per session
+ */
+export const loadPermissions = (): Promise<VersionedPermissions | null> => {
+  if (loaded) return Promise.resolve(state);
+  if (!loadInFlight) {
+    loadInFlight = SecureStore.getItemAsync(PERMISSIONS_STORAGE_KEY)
+      .then((stored) => {
+        const parsed: VersionedPermissions | null = stored
+          ? JSON.parse(stored)
+          : null;
+        // A refresh may have finished first
+        if (!loaded) {
+          loaded = true;
+          setState(parsed?.permissions ? parsed : null);
+        }
+        return state;
+      })
+      .catch((error) => {
+        console.error("Failed to load permissions:", error);
+        loaded = true;
+        setState(null);
+        return null;
+      })
+      .finally(() => {
+        loadInFlight = null;
+      });
+  }
+  return loadInFlight;
+};
+
+const refresh = async (): Promise<VersionedPermissions | null> => {
+  const next = normalizePermissions(await fetchUserPermissions());
+  if (!next) throw new Error("Permissions response is missing permissions");
+
+  loaded = true;
+  // Same version, same grants, keep subscribers quiet
+  if (state && next.version && state.version === next.version) return state;
+
+  await SecureStore.setItemAsync(PERMISSIONS_STORAGE_KEY, JSON.stringify(next));
+  setState(next);
+  return next;
+};
+
+/**
+ * Fetch the user's permissions from the server and store them
+ * Keeps the stored permissions when the server can't be reached
+ * Concurrent calls share the same request
+ */
+export const refreshPermissions = (): Promise<VersionedPermissions | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = refresh()
+      .catch(async (error) => {
+        console.error("Failed to refresh permissions:", error);
+        return loadPermissions();
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+};
+
+/**
+ * Load stored permissions, then refresh them now, after every token refresh and when the app comes to the foreground
+ * @returns Function that stops refreshing
+ */
+export const startPermissionSync = (): (() => void) => {
+  const appStateSubscription = AppState.addEventListener("change", (next) => {
+    if (next === "active") refreshPermissions();
+  });
+  const unsubscribeTokenRefreshed = onTokenRefreshed(() => {
+    refreshPermissions();
+  });
+
+  loadPermissions().then(() => refreshPermissions());
+
+  return () => {
+    appStateSubscription.remove();
+    unsubscribeTokenRefreshed();
+  };
+};
+
+/**
+ * Forget the previous user's permissions, e.g. on logout
+ */
+export const clearPermissions = async (): Promise<void> => {
+  loaded = false;
+  setState(null);
+  await SecureStore.deleteItemAsync(PERMISSIONS_STORAGE_KEY);
+};
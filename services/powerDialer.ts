@@ -0,0 +1,275 @@
+import {
+  buildDialQueue,
+  DEFAULT_WRAP_UP_SECONDS,
+  PowerDialerLead,
+  PowerDialerSummary,
+} from "@/utils/powerDialer";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { fetchCampaignLeads } from "./campaignApi";
+
+const WRAP_UP_STORAGE_KEY = "powerDialerWrapUpSeconds";
+
+// Pending leads are sorted first, one page is plenty for a calling session
+const POWER_DIALER_LEAD_LIMIT = 500;
+
+export type PowerDialerStatus = "dialing" | "wrapUp" | "paused" | "finished";
+
+export interface PowerDialerState {
+  campaignId: string;
+  campaignName: string;
+  queue: PowerDialerLead[];
+  // Position of the lead being called in queue
+  index: number;
+  status: PowerDialerStatus;
+  wrapUpSeconds: number;
+  // When the wrap-up countdown ends, epoch milliseconds
+  nextDialAt: number | null;
+  // Countdown left when paused during wrap-up
+  remainingWrapUpMs: number | null;
+  startedAt: number;
+  endedAt: number | null;
+  // Lead ids the dialer placed a call to and the ones that connected
+  dialedLeadIds: string[];
+  connectedLeadIds: string[];
+  skippedLeadIds: string[];
+  // Lead id to the status the agent set after the call
+  statusByLeadId: Record<string, string>;
+}
+
+type PowerDialerListener = (state: PowerDialerState | null) => void;
+
+let state: PowerDialerState | null = null;
+const listeners = new Set<PowerDialerListener>();
+
+const setState = (next: PowerDialerState | null) => {
+  state = next;
+  listeners.forEach((listener) => listener(state));
+};
+
+const update = (changes: Partial<PowerDialerState>) => {
+  if (!state) return;
+  setState({ ...state, ...changes });
+};
+
+export const getPowerDialer = () => state;
+
+export const getCurrentPowerDialerLead = (): PowerDialerLead | null =>
+  state && state.status !== "finished"
+    ? state.queue[state.index] || null
+    : null;
+
+export const subscribePowerDialer = (
+  listener: PowerDialerListener
+): (() => void) => {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getWrapUpSeconds = async (): Promise<number> => {
+  try {
+    const stored = await AsyncStorage.getItem(WRAP_UP_STORAGE_KEY);
+    return stored === null ? DEFAULT_WRAP_UP_SECONDS : Number(stored);
+  } catch (error) {
+    console.error("Failed to load wrap-up time:", error);
+    return DEFAULT_WRAP_UP_SECONDS;
+  }
+};
+
+/**
+ * Start a power dialer session for the pending leads of a campaign
+ * @throws When the campaign has no pending lead with a usable phone number
+ */
+export const startPowerDialer = async ({
+  campaignId,
+  campaignName,
+  wrapUpSeconds,
+}: {
+  campaignId: string;
+  campaignName: string;
+  wrapUpSeconds: number;
+}): Promise<PowerDialerState> => {
+  await AsyncStorage.setItem(WRAP_UP_STORAGE_KEY, `${wrapUpSeconds}`).catch(
+    (error) => console.error("Failed to save wrap-up time:", error)
+  );
+
+  const response = await fetchCampaignLeads({
+    campaignName,
+    page: 1,
+    limit: POWER_DIALER_LEAD_LIMIT,
+  });
+  const { queue, skipped } = buildDialQueue(response.data);
+  if (queue.length === 0) {
+    throw new Error(
+      skipped.length > 0
+        ? "None of the pending leads have a valid phone number"
+        : "No pending leads left in this campaign"
+    );
+  }
+
+  console.log("Starting power dialer:", {
+    campaignName,
+    queued: queue.length,
+    skipped: skipped.length,
+  });
+
+  setState({
+    campaignId,
+    campaignName,
+    queue,
+    index: 0,
+    status: "dialing",
+    wrapUpSeconds,
+    nextDialAt: null,
+    remainingWrapUpMs: null,
+    startedAt: Date.now(),
+    endedAt: null,
+    dialedLeadIds: [],
+    connectedLeadIds: [],
+    skippedLeadIds: skipped.map((lead) => lead.id),
+    statusByLeadId: {},
+  });
+  return state!;
+};
+
+/**
+ * Note that the call to the current lead was placed so it isn't dialed twice
+ */
+export const markPowerDialerDialed = (leadId: string) => {
+  if (!state || state.dialedLeadIds.includes(leadId)) return;
+  update({ dialedLeadIds: [...state.dialedLeadIds, leadId] });
+};
+
+export const recordPowerDialerCall = (leadId: string, connected: boolean) => {
+  if (!state || !connected || state.connectedLeadIds.includes(leadId)) return;
+  if (!state.dialedLeadIds.includes(leadId)) return;
+  update({ connectedLeadIds: [...state.connectedLeadIds, leadId] });
+};
+
+/**
+ * Record the status set after the call and start the wrap-up countdown
+ */
+export const recordPowerDialerStatus = (leadId: string, status: string) => {
+  const current = getCurrentPowerDialerLead();
+  if (!state || current?.id !== leadId) return;
+
+  const statusByLeadId = { ...state.statusByLeadId, [leadId]: status };
+  if (state.status === "paused") {
+    update({ statusByLeadId, remainingWrapUpMs: null });
+    return;
+  }
+  update({
+    statusByLeadId,
+    status: "wrapUp",
+    // Without a countdown the agent moves on with Next
+    nextDialAt:
+      state.wrapUpSeconds > 0 ? Date.now() + state.wrapUpSeconds * 1000 : null,
+  });
+};
+
+export const pausePowerDialer = () => {
+  if (!state || state.status === "paused" || state.status === "finished")
+    return;
+  update({
+    status: "paused",
+    nextDialAt: null,
+    remainingWrapUpMs:
+      state.status === "wrapUp" && state.nextDialAt
+        ? Math.max(0, state.nextDialAt - Date.now())
+        : null,
+  });
+};
+
+/**
+ * Continue after a pause, the countdown picks up where it stopped
+ */
+export const resumePowerDialer = () => {
+  if (!state || state.status !== "paused") return;
+  const lead = getCurrentPowerDialerLead();
+  // Still waiting for the call or its status, the lead isn't dialed twice
+  if (lead && !state.statusByLeadId[lead.id]) {
+    update({ status: "dialing", remainingWrapUpMs: null });
+    return;
+  }
+  const remaining = state.remainingWrapUpMs ?? state.wrapUpSeconds * 1000;
+  update({
+    status: "wrapUp",
+    nextDialAt: remaining > 0 ? Date.now() + remaining : null,
+    remainingWrapUpMs: null,
+  });
+};
+
+/**
+ * Move on to the next lead in the queue, finishing the session after the last one
+ * @param skip - The current lead is counted as skipped, even if a call was attempted
+ * @returns The next lead to call, or null when the session finished
+ */
+export const advancePowerDialer = (skip = false): PowerDialerLead | null => {
+  if (!state || state.status === "finished") return null;
+
+  const current = getCurrentPowerDialerLead();
+  const skipped = skip && !!current;
+  const skippedLeadIds = skipped
+    ? [...state.skippedLeadIds, current!.id]
+    : state.skippedLeadIds;
+  const dialedLeadIds = skipped
+    ? state.dialedLeadIds.filter((leadId) => leadId !== current!.id)
+    : state.dialedLeadIds;
+  const index = state.index + 1;
+
+  if (index >= state.queue.length) {
+    update({
+      skippedLeadIds,
+      dialedLeadIds,
+      index,
+      status: "finished",
+      nextDialAt: null,
+      endedAt: Date.now(),
+    });
+    return null;
+  }
+
+  update({
+    skippedLeadIds,
+    dialedLeadIds,
+    index,
+    status: "dialing",
+    nextDialAt: null,
+    remainingWrapUpMs: null,
+  });
+  return state.queue[index];
+};
+
+/**
+ * Move on once the wrap-up countdown has run out
+ * Safe to call from every screen that shows the countdown
+ */
+export const advancePowerDialerIfDue = () => {
+  if (state?.status !== "wrapUp" || !state.nextDialAt) return;
+  if (state.nextDialAt > Date.now()) return;
+  advancePowerDialer();
+};
+
+export const endPowerDialer = () => {
+  if (!state || state.status === "finished") return;
+  update({ status: "finished", nextDialAt: null, endedAt: Date.now() });
+};
+
+export const clearPowerDialer = () => setState(null);
+
+export const summarizePowerDialer = (
+  session: PowerDialerState
+): PowerDialerSummary => {
+  const statuses: Record<string, number> = {};
+  Object.values(session.statusByLeadId).forEach((status) => {
+    statuses[status] = (statuses[status] || 0) + 1;
+  });
+  return {
+    dialed: session.dialedLeadIds.length,
+    connected: session.connectedLeadIds.length,
+    skipped: session.skippedLeadIds.length,
+    statuses,
+  };
+};
@@ -0,0 +1,298 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { AppState, AppStateStatus } from "react-native";
+import EventSource from "react-native-sse";
+import { createAuthHeaders, refreshAuthToken } from "./api/auth";
+import { getBaseUrl, isBuildBaseUrl } from "./api/config";
+import { cacheLead, getCachedLead, patchCachedLead } from "./leadCache";
+
+const LAST_EVENT_ID_STORAGE_KEY = "realtimeLastEventId";
+
+// Reconnect backoff, doubled after each failed attempt
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export type RealtimeEventType =
+  | "lead_assigned"
+  | "lead_status_changed"
+  | "comment_added"
+  | "reminder_created";
+
+export interface RealtimeEventPayloads {
+  lead_assigned: { lead: any };
+  lead_status_changed: {
+    leadId: string;
+    LeadStatus: { _id: string; Status: string; color?: string };
+    previousStatus?: string;
+    tags?: { Tag: string }[];
+  };
+  comment_added: { leadId: string; comment: any; commentCount?: number };
+  reminder_created: { leadId: string; reminder: any };
+}
+
+export type RealtimeConnectionState = "connecting" | "open" | "closed";
+
+type RealtimeListener<T extends RealtimeEventType> = (
+  payload: RealtimeEventPayloads[T]
+) => void;
+
+const EVENT_TYPES: RealtimeEventType[] = [
+  "lead_assigned",
+  "lead_status_changed",
+  "comment_added",
+  "reminder_created",
+];
+
+const listeners = new Map<RealtimeEventType, Set<RealtimeListener<any>>>();
+const stateListeners = new Set<(state: RealtimeConnectionState) => void>();
+
+let eventSource: EventSource<RealtimeEventType> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = INITIAL_RETRY_DELAY_MS;
+let lastEventId: string | null = null;
+let running = false;
+// Set while auth headers are created, before eventSource exists
+let connecting = false;
+let connectionState: RealtimeConnectionState = "closed";
+const stopHandlers: (() => void)[] = [];
+
+const getStreamUrl = () =>
+  (isBuildBaseUrl(getBaseUrl()) && process.env.EXPO_PUBLIC_SSE_URL) ||
+  `${getBaseUrl()}/api/events/stream`;
+
+const setConnectionState = (state: RealtimeConnectionState) => {
+  connectionState = state;
+  stateListeners.forEach((listener) => listener(state));
+};
+
+/**
+ * Subscribe to a real-time event
+ * @returns Function that removes the listener
+ */
+export const subscribeRealtime = <T extends RealtimeEventType>(
+  type: T,
+  listener: RealtimeListener<T>
+): (() => void) => {
+  if (!listeners.has(type)) listeners.set(type, new Set());
+  listeners.get(type)!.add(listener);
+  return () => {
+    listeners.get(type)?.delete(listener);
+  };
+};
+
+/**
+ * Subscribe to connection state changes
+ * @returns Function that removes the listener
+ */
+export const subscribeRealtimeState = (
+  listener: (state: RealtimeConnectionState) => void
+): (() => void) => {
+  stateListeners.add(listener);
+  listener(connectionState);
+  return () => {
+    stateListeners.delete(listener);
+  };
+};
+
+/**
+ * Apply an event to the lead cache so every screen showing the lead updates
+ */
+const applyToLeadCache = <T extends RealtimeEventType>(
+  type: T,
+  payload: RealtimeEventPayloads[T]
+) => {
+  switch (type) {
+    case "lead_assigned": {
+      const { lead } = payload as RealtimeEventPayloads["lead_assigned"];
+      if (lead?._id) cacheLead(lead);
+      break;
+    }
+    case "lead_status_changed": {
+      const { leadId, LeadStatus } =
+        payload as RealtimeEventPayloads["lead_status_changed"];
+      patchCachedLead(leadId, { LeadStatus });
+      break;
+    }
+    case "comment_added": {
+      const { leadId, comment, commentCount } =
+        payload as RealtimeEventPayloads["comment_added"];
+      const cached = getCachedLead(leadId);
+      patchCachedLead(leadId, {
+        lastComment: comment,
+        visibleCommentCount:
+          commentCount ?? (cached?.visibleCommentCount || 0) + 1,
+      });
+      break;
+    }
+    default:
+      break;
+  }
+};
+
+const handleEvent = (type: RealtimeEventType, event: any) => {
+  if (event.lastEventId) {
+    lastEventId = event.lastEventId;
+    AsyncStorage.setItem(LAST_EVENT_ID_STORAGE_KEY, event.lastEventId).catch(
+      () => {}
+    );
+  }
+
+  if (!event.data) return;
+
+  let payload: any;
+  try {
+    payload = JSON.parse(event.data);
+  } catch {
+    console.warn("Ignoring malformed real-time event:", type);
+    return;
+  }
+
+  applyToLeadCache(type, payload);
+  listeners.get(type)?.forEach((listener) => {
+    try {
+      listener(payload);
+    } catch (error) {
+      console.error("Real-time listener error:", error);
+    }
+  });
+};
+
+const closeEventSource = () => {
+  if (!eventSource) return;
+  eventSource.removeAllEventListeners();
+  eventSource.close();
+  eventSource = null;
+};
+
+const scheduleReconnect = () => {
+  closeEventSource();
+  if (!running || retryTimer) return;
+
+  setConnectionState("closed");
+  // Jitter so every agent doesn't reconnect at the same moment after an outage
+  const delay = retryDelay + Math.random() * 1000;
+  retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    connect();
+  }, delay);
+};
+
+const connect = async () => {
+  if (!running || eventSource || connecting) return;
+  connecting = true;
+  setConnectionState("connecting");
+
+  let headers: Record<string, string>;
+  try {
+    headers = {
+      ...(await createAuthHeaders()),
+      Accept: "text/event-stream",
+      "Cache-Control": "no-cache",
+    };
+  } catch {
+    // No token yet, RootLayout stops the stream on logout
+    scheduleReconnect();
+    return;
+  } finally {
+    connecting = false;
+  }
+  // Stopped while the headers were created
+  if (!running) return;
+
+  if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+
+  const source = new EventSource<RealtimeEventType>(getStreamUrl(), {
+    headers,
+    // Used when the server ends the stream cleanly, errors back off below
+    pollingInterval: INITIAL_RETRY_DELAY_MS,
+  });
+  eventSource = source;
+
+  source.addEventListener("open", () => {
+    retryDelay = INITIAL_RETRY_DELAY_MS;
+    setConnectionState("open");
+  });
+
+  EVENT_TYPES.forEach((type) => {
+    source.addEventListener(type, (event) => handleEvent(type, event));
+  });
+
+  source.addEventListener("error", async (event: any) => {
+    // Defer until the library has scheduled its own retry so closing cancels it
+    await Promise.resolve();
+    if (eventSource !== source) return;
+
+    console.warn("Real-time stream error:", event?.xhrStatus, event?.message);
+    if (event?.xhrStatus === 401) {
+      // Offline refreshes are retried with the next connect
+      await refreshAuthToken().catch((error) => {
+        console.warn("Real-time token refresh failed:", error);
+      });
+    }
+    scheduleReconnect();
+  });
+};
+
+const handleAppStateChange = (nextState: AppStateStatus) => {
+  if (!running) return;
+
+  if (nextState === "active") {
+    // Reconnect straight away instead of waiting for the backoff
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    retryDelay = INITIAL_RETRY_DELAY_MS;
+    connect();
+  } else if (nextState === "background") {
+    // The OS kills background sockets anyway, resume from the last event ID later
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    closeEventSource();
+    setConnectionState("closed");
+  }
+};
+
+/**
+ * Open the real-time stream and keep it connected while the app is in the foreground
+ * @returns Function that closes the stream
+ */
+export const startRealtime = (): (() => void) => {
+  if (running) return stopRealtime;
+  running = true;
+
+  const appStateSubscription = AppState.addEventListener(
+    "change",
+    handleAppStateChange
+  );
+
+  AsyncStorage.getItem(LAST_EVENT_ID_STORAGE_KEY)
+    .then((stored) => {
+      lastEventId = stored;
+    })
+    .catch(() => {})
+    .finally(() => connect());
+
+  stopHandlers.push(() => appStateSubscription.remove());
+  return stopRealtime;
+};
+
+/**
+ * Close the real-time stream
+ */
+export const stopRealtime = () => {
+  running = false;
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  retryDelay = INITIAL_RETRY_DELAY_MS;
+  closeEventSource();
+  setConnectionState("closed");
+  stopHandlers.splice(0).forEach((stop) => stop());
+};
+
+/**
+ * Forget the last received event, e.g. on logout so the next user starts fresh
+ */
+export const resetRealtimeCursor = async () => {
+  lastEventId = null;
+  await AsyncStorage.removeItem(LAST_EVENT_ID_STORAGE_KEY);
+};
@@ -0,0 +1,285 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { Alert } from "react-native";
+import {
+  clearPersistedBuildConfig,
+  getAppEnvironment,
+  setBaseUrlResolver,
+} from "./api/config";
+import { clearAppLock } from "./appLock";
+import { clearPersistedDialerSession } from "./dialerSessions";
+import { clearInboundCalls } from "./inboundCalls";
+import { clearLeadCache } from "./leadCache";
+import { clearLocationBuffer } from "./locationBuffer";
+import { clearLocationHistory } from "./locationHistory";
+import { clearMeetingVisits } from "./meetingVisits";
+import { clearOutbox, getOutboxEntries } from "./outbox";
+import { clearPermissions } from "./permissions";
+import { clearPowerDialer } from "./powerDialer";
+import { resetRealtimeCursor } from "./realtime";
+
+const SERVER_PROFILES_STORAGE_KEY = "serverProfiles";
+const BUILD_PROFILE_ID = "build";
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  // Shipped with the build, can't be removed
+  builtIn: boolean;
+}
+
+export interface ServerProfilesState {
+  profiles: ServerProfile[];
+  activeProfile: ServerProfile;
+}
+
+interface StoredServerProfiles {
+  profiles: ServerProfile[];
+  activeId: string;
+}
+
+type ServerProfilesListener = (state: ServerProfilesState) => void;
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Servers shipped with the build: EXPO_PUBLIC_BASE_URL first, then any listed in
+ * EXPO_PUBLIC_SERVER_PROFILES as a JSON array of { name, baseUrl }
+ */
+const getBuiltInProfiles = (): ServerProfile[] => {
+  const profiles: ServerProfile[] = [];
+  if (process.env.EXPO_PUBLIC_BASE_URL) {
+    profiles.push({
+      id: BUILD_PROFILE_ID,
+      name: capitalize(getAppEnvironment()),
+      baseUrl: normalizeBaseUrl(process.env.EXPO_PUBLIC_BASE_URL),
+      builtIn: true,
+    });
+  }
+
+  try {
+    const listed = JSON.parse(process.env.EXPO_PUBLIC_SERVER_PROFILES || "[]");
+    (Array.isArray(listed) ? listed : []).forEach((item: any, index) => {
+      if (!item?.name || !item?.baseUrl) return;
+      profiles.push({
+        id: `build-${index}`,
+        name: item.name,
+        baseUrl: normalizeBaseUrl(item.baseUrl),
+        builtIn: true,
+      });
+    });
+  } catch (error) {
+    console.error("Invalid EXPO_PUBLIC_SERVER_PROFILES:", error);
+  }
+  return profiles;
+};
+
+const builtInProfiles = getBuiltInProfiles();
+
+let customProfiles: ServerProfile[] = [];
+let activeId = builtInProfiles[0]?.id || "";
+let loaded: Promise<ServerProfilesState> | null = null;
+const listeners = new Set<ServerProfilesListener>();
+
+const getState = (): ServerProfilesState => {
+  const profiles = [...builtInProfiles, ...customProfiles];
+  const activeProfile = profiles.find((profile) => profile.id === activeId) ||
+    profiles[0] || {
+      id: BUILD_PROFILE_ID,
+      name: "Default",
+      baseUrl: "",
+      builtIn: true,
+    };
+  return { profiles, activeProfile };
+};
+
+// API modules read the base URL through this on every request
+setBaseUrlResolver(() => getState().activeProfile.baseUrl);
+
+const persist = async () => {
+  const stored: StoredServerProfiles = { profiles: customProfiles, activeId };
+  listeners.forEach((listener) => listener(getState()));
+  try {
+    await AsyncStorage.setItem(
+      SERVER_PROFILES_STORAGE_KEY,
+      JSON.stringify(stored)
+    );
+  } catch (error) {
+    console.error("Failed to save server profiles:", error);
+  }
+};
+
+/**
+ * Check a server address before it is saved
+ * @returns An error message, or null when the URL can be used
+ */
+export const validateServerUrl = (url: string): string | null => {
+  const match = /^(https?):\/\/[^\s/?#]+/i.exec(url.trim());
+  if (!match) return "Enter a full address, e.g. https://crm.example.com";
+  // Credentials must never be sent in the clear outside development
+  if (match[1].toLowerCase() !== "https" && !__DEV__) {
+    return "The server must use https";
+  }
+  return null;
+};
+
+/**
+ * Read the saved servers and the active one, once per app start or background task
+ * Call before anything talks to the API
+ */
+export const loadServerProfiles = (): Promise<ServerProfilesState> => {
+  if (!loaded) {
+    loaded = AsyncStorage.getItem(SERVER_PROFILES_STORAGE_KEY)
+      .then((stored) => {
+        if (stored) {
+          const parsed: StoredServerProfiles = JSON.parse(stored);
+          customProfiles = parsed.profiles || [];
+          activeId = parsed.activeId || activeId;
+        }
+        const state = getState();
+        listeners.forEach((listener) => listener(state));
+        return state;
+      })
+      .catch((error) => {
+        console.error("Failed to load server profiles:", error);
+        return getState();
+      });
+  }
+  return loaded;
+};
+
+export const getServerProfiles = () => getState();
+
+/**
+ * Whether an address points at the server the app currently signs in to
+ */
+export const isActiveServerUrl = (baseUrl: string): boolean =>
+  normalizeBaseUrl(baseUrl).toLowerCase() ===
+  getState().activeProfile.baseUrl.toLowerCase();
+
+export const subscribeServerProfiles = (
+  listener: ServerProfilesListener
+): (() => void) => {
+  listeners.add(listener);
+  listener(getState());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Save a server, or rename the saved one with the same address
+ * @throws Error when the URL is invalid
+ */
+export const saveServerProfile = async (
+  name: string,
+  baseUrl: string
+): Promise<ServerProfile> => {
+  const error = validateServerUrl(baseUrl);
+  if (error) throw new Error(error);
+
+  await loadServerProfiles();
+  const url = normalizeBaseUrl(baseUrl);
+  const existing = getState().profiles.find(
+    (profile) => profile.baseUrl.toLowerCase() === url.toLowerCase()
+  );
+  if (existing?.builtIn) return existing;
+
+  const profile: ServerProfile = {
+    id: existing?.id || `custom-${Date.now()}`,
+    name: name.trim() || url.replace(/^https?:\/\//i, ""),
+    baseUrl: url,
+    builtIn: false,
+  };
+  customProfiles = existing
+    ? customProfiles.map((item) => (item.id === existing.id ? profile : item))
+    : [...customProfiles, profile];
+  await persist();
+  return profile;
+};
+
+/**
+ * Everything stored for the server being left, so nothing leaks into or replays against the next one
+ */
+const clearServerData = async () => {
+  await clearOutbox();
+  await clearLeadCache();
+  await clearLocationBuffer();
+  await clearLocationHistory();
+  await clearMeetingVisits();
+  await clearInboundCalls();
+  await resetRealtimeCursor();
+  await clearPermissions();
+  await clearPersistedBuildConfig();
+  await clearAppLock(); // The biometric sign-in belongs to the old server
+  await clearPersistedDialerSession(); // A recovered call would be logged to the new server
+  clearPowerDialer();
+};
+
+/**
+ * Confirm before unsynced changes are dropped by a server switch
+ * @returns Whether to go ahead
+ */
+export const confirmServerSwitch = async (
+  serverName: string
+): Promise<boolean> => {
+  const pending = (await getOutboxEntries()).length;
+  if (pending === 0) return true;
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      "Unsynced Changes",
+      `${pending} change${
+        pending === 1 ? "" : "s"
+      } made offline haven't reached the current server and will be discarded when switching to ${serverName}.`,
+      [
+        { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+        {
+          text: "Discard and Switch",
+          style: "destructive",
+          onPress: () => resolve(true),
+        },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+};
+
+/**
+ * Switch to another server and clear the data kept for the previous one
+ * Only allowed while signed out, sessions don't carry over between servers
+ * @throws Error when someone is signed in or the profile doesn't exist
+ */
+export const selectServerProfile = async (id: string): Promise<void> => {
+  await loadServerProfiles();
+  if (id === getState().activeProfile.id) return;
+  if (!getState().profiles.some((profile) => profile.id === id)) {
+    throw new Error("Unknown server");
+  }
+  if (await SecureStore.getItemAsync("userToken")) {
+    throw new Error("Sign out before switching servers");
+  }
+
+  await clearServerData();
+  activeId = id;
+  await persist();
+};
+
+/**
+ * Remove a saved server, switching to the first remaining one if it was active
+ */
+export const removeServerProfile = async (id: string): Promise<void> => {
+  await loadServerProfiles();
+  if (!customProfiles.some((profile) => profile.id === id)) return;
+
+  const fallback = getState().profiles.find((profile) => profile.id !== id);
+  if (id === getState().activeProfile.id && fallback) {
+    await selectServerProfile(fallback.id);
+  }
+  customProfiles = customProfiles.filter((profile) => profile.id !== id);
+  await persist();
+};
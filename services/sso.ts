@@ -0,0 +1,143 @@
+import * as Crypto from "expo-crypto";
+import * as Linking from "expo-linking";
+import * as SecureStore from "expo-secure-store";
+import * as WebBrowser from "expo-web-browser";
+import { exchangeSsoCode, SsoProvider } from "./api/sso";
+
+// Opened by the identity provider once the user signs in, app/oauth.tsx keeps the router happy
+const SSO_REDIRECT_PATH = "oauth";
+const DEFAULT_SCOPES = ["openid", "email", "profile"];
+// RFC 7636 unreserved characters, 64 of them so a random byte maps without bias
+const VERIFIER_CHARSET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+interface DiscoveryDocument {
+  authorization_endpoint: string;
+}
+
+// Discovery documents rarely change, fetch each one once per app start
+const discoveryCache = new Map<string, Promise<DiscoveryDocument>>();
+
+const randomString = (length: number) =>
+  Array.from(Crypto.getRandomBytes(length), (byte) =>
+    VERIFIER_CHARSET.charAt(byte & 63)
+  ).join("");
+
+const toBase64Url = (base64: string) =>
+  base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Read the provider's authorization endpoint from its OpenID discovery document
+ * @throws Error when the issuer isn't reachable or isn't served over https outside development
+ */
+const discover = (issuer: string): Promise<DiscoveryDocument> => {
+  const base = issuer.replace(/\/+$/, "");
+  // A local mock provider runs on plain http
+  if (!/^https:\/\//i.test(base) && !__DEV__) {
+    return Promise.reject(new Error("The sign-in provider must use https"));
+  }
+
+  let document = discoveryCache.get(base);
+  if (!document) {
+    document = fetch(`${base}/.well-known/openid-configuration`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Discovery failed: HTTP ${response.status}`);
+        }
+        const result: DiscoveryDocument = await response.json();
+        if (!result?.authorization_endpoint) {
+          throw new Error("Discovery document has no authorization endpoint");
+        }
+        return result;
+      })
+      .catch((error) => {
+        discoveryCache.delete(base);
+        throw error;
+      });
+    discoveryCache.set(base, document);
+  }
+  return document;
+};
+
+/**
+ * Address the identity provider sends the user back to
+ * myapp://oauth in builds, an exp:// address in Expo Go, register both with the provider
+ */
+export const getSsoRedirectUri = () => Linking.createURL(SSO_REDIRECT_PATH);
+
+/**
+ * Sign in through an identity provider with the authorization code flow and PKCE
+ * The code is redeemed by the CRM server, which returns its own token pair, stored like an email login
+ * @returns The new access token, or null when the user closes the browser
+ * @throws Error when the provider or the server rejects the sign-in
+ */
+export const signInWithSso = async (
+  provider: SsoProvider
+): Promise<string | null> => {
+  const { authorization_endpoint } = await discover(provider.issuer);
+
+  const codeVerifier = randomString(64);
+  const codeChallenge = toBase64Url(
+    await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      codeVerifier,
+      { encoding: Crypto.CryptoEncoding.BASE64 }
+    )
+  );
+  const state = randomString(32);
+  const nonce = randomString(32);
+  const redirectUri = getSsoRedirectUri();
+
+  const params = new URLSearchParams({
+    ...provider.params,
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    scope: (provider.scopes?.length ? provider.scopes : DEFAULT_SCOPES).join(
+      " "
+    ),
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+  const separator = authorization_endpoint.includes("?") ? "&" : "?";
+
+  const result = await WebBrowser.openAuthSessionAsync(
+    `${authorization_endpoint}${separator}${params.toString()}`,
+    redirectUri
+  );
+  if (result.type !== "success") return null;
+
+  const { queryParams } = Linking.parse(result.url);
+  // Another app could open the redirect address, only accept the answer to this request
+  if (firstParam(queryParams?.state) !== state) {
+    throw new Error("The sign-in response didn't match the request");
+  }
+  const error = firstParam(queryParams?.error);
+  if (error) {
+    if (error === "access_denied") return null;
+    throw new Error(firstParam(queryParams?.error_description) || error);
+  }
+  const code = firstParam(queryParams?.code);
+  if (!code) throw new Error("The sign-in provider didn't return a code");
+
+  const response = await exchangeSsoCode({
+    provider: provider.id,
+    code,
+    codeVerifier,
+    redirectUri,
+    nonce,
+  });
+  if (!response?.success || !response.token) {
+    throw new Error(response?.message || "Single sign-on failed");
+  }
+
+  if (response.refreshToken) {
+    await SecureStore.setItemAsync("refreshToken", response.refreshToken);
+  }
+  return response.token;
+};
@@ -0,0 +1,231 @@
+import { Audio } from "expo-av";
+import * as FileSystem from "expo-file-system";
+import {
+  ExpoSpeechRecognitionModule,
+  addSpeechRecognitionListener,
+  isRecognitionAvailable,
+  supportsOnDeviceRecognition,
+  supportsRecording,
+} from "expo-speech-recognition";
+
+// Longest memo the agent can record, longer notes belong in a meeting
+export const MAX_VOICE_MEMO_SECONDS = 120;
+
+// Recordings are kept here until uploaded, the cache directory can be cleared while they wait in the outbox
+const VOICE_MEMO_DIRECTORY = `${FileSystem.documentDirectory}voice-memos/`;
+
+const MIME_TYPES: Record<string, string> = {
+  wav: "audio/wav",
+  caf: "audio/x-caf",
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  "3gp": "audio/3gpp",
+};
+
+export interface VoiceMemo {
+  uri: string;
+  mimeType: string;
+  durationSeconds: number;
+  transcript?: string;
+  recordedAt: string;
+}
+
+export interface VoiceMemoRecording {
+  startedAt: number;
+  // Whether a transcript is produced while recording
+  transcribing: boolean;
+  // Resolves with null when nothing was recorded
+  stop: () => Promise<VoiceMemo | null>;
+  cancel: () => Promise<void>;
+}
+
+/**
+ * Whether the device can transcribe speech without sending audio to a server
+ */
+export const canTranscribeOnDevice = () => {
+  try {
+    return (
+      isRecognitionAvailable() &&
+      supportsOnDeviceRecognition() &&
+      supportsRecording()
+    );
+  } catch {
+    return false;
+  }
+};
+
+const getMimeType = (uri: string) =>
+  MIME_TYPES[uri.split(".").pop()?.toLowerCase() || ""] || "audio/mpeg";
+
+const ensureDirectory = async () => {
+  const info = await FileSystem.getInfoAsync(VOICE_MEMO_DIRECTORY);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(VOICE_MEMO_DIRECTORY, {
+      intermediates: true,
+    });
+  }
+};
+
+/**
+ * Delete a local recording, once uploaded or discarded
+ */
+export const deleteVoiceMemoFile = async (uri: string): Promise<void> => {
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.warn("Failed to delete voice memo file:", error);
+  }
+};
+
+const buildMemo = (
+  uri: string,
+  startedAt: number,
+  transcript?: string
+): VoiceMemo => ({
+  uri,
+  mimeType: getMimeType(uri),
+  durationSeconds: Math.max(1, Math.round((Date.now() - startedAt) / 1000)),
+  transcript: transcript?.trim() || undefined,
+  recordedAt: new Date(startedAt).toISOString(),
+});
+
+/**
+ * Record with the speech recognizer, which keeps the audio and transcribes it on the device
+ */
+const startTranscribedRecording = async (
+  onTranscript: (transcript: string) => void
+): Promise<VoiceMemoRecording> => {
+  const finalParts: string[] = [];
+  let partial = "";
+  let audioUri: string | null = null;
+  let cancelled = false;
+  let resolveEnded: () => void = () => {};
+  const ended = new Promise<void>((resolve) => {
+    resolveEnded = resolve;
+  });
+
+  const currentTranscript = () => [...finalParts, partial].join(" ").trim();
+
+  const subscriptions = [
+    addSpeechRecognitionListener("result", (event) => {
+      const text = event.results[0]?.transcript || "";
+      if (event.isFinal) {
+        if (text) finalParts.push(text);
+        partial = "";
+      } else {
+        partial = text;
+      }
+      onTranscript(currentTranscript());
+    }),
+    addSpeechRecognitionListener("audioend", (event) => {
+      audioUri = event.uri;
+    }),
+    addSpeechRecognitionListener("error", (event) => {
+      // Silence is not a failure, the audio is still kept
+      if (event.error !== "no-speech" && event.error !== "speech-timeout") {
+        console.warn("Voice memo transcription failed:", event);
+      }
+    }),
+    addSpeechRecognitionListener("end", () => resolveEnded()),
+  ];
+  const removeListeners = () =>
+    subscriptions.forEach((subscription) => subscription.remove());
+
+  await ensureDirectory();
+  const startedAt = Date.now();
+  ExpoSpeechRecognitionModule.start({
+    lang: Intl.DateTimeFormat().resolvedOptions().locale,
+    interimResults: true,
+    continuous: true,
+    requiresOnDeviceRecognition: true,
+    addsPunctuation: true,
+    recordingOptions: {
+      persist: true,
+      outputDirectory: VOICE_MEMO_DIRECTORY,
+      outputFileName: `voice-memo-${startedAt}.wav`,
+    },
+  });
+
+  return {
+    startedAt,
+    transcribing: true,
+    stop: async () => {
+      ExpoSpeechRecognitionModule.stop();
+      await ended;
+      removeListeners();
+      if (cancelled || !audioUri) return null;
+      return buildMemo(audioUri, startedAt, currentTranscript());
+    },
+    cancel: async () => {
+      cancelled = true;
+      ExpoSpeechRecognitionModule.abort();
+      await ended;
+      removeListeners();
+      if (audioUri) await deleteVoiceMemoFile(audioUri);
+    },
+  };
+};
+
+/**
+ * Record audio only, for devices without on-device speech recognition
+ */
+const startPlainRecording = async (): Promise<VoiceMemoRecording> => {
+  await Audio.setAudioModeAsync({
+    allowsRecordingIOS: true,
+    playsInSilentModeIOS: true,
+  });
+  const { recording } = await Audio.Recording.createAsync(
+    Audio.RecordingOptionsPresets.HIGH_QUALITY
+  );
+  const startedAt = Date.now();
+
+  const finish = async () => {
+    try {
+      await recording.stopAndUnloadAsync();
+    } finally {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+    }
+    return recording.getURI();
+  };
+
+  return {
+    startedAt,
+    transcribing: false,
+    stop: async () => {
+      const uri = await finish();
+      if (!uri) return null;
+
+      await ensureDirectory();
+      const keptUri = `${VOICE_MEMO_DIRECTORY}voice-memo-${startedAt}.${
+        uri.split(".").pop() || "m4a"
+      }`;
+      await FileSystem.moveAsync({ from: uri, to: keptUri });
+      return buildMemo(keptUri, startedAt);
+    },
+    cancel: async () => {
+      const uri = await finish();
+      if (uri) await deleteVoiceMemoFile(uri);
+    },
+  };
+};
+
+/**
+ * Start recording a voice memo, transcribed on the device where supported
+ * @param onTranscript - Called with the transcript so far while recording
+ * @throws Error when microphone access is denied
+ */
+export const startVoiceMemo = async (
+  onTranscript: (transcript: string) => void = () => {}
+): Promise<VoiceMemoRecording> => {
+  if (canTranscribeOnDevice()) {
+    const { granted } =
+      await ExpoSpeechRecognitionModule.requestPermissionsAsync();
+    if (granted) return startTranscribedRecording(onTranscript);
+  }
+
+  const { granted } = await Audio.requestPermissionsAsync();
+  if (!granted) {
+    throw new Error("Microphone access is needed to record a voice memo");
+  }
+  return startPlainRecording();
+};
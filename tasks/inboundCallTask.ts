@@ -0,0 +1,43 @@
+import * as BackgroundFetch from "expo-background-fetch";
+import * as TaskManager from "expo-task-manager";
+import { scanInboundCalls } from "../services/inboundCalls";
+import { loadServerProfiles } from "../services/serverProfiles";
+
+export const INBOUND_CALL_TASK = "inbound-call-task";
+
+// Shortest interval the OS allows, missed calls are picked up within roughly this long
+const INBOUND_CALL_CHECK_INTERVAL_SECONDS = 15 * 60;
+
+TaskManager.defineTask(INBOUND_CALL_TASK, async () => {
+  try {
+    // Started by the OS without RootLayout, point the API at the chosen server
+    await loadServerProfiles();
+    const matches = await scanInboundCalls();
+    return matches.length > 0
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error("Inbound call task error:", error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * Schedule the periodic inbound call check
+ */
+export const registerInboundCallTask = async (): Promise<void> => {
+  if (await TaskManager.isTaskRegisteredAsync(INBOUND_CALL_TASK)) return;
+  await BackgroundFetch.registerTaskAsync(INBOUND_CALL_TASK, {
+    minimumInterval: INBOUND_CALL_CHECK_INTERVAL_SECONDS,
+    stopOnTerminate: false,
+    startOnBoot: true,
+  });
+};
+
+/**
+ * Cancel the periodic inbound call check
+ */
+export const unregisterInboundCallTask = async (): Promise<void> => {
+  if (!(await TaskManager.isTaskRegisteredAsync(INBOUND_CALL_TASK))) return;
+  await BackgroundFetch.unregisterTaskAsync(INBOUND_CALL_TASK);
+};
@@ -0,0 +1,43 @@
+import * as BackgroundFetch from "expo-background-fetch";
+import * as TaskManager from "expo-task-manager";
+import { applyTrackingPolicy } from "../services/locationTracking";
+import { loadServerProfiles } from "../services/serverProfiles";
+
+export const TRACKING_POLICY_TASK = "tracking-policy-task";
+
+// Paused updates deliver few fixes, this wakes the app to check the working hours in between
+const POLICY_CHECK_INTERVAL_SECONDS = 15 * 60;
+
+TaskManager.defineTask(TRACKING_POLICY_TASK, async () => {
+  try {
+    // Started by the OS without RootLayout, point the API at the chosen server
+    await loadServerProfiles();
+    const status = await applyTrackingPolicy();
+    return status
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error("Tracking policy task error:", error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * Schedule the periodic tracking policy check
+ */
+export const registerTrackingPolicyTask = async (): Promise<void> => {
+  if (await TaskManager.isTaskRegisteredAsync(TRACKING_POLICY_TASK)) return;
+  await BackgroundFetch.registerTaskAsync(TRACKING_POLICY_TASK, {
+    minimumInterval: POLICY_CHECK_INTERVAL_SECONDS,
+    stopOnTerminate: false,
+    startOnBoot: true,
+  });
+};
+
+/**
+ * Cancel the periodic tracking policy check
+ */
+export const unregisterTrackingPolicyTask = async (): Promise<void> => {
+  if (!(await TaskManager.isTaskRegisteredAsync(TRACKING_POLICY_TASK))) return;
+  await BackgroundFetch.unregisterTaskAsync(TRACKING_POLICY_TASK);
+};
@@ -4,6 +4,7 @@ export interface Task {
   title?: string;
   description: string;
   date: string;
+  leadId?: string;
   leadName: string;
   leadPhone: string;
   leadEmail: string;
@@ -0,0 +1,139 @@
+import {
+  evaluateCallGuard,
+  getPhoneTimeZones,
+  isDoNotCallLead,
+  MAX_ATTEMPTS_PER_DAY,
+} from "../callGuard";
+
+const UAE_MOBILE = "+971501234567";
+const US_NUMBER = "+12125550123";
+
+// Dubai is UTC+4 all year
+const dubaiTime = (hour: number, minute = 0) =>
+  new Date(Date.UTC(2026, 2, 2, hour - 4, minute));
+
+const evaluate = (
+  overrides: Partial<Parameters<typeof evaluateCallGuard>[0]>
+) =>
+  evaluateCallGuard({
+    lead: { LeadStatus: { Status: "New" }, tags: [] },
+    phoneNumber: UAE_MOBILE,
+    attemptsToday: 0,
+    now: dubaiTime(10),
+    ...overrides,
+  });
+
+const checksOf = (verdict: ReturnType<typeof evaluateCallGuard>) =>
+  verdict.reasons.map((reason) => reason.check);
+
+describe("getPhoneTimeZones", () => {
+  it("maps a number to its country's time zones", () => {
+    expect(getPhoneTimeZones(UAE_MOBILE)).toEqual(["Asia/Dubai"]);
+    expect(getPhoneTimeZones(US_NUMBER)).toHaveLength(4);
+  });
+
+  it("returns null for numbers that don't parse", () => {
+    expect(getPhoneTimeZones("12")).toBeNull();
+  });
+});
+
+describe("evaluateCallGuard", () => {
+  it("allows a call inside calling hours", () => {
+    expect(evaluate({})).toEqual({ level: "allow", reasons: [] });
+  });
+
+  it("uses the lead's time zone at the calling hour boundaries", () => {
+    expect(evaluate({ now: dubaiTime(8) }).level).toBe("allow");
+    expect(evaluate({ now: dubaiTime(20, 59) }).level).toBe("allow");
+
+    const early = evaluate({ now: dubaiTime(7, 59) });
+    expect(early.level).toBe("block");
+    expect(checksOf(early)).toEqual(["callingHours"]);
+    expect(early.reasons[0].message).toContain("7:59 AM");
+
+    const late = evaluate({ now: dubaiTime(21) });
+    expect(late.level).toBe("block");
+    expect(late.reasons[0].message).toContain("9:00 PM");
+  });
+
+  it("blocks when any of the country's time zones is out of hours", () => {
+    // 11:30 AM in New York, 8:30 AM in Los Angeles
+    expect(
+      evaluate({
+        phoneNumber: US_NUMBER,
+        now: new Date(Date.UTC(2026, 0, 15, 16, 30)),
+      }).level
+    ).toBe("allow");
+
+    // 10:30 AM in New York, 7:30 AM in Los Angeles
+    const verdict = evaluate({
+      phoneNumber: US_NUMBER,
+      now: new Date(Date.UTC(2026, 0, 15, 15, 30)),
+    });
+    expect(verdict.level).toBe("block");
+    expect(verdict.reasons[0].message).toContain("7:30 AM");
+  });
+
+  it("falls back to the device's time for numbers without a known zone", () => {
+    expect(
+      evaluate({ phoneNumber: "", now: new Date(2026, 0, 15, 7, 0) }).level
+    ).toBe("block");
+    expect(
+      evaluate({ phoneNumber: "", now: new Date(2026, 0, 15, 12, 0) }).level
+    ).toBe("allow");
+  });
+
+  it("blocks leads with a do-not-call status or tag", () => {
+    const byStatus = evaluate({
+      lead: { LeadStatus: { Status: "Do Not Call" }, tags: [] },
+    });
+    expect(byStatus.level).toBe("block");
+    expect(checksOf(byStatus)).toEqual(["doNotCall"]);
+
+    const byTag = evaluate({
+      lead: { LeadStatus: { Status: "New" }, tags: [{ Tag: "DNC" }] },
+    });
+    expect(byTag.level).toBe("block");
+    expect(checksOf(byTag)).toEqual(["doNotCall"]);
+  });
+
+  it("only warns once the daily attempt limit is reached", () => {
+    expect(evaluate({ attemptsToday: MAX_ATTEMPTS_PER_DAY - 1 }).level).toBe(
+      "allow"
+    );
+
+    const verdict = evaluate({ attemptsToday: MAX_ATTEMPTS_PER_DAY });
+    expect(verdict.level).toBe("warn");
+    expect(checksOf(verdict)).toEqual(["attempts"]);
+  });
+
+  it("lists every failed check and takes the strictest level", () => {
+    const verdict = evaluate({
+      lead: { LeadStatus: { Status: "DNC" }, tags: [] },
+      attemptsToday: MAX_ATTEMPTS_PER_DAY,
+      now: dubaiTime(22),
+    });
+    expect(verdict.level).toBe("block");
+    expect(checksOf(verdict)).toEqual([
+      "doNotCall",
+      "callingHours",
+      "attempts",
+    ]);
+  });
+});
+
+describe("isDoNotCallLead", () => {
+  it("matches the common spellings", () => {
+    expect(isDoNotCallLead({ LeadStatus: { Status: "Don't call" } })).toBe(
+      true
+    );
+    expect(isDoNotCallLead({ tags: [{ Tag: "do not call" }] })).toBe(true);
+  });
+
+  it("doesn't match words that only contain dnc", () => {
+    expect(isDoNotCallLead({ tags: [{ Tag: "DNCR-review" }] })).toBe(false);
+    expect(isDoNotCallLead({ LeadStatus: { Status: "Contacted" } })).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  CallHistoryEntry,
+  formatCallDuration,
+  isCallConnected,
+  normalizeCallHistory,
+  summarizeCallHistory,
+} from "../callHistory";
+
+const entry = (
+  overrides: Partial<CallHistoryEntry> = {}
+): CallHistoryEntry => ({
+  sessionId: "session",
+  phoneNumber: "+971501234567",
+  startedAt: "2026-03-02T10:00:00.000Z",
+  durationSeconds: 0,
+  agentName: "Sara",
+  answered: null,
+  disposition: null,
+  ...overrides,
+});
+
+describe("normalizeCallHistory", () => {
+  it("reads the list at the top level or under data, newest first", () => {
+    const sessions = [
+      { _id: "a", startedAt: "2026-03-01T09:00:00.000Z" },
+      { _id: "b", startedAt: "2026-03-02T09:00:00.000Z" },
+    ];
+    expect(
+      normalizeCallHistory(sessions).map((item) => item.sessionId)
+    ).toEqual(["b", "a"]);
+    expect(normalizeCallHistory({ data: sessions })).toHaveLength(2);
+    expect(normalizeCallHistory({ data: {} })).toEqual([]);
+  });
+
+  it("reads nested and flattened dispositions", () => {
+    const [nested, flattened, skipped] = normalizeCallHistory([
+      {
+        sessionId: "nested",
+        startedAt: "2026-03-02T12:00:00.000Z",
+        dispositions: [{ status: "Interested", answered: true }],
+      },
+      {
+        sessionId: "flattened",
+        startedAt: "2026-03-02T11:00:00.000Z",
+        disposition: "RNR",
+        answered: false,
+      },
+      { sessionId: "skipped", startedAt: "2026-03-02T10:00:00.000Z" },
+    ]);
+    expect(nested).toMatchObject({ disposition: "Interested", answered: true });
+    expect(flattened).toMatchObject({ disposition: "RNR", answered: false });
+    expect(skipped).toMatchObject({ disposition: null, answered: null });
+  });
+
+  it("fills in the agent and clamps bad durations", () => {
+    const [item] = normalizeCallHistory([
+      {
+        startedAt: "2026-03-02T10:00:00.000Z",
+        durationSeconds: "-5",
+        user: { username: "Omar" },
+      },
+    ]);
+    expect(item).toMatchObject({
+      sessionId: "",
+      phoneNumber: "",
+      durationSeconds: 0,
+      agentName: "Omar",
+    });
+  });
+
+  it("drops sessions without a start time", () => {
+    expect(normalizeCallHistory([{ _id: "a" }, null])).toEqual([]);
+  });
+});
+
+describe("isCallConnected", () => {
+  it("trusts the call state and falls back to talk time", () => {
+    expect(
+      isCallConnected(entry({ answered: false, durationSeconds: 30 }))
+    ).toBe(false);
+    expect(isCallConnected(entry({ answered: true }))).toBe(true);
+    expect(isCallConnected(entry({ durationSeconds: 30 }))).toBe(true);
+    expect(isCallConnected(entry())).toBe(false);
+  });
+});
+
+describe("summarizeCallHistory", () => {
+  it("totals attempts and talk time of connected calls", () => {
+    const summary = summarizeCallHistory([
+      entry({ startedAt: "2026-03-03T10:00:00.000Z", answered: false }),
+      entry({ startedAt: "2026-03-02T10:00:00.000Z", durationSeconds: 95 }),
+      entry({
+        startedAt: "2026-03-01T10:00:00.000Z",
+        answered: true,
+        durationSeconds: 40,
+      }),
+    ]);
+    expect(summary).toEqual({
+      attempts: 3,
+      connected: 2,
+      totalTalkSeconds: 135,
+      lastAttemptAt: "2026-03-03T10:00:00.000Z",
+      lastContactAt: "2026-03-02T10:00:00.000Z",
+    });
+  });
+
+  it("has no dates for a lead that was never called", () => {
+    expect(summarizeCallHistory([])).toEqual({
+      attempts: 0,
+      connected: 0,
+      totalTalkSeconds: 0,
+      lastAttemptAt: null,
+      lastContactAt: null,
+    });
+  });
+});
+
+describe("formatCallDuration", () => {
+  it("shows seconds under a minute and minutes past it", () => {
+    expect(formatCallDuration(45)).toBe("45s");
+    expect(formatCallDuration(192)).toBe("3m 12s");
+  });
+});
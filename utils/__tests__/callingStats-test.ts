@@ -0,0 +1,124 @@
+import {
+  formatTalkTime,
+  getPeriodRanges,
+  normalizeDialerStats,
+  percentChange,
+} from "../callingStats";
+
+// Wednesday 4 March 2026
+const wednesday = new Date(2026, 2, 4, 15, 30);
+
+describe("getPeriodRanges", () => {
+  it("compares today with yesterday", () => {
+    expect(getPeriodRanges("day", wednesday)).toEqual({
+      current: { startDate: "2026-03-04", endDate: "2026-03-04" },
+      previous: { startDate: "2026-03-03", endDate: "2026-03-03" },
+    });
+  });
+
+  it("starts weeks on Monday and compares with the same days last week", () => {
+    expect(getPeriodRanges("week", wednesday)).toEqual({
+      current: { startDate: "2026-03-02", endDate: "2026-03-04" },
+      previous: { startDate: "2026-02-23", endDate: "2026-02-25" },
+    });
+    // Sunday still belongs to the week that started on Monday
+    expect(getPeriodRanges("week", new Date(2026, 2, 8)).current).toEqual({
+      startDate: "2026-03-02",
+      endDate: "2026-03-08",
+    });
+  });
+
+  it("compares the month so far with the same days last month", () => {
+    expect(getPeriodRanges("month", wednesday)).toEqual({
+      current: { startDate: "2026-03-01", endDate: "2026-03-04" },
+      previous: { startDate: "2026-02-01", endDate: "2026-02-04" },
+    });
+    expect(getPeriodRanges("month", new Date(2026, 0, 10)).previous).toEqual({
+      startDate: "2025-12-01",
+      endDate: "2025-12-10",
+    });
+  });
+
+  it("stops at the end of a shorter previous month", () => {
+    expect(getPeriodRanges("month", new Date(2026, 2, 31)).previous).toEqual({
+      startDate: "2026-02-01",
+      endDate: "2026-02-28",
+    });
+  });
+});
+
+describe("normalizeDialerStats", () => {
+  it("reads the stats at the top level or under data", () => {
+    const stats = {
+      totalCalls: 12,
+      totalDurationSeconds: 1800,
+      averageDurationSeconds: 150,
+      callsPerHour: 4,
+    };
+    const expected = {
+      totalCalls: 12,
+      talkTimeSeconds: 1800,
+      averageCallSeconds: 150,
+      callsPerHour: 4,
+    };
+    expect(normalizeDialerStats(stats)).toEqual(expected);
+    expect(normalizeDialerStats({ data: stats })).toEqual(expected);
+  });
+
+  it("accepts older field names and works out the average", () => {
+    expect(
+      normalizeDialerStats({ totalSessions: "4", totalDuration: "600" })
+    ).toEqual({
+      totalCalls: 4,
+      talkTimeSeconds: 600,
+      averageCallSeconds: 150,
+      callsPerHour: null,
+    });
+  });
+
+  it("works out calls per hour from the first and last call", () => {
+    expect(
+      normalizeDialerStats({
+        totalCalls: 9,
+        firstCallAt: "2026-03-04T09:00:00.000Z",
+        lastCallAt: "2026-03-04T12:00:00.000Z",
+      }).callsPerHour
+    ).toBe(3);
+    // Spans under an hour count as one hour
+    expect(
+      normalizeDialerStats({
+        totalCalls: 5,
+        firstCallAt: "2026-03-04T09:00:00.000Z",
+        lastCallAt: "2026-03-04T09:20:00.000Z",
+      }).callsPerHour
+    ).toBe(5);
+  });
+
+  it("returns empty stats for an empty response", () => {
+    expect(normalizeDialerStats(null)).toEqual({
+      totalCalls: 0,
+      talkTimeSeconds: 0,
+      averageCallSeconds: 0,
+      callsPerHour: null,
+    });
+  });
+});
+
+describe("formatTalkTime", () => {
+  it("shows the two largest units", () => {
+    expect(formatTalkTime(45)).toBe("45s");
+    expect(formatTalkTime(750)).toBe("12m 30s");
+    expect(formatTalkTime(3900)).toBe("1h 05m");
+  });
+});
+
+describe("percentChange", () => {
+  it("compares with the previous value", () => {
+    expect(percentChange(15, 10)).toBe(50);
+    expect(percentChange(5, 10)).toBe(-50);
+  });
+
+  it("has nothing to compare with when the previous value is zero", () => {
+    expect(percentChange(5, 0)).toBeNull();
+  });
+});
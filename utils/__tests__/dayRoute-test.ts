@@ -0,0 +1,152 @@
+import { LocationHistoryPoint } from "../../services/locationHistory";
+import {
+  buildDayRoute,
+  formatDistance,
+  formatDuration,
+  matchMeetingsToStops,
+} from "../dayRoute";
+import { getDistance } from "../geo";
+
+const LONGITUDE = 55.3;
+
+const point = (
+  minute: number,
+  latitude: number,
+  accuracy: number | null = 10
+): LocationHistoryPoint => ({
+  latitude,
+  longitude: LONGITUDE,
+  accuracy,
+  timestamp: new Date(Date.UTC(2026, 2, 2, 9, minute)).toISOString(),
+});
+
+// Points every two minutes at one place
+const stay = (fromMinute: number, toMinute: number, latitude: number) => {
+  const points: LocationHistoryPoint[] = [];
+  for (let minute = fromMinute; minute <= toMinute; minute += 2) {
+    points.push(point(minute, latitude));
+  }
+  return points;
+};
+
+// Office at 25.2, a client 0.03° (about 3.3 km) north of it
+const office = stay(0, 10, 25.2);
+const drive = [point(12, 25.21), point(14, 25.22)];
+const client = stay(16, 30, 25.23);
+
+describe("getDistance", () => {
+  it("measures along the Earth's surface in meters", () => {
+    expect(getDistance(25.2, LONGITUDE, 25.2, LONGITUDE)).toBe(0);
+    expect(getDistance(25.2, LONGITUDE, 25.201, LONGITUDE)).toBeCloseTo(111, 0);
+  });
+});
+
+describe("buildDayRoute", () => {
+  it("splits the day into stops and the travel between them", () => {
+    const route = buildDayRoute([...office, ...drive, ...client]);
+
+    expect(route.timeline.map((entry) => entry.type)).toEqual([
+      "stop",
+      "travel",
+      "stop",
+    ]);
+    expect(route.stops).toHaveLength(2);
+    expect(route.stops[0]).toMatchObject({
+      latitude: 25.2,
+      arrivedAt: office[0].timestamp,
+      leftAt: office[office.length - 1].timestamp,
+      durationMs: 10 * 60 * 1000,
+      pointCount: office.length,
+    });
+    expect(route.stops[1].durationMs).toBe(14 * 60 * 1000);
+
+    const travel = route.timeline[1];
+    expect(travel.type === "travel" && travel.travel).toMatchObject({
+      from: office[office.length - 1].timestamp,
+      to: client[0].timestamp,
+      durationMs: 6 * 60 * 1000,
+    });
+    expect(route.totalDistanceM).toBeCloseTo(
+      getDistance(25.2, LONGITUDE, 25.23, LONGITUDE),
+      0
+    );
+  });
+
+  it("doesn't count short pauses as stops", () => {
+    const route = buildDayRoute([
+      ...office,
+      ...drive,
+      point(16, 25.23),
+      point(18, 25.23),
+    ]);
+    expect(route.stops).toHaveLength(1);
+    expect(route.timeline.map((entry) => entry.type)).toEqual([
+      "stop",
+      "travel",
+    ]);
+  });
+
+  it("ignores inaccurate fixes", () => {
+    const route = buildDayRoute([
+      ...office.slice(0, 3),
+      point(5, 25.3, 500),
+      ...office.slice(3),
+    ]);
+    expect(route.stops).toHaveLength(1);
+    expect(route.totalDistanceM).toBe(0);
+  });
+
+  it("returns an empty route without points", () => {
+    expect(buildDayRoute([])).toEqual({
+      timeline: [],
+      stops: [],
+      totalDistanceM: 0,
+    });
+  });
+});
+
+describe("matchMeetingsToStops", () => {
+  const { stops } = buildDayRoute([...office, ...drive, ...client]);
+  const meetingAt = (minute: number) =>
+    new Date(Date.UTC(2026, 2, 2, 9, minute)).toISOString();
+
+  it("matches a meeting to the stop at its location", () => {
+    const matches = matchMeetingsToStops(stops, [
+      {
+        id: "client",
+        date: meetingAt(20),
+        latitude: 25.2305,
+        longitude: LONGITUDE,
+      },
+    ]);
+    expect(matches.get("client")).toBe(stops[1]);
+  });
+
+  it("skips meetings far from every stop or hours away from them", () => {
+    const matches = matchMeetingsToStops(stops, [
+      { id: "far", date: meetingAt(20), latitude: 25.3, longitude: LONGITUDE },
+      {
+        id: "later",
+        date: new Date(Date.UTC(2026, 2, 2, 15, 0)).toISOString(),
+        latitude: 25.23,
+        longitude: LONGITUDE,
+      },
+    ]);
+    expect(matches.size).toBe(0);
+  });
+});
+
+describe("formatDistance", () => {
+  it("shows meters under a kilometer", () => {
+    expect(formatDistance(849.6)).toBe("850 m");
+    expect(formatDistance(12400)).toBe("12.4 km");
+  });
+});
+
+describe("formatDuration", () => {
+  it("shows minutes under an hour", () => {
+    expect(formatDuration(45 * 60 * 1000)).toBe("45 min");
+    expect(formatDuration(130 * 60 * 1000)).toBe("2h 10m");
+    expect(formatDuration(120 * 60 * 1000)).toBe("2h");
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  buildDispositionReport,
+  DispositionRecord,
+  normalizeDispositions,
+} from "../dispositionReport";
+
+// Hours are grouped in the device's time zone, so build times in it too
+const at = (hour: number) => new Date(2026, 2, 2, hour, 15).toISOString();
+
+const record = (
+  overrides: Partial<DispositionRecord> = {}
+): DispositionRecord => ({
+  sessionId: "session",
+  leadId: "lead",
+  agentId: "agent-1",
+  agentName: "Sara",
+  status: "Interested",
+  answered: true,
+  meetingAdded: false,
+  disposedAt: at(10),
+  ...overrides,
+});
+
+describe("normalizeDispositions", () => {
+  it("reads the list at the top level or under data", () => {
+    const item = { status: "RNR", disposedAt: at(9), agentId: "agent-1" };
+    expect(normalizeDispositions([item])).toHaveLength(1);
+    expect(normalizeDispositions({ data: [item] })).toHaveLength(1);
+    expect(normalizeDispositions({ data: null })).toEqual([]);
+  });
+
+  it("fills in agents from nested users and keeps unknown call states", () => {
+    const [first, second] = normalizeDispositions([
+      {
+        Status: "Interested",
+        disposedAt: at(9),
+        agent: { _id: "agent-2", username: "Omar" },
+        answered: "yes",
+      },
+      { status: "RNR", disposedAt: at(9), userId: "agent-3" },
+    ]);
+    expect(first).toMatchObject({
+      agentId: "agent-2",
+      agentName: "Omar",
+      status: "Interested",
+      answered: null,
+      meetingAdded: false,
+    });
+    expect(second).toMatchObject({ agentId: "agent-3", agentName: "Unknown" });
+  });
+
+  it("drops records without a status or time", () => {
+    expect(
+      normalizeDispositions([{ status: "RNR" }, { disposedAt: at(9) }, null])
+    ).toEqual([]);
+  });
+});
+
+describe("buildDispositionReport", () => {
+  it("counts each funnel stage as a share of all calls", () => {
+    const { funnel } = buildDispositionReport([
+      record({ status: "RNR" }),
+      record({ status: "New", answered: false }),
+      record({ status: "Not Interested" }),
+      record({ status: "Interested" }),
+      record({ status: "Interested", meetingAdded: true }),
+      record({ status: "Meeting Scheduled" }),
+    ]);
+    expect(
+      funnel.map(({ stage, count, percent }) => [stage, count, percent])
+    ).toEqual([
+      ["calls", 6, 100],
+      ["rnr", 2, 33],
+      ["interested", 3, 50],
+      ["meetingBooked", 2, 33],
+    ]);
+  });
+
+  it("ranks agents by conversion rate, then by calls", () => {
+    const { byAgent } = buildDispositionReport([
+      record({ agentId: "agent-1", agentName: "Sara", status: "RNR" }),
+      record({ agentId: "agent-1", agentName: "Sara" }),
+      record({ agentId: "agent-2", agentName: "Omar" }),
+      record({ agentId: "agent-3", agentName: "Lina", status: "RNR" }),
+      record({ agentId: "agent-3", agentName: "Lina", status: "RNR" }),
+      record({ agentId: "agent-3", agentName: "Lina" }),
+      record({ agentId: "agent-3", agentName: "Lina" }),
+    ]);
+    expect(
+      byAgent.map(({ label, calls, interested, conversionRate }) => [
+        label,
+        calls,
+        interested,
+        conversionRate,
+      ])
+    ).toEqual([
+      ["Omar", 1, 1, 100],
+      ["Lina", 4, 2, 50],
+      ["Sara", 2, 1, 50],
+    ]);
+  });
+
+  it("groups calls by hour of the day in order", () => {
+    const { byHour } = buildDispositionReport([
+      record({ disposedAt: at(14), status: "RNR" }),
+      record({ disposedAt: at(9) }),
+      record({ disposedAt: at(14), meetingAdded: true }),
+      record({ disposedAt: at(0) }),
+    ]);
+    expect(
+      byHour.map(({ label, calls, meetingsBooked }) => [
+        label,
+        calls,
+        meetingsBooked,
+      ])
+    ).toEqual([
+      ["12 AM", 1, 0],
+      ["9 AM", 1, 0],
+      ["2 PM", 2, 1],
+    ]);
+  });
+
+  it("reports zero rates without calls", () => {
+    const report = buildDispositionReport([]);
+    expect(report.funnel.every((step) => step.percent === 0)).toBe(true);
+    expect(report.byAgent).toEqual([]);
+    expect(report.byHour).toEqual([]);
+  });
+});
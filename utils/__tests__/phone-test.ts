@@ -0,0 +1,98 @@
+import {
+  getLeadPhone,
+  getLeadPhoneIssues,
+  isSamePhone,
+  parsePhone,
+} from "../phone";
+
+describe("parsePhone", () => {
+  it("reads local numbers in the default region", () => {
+    const parsed = parsePhone("0501234567");
+    expect(parsed?.e164).toBe("+971501234567");
+    expect(parsed?.digits).toBe("971501234567");
+    expect(parsed?.country).toBe("AE");
+    expect(parsed?.isValid).toBe(true);
+  });
+
+  it("reads numbers with a plus, 00 or a missing plus as international", () => {
+    expect(parsePhone("+44 20 7946 0958")?.e164).toBe("+442079460958");
+    expect(parsePhone("00971501234567")?.e164).toBe("+971501234567");
+    expect(parsePhone("971501234567")?.e164).toBe("+971501234567");
+  });
+
+  it("reads local numbers in the region it is given", () => {
+    expect(parsePhone("020 7946 0958", "GB")?.e164).toBe("+442079460958");
+  });
+
+  it("flags landlines", () => {
+    expect(parsePhone("042345678")?.isLandline).toBe(true);
+    expect(parsePhone("0501234567")?.isLandline).toBe(false);
+  });
+
+  it("returns null for empty and masked numbers", () => {
+    expect(parsePhone("")).toBeNull();
+    expect(parsePhone(null)).toBeNull();
+    expect(parsePhone("***4567")).toBeNull();
+  });
+
+  it("keeps numbers that don't parse as invalid", () => {
+    const parsed = parsePhone("12");
+    expect(parsed?.raw).toBe("12");
+    expect(parsed?.isValid).toBe(false);
+  });
+});
+
+describe("isSamePhone", () => {
+  it("matches the same line written differently", () => {
+    expect(isSamePhone("0501234567", "+971 50 123 4567")).toBe(true);
+    expect(isSamePhone("00971501234567", "971501234567")).toBe(true);
+  });
+
+  it("doesn't match different numbers", () => {
+    expect(isSamePhone("0501234567", "0501234568")).toBe(false);
+  });
+
+  it("compares the last digits of numbers that don't parse", () => {
+    expect(isSamePhone("99 123456789", "123456789")).toBe(true);
+    expect(isSamePhone("123", "123")).toBe(false);
+  });
+
+  it("never matches empty or masked numbers", () => {
+    expect(isSamePhone("", "")).toBe(false);
+    expect(isSamePhone("***4567", "***4567")).toBe(false);
+  });
+});
+
+describe("getLeadPhone", () => {
+  it("falls back to AltPhone when Phone is invalid", () => {
+    expect(getLeadPhone({ Phone: "12", AltPhone: "0501234567" })?.e164).toBe(
+      "+971501234567"
+    );
+  });
+});
+
+describe("getLeadPhoneIssues", () => {
+  it("has no issues for a valid mobile number", () => {
+    expect(getLeadPhoneIssues({ Phone: "0501234567" })).toEqual([]);
+  });
+
+  it("reports invalid numbers and landlines per field", () => {
+    expect(getLeadPhoneIssues({ Phone: "12", AltPhone: "042345678" })).toEqual([
+      expect.objectContaining({ field: "Phone", issue: "invalid" }),
+      expect.objectContaining({ field: "AltPhone", issue: "landline" }),
+    ]);
+  });
+
+  it("reports AltPhone repeating Phone", () => {
+    expect(
+      getLeadPhoneIssues({ Phone: "0501234567", AltPhone: "+971501234567" })
+    ).toEqual([
+      expect.objectContaining({ field: "AltPhone", issue: "duplicate" }),
+    ]);
+  });
+
+  it("ignores missing and masked numbers", () => {
+    expect(getLeadPhoneIssues({ Phone: "***4567" })).toEqual([]);
+    expect(getLeadPhoneIssues(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { buildDialQueue, formatCountdown, isPendingLead } from "../powerDialer";
+
+const lead = (id: string, overrides: Record<string, any> = {}) => ({
+  _id: id,
+  Name: `Lead ${id}`,
+  Phone: "0501234567",
+  LeadStatus: { Status: "New" },
+  ...overrides,
+});
+
+describe("isPendingLead", () => {
+  it("treats new, RNR and status-less leads as pending", () => {
+    expect(isPendingLead(lead("1"))).toBe(true);
+    expect(isPendingLead(lead("2", { LeadStatus: { Status: "RNR" } }))).toBe(
+      true
+    );
+    expect(isPendingLead(lead("3", { LeadStatus: undefined }))).toBe(true);
+    expect(
+      isPendingLead(lead("4", { LeadStatus: { Status: "Interested" } }))
+    ).toBe(false);
+  });
+});
+
+describe("buildDialQueue", () => {
+  it("queues pending leads in campaign order with their number in E.164", () => {
+    const { queue, skipped } = buildDialQueue([
+      lead("1"),
+      lead("2", { Phone: "+44 20 7946 0958" }),
+    ]);
+    expect(queue).toEqual([
+      { id: "1", name: "Lead 1", phoneNumber: "+971501234567" },
+      { id: "2", name: "Lead 2", phoneNumber: "+442079460958" },
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("leaves out leads that were already worked", () => {
+    const { queue, skipped } = buildDialQueue([
+      lead("1", { LeadStatus: { Status: "Interested" } }),
+      lead("2", { LeadStatus: { Status: "RNR" } }),
+    ]);
+    expect(queue.map((entry) => entry.id)).toEqual(["2"]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("falls back to the alternate number when the main one doesn't parse", () => {
+    const { queue } = buildDialQueue([
+      lead("1", { Phone: "n/a", AltPhone: "0509876543" }),
+    ]);
+    expect(queue[0].phoneNumber).toBe("+971509876543");
+  });
+
+  it("skips pending leads without a usable number", () => {
+    const { queue, skipped } = buildDialQueue([
+      lead("1", { Phone: "123", Name: undefined }),
+      lead("2", { Phone: "" }),
+    ]);
+    expect(queue).toEqual([]);
+    expect(skipped).toEqual([
+      { id: "1", name: "Unnamed lead", phoneNumber: "" },
+      { id: "2", name: "Lead 2", phoneNumber: "" },
+    ]);
+  });
+});
+
+describe("formatCountdown", () => {
+  it("shows seconds under a minute and minutes past it", () => {
+    expect(formatCountdown(9)).toBe("9s");
+    expect(formatCountdown(65)).toBe("1:05");
+  });
+});
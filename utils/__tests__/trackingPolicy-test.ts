@@ -0,0 +1,128 @@
+import {
+  evaluateTrackingPolicy,
+  getTrackingRole,
+  isWithinWorkingHours,
+  ROLE_TRACKING_POLICIES,
+  TRACKING_MODE_OPTIONS,
+  TrackingInputs,
+  WorkingHours,
+} from "../trackingPolicy";
+
+// 2 March 2026 is a Monday, times are in the device's time zone
+const monday = (hour: number, minute = 0) => new Date(2026, 2, 2, hour, minute);
+const sunday = (hour: number, minute = 0) => new Date(2026, 2, 8, hour, minute);
+
+const weekdays: WorkingHours = {
+  days: [1, 2, 3, 4, 5],
+  start: "09:00",
+  end: "18:00",
+};
+const nightShift: WorkingHours = {
+  days: [1, 2, 3, 4, 5],
+  start: "22:00",
+  end: "06:00",
+};
+
+const inputs = (overrides: Partial<TrackingInputs> = {}): TrackingInputs => ({
+  now: monday(10),
+  batteryLevel: 0.8,
+  isCharging: false,
+  lowPowerMode: false,
+  isStationary: false,
+  ...overrides,
+});
+
+describe("getTrackingRole", () => {
+  it("maps user permissions to a tracking role", () => {
+    expect(getTrackingRole({ user: ["view_all", "manage"] })).toBe("admin");
+    expect(getTrackingRole({ user: ["view_all"] })).toBe("manager");
+    expect(getTrackingRole({ lead: ["view_all"] })).toBe("agent");
+    expect(getTrackingRole(null)).toBe("agent");
+  });
+});
+
+describe("isWithinWorkingHours", () => {
+  it("includes the start and excludes the end of a shift", () => {
+    expect(isWithinWorkingHours(weekdays, monday(9))).toBe(true);
+    expect(isWithinWorkingHours(weekdays, monday(17, 59))).toBe(true);
+    expect(isWithinWorkingHours(weekdays, monday(8, 59))).toBe(false);
+    expect(isWithinWorkingHours(weekdays, monday(18))).toBe(false);
+  });
+
+  it("only runs on the shift's days", () => {
+    expect(isWithinWorkingHours(weekdays, sunday(10))).toBe(false);
+  });
+
+  it("gives the early hours of an overnight shift to the day it started", () => {
+    expect(isWithinWorkingHours(nightShift, monday(23))).toBe(true);
+    // Monday morning belongs to Sunday night, which isn't a shift
+    expect(isWithinWorkingHours(nightShift, monday(2))).toBe(false);
+    expect(isWithinWorkingHours(nightShift, new Date(2026, 2, 3, 2))).toBe(
+      true
+    );
+    expect(isWithinWorkingHours(nightShift, monday(12))).toBe(false);
+  });
+});
+
+describe("evaluateTrackingPolicy", () => {
+  const policy = ROLE_TRACKING_POLICIES.agent;
+
+  it("tracks actively on shift", () => {
+    expect(evaluateTrackingPolicy(policy, inputs())).toEqual({
+      mode: "active",
+      reason: "On shift and moving",
+      options: TRACKING_MODE_OPTIONS.active,
+    });
+  });
+
+  it("pauses outside working hours", () => {
+    const decision = evaluateTrackingPolicy(
+      policy,
+      inputs({ now: monday(22) })
+    );
+    expect(decision.mode).toBe("paused");
+    expect(decision.options).toBe(TRACKING_MODE_OPTIONS.paused);
+  });
+
+  it("tracks around the clock without working hours", () => {
+    expect(
+      evaluateTrackingPolicy(
+        { ...policy, workingHours: null },
+        inputs({ now: sunday(3) })
+      ).mode
+    ).toBe("active");
+  });
+
+  it("saves power on low battery or battery saver unless charging", () => {
+    expect(
+      evaluateTrackingPolicy(policy, inputs({ batteryLevel: 0.2 })).reason
+    ).toBe("Battery at 20%");
+    expect(
+      evaluateTrackingPolicy(policy, inputs({ lowPowerMode: true })).mode
+    ).toBe("lowPower");
+    expect(
+      evaluateTrackingPolicy(
+        policy,
+        inputs({ batteryLevel: 0.1, lowPowerMode: true, isCharging: true })
+      ).mode
+    ).toBe("active");
+  });
+
+  it("ignores an unknown battery level", () => {
+    expect(
+      evaluateTrackingPolicy(policy, inputs({ batteryLevel: -1 })).mode
+    ).toBe("active");
+  });
+
+  it("puts low battery before standing still", () => {
+    expect(
+      evaluateTrackingPolicy(policy, inputs({ isStationary: true })).mode
+    ).toBe("stationary");
+    expect(
+      evaluateTrackingPolicy(
+        policy,
+        inputs({ isStationary: true, batteryLevel: 0.1 })
+      ).mode
+    ).toBe("lowPower");
+  });
+});
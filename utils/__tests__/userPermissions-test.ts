@@ -0,0 +1,83 @@
+import {
+  hasAnyPermission,
+  hasPermission,
+  normalizePermissions,
+} from "../userPermissions";
+
+describe("normalizePermissions", () => {
+  it("reads the permissions at the top level or under data", () => {
+    const payload = {
+      version: 7,
+      permissions: { lead: ["view_all", "export"], user: ["manage"] },
+    };
+    const expected = {
+      version: "7",
+      permissions: {
+        lead: ["view_all", "export"],
+        deal: undefined,
+        user: ["manage"],
+      },
+    };
+    expect(normalizePermissions(payload)).toMatchObject(expected);
+    expect(normalizePermissions({ data: payload })).toMatchObject(expected);
+  });
+
+  it("renames names older backends still send", () => {
+    expect(
+      normalizePermissions({
+        permissions: { lead: ["view_sensetive_details"] },
+      })?.permissions.lead
+    ).toEqual(["view_sensitive_details"]);
+  });
+
+  it("drops unknown names, categories and values", () => {
+    const normalized = normalizePermissions({
+      permissions: {
+        lead: ["create", "launch_rockets", 42, null],
+        deal: "view_all",
+        invoice: ["create"],
+      },
+    });
+    expect(normalized?.permissions).toEqual({
+      lead: ["create"],
+      deal: undefined,
+      user: undefined,
+    });
+  });
+
+  it("keeps an empty list as no permissions in the category", () => {
+    expect(
+      normalizePermissions({ permissions: { lead: [] } })?.permissions.lead
+    ).toEqual([]);
+  });
+
+  it("has no version when the server doesn't send one", () => {
+    expect(normalizePermissions({ permissions: {} })?.version).toBe("");
+  });
+
+  it("returns null without permissions", () => {
+    expect(normalizePermissions(null)).toBeNull();
+    expect(normalizePermissions(undefined)).toBeNull();
+    expect(normalizePermissions({})).toBeNull();
+    expect(normalizePermissions({ data: { permissions: null } })).toBeNull();
+    expect(normalizePermissions({ permissions: "lead.view_all" })).toBeNull();
+  });
+});
+
+describe("hasPermission", () => {
+  const permissions = { lead: ["view_all" as const], deal: [] };
+
+  it("checks the named category", () => {
+    expect(hasPermission(permissions, "lead.view_all")).toBe(true);
+    expect(hasPermission(permissions, "deal.view_all")).toBe(false);
+    expect(hasPermission(permissions, "user.view_all")).toBe(false);
+    expect(hasPermission(null, "lead.view_all")).toBe(false);
+  });
+
+  it("passes when any permission is granted", () => {
+    expect(
+      hasAnyPermission(permissions, ["lead.export", "lead.view_all"])
+    ).toBe(true);
+    expect(hasAnyPermission(permissions, [])).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+import { parsePhone } from "./phone";
+
+export type CallGuardLevel = "allow" | "warn" | "block";
+
+export type CallGuardCheck = "doNotCall" | "callingHours" | "attempts";
+
+export interface CallGuardReason {
+  check: CallGuardCheck;
+  level: Exclude<CallGuardLevel, "allow">;
+  message: string;
+}
+
+export interface CallGuardVerdict {
+  level: CallGuardLevel;
+  reasons: CallGuardReason[];
+}
+
+// Telemarketing rules allow calls between 8 AM and 9 PM in the lead's local time
+export const CALLING_HOURS = { start: 8, end: 21 };
+export const MAX_ATTEMPTS_PER_DAY = 3;
+
+const DO_NOT_CALL_PATTERN = /\b(do\s*not\s*call|dnc|don'?t\s*call)\b/i;
+
+// Calling code to the time zones it covers, numbers are checked against all of them
+const CALLING_CODE_TIME_ZONES: Record<string, string[]> = {
+  "1": [
+    "America/New_York",
+    "America/Chicago",
+    "America/Denver",
+    "America/Los_Angeles",
+  ],
+  "7": ["Europe/Moscow"],
+  "20": ["Africa/Cairo"],
+  "27": ["Africa/Johannesburg"],
+  "30": ["Europe/Athens"],
+  "31": ["Europe/Amsterdam"],
+  "32": ["Europe/Brussels"],
+  "33": ["Europe/Paris"],
+  "34": ["Europe/Madrid"],
+  "39": ["Europe/Rome"],
+  "41": ["Europe/Zurich"],
+  "44": ["Europe/London"],
+  "49": ["Europe/Berlin"],
+  "52": ["America/Mexico_City"],
+  "55": ["America/Sao_Paulo"],
+  "60": ["Asia/Kuala_Lumpur"],
+  "61": ["Australia/Perth", "Australia/Sydney"],
+  "62": ["Asia/Jakarta"],
+  "63": ["Asia/Manila"],
+  "64": ["Pacific/Auckland"],
+  "65": ["Asia/Singapore"],
+  "66": ["Asia/Bangkok"],
+  "81": ["Asia/Tokyo"],
+  "82": ["Asia/Seoul"],
+  "86": ["Asia/Shanghai"],
+  "90": ["Europe/Istanbul"],
+  "91": ["Asia/Kolkata"],
+  "92": ["Asia/Karachi"],
+  "94": ["Asia/Colombo"],
+  "234": ["Africa/Lagos"],
+  "254": ["Africa/Nairobi"],
+  "353": ["Europe/Dublin"],
+  "880": ["Asia/Dhaka"],
+  "961": ["Asia/Beirut"],
+  "962": ["Asia/Amman"],
+  "965": ["Asia/Kuwait"],
+  "966": ["Asia/Riyadh"],
+  "968": ["Asia/Muscat"],
+  "971": ["Asia/Dubai"],
+  "973": ["Asia/Bahrain"],
+  "974": ["Asia/Qatar"],
+  "977": ["Asia/Kathmandu"],
+};
+
+/**
+ * Time zones of a number's country, null for numbers that don't parse or unknown codes
+ */
+export const getPhoneTimeZones = (phoneNumber: string): string[] | null => {
+  const parsed = parsePhone(phoneNumber);
+  if (!parsed?.isValid || !parsed.countryCallingCode) return null;
+  return CALLING_CODE_TIME_ZONES[parsed.countryCallingCode] || null;
+};
+
+/**
+ * Hour and minute in a time zone, the device's own when none is given
+ */
+const getLocalTime = (now: Date, timeZone?: string) => {
+  if (!timeZone) return { hour: now.getHours(), minute: now.getMinutes() };
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value || 0);
+  return { hour: value("hour") % 24, minute: value("minute") };
+};
+
+const formatLocalTime = ({ hour, minute }: { hour: number; minute: number }) =>
+  `${hour % 12 || 12}:${`${minute}`.padStart(2, "0")} ${hour < 12 ? "AM" : "PM"}`;
+
+export const isDoNotCallLead = (lead: any) =>
+  DO_NOT_CALL_PATTERN.test(lead?.LeadStatus?.Status || "") ||
+  (lead?.tags || []).some((tag: any) =>
+    DO_NOT_CALL_PATTERN.test(tag?.Tag || "")
+  );
+
+/**
+ * Check a call against do-not-call, the lead's calling hours and the daily attempt limit
+ * Do-not-call and out-of-hours calls are blocked, going over the attempt limit only warns
+ * @param attemptsToday - Calls already placed to the lead today
+ */
+export const evaluateCallGuard = ({
+  lead,
+  phoneNumber,
+  attemptsToday,
+  now = new Date(),
+}: {
+  lead: any;
+  phoneNumber: string;
+  attemptsToday: number;
+  now?: Date;
+}): CallGuardVerdict => {
+  const reasons: CallGuardReason[] = [];
+
+  if (isDoNotCallLead(lead)) {
+    reasons.push({
+      check: "doNotCall",
+      level: "block",
+      message: "This lead is marked as do not call.",
+    });
+  }
+
+  const zones = getPhoneTimeZones(phoneNumber) || [undefined];
+  const outOfHours = zones
+    .map((zone) => getLocalTime(now, zone))
+    .find(
+      ({ hour }) => hour < CALLING_HOURS.start || hour >= CALLING_HOURS.end
+    );
+  if (outOfHours) {
+    reasons.push({
+      check: "callingHours",
+      level: "block",
+      message: `It's ${formatLocalTime(outOfHours)} for this lead, outside calling hours (${CALLING_HOURS.start} AM – ${CALLING_HOURS.end - 12} PM).`,
+    });
+  }
+
+  if (attemptsToday >= MAX_ATTEMPTS_PER_DAY) {
+    reasons.push({
+      check: "attempts",
+      level: "warn",
+      message: `This lead was already called ${attemptsToday} times today (limit ${MAX_ATTEMPTS_PER_DAY}).`,
+    });
+  }
+
+  const level: CallGuardLevel = reasons.some(
+    (reason) => reason.level === "block"
+  )
+    ? "block"
+    : reasons.length > 0
+      ? "warn"
+      : "allow";
+  return { level, reasons };
+};
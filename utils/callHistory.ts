@@ -0,0 +1,96 @@
+export interface CallHistoryEntry {
+  sessionId: string;
+  phoneNumber: string;
+  startedAt: string;
+  durationSeconds: number;
+  agentName: string;
+  // null when the call state wasn't known
+  answered: boolean | null;
+  // Status chosen after the call, null when the agent skipped the update
+  disposition: string | null;
+}
+
+export interface CallHistorySummary {
+  attempts: number;
+  connected: number;
+  totalTalkSeconds: number;
+  lastAttemptAt: string | null;
+  // Last call that connected
+  lastContactAt: string | null;
+}
+
+/**
+ * Turn a fetchLeadDialerSessions response into call history entries, newest first
+ * Accepts the list at the top level or under data, dispositions nested or flattened
+ */
+export const normalizeCallHistory = (response: any): CallHistoryEntry[] => {
+  const list = response?.data ?? response;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter((item) => item?.startedAt)
+    .map((item) => {
+      const disposition =
+        item.disposition ??
+        (Array.isArray(item.dispositions) ? item.dispositions[0] : null);
+      const answered =
+        typeof item.answered === "boolean"
+          ? item.answered
+          : typeof disposition?.answered === "boolean"
+            ? disposition.answered
+            : null;
+      return {
+        sessionId: item.sessionId || item._id || "",
+        phoneNumber: item.phoneNumber || "",
+        startedAt: item.startedAt,
+        durationSeconds: Math.max(0, Number(item.durationSeconds) || 0),
+        agentName:
+          item.agentName ||
+          item.agent?.username ||
+          item.user?.username ||
+          item.username ||
+          "Unknown",
+        answered,
+        disposition:
+          (typeof disposition === "string"
+            ? disposition
+            : disposition?.status || disposition?.Status) || null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+    );
+};
+
+// Calls with talk time connected even when the call state wasn't recorded
+export const isCallConnected = (entry: CallHistoryEntry) =>
+  entry.answered ?? entry.durationSeconds > 0;
+
+/**
+ * Total attempts, connected calls and talk time, and when the lead was last called and reached
+ * @param entries - Newest first, as returned by normalizeCallHistory
+ */
+export const summarizeCallHistory = (
+  entries: CallHistoryEntry[]
+): CallHistorySummary => {
+  const connected = entries.filter(isCallConnected);
+  return {
+    attempts: entries.length,
+    connected: connected.length,
+    totalTalkSeconds: connected.reduce(
+      (total, entry) => total + entry.durationSeconds,
+      0
+    ),
+    lastAttemptAt: entries[0]?.startedAt || null,
+    lastContactAt: connected[0]?.startedAt || null,
+  };
+};
+
+/**
+ * Format a call duration as "45s" or "3m 12s"
+ */
+export const formatCallDuration = (seconds: number) =>
+  seconds >= 60
+    ? `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+    : `${seconds}s`;
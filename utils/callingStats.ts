@@ -0,0 +1,153 @@
+export type StatsPeriod = "day" | "week" | "month";
+
+export interface DateRange {
+  // YYYY-MM-DD, both ends inclusive
+  startDate: string;
+  endDate: string;
+}
+
+export interface CallingStats {
+  totalCalls: number;
+  talkTimeSeconds: number;
+  averageCallSeconds: number;
+  // null when the response doesn't say when calls happened
+  callsPerHour: number | null;
+}
+
+export const EMPTY_CALLING_STATS: CallingStats = {
+  totalCalls: 0,
+  talkTimeSeconds: 0,
+  averageCallSeconds: 0,
+  callsPerHour: null,
+};
+
+export const STATS_PERIOD_LABELS: Record<
+  StatsPeriod,
+  { current: string; previous: string }
+> = {
+  day: { current: "Today", previous: "yesterday" },
+  week: { current: "This Week", previous: "the same days last week" },
+  month: { current: "This Month", previous: "the same days last month" },
+};
+
+const formatDate = (date: Date) => {
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Get the date range of the current period and the same span of the one before it
+ * Weeks start on Monday, a week or month so far is compared with as many days of the previous one
+ */
+export const getPeriodRanges = (
+  period: StatsPeriod,
+  now: Date = new Date()
+): { current: DateRange; previous: DateRange } => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (period === "day") {
+    const yesterday = addDays(today, -1);
+    return {
+      current: { startDate: formatDate(today), endDate: formatDate(today) },
+      previous: {
+        startDate: formatDate(yesterday),
+        endDate: formatDate(yesterday),
+      },
+    };
+  }
+
+  if (period === "week") {
+    const start = addDays(today, -((today.getDay() + 6) % 7));
+    return {
+      current: { startDate: formatDate(start), endDate: formatDate(today) },
+      previous: {
+        startDate: formatDate(addDays(start, -7)),
+        endDate: formatDate(addDays(today, -7)),
+      },
+    };
+  }
+
+  const start = new Date(today.getFullYear(), today.getMonth(), 1);
+  const previousStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  // The 31st of a month compares with the last day of a shorter one
+  const previousEnd = new Date(
+    previousStart.getFullYear(),
+    previousStart.getMonth(),
+    Math.min(today.getDate(), addDays(start, -1).getDate())
+  );
+  return {
+    current: { startDate: formatDate(start), endDate: formatDate(today) },
+    previous: {
+      startDate: formatDate(previousStart),
+      endDate: formatDate(previousEnd),
+    },
+  };
+};
+
+const toNumber = (...values: any[]): number | null => {
+  for (const value of values) {
+    const number = Number(value);
+    if (value !== undefined && value !== null && Number.isFinite(number)) {
+      return number;
+    }
+  }
+  return null;
+};
+
+/**
+ * Turn a getDialerSessionStats response into calling stats
+ * Accepts the stats at the top level or under data
+ */
+export const normalizeDialerStats = (response: any): CallingStats => {
+  const stats = response?.data ?? response ?? {};
+
+  const totalCalls =
+    toNumber(stats.totalCalls, stats.totalSessions, stats.callCount) ?? 0;
+  const talkTimeSeconds =
+    toNumber(stats.totalDurationSeconds, stats.totalDuration) ?? 0;
+  const averageCallSeconds =
+    toNumber(stats.averageDurationSeconds, stats.averageDuration) ??
+    (totalCalls > 0 ? talkTimeSeconds / totalCalls : 0);
+
+  // Calls per hour of the span between the first and the last call
+  let callsPerHour = toNumber(stats.callsPerHour);
+  if (callsPerHour === null && stats.firstCallAt && stats.lastCallAt) {
+    const spanHours =
+      (new Date(stats.lastCallAt).getTime() -
+        new Date(stats.firstCallAt).getTime()) /
+      (60 * 60 * 1000);
+    callsPerHour = totalCalls / Math.max(1, spanHours);
+  }
+
+  return { totalCalls, talkTimeSeconds, averageCallSeconds, callsPerHour };
+};
+
+/**
+ * Format seconds as "1h 05m", "12m 30s" or "45s"
+ */
+export const formatTalkTime = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const remainder = total % 60;
+
+  if (hours > 0) return `${hours}h ${`${minutes}`.padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m ${`${remainder}`.padStart(2, "0")}s`;
+  return `${remainder}s`;
+};
+
+/**
+ * Percentage change from the previous value, null when there is nothing to compare with
+ */
+export const percentChange = (
+  current: number,
+  previous: number
+): number | null =>
+  previous > 0 ? Math.round(((current - previous) / previous) * 100) : null;
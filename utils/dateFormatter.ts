@@ -39,25 +39,6 @@ export const formatTimestamp = (timestamp: string | Date) => {
   }
 };
 
-export const formatPhoneNumber = (phoneNumber: string) => {
-  if (!phoneNumber) return '';
-  
-  // Remove any non-digit characters except '+'
-  const cleaned = phoneNumber.replace(/[^\d+]/g, '');
-  
-  // If it starts with +, keep it
-  if (cleaned.startsWith('+')) {
-    return cleaned;
-  }
-  
-  // If it's a long number without +, assume it needs country code
-  if (cleaned.length > 10) {
-    return `+${cleaned}`;
-  }
-  
-  return cleaned;
-};
-
 export const formatTimeAgo = (dateString: string | Date) => {
   if (!dateString) return "";
 
@@ -0,0 +1,222 @@
+import { LocationHistoryPoint } from "../services/locationHistory";
+import { getDistance } from "./geo";
+
+// Points within this distance of a stop's centre belong to the stop
+const STOP_RADIUS_M = 100;
+// Shorter pauses (traffic lights, parking) are not stops
+const MIN_DWELL_MS = 5 * 60 * 1000;
+// Fixes less accurate than this make stops drift and inflate the distance
+const MAX_ACCURACY_M = 200;
+// A meeting matches a stop this close to its geocoded location
+const MEETING_MATCH_RADIUS_M = 300;
+// ...that overlaps the meeting time give or take this much
+const MEETING_MATCH_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+export interface DayStop {
+  latitude: number;
+  longitude: number;
+  arrivedAt: string;
+  leftAt: string;
+  durationMs: number;
+  pointCount: number;
+}
+
+export interface DayTravel {
+  from: string;
+  to: string;
+  distanceM: number;
+  durationMs: number;
+}
+
+export type DayTimelineEntry =
+  | { type: "stop"; stop: DayStop }
+  | { type: "travel"; travel: DayTravel };
+
+export interface DayRoute {
+  timeline: DayTimelineEntry[];
+  stops: DayStop[];
+  totalDistanceM: number;
+}
+
+export interface MeetingWithCoordinates {
+  id: string;
+  date: string;
+  latitude: number;
+  longitude: number;
+}
+
+const time = (point: LocationHistoryPoint) =>
+  new Date(point.timestamp).getTime();
+
+const distanceBetween = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+) => getDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+
+const toStop = (cluster: LocationHistoryPoint[]): DayStop => {
+  const first = cluster[0];
+  const last = cluster[cluster.length - 1];
+  return {
+    latitude:
+      cluster.reduce((sum, point) => sum + point.latitude, 0) / cluster.length,
+    longitude:
+      cluster.reduce((sum, point) => sum + point.longitude, 0) / cluster.length,
+    arrivedAt: first.timestamp,
+    leftAt: last.timestamp,
+    durationMs: time(last) - time(first),
+    pointCount: cluster.length,
+  };
+};
+
+const pathDistance = (points: LocationHistoryPoint[]) =>
+  points.reduce(
+    (sum, point, index) =>
+      index === 0 ? sum : sum + distanceBetween(points[index - 1], point),
+    0
+  );
+
+/**
+ * Turn a day's location points into stops and the travel between them
+ * Consecutive points that stay within STOP_RADIUS_M of their centre for at least
+ * MIN_DWELL_MS form a stop
+ * @param points - Points for one day, oldest first
+ */
+export const buildDayRoute = (points: LocationHistoryPoint[]): DayRoute => {
+  const usable = points.filter(
+    (point) => point.accuracy === null || point.accuracy <= MAX_ACCURACY_M
+  );
+
+  const stops: DayStop[] = [];
+  // Index ranges of each stop so travel can be measured between them
+  const stopRanges: [number, number][] = [];
+
+  let clusterStart = 0;
+  let centre = usable[0];
+
+  const closeCluster = (end: number) => {
+    const cluster = usable.slice(clusterStart, end);
+    if (
+      cluster.length > 0 &&
+      time(cluster[cluster.length - 1]) - time(cluster[0]) >= MIN_DWELL_MS
+    ) {
+      stops.push(toStop(cluster));
+      stopRanges.push([clusterStart, end - 1]);
+    }
+  };
+
+  usable.forEach((point, index) => {
+    if (index === 0) return;
+
+    if (distanceBetween(centre, point) <= STOP_RADIUS_M) {
+      // Move the centre towards the new point so slow drift stays in the stop
+      const size = index - clusterStart + 1;
+      centre = {
+        ...point,
+        latitude: centre.latitude + (point.latitude - centre.latitude) / size,
+        longitude:
+          centre.longitude + (point.longitude - centre.longitude) / size,
+      };
+      return;
+    }
+
+    closeCluster(index);
+    clusterStart = index;
+    centre = point;
+  });
+  closeCluster(usable.length);
+
+  const timeline: DayTimelineEntry[] = [];
+  let previousEnd = 0;
+  stopRanges.forEach(([start, end], index) => {
+    if (start > previousEnd) {
+      const leg = usable.slice(previousEnd, start + 1);
+      timeline.push({
+        type: "travel",
+        travel: {
+          from: leg[0].timestamp,
+          to: leg[leg.length - 1].timestamp,
+          distanceM: pathDistance(leg),
+          durationMs: time(leg[leg.length - 1]) - time(leg[0]),
+        },
+      });
+    }
+    timeline.push({ type: "stop", stop: stops[index] });
+    previousEnd = end;
+  });
+
+  if (usable.length > 0 && previousEnd < usable.length - 1) {
+    const leg = usable.slice(previousEnd);
+    timeline.push({
+      type: "travel",
+      travel: {
+        from: leg[0].timestamp,
+        to: leg[leg.length - 1].timestamp,
+        distanceM: pathDistance(leg),
+        durationMs: time(leg[leg.length - 1]) - time(leg[0]),
+      },
+    });
+  }
+
+  return {
+    timeline,
+    stops,
+    totalDistanceM: timeline.reduce(
+      (sum, entry) =>
+        entry.type === "travel" ? sum + entry.travel.distanceM : sum,
+      0
+    ),
+  };
+};
+
+/**
+ * Find the stop where each meeting took place
+ * A meeting matches the closest stop near its location that overlaps the meeting time
+ * @returns Meeting ID to the matched stop
+ */
+export const matchMeetingsToStops = (
+  stops: DayStop[],
+  meetings: MeetingWithCoordinates[]
+): Map<string, DayStop> => {
+  const matches = new Map<string, DayStop>();
+
+  meetings.forEach((meeting) => {
+    const meetingTime = new Date(meeting.date).getTime();
+    let best: { stop: DayStop; distance: number } | null = null;
+
+    for (const stop of stops) {
+      const overlaps =
+        new Date(stop.arrivedAt).getTime() <=
+          meetingTime + MEETING_MATCH_WINDOW_MS &&
+        new Date(stop.leftAt).getTime() >=
+          meetingTime - MEETING_MATCH_WINDOW_MS;
+      if (!overlaps) continue;
+
+      const distance = distanceBetween(stop, meeting);
+      if (distance > MEETING_MATCH_RADIUS_M) continue;
+      if (!best || distance < best.distance) best = { stop, distance };
+    }
+
+    if (best) matches.set(meeting.id, best.stop);
+  });
+
+  return matches;
+};
+
+/**
+ * Format metres as "850 m" or "12.4 km"
+ */
+export const formatDistance = (meters: number): string =>
+  meters < 1000
+    ? `${Math.round(meters)} m`
+    : `${(meters / 1000).toFixed(1)} km`;
+
+/**
+ * Format a duration as "45 min" or "2h 10m"
+ */
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 60) return `${totalMinutes} min`;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+};
@@ -0,0 +1,99 @@
+import { TrackingMode } from "./trackingPolicy";
+
+export type HealthLevel = "ok" | "warning" | "error";
+
+export interface HealthCheck {
+  level: HealthLevel;
+  summary: string;
+}
+
+export interface PushHealthInputs {
+  permissionGranted: boolean;
+  subscriptionId: string | null;
+  optedIn: boolean;
+  // Player ID the server has for this device's session, undefined when it isn't known
+  serverPlayerId?: string | null;
+}
+
+export interface LocationHealthInputs {
+  foregroundGranted: boolean;
+  backgroundGranted: boolean;
+  updatesRunning: boolean;
+  // null before the tracking policy first ran
+  mode: TrackingMode | null;
+  pendingCount: number;
+  lagMs: number;
+  lastUploadError: string | null;
+}
+
+// Points this far behind mean uploads are stuck rather than just batched
+const UPLOAD_LAG_WARNING_MS = 30 * 60 * 1000;
+
+export const HEALTH_LEVEL_COLORS: Record<HealthLevel, string> = {
+  ok: "#16A34A",
+  warning: "#D97706",
+  error: "#DC2626",
+};
+
+/**
+ * Check that pushes can reach this device
+ * A mismatched server player ID means pushes go to an old subscription
+ */
+export const evaluatePushHealth = ({
+  permissionGranted,
+  subscriptionId,
+  optedIn,
+  serverPlayerId,
+}: PushHealthInputs): HealthCheck => {
+  if (!permissionGranted) {
+    return { level: "error", summary: "Notifications are turned off" };
+  }
+  if (!subscriptionId || !optedIn) {
+    return { level: "error", summary: "Not subscribed to notifications" };
+  }
+  if (serverPlayerId !== undefined && serverPlayerId !== subscriptionId) {
+    return {
+      level: "warning",
+      summary: "The server doesn't have this device's subscription",
+    };
+  }
+  return { level: "ok", summary: "Receiving notifications" };
+};
+
+/**
+ * Check that background tracking runs when the policy wants it and that points reach the server
+ */
+export const evaluateLocationHealth = ({
+  foregroundGranted,
+  backgroundGranted,
+  updatesRunning,
+  mode,
+  pendingCount,
+  lagMs,
+  lastUploadError,
+}: LocationHealthInputs): HealthCheck => {
+  if (!foregroundGranted) {
+    return { level: "error", summary: "Location access is turned off" };
+  }
+  if (!backgroundGranted) {
+    return {
+      level: "error",
+      summary: "Location is only allowed while the app is open",
+    };
+  }
+  if (mode === "paused") {
+    return { level: "ok", summary: "Paused outside working hours" };
+  }
+  if (!mode || !updatesRunning) {
+    return { level: "error", summary: "Background tracking isn't running" };
+  }
+  if (pendingCount > 0 && (lagMs >= UPLOAD_LAG_WARNING_MS || lastUploadError)) {
+    return {
+      level: "warning",
+      summary: `${pendingCount} point${
+        pendingCount === 1 ? "" : "s"
+      } waiting to upload`,
+    };
+  }
+  return { level: "ok", summary: "Tracking and uploading" };
+};
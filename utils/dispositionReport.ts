@@ -0,0 +1,154 @@
+export interface DispositionRecord {
+  sessionId: string;
+  leadId: string;
+  agentId: string;
+  agentName: string;
+  status: string;
+  // null when the call state wasn't known
+  answered: boolean | null;
+  meetingAdded: boolean;
+  disposedAt: string;
+}
+
+export type FunnelStage = "calls" | "rnr" | "interested" | "meetingBooked";
+
+export interface FunnelStep {
+  stage: FunnelStage;
+  label: string;
+  count: number;
+  // Share of all calls, 0-100
+  percent: number;
+}
+
+export interface ConversionRow {
+  key: string;
+  label: string;
+  calls: number;
+  interested: number;
+  meetingsBooked: number;
+  // Interested calls out of all calls, 0-100
+  conversionRate: number;
+}
+
+export interface DispositionReport {
+  funnel: FunnelStep[];
+  byAgent: ConversionRow[];
+  byHour: ConversionRow[];
+}
+
+const FUNNEL_LABELS: Record<FunnelStage, string> = {
+  calls: "Calls",
+  rnr: "RNR",
+  interested: "Interested",
+  meetingBooked: "Meeting Booked",
+};
+
+const isRnr = (record: DispositionRecord) =>
+  record.status.toUpperCase() === "RNR" || record.answered === false;
+
+const isMeetingBooked = (record: DispositionRecord) =>
+  record.meetingAdded || /meeting/i.test(record.status);
+
+// A booked meeting counts as interested as well
+const isInterested = (record: DispositionRecord) =>
+  isMeetingBooked(record) ||
+  (/interest/i.test(record.status) && !/not\s*interest/i.test(record.status));
+
+/**
+ * Turn a fetchCampaignDispositions response into disposition records
+ * Accepts the list at the top level or under data
+ */
+export const normalizeDispositions = (response: any): DispositionRecord[] => {
+  const list = response?.data ?? response;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter((item) => item?.disposedAt && (item.status || item.Status))
+    .map((item) => ({
+      sessionId: item.sessionId || "",
+      leadId: item.leadId || "",
+      agentId: item.agentId || item.userId || item.agent?._id || "",
+      agentName:
+        item.agentName || item.agent?.username || item.username || "Unknown",
+      status: item.status || item.Status,
+      answered: typeof item.answered === "boolean" ? item.answered : null,
+      meetingAdded: !!item.meetingAdded,
+      disposedAt: item.disposedAt,
+    }));
+};
+
+const percent = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 100) : 0;
+
+const toConversionRows = (
+  groups: Map<string, { label: string; records: DispositionRecord[] }>
+): ConversionRow[] =>
+  Array.from(groups.entries()).map(([key, { label, records }]) => {
+    const interested = records.filter(isInterested).length;
+    return {
+      key,
+      label,
+      calls: records.length,
+      interested,
+      meetingsBooked: records.filter(isMeetingBooked).length,
+      conversionRate: percent(interested, records.length),
+    };
+  });
+
+const formatHour = (hour: number) => {
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 || 12} ${suffix}`;
+};
+
+/**
+ * Build the funnel and the conversion rate per agent and per hour of the day
+ * Hours are in the device's time zone
+ */
+export const buildDispositionReport = (
+  records: DispositionRecord[]
+): DispositionReport => {
+  const counts: Record<FunnelStage, number> = {
+    calls: records.length,
+    rnr: records.filter(isRnr).length,
+    interested: records.filter(isInterested).length,
+    meetingBooked: records.filter(isMeetingBooked).length,
+  };
+  const funnel = (Object.keys(FUNNEL_LABELS) as FunnelStage[]).map((stage) => ({
+    stage,
+    label: FUNNEL_LABELS[stage],
+    count: counts[stage],
+    percent: percent(counts[stage], records.length),
+  }));
+
+  const agents = new Map<
+    string,
+    { label: string; records: DispositionRecord[] }
+  >();
+  const hours = new Map<
+    string,
+    { label: string; records: DispositionRecord[] }
+  >();
+
+  records.forEach((record) => {
+    const agentKey = record.agentId || record.agentName;
+    if (!agents.has(agentKey)) {
+      agents.set(agentKey, { label: record.agentName, records: [] });
+    }
+    agents.get(agentKey)!.records.push(record);
+
+    const hour = new Date(record.disposedAt).getHours();
+    const hourKey = `${hour}`.padStart(2, "0");
+    if (!hours.has(hourKey)) {
+      hours.set(hourKey, { label: formatHour(hour), records: [] });
+    }
+    hours.get(hourKey)!.records.push(record);
+  });
+
+  return {
+    funnel,
+    byAgent: toConversionRows(agents).sort(
+      (a, b) => b.conversionRate - a.conversionRate || b.calls - a.calls
+    ),
+    byHour: toConversionRows(hours).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+};
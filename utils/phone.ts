@@ -0,0 +1,190 @@
+import {
+  CountryCode,
+  getCountries,
+  parsePhoneNumberFromString,
+} from "libphonenumber-js/max";
+
+export type PhoneIssue = "invalid" | "landline" | "duplicate";
+
+export interface ParsedPhone {
+  raw: string;
+  // +971501234567, null when the number can't be parsed
+  e164: string | null;
+  // Digits of e164 without the plus, as WhatsApp expects them
+  digits: string | null;
+  countryCallingCode: string | null;
+  country: CountryCode | null;
+  isValid: boolean;
+  // Only true for numbers known to be fixed line, not for ones that may be either
+  isLandline: boolean;
+}
+
+export interface LeadPhoneIssue {
+  field: "Phone" | "AltPhone";
+  issue: PhoneIssue;
+  message: string;
+}
+
+const SUPPORTED_COUNTRIES = new Set<string>(getCountries());
+
+// Most leads are entered in UAE local format, e.g. 0501234567
+const FALLBACK_PHONE_REGION: CountryCode = "AE";
+
+/**
+ * Region numbers without a country code belong to, set per build through EXPO_PUBLIC_DEFAULT_PHONE_REGION
+ * Not the device locale, which is usually en-US whatever market the agent works in
+ */
+const getDefaultRegion = (): CountryCode => {
+  const region = (process.env.EXPO_PUBLIC_DEFAULT_PHONE_REGION || "")
+    .trim()
+    .toUpperCase();
+  return SUPPORTED_COUNTRIES.has(region)
+    ? (region as CountryCode)
+    : FALLBACK_PHONE_REGION;
+};
+
+export const DEFAULT_PHONE_REGION = getDefaultRegion();
+
+// Masked numbers are sent for leads the agent may not contact directly
+export const isMaskedPhone = (phoneNumber?: string | null) =>
+  !!phoneNumber && phoneNumber.startsWith("***");
+
+/**
+ * Parse a phone number to E.164
+ * Numbers without a country code are read in the default region, long ones
+ * are read as international numbers missing their plus
+ * @returns null for empty and masked numbers
+ */
+export const parsePhone = (
+  phoneNumber?: string | null,
+  region: CountryCode = DEFAULT_PHONE_REGION
+): ParsedPhone | null => {
+  if (!phoneNumber || isMaskedPhone(phoneNumber)) return null;
+
+  const raw = String(phoneNumber).trim();
+  const cleaned = raw.replace(/[^\d+]/g, "").replace(/^00/, "+");
+  if (!cleaned) return null;
+
+  const candidates = cleaned.startsWith("+")
+    ? [parsePhoneNumberFromString(cleaned)]
+    : [
+        parsePhoneNumberFromString(cleaned, region),
+        parsePhoneNumberFromString(`+${cleaned}`),
+      ];
+  const parsed =
+    candidates.find((candidate) => candidate?.isValid()) || candidates[0];
+
+  if (!parsed) {
+    return {
+      raw,
+      e164: null,
+      digits: null,
+      countryCallingCode: null,
+      country: null,
+      isValid: false,
+      isLandline: false,
+    };
+  }
+
+  return {
+    raw,
+    e164: parsed.number,
+    digits: parsed.number.slice(1),
+    countryCallingCode: parsed.countryCallingCode,
+    country: parsed.country || null,
+    isValid: parsed.isValid(),
+    isLandline: parsed.getType() === "FIXED_LINE",
+  };
+};
+
+/**
+ * E.164 form of a valid number, null otherwise
+ */
+export const toE164 = (phoneNumber?: string | null) => {
+  const parsed = parsePhone(phoneNumber);
+  return parsed?.isValid ? parsed.e164 : null;
+};
+
+/**
+ * Format a number for display, "+971 50 123 4567"
+ * Numbers that can't be parsed are shown as they were entered
+ */
+export const formatPhoneForDisplay = (phoneNumber?: string | null) => {
+  if (!phoneNumber) return "";
+  const parsed = parsePhone(phoneNumber);
+  if (!parsed?.isValid || !parsed.e164) return String(phoneNumber);
+  return (
+    parsePhoneNumberFromString(parsed.e164)?.formatInternational() ||
+    parsed.e164
+  );
+};
+
+/**
+ * The lead's first valid number, Phone before AltPhone
+ */
+export const getLeadPhone = (lead: any): ParsedPhone | null =>
+  [lead?.Phone, lead?.AltPhone]
+    .map((phoneNumber) => parsePhone(phoneNumber))
+    .find((parsed) => parsed?.isValid) || null;
+
+/**
+ * Whether two numbers are the same line
+ * Numbers that don't parse are compared on their last 9 digits, which skips trunk and country prefixes
+ */
+export const isSamePhone = (a?: string | null, b?: string | null) => {
+  const first = parsePhone(a);
+  const second = parsePhone(b);
+  if (!first || !second) return false;
+  if (first.isValid && second.isValid) return first.e164 === second.e164;
+
+  const tail = (parsed: ParsedPhone) => parsed.raw.replace(/\D/g, "").slice(-9);
+  return tail(first).length >= 7 && tail(first) === tail(second);
+};
+
+/**
+ * Whether the number is the lead's Phone or AltPhone
+ */
+export const leadHasPhone = (lead: any, phoneNumber?: string | null) =>
+  isSamePhone(lead?.Phone, phoneNumber) ||
+  isSamePhone(lead?.AltPhone, phoneNumber);
+
+/**
+ * Problems with the lead's numbers: invalid ones, landlines and AltPhone repeating Phone
+ */
+export const getLeadPhoneIssues = (lead: any): LeadPhoneIssue[] => {
+  const issues: LeadPhoneIssue[] = [];
+  const phone = parsePhone(lead?.Phone);
+  const altPhone = parsePhone(lead?.AltPhone);
+
+  (
+    [
+      ["Phone", phone],
+      ["AltPhone", altPhone],
+    ] as const
+  ).forEach(([field, parsed]) => {
+    if (!parsed) return;
+    if (!parsed.isValid) {
+      issues.push({
+        field,
+        issue: "invalid",
+        message: `${parsed.raw} is not a valid phone number`,
+      });
+    } else if (parsed.isLandline) {
+      issues.push({
+        field,
+        issue: "landline",
+        message: "Landline, can't receive WhatsApp or SMS",
+      });
+    }
+  });
+
+  if (phone?.e164 && phone.e164 === altPhone?.e164) {
+    issues.push({
+      field: "AltPhone",
+      issue: "duplicate",
+      message: "Same number as the main phone",
+    });
+  }
+
+  return issues;
+};
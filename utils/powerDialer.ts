@@ -0,0 +1,59 @@
+import { getLeadPhone } from "./phone";
+
+export interface PowerDialerLead {
+  id: string;
+  name: string;
+  phoneNumber: string;
+}
+
+export interface PowerDialerSummary {
+  dialed: number;
+  connected: number;
+  skipped: number;
+  // Status name to number of leads set to it
+  statuses: Record<string, number>;
+}
+
+// Wrap-up countdown choices in seconds, 0 waits for the agent to continue
+export const WRAP_UP_OPTIONS = [0, 5, 10, 20, 30];
+export const DEFAULT_WRAP_UP_SECONDS = 10;
+
+// Same as the calling flow in lead details, leads that still need a call
+const PENDING_STATUSES = ["New", "RNR"];
+
+export const isPendingLead = (lead: any) => {
+  const status = lead?.LeadStatus?.Status;
+  return !status || PENDING_STATUSES.includes(status);
+};
+
+/**
+ * Turn campaign leads into the power dialer queue
+ * Only pending leads are queued, pending leads without a usable number are skipped
+ */
+export const buildDialQueue = (
+  leads: any[]
+): { queue: PowerDialerLead[]; skipped: PowerDialerLead[] } => {
+  const queue: PowerDialerLead[] = [];
+  const skipped: PowerDialerLead[] = [];
+
+  leads.filter(isPendingLead).forEach((lead) => {
+    const phoneNumber = getLeadPhone(lead)?.e164;
+    const entry = {
+      id: lead._id,
+      name: lead.Name || "Unnamed lead",
+      phoneNumber: phoneNumber || "",
+    };
+    if (phoneNumber) {
+      queue.push(entry);
+    } else {
+      skipped.push(entry);
+    }
+  });
+
+  return { queue, skipped };
+};
+
+export const formatCountdown = (seconds: number) =>
+  seconds >= 60
+    ? `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, "0")}`
+    : `${seconds}s`;
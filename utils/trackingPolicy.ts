@@ -0,0 +1,199 @@
+import * as Location from "expo-location";
+import { hasPermission, UserPermissions } from "./userPermissions";
+
+export type TrackingMode = "active" | "stationary" | "lowPower" | "paused";
+
+export type TrackingRole = "agent" | "manager" | "admin";
+
+export interface WorkingHours {
+  // Days of the week tracking runs on, 0 is Sunday
+  days: number[];
+  // Shift start and end in device local time as HH:mm
+  start: string;
+  end: string;
+}
+
+export interface TrackingPolicy {
+  // null tracks around the clock
+  workingHours: WorkingHours | null;
+  // Battery level from 0 to 1 at or below which tracking saves power
+  lowBatteryLevel: number;
+  // Time spent without moving before tracking slows down
+  stationaryAfterMs: number;
+}
+
+export interface TrackingInputs {
+  now: Date;
+  // 0 to 1, or -1 when unknown
+  batteryLevel: number;
+  isCharging: boolean;
+  lowPowerMode: boolean;
+  isStationary: boolean;
+}
+
+export interface TrackingOptions {
+  accuracy: Location.Accuracy;
+  timeInterval: number;
+  distanceInterval: number;
+  deferredUpdatesInterval: number;
+}
+
+export interface TrackingDecision {
+  mode: TrackingMode;
+  reason: string;
+  options: TrackingOptions;
+}
+
+const MONDAY_TO_SATURDAY = [1, 2, 3, 4, 5, 6];
+
+export const ROLE_TRACKING_POLICIES: Record<TrackingRole, TrackingPolicy> = {
+  agent: {
+    workingHours: { days: MONDAY_TO_SATURDAY, start: "08:00", end: "21:00" },
+    lowBatteryLevel: 0.2,
+    stationaryAfterMs: 10 * 60 * 1000,
+  },
+  manager: {
+    workingHours: { days: MONDAY_TO_SATURDAY, start: "09:00", end: "19:00" },
+    lowBatteryLevel: 0.3,
+    stationaryAfterMs: 10 * 60 * 1000,
+  },
+  admin: {
+    workingHours: { days: MONDAY_TO_SATURDAY, start: "09:00", end: "18:00" },
+    lowBatteryLevel: 0.3,
+    stationaryAfterMs: 5 * 60 * 1000,
+  },
+};
+
+export const TRACKING_MODE_OPTIONS: Record<TrackingMode, TrackingOptions> = {
+  active: {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 30000,
+    distanceInterval: 10,
+    deferredUpdatesInterval: 30000,
+  },
+  // Wakes up again once the agent moves past the distance interval
+  stationary: {
+    accuracy: Location.Accuracy.Low,
+    timeInterval: 5 * 60 * 1000,
+    distanceInterval: 50,
+    deferredUpdatesInterval: 5 * 60 * 1000,
+  },
+  lowPower: {
+    accuracy: Location.Accuracy.Low,
+    timeInterval: 2 * 60 * 1000,
+    distanceInterval: 100,
+    deferredUpdatesInterval: 2 * 60 * 1000,
+  },
+  // Off shift the updates only keep the foreground service alive, their fixes aren't recorded
+  paused: {
+    accuracy: Location.Accuracy.Lowest,
+    timeInterval: 15 * 60 * 1000,
+    distanceInterval: 1000,
+    deferredUpdatesInterval: 15 * 60 * 1000,
+  },
+};
+
+export const TRACKING_MODE_LABELS: Record<TrackingMode, string> = {
+  active: "Active",
+  stationary: "Stationary",
+  lowPower: "Power saving",
+  paused: "Paused",
+};
+
+/**
+ * Pick the policy that applies to the user from the permissions the server grants
+ * Managing users makes an admin, seeing every user's data a manager
+ */
+export const getTrackingRole = (
+  permissions: UserPermissions | null
+): TrackingRole => {
+  if (hasPermission(permissions, "user.manage")) return "admin";
+  if (hasPermission(permissions, "user.view_all")) return "manager";
+  return "agent";
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Check whether a moment falls inside the working hours
+ * Shifts that end before they start run past midnight
+ */
+export const isWithinWorkingHours = (
+  workingHours: WorkingHours,
+  now: Date
+): boolean => {
+  const start = toMinutes(workingHours.start);
+  const end = toMinutes(workingHours.end);
+  const minutes = now.getHours() * 60 + now.getMinutes();
+
+  if (start <= end) {
+    return (
+      workingHours.days.includes(now.getDay()) &&
+      minutes >= start &&
+      minutes < end
+    );
+  }
+
+  // Overnight shift, the early hours belong to the previous day's shift
+  if (minutes >= start) return workingHours.days.includes(now.getDay());
+  if (minutes < end) return workingHours.days.includes((now.getDay() + 6) % 7);
+  return false;
+};
+
+/**
+ * Decide how location should be tracked right now
+ * Outside working hours tracking pauses, otherwise low battery wins over standing still
+ */
+export const evaluateTrackingPolicy = (
+  policy: TrackingPolicy,
+  inputs: TrackingInputs
+): TrackingDecision => {
+  const { workingHours } = policy;
+
+  if (workingHours && !isWithinWorkingHours(workingHours, inputs.now)) {
+    return {
+      mode: "paused",
+      reason: `Outside working hours (${workingHours.start}–${workingHours.end})`,
+      options: TRACKING_MODE_OPTIONS.paused,
+    };
+  }
+
+  if (!inputs.isCharging) {
+    if (inputs.lowPowerMode) {
+      return {
+        mode: "lowPower",
+        reason: "Battery saver is on",
+        options: TRACKING_MODE_OPTIONS.lowPower,
+      };
+    }
+    if (
+      inputs.batteryLevel >= 0 &&
+      inputs.batteryLevel <= policy.lowBatteryLevel
+    ) {
+      return {
+        mode: "lowPower",
+        reason: `Battery at ${Math.round(inputs.batteryLevel * 100)}%`,
+        options: TRACKING_MODE_OPTIONS.lowPower,
+      };
+    }
+  }
+
+  if (inputs.isStationary) {
+    return {
+      mode: "stationary",
+      reason: `Not moved for ${Math.round(
+        policy.stationaryAfterMs / 60000
+      )} minutes`,
+      options: TRACKING_MODE_OPTIONS.stationary,
+    };
+  }
+
+  return {
+    mode: "active",
+    reason: "On shift and moving",
+    options: TRACKING_MODE_OPTIONS.active,
+  };
+};
@@ -1,65 +1,99 @@
-import * as SecureStore from "expo-secure-store";
+// Permission names the backend grants, per category
+export interface PermissionNames {
+  lead:
+    | "view_sensitive_details"
+    | "view_all"
+    | "create"
+    | "update_status"
+    | "update_source"
+    | "update_assigned"
+    | "update_tags"
+    | "update_info"
+    | "bulk_update"
+    | "export"
+    | "delete";
+  deal: "view_all" | "create" | "update" | "delete";
+  user: "view_all" | "manage";
+}
+
+export type PermissionCategory = keyof PermissionNames;
+
+export type UserPermissions = {
+  [C in PermissionCategory]?: PermissionNames[C][];
+};
 
-// Define permission types
-export interface UserPermissions {
-  lead?: string[];
-  deal?: string[];
-  user?: string[];
-  // Add more permission categories as needed
+// A single permission as "category.name", e.g. "lead.export"
+export type Permission = {
+  [C in PermissionCategory]: `${C}.${PermissionNames[C]}`;
+}[PermissionCategory];
+
+export interface VersionedPermissions {
+  // Changes whenever the server changes the user's permissions
+  version: string;
+  permissions: UserPermissions;
+  fetchedAt: string;
 }
 
-// Mock permissions - in a real app, these would come from the API/auth system
-const mockPermissions: UserPermissions = {
+// Every name the app knows, anything else in a response is dropped
+const PERMISSION_NAMES: { [C in PermissionCategory]: PermissionNames[C][] } = {
   lead: [
-    "view_sensetive_details",
+    "view_sensitive_details",
+    "view_all",
+    "create",
     "update_status",
     "update_source",
+    "update_assigned",
+    "update_tags",
     "update_info",
+    "bulk_update",
+    "export",
     "delete",
-    "create",
-    "view_all",
   ],
   deal: ["view_all", "create", "update", "delete"],
   user: ["view_all", "manage"],
 };
 
-/**
- * Get user permissions from secure storage or API
- * In a real app, this would fetch from the authentication system
- */
-export const getUserPermissions = async (): Promise<UserPermissions | null> => {
-  try {
-    // Try to get permissions from secure storage
-    const storedPermissions = await SecureStore.getItemAsync(
-      "user_permissions"
-    );
-
-    if (storedPermissions) {
-      return JSON.parse(storedPermissions);
-    }
+// Names older backends still send
+const LEGACY_NAMES: Record<string, string> = {
+  view_sensetive_details: "view_sensitive_details",
+};
 
-    // Return mock permissions for now
-    return mockPermissions;
-  } catch (error) {
-    console.error(error);
-    return mockPermissions;
-  }
+// Names the category doesn't know are dropped, undefined when the category is missing
+const readNames = <C extends PermissionCategory>(
+  category: C,
+  names: unknown
+): PermissionNames[C][] | undefined => {
+  if (!Array.isArray(names)) return undefined;
+  const known: string[] = PERMISSION_NAMES[category];
+  return names
+    .filter((name): name is string => typeof name === "string")
+    .map((name) => LEGACY_NAMES[name] || name)
+    .filter((name): name is PermissionNames[C] => known.includes(name));
 };
 
 /**
- * Store user permissions in secure storage
+ * Turn a fetchUserPermissions response into versioned permissions
+ * Accepts the payload at the top level or under data, unknown categories and names are dropped
+ * @returns null when the response has no permissions
  */
-export const storeUserPermissions = async (
-  permissions: UserPermissions
-): Promise<void> => {
-  try {
-    await SecureStore.setItemAsync(
-      "user_permissions",
-      JSON.stringify(permissions)
-    );
-  } catch (error) {
-    console.error(error);
-  }
+export const normalizePermissions = (
+  response: any
+): VersionedPermissions | null => {
+  const payload = response?.data ?? response;
+  const source = payload?.permissions;
+  if (!source || typeof source !== "object") return null;
+
+  const permissions: UserPermissions = {
+    lead: readNames("lead", source.lead),
+    deal: readNames("deal", source.deal),
+    user: readNames("user", source.user),
+  };
+
+  return {
+    version: `${payload.version ?? ""}`,
+    permissions,
+    fetchedAt: new Date().toISOString(),
+  };
 };
 
 /**
@@ -67,14 +101,17 @@ export const storeUserPermissions = async (
  */
 export const hasPermission = (
   permissions: UserPermissions | null,
-  category: keyof UserPermissions,
-  permission: string
+  permission: Permission
 ): boolean => {
-  if (!permissions || !permissions[category]) {
-    return false;
-  }
+  if (!permissions) return false;
 
-  return permissions[category]!.includes(permission);
+  const [category, name] = permission.split(".") as [
+    PermissionCategory,
+    string,
+  ];
+  return (
+    (permissions[category] as string[] | undefined)?.includes(name) ?? false
+  );
 };
 
 /**
@@ -82,28 +119,6 @@ export const hasPermission = (
  */
 export const hasAnyPermission = (
   permissions: UserPermissions | null,
-  category: keyof UserPermissions,
-  permissionList: string[]
-): boolean => {
-  if (!permissions || !permissions[category]) {
-    return false;
-  }
-
-  return permissionList.some((permission) =>
-    permissions[category]!.includes(permission)
-  );
-};
-
-/**
- * Get all permissions for a category
- */
-export const getPermissionsForCategory = (
-  permissions: UserPermissions | null,
-  category: keyof UserPermissions
-): string[] => {
-  if (!permissions || !permissions[category]) {
-    return [];
-  }
-
-  return permissions[category]!;
-};
+  permissionList: Permission[]
+): boolean =>
+  permissionList.some((permission) => hasPermission(permissions, permission));